@@ -0,0 +1,16 @@
+import TempleJsonLd from "../components/TempleJsonLd";
+
+// Only the home page is in this group, so the temple's structured data is
+// not repeated on every page
+export default function HomeLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  return (
+    <>
+      <TempleJsonLd />
+      {children}
+    </>
+  );
+}
@@ -0,0 +1,49 @@
+'use client'
+
+import { useLocalePath, useT } from "../i18n/useT"
+import Hero from "../components/hero"
+import TodayTimings from "../components/TodayTimings"
+import Link from "next/link"
+import Image from "next/image"
+import { Analytics } from "@vercel/analytics/react"
+
+export default function Component() {
+  const t = useT("home")
+  const localePath = useLocalePath()
+
+  return (
+    <>
+      <main className="min-h-screen flex flex-col items-center p-4 sm:p-8 text-center">
+        <Hero />
+        <div className="w-full mt-6">
+          <TodayTimings showLink />
+        </div>
+        <div className="w-full max-w-6xl mt-8 sm:mt-20">
+          <div className="flex flex-col md:flex-row items-center border-4 p-4 sm:p-8 md:p-16 bg-[var(--background)] h-screen">
+            <Image
+              src="/temple4.png"
+              alt="Shrirama Temple"
+              className="w-full md:w-1/3 h-auto rounded-md mb-4 md:mb-0 md:mr-8"
+              width={240}
+              height={160}
+            />
+            <div className="flex-1">
+              <h2 className="font-bold text-lg sm:text-xl mb-4">{t("welcomeTitle")}</h2>
+              <div className="text-sm sm:text-base text-justify mb-4">
+                {t("welcomeContent")}
+              </div>
+              <Link href={localePath("/history")}>
+                <button className="bg-[var(--background)] text-[var(--foreground)] font-bold px-4 py-2 border border-[var(--border-color)] rounded-md hover:bg-[var(--border-color)] hover:text-[var(--background)] transition-all duration-300">
+                  {t("readMore")}
+                </button>
+              </Link>
+            </div>
+          </div>
+        </div>
+      </main>
+
+      {/* Include Vercel Analytics */}
+      <Analytics />
+    </>
+  )
+}
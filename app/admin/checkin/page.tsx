@@ -0,0 +1,280 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Swal from "sweetalert2";
+import LoadingSpinner from "../../components/LoadingSpinner";
+import QrScanner from "../components/QrScanner";
+import { ReceiptKind } from "../../components/Receipt";
+import { HallForm, fetchHallFormsData } from "../hallforms/hallFormData";
+import {
+  ApiSevaForm,
+  SevaForm,
+  formatSevaForm,
+  isSevaPaid,
+} from "../sevaforms/sevaFormData";
+import { NAKSHATRAS, RASHIS, bilingualName } from "../../panchanga/names";
+
+// Donation receipts are not presented at the counter, and subscriptions are
+// checked in through the seva forms generated for each date
+type CheckInKind = Exclude<ReceiptKind, "donation" | "subscription">;
+
+// Common shape shown on the check-in card for both hall and seva records
+interface CheckInRecord {
+  kind: CheckInKind;
+  id: number;
+  displayId: string;
+  name: string;
+  mobileNumber: string;
+  date: Date;
+  title: string;
+  details: string;
+  isConfirmed: boolean;
+  completedAt: Date | null;
+}
+
+const actionLabels: Record<
+  CheckInKind,
+  { action: string; done: string; unconfirmed: string }
+> = {
+  hall: {
+    action: "Mark as Arrived",
+    done: "Arrived",
+    unconfirmed: "Status: Pending – this booking has not been confirmed.",
+  },
+  seva: {
+    action: "Mark as Performed",
+    done: "Performed",
+    unconfirmed: "Payment: Not received – this seva has not been paid for.",
+  },
+};
+
+// Accept scanned "DES12"/"SEVA34" or a bare number typed by hand
+const parseReceiptId = (
+  value: string,
+  fallbackKind: CheckInKind
+): { kind: CheckInKind; id: number } | null => {
+  const match = value.trim().toUpperCase().match(/^(DES|SEVA)?\s*(\d+)$/);
+  if (!match) return null;
+
+  const kind =
+    match[1] === "SEVA" ? "seva" : match[1] === "DES" ? "hall" : fallbackKind;
+  return { kind, id: Number(match[2]) };
+};
+
+const fromHallForm = (form: HallForm): CheckInRecord => ({
+  kind: "hall",
+  id: form.id,
+  displayId: form.displayId,
+  name: form.name,
+  mobileNumber: form.mobileNumber,
+  date: form.date,
+  title: form.hallName,
+  details: `Reason: ${form.reason}`,
+  isConfirmed: form.status === "confirmed" || form.status === "completed",
+  completedAt: form.checkedInAt,
+});
+
+const fromSevaForm = (form: SevaForm): CheckInRecord => ({
+  kind: "seva",
+  id: form.id,
+  displayId: form.displayId,
+  name: form.name,
+  mobileNumber: form.mobileNumber,
+  date: form.date,
+  title: form.sevaName,
+  details: [
+    `Nakshathra: ${bilingualName(NAKSHATRAS, form.nakshathra)}`,
+    `Rashi: ${bilingualName(RASHIS, form.rashi)}`,
+    form.gotra && `Gotra: ${form.gotra}`,
+  ]
+    .filter(Boolean)
+    .join(" | "),
+  isConfirmed: isSevaPaid(form.paymentStatus),
+  completedAt: form.performedAt,
+});
+
+export default function CheckIn(): JSX.Element {
+  const [hallForms, setHallForms] = useState<HallForm[]>([]);
+  const [manualId, setManualId] = useState("");
+  const [manualKind, setManualKind] = useState<CheckInKind>("hall");
+  const [record, setRecord] = useState<CheckInRecord | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Hall forms are loaded once, the same way the hall forms page does
+  const loadHallForms = useCallback(async () => {
+    try {
+      const data = await fetchHallFormsData();
+      setHallForms(data);
+      return data;
+    } catch (err) {
+      console.error(err);
+      setError("Failed to load hall forms. Please try again later.");
+      return [];
+    }
+  }, []);
+
+  useEffect(() => {
+    loadHallForms();
+  }, [loadHallForms]);
+
+  const lookUp = async (kind: CheckInKind, id: number) => {
+    setLoading(true);
+    setError(null);
+    setRecord(null);
+    try {
+      if (kind === "hall") {
+        const forms = hallForms.length ? hallForms : await loadHallForms();
+        const form = forms.find((hallForm) => hallForm.id === id);
+        if (!form) throw new Error(`No hall booking found for DES${id}`);
+        setRecord(fromHallForm(form));
+      } else {
+        const res = await fetch(`/api/sevaforms/${id}`);
+        if (!res.ok) throw new Error(`No seva found for SEVA${id}`);
+        const { data }: { data: ApiSevaForm } = await res.json();
+        setRecord(fromSevaForm(formatSevaForm(data)));
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Lookup failed");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleScan = (value: string) => {
+    const parsed = parseReceiptId(value, "hall");
+    if (!parsed) {
+      setError(`Unrecognised code: ${value}`);
+      return;
+    }
+    lookUp(parsed.kind, parsed.id);
+  };
+
+  const handleManualSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const parsed = parseReceiptId(manualId, manualKind);
+    if (!parsed) {
+      setError("Please enter an ID such as DES12, SEVA34 or just the number.");
+      return;
+    }
+    lookUp(parsed.kind, parsed.id);
+  };
+
+  const markCompleted = async (current: CheckInRecord) => {
+    const confirmMark = await Swal.fire({
+      title: `${actionLabels[current.kind].action}?`,
+      text: current.isConfirmed
+        ? `${current.displayId} – ${current.name}`
+        : `${current.displayId} – ${current.name}. ${
+            actionLabels[current.kind].unconfirmed
+          }`,
+      icon: current.isConfirmed ? "question" : "warning",
+      showCancelButton: true,
+      confirmButtonColor: "#3085d6",
+      cancelButtonColor: "#d33",
+      confirmButtonText: "Yes",
+    });
+
+    if (!confirmMark.isConfirmed) return;
+
+    const url =
+      current.kind === "hall"
+        ? `/api/hallforms/${current.id}/check-in`
+        : `/api/sevaforms/${current.id}/perform`;
+
+    try {
+      const response = await fetch(url, { method: "PATCH" });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || "Failed to update record");
+      }
+
+      setRecord({ ...current, completedAt: new Date() });
+      if (current.kind === "hall") loadHallForms();
+      Swal.fire("Done!", `${current.displayId} has been updated.`, "success");
+    } catch (error) {
+      Swal.fire(
+        "Error!",
+        error instanceof Error ? error.message : "Failed to update record",
+        "error"
+      );
+    }
+  };
+
+  const isToday = (date: Date) =>
+    date.toDateString() === new Date().toDateString();
+
+  return (
+    <div className="container mx-auto p-6 space-y-6">
+      <QrScanner onScan={handleScan} />
+
+      {/* Manual entry fallback */}
+      <form
+        onSubmit={handleManualSubmit}
+        className="flex flex-col sm:flex-row gap-4"
+      >
+        <select
+          value={manualKind}
+          onChange={(e) => setManualKind(e.target.value as CheckInKind)}
+          className="border border-gray-300 rounded-md p-2"
+        >
+          <option value="hall">Hall booking (DES)</option>
+          <option value="seva">Seva (SEVA)</option>
+        </select>
+        <input
+          type="text"
+          placeholder="Enter booking or seva ID"
+          value={manualId}
+          onChange={(e) => setManualId(e.target.value)}
+          className="border border-gray-300 rounded-md p-2 flex-1"
+        />
+        <button
+          type="submit"
+          className="bg-blue-600 text-white px-6 py-2 rounded"
+        >
+          Look Up
+        </button>
+      </form>
+
+      {loading && <LoadingSpinner />}
+      {error && <p className="text-red-500 text-center">{error}</p>}
+
+      {record && (
+        <div className="bg-white border-l-4 border-orange-500 shadow-lg rounded-lg p-6">
+          <h2 className="text-xl font-semibold text-orange-600 mb-2">
+            {record.displayId} – {record.name}
+          </h2>
+          <p className="text-gray-700 mb-2">{record.title}</p>
+          <p className="text-gray-700 mb-2">{record.details}</p>
+          <p className="text-gray-700 mb-2">Mobile: {record.mobileNumber}</p>
+          <p className="text-sm text-gray-500 font-medium">
+            Date: {record.date.toLocaleDateString("en-GB")}
+          </p>
+          {!isToday(record.date) && (
+            <p className="text-sm text-orange-600 font-medium mt-2">
+              Note: this record is not for today.
+            </p>
+          )}
+          {!record.isConfirmed && (
+            <p className="text-sm text-red-600 font-medium mt-2">
+              {actionLabels[record.kind].unconfirmed}
+            </p>
+          )}
+          {record.completedAt ? (
+            <p className="text-sm text-green-600 font-medium mt-4">
+              {actionLabels[record.kind].done} at{" "}
+              {record.completedAt.toLocaleString("en-GB")}
+            </p>
+          ) : (
+            <button
+              onClick={() => markCompleted(record)}
+              className="mt-4 bg-green-600 text-white px-3 py-1 rounded block"
+            >
+              {actionLabels[record.kind].action}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,7 +2,11 @@
 
 import React, { useState } from "react";
 import Swal from "sweetalert2";
-import UploadImage from "../components/UploadImage"; // Ensure you have the UploadImage component
+import TranslationFields from "./TranslationFields";
+import { Translations } from "@/app/i18n/content";
+import BulkUploadImages, {
+  UploadedImage,
+} from "../components/BulkUploadImages";
 
 interface AddHallProps {
   onAdd: () => void; // Callback to refresh the hall list
@@ -13,20 +17,13 @@ const AddHall: React.FC<AddHallProps> = ({ onAdd }) => {
   const [description, setDescription] = useState<string>("");
   const [nameKannada, setNameKannada] = useState<string>("");
   const [descriptionKannada, setDescriptionKannada] = useState<string>("");
+  const [translations, setTranslations] = useState<Translations>({});
   const [imageIds, setImageIds] = useState<number[]>([]); // Store multiple image IDs
   const [loading, setLoading] = useState<boolean>(false);
 
-  // Handle image upload and add the image ID to the list
-  const handleImageUpload = (imageData: {
-    imageId: number;
-    publicUrl: string;
-  }) => {
-    setImageIds((prev) => [...prev, imageData.imageId]); // Add the new image ID to the array
-    Swal.fire(
-      "Success!",
-      `Image uploaded successfully. Image ID: ${imageData.imageId}`,
-      "success"
-    );
+  // Add the IDs of the uploaded images to the list
+  const handleImagesUpload = (images: UploadedImage[]) => {
+    setImageIds((prev) => [...prev, ...images.map((image) => image.imageId)]);
   };
 
   // Handle removing an image ID from the list
@@ -56,6 +53,7 @@ const AddHall: React.FC<AddHallProps> = ({ onAdd }) => {
       description,
       name_kannada: nameKannada,
       description_kannada: descriptionKannada,
+      translations,
       imageIds, // Include the list of image IDs
     };
 
@@ -82,6 +80,7 @@ const AddHall: React.FC<AddHallProps> = ({ onAdd }) => {
       setDescription("");
       setNameKannada("");
       setDescriptionKannada("");
+      setTranslations({});
       setImageIds([]);
       onAdd(); // Refresh the hall list
     } catch (error) {
@@ -100,7 +99,7 @@ const AddHall: React.FC<AddHallProps> = ({ onAdd }) => {
       <h2 className="text-lg font-semibold mb-4">Add Hall</h2>
 
       {/* Image Upload Section */}
-      <UploadImage onImageUpload={handleImageUpload} />
+      <BulkUploadImages addLabel="Add to hall" onAdd={handleImagesUpload} />
 
       {/* Display Image IDs */}
       <div className="mb-4">
@@ -165,6 +164,14 @@ const AddHall: React.FC<AddHallProps> = ({ onAdd }) => {
             required
           />
         </div>
+        <TranslationFields
+          fields={[
+            { name: "name", label: "Name" },
+            { name: "description", label: "Description", multiline: true },
+          ]}
+          value={translations}
+          onChange={setTranslations}
+        />
         <button
           type="submit"
           disabled={loading}
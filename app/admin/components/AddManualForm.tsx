@@ -1,18 +1,31 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
+import { useDispatch } from "react-redux";
 import Swal from "sweetalert2";
 import Calendar from "../../components/Calendar";
+import { AppDispatch } from "../../store";
+import { invalidateAvailability } from "../../store/availabilitySlice";
+import { getDatesInRange } from "../../booking/slots";
+import { Hall, HallsResponse } from "../../booking/types";
 
 interface AddManualFormProps {
   onAddSuccess: () => void;
 }
 
 export default function AddManualForm({ onAddSuccess }: AddManualFormProps) {
+  const dispatch = useDispatch<AppDispatch>();
+
   // We'll use this key to force re-render the Calendar
   const [calendarKey, setCalendarKey] = useState(0);
 
+  // Bookings taken at the office can be for any hall; the first is shown
+  // until another is picked
+  const [halls, setHalls] = useState<Hall[]>([]);
+  const [calendarHallId, setCalendarHallId] = useState<number | null>(null);
+  const [selectedHallId, setSelectedHallId] = useState<number | null>(null);
   const [selectedDate, setSelectedDate] = useState("");
+  const [selectedEndDate, setSelectedEndDate] = useState("");
   const [showForm, setShowForm] = useState(false);
   const [loading, setLoading] = useState(false);
 
@@ -24,9 +37,39 @@ export default function AddManualForm({ onAddSuccess }: AddManualFormProps) {
     mobileNumberConfirmation: "",
   });
 
+  useEffect(() => {
+    const fetchHalls = async () => {
+      try {
+        const response = await fetch("/api/halls");
+        const hallsData: HallsResponse = await response.json();
+        if (hallsData.statusCode !== 200 || !Array.isArray(hallsData.data)) {
+          throw new Error(hallsData.message || "Failed to load halls");
+        }
+        setHalls(hallsData.data);
+        setCalendarHallId(hallsData.data[0]?.hall_id ?? null);
+      } catch (error) {
+        console.error("Failed to fetch halls", error);
+      }
+    };
+
+    fetchHalls();
+  }, []);
+
+  // A date picked on the previous hall's calendar no longer applies
+  const handleHallChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    setCalendarHallId(Number(e.target.value));
+    setShowForm(false);
+  };
+
   // Triggered by the Calendar when a user selects a date
-  const handleDateSelect = (_hallId: number, date: string) => {
-    setSelectedDate(date);
+  const handleDateSelect = (
+    hallId: number,
+    startDate: string,
+    endDate: string
+  ) => {
+    setSelectedHallId(hallId);
+    setSelectedDate(startDate);
+    setSelectedEndDate(endDate);
     setShowForm(true);
   };
 
@@ -51,8 +94,12 @@ export default function AddManualForm({ onAddSuccess }: AddManualFormProps) {
           ...formData,
           mobileNumber: `+91${formData.mobileNumber}`,
           mobileNumberConfirmation: `+91${formData.mobileNumberConfirmation}`,
-          hallId: 3, // Assuming hallId is always 1 in this example
+          hallId: selectedHallId,
           date: selectedDate,
+          endDate: selectedEndDate,
+          slots: getDatesInRange(selectedDate, selectedEndDate).map(
+            (date) => ({ date, slot: "full" })
+          ),
         },
       };
 
@@ -79,9 +126,11 @@ export default function AddManualForm({ onAddSuccess }: AddManualFormProps) {
         mobileNumberConfirmation: "",
       });
       setSelectedDate("");
+      setSelectedEndDate("");
       setShowForm(false);
 
-      // Refresh the calendar by changing its key
+      // Drop the cached availability and refresh the calendar by changing its key
+      dispatch(invalidateAvailability());
       setCalendarKey((prevKey) => prevKey + 1);
 
       // Call parent callback to handle any other actions
@@ -99,8 +148,29 @@ export default function AddManualForm({ onAddSuccess }: AddManualFormProps) {
 
   return (
     <div>
+      <div className="mb-4">
+        <label className="block font-medium mb-2">Hall</label>
+        <select
+          value={calendarHallId ?? ""}
+          onChange={handleHallChange}
+          className="border border-gray-300 rounded-md p-2 w-full"
+        >
+          {halls.map((hall) => (
+            <option key={hall.hall_id} value={hall.hall_id}>
+              {hall.name}
+            </option>
+          ))}
+        </select>
+      </div>
+
       {/* 1. Display the Calendar first, using 'calendarKey' for forced re-render */}
-      <Calendar key={calendarKey} hallId={3} onDateSelect={handleDateSelect} />
+      {calendarHallId !== null && (
+        <Calendar
+          key={`${calendarHallId}-${calendarKey}`}
+          hallId={calendarHallId}
+          onDateSelect={handleDateSelect}
+        />
+      )}
 
       {/* 2. Show the form only if a date is selected */}
       {showForm && (
@@ -110,10 +180,19 @@ export default function AddManualForm({ onAddSuccess }: AddManualFormProps) {
         >
           <h2 className="text-xl font-bold mb-4">Add New Hall Form</h2>
 
+          <div className="mb-4">
+            <label className="block font-medium mb-2">Hall</label>
+            <div className="border border-gray-300 rounded-md p-2">
+              {halls.find((hall) => hall.hall_id === selectedHallId)?.name}
+            </div>
+          </div>
+
           <div className="mb-4">
             <label className="block font-medium mb-2">Selected Date</label>
             <div className="border border-gray-300 rounded-md p-2">
               {new Date(selectedDate).toLocaleDateString()}
+              {selectedEndDate !== selectedDate &&
+                ` – ${new Date(selectedEndDate).toLocaleDateString()}`}
             </div>
           </div>
 
@@ -0,0 +1,161 @@
+"use client";
+
+import React, { useState } from "react";
+import Swal from "sweetalert2";
+import TranslationFields from "./TranslationFields";
+import { Translations } from "@/app/i18n/content";
+
+interface AddSevaProps {
+  onAdd: () => void; // Callback to refresh the seva list
+}
+
+const AddSeva: React.FC<AddSevaProps> = ({ onAdd }) => {
+  const [name, setName] = useState<string>("");
+  const [description, setDescription] = useState<string>("");
+  const [nameKannada, setNameKannada] = useState<string>("");
+  const [descriptionKannada, setDescriptionKannada] = useState<string>("");
+  const [translations, setTranslations] = useState<Translations>({});
+  const [basePrice, setBasePrice] = useState<string>("");
+  const [loading, setLoading] = useState<boolean>(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!name || !description || !nameKannada || !descriptionKannada) {
+      Swal.fire("Error!", "Please fill in all fields.", "error");
+      return;
+    }
+
+    const price = Number(basePrice);
+    if (!Number.isFinite(price) || price < 0) {
+      Swal.fire("Error!", "Please enter a valid price.", "error");
+      return;
+    }
+
+    const newSeva = {
+      name,
+      description,
+      name_kannada: nameKannada,
+      description_kannada: descriptionKannada,
+      translations,
+      base_price: price,
+      is_active: true,
+    };
+
+    setLoading(true);
+
+    try {
+      const response = await fetch("/api/sevas", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(newSeva),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || "Failed to add seva");
+      }
+
+      Swal.fire("Success!", "Seva added successfully.", "success");
+
+      // Reset the form
+      setName("");
+      setDescription("");
+      setNameKannada("");
+      setDescriptionKannada("");
+      setTranslations({});
+      setBasePrice("");
+      onAdd(); // Refresh the seva list
+    } catch (error) {
+      Swal.fire(
+        "Error!",
+        error instanceof Error ? error.message : "Failed to add seva",
+        "error"
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-md shadow-md mb-6">
+      <h2 className="text-lg font-semibold mb-4">Add Seva</h2>
+
+      <form onSubmit={handleSubmit}>
+        <div className="mb-4">
+          <label className="block text-gray-700 mb-2">Name</label>
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            className="border border-gray-300 rounded-md p-2 w-full"
+            required
+          />
+        </div>
+        <div className="mb-4">
+          <label className="block text-gray-700 mb-2">Description</label>
+          <textarea
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            className="border border-gray-300 rounded-md p-2 w-full"
+            required
+          />
+        </div>
+        <div className="mb-4">
+          <label className="block text-gray-700 mb-2">Name (Kannada)</label>
+          <input
+            type="text"
+            value={nameKannada}
+            onChange={(e) => setNameKannada(e.target.value)}
+            className="border border-gray-300 rounded-md p-2 w-full"
+            required
+          />
+        </div>
+        <div className="mb-4">
+          <label className="block text-gray-700 mb-2">
+            Description (Kannada)
+          </label>
+          <textarea
+            value={descriptionKannada}
+            onChange={(e) => setDescriptionKannada(e.target.value)}
+            className="border border-gray-300 rounded-md p-2 w-full"
+            required
+          />
+        </div>
+        <TranslationFields
+          fields={[
+            { name: "name", label: "Name" },
+            { name: "description", label: "Description", multiline: true },
+          ]}
+          value={translations}
+          onChange={setTranslations}
+        />
+        <div className="mb-4">
+          <label className="block text-gray-700 mb-2">Price (₹)</label>
+          <input
+            type="number"
+            min={0}
+            step="0.01"
+            value={basePrice}
+            onChange={(e) => setBasePrice(e.target.value)}
+            className="border border-gray-300 rounded-md p-2 w-full"
+            required
+          />
+        </div>
+        <button
+          type="submit"
+          disabled={loading}
+          className={`bg-blue-500 text-white py-2 px-4 rounded-md hover:bg-blue-600 transition duration-200 ${
+            loading ? "opacity-50 cursor-not-allowed" : ""
+          }`}
+        >
+          {loading ? "Adding..." : "Add Seva"}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default AddSeva;
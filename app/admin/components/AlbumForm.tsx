@@ -0,0 +1,315 @@
+"use client";
+
+import React, { useState } from "react";
+import Swal from "sweetalert2";
+import Image from "next/image";
+import BulkUploadImages, { UploadedImage } from "./BulkUploadImages";
+import TranslationFields from "./TranslationFields";
+import { Translations } from "@/app/i18n/content";
+import { AlbumImage, GalleryAlbum } from "../../gallery/albumData";
+
+interface AlbumFormProps {
+  album?: GalleryAlbum; // Edit this album instead of adding a new one
+  onSave: () => void;
+  onCancel?: () => void;
+}
+
+const AlbumForm: React.FC<AlbumFormProps> = ({ album, onSave, onCancel }) => {
+  const [title, setTitle] = useState(album?.title || "");
+  const [titleKannada, setTitleKannada] = useState(album?.title_kannada || "");
+  const [description, setDescription] = useState(album?.description || "");
+  const [descriptionKannada, setDescriptionKannada] = useState(
+    album?.description_kannada || ""
+  );
+  const [translations, setTranslations] = useState<Translations>(
+    album?.translations ?? {}
+  );
+  const [eventDate, setEventDate] = useState(album?.eventDate || "");
+  const [sortOrder, setSortOrder] = useState(String(album?.sortOrder ?? 0));
+  const [images, setImages] = useState<AlbumImage[]>(album?.images || []);
+  const [coverImageId, setCoverImageId] = useState<number | null>(
+    album?.coverImageId ?? null
+  );
+  const [loading, setLoading] = useState(false);
+
+  // New photos go to the end of the album
+  const handleImagesUpload = (uploaded: UploadedImage[]) => {
+    setImages((prev) => [
+      ...prev,
+      ...uploaded.map(({ imageId, publicUrl }) => ({
+        image_id: imageId,
+        public_url: publicUrl,
+        alt_text: "",
+      })),
+    ]);
+  };
+
+  const moveImage = (index: number, offset: -1 | 1) => {
+    setImages((prev) => {
+      const next = [...prev];
+      [next[index], next[index + offset]] = [next[index + offset], next[index]];
+      return next;
+    });
+  };
+
+  const removeImage = (imageId: number) => {
+    setImages((prev) => prev.filter((image) => image.image_id !== imageId));
+    if (coverImageId === imageId) setCoverImageId(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!title || !titleKannada) {
+      Swal.fire("Error!", "Please enter the album title.", "error");
+      return;
+    }
+
+    const order = Number(sortOrder);
+    if (!Number.isInteger(order)) {
+      Swal.fire("Error!", "The order must be a whole number.", "error");
+      return;
+    }
+
+    const body = {
+      title,
+      title_kannada: titleKannada,
+      description,
+      description_kannada: descriptionKannada,
+      translations,
+      event_date: eventDate || null,
+      sort_order: order,
+      cover_image_id: coverImageId,
+      imageIds: images.map((image) => image.image_id), // In album order
+    };
+
+    setLoading(true);
+    try {
+      const response = await fetch(
+        album ? `/api/gallery/albums/${album.id}` : "/api/gallery/albums",
+        {
+          method: album ? "PATCH" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(body),
+        }
+      );
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || "Failed to save album");
+      }
+
+      Swal.fire(
+        "Success!",
+        album ? "Album updated successfully." : "Album added successfully.",
+        "success"
+      );
+
+      if (!album) {
+        setTitle("");
+        setTitleKannada("");
+        setDescription("");
+        setDescriptionKannada("");
+        setTranslations({});
+        setEventDate("");
+        setSortOrder("0");
+        setImages([]);
+        setCoverImageId(null);
+      }
+      onSave();
+    } catch (error) {
+      Swal.fire(
+        "Error!",
+        error instanceof Error ? error.message : "Failed to save album",
+        "error"
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-md shadow-md mb-6">
+      <h2 className="text-lg font-semibold mb-4">
+        {album ? `Edit ${album.title}` : "Add Album"}
+      </h2>
+
+      <form onSubmit={handleSubmit}>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mb-4">
+          <div>
+            <label className="block text-gray-700 mb-2">Title</label>
+            <input
+              type="text"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder="e.g. Brahmakalashotsava 2024"
+              className="border border-gray-300 rounded-md p-2 w-full"
+              required
+            />
+          </div>
+          <div>
+            <label className="block text-gray-700 mb-2">Title (Kannada)</label>
+            <input
+              type="text"
+              value={titleKannada}
+              onChange={(e) => setTitleKannada(e.target.value)}
+              className="border border-gray-300 rounded-md p-2 w-full"
+              required
+            />
+          </div>
+          <div>
+            <label className="block text-gray-700 mb-2">Description</label>
+            <textarea
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              className="border border-gray-300 rounded-md p-2 w-full"
+            />
+          </div>
+          <div>
+            <label className="block text-gray-700 mb-2">
+              Description (Kannada)
+            </label>
+            <textarea
+              value={descriptionKannada}
+              onChange={(e) => setDescriptionKannada(e.target.value)}
+              className="border border-gray-300 rounded-md p-2 w-full"
+            />
+          </div>
+          <div>
+            <label className="block text-gray-700 mb-2">Event Date</label>
+            <input
+              type="date"
+              value={eventDate}
+              onChange={(e) => setEventDate(e.target.value)}
+              className="border border-gray-300 rounded-md p-2 w-full"
+            />
+          </div>
+          <div>
+            <label className="block text-gray-700 mb-2">Order</label>
+            <input
+              type="number"
+              step={1}
+              value={sortOrder}
+              onChange={(e) => setSortOrder(e.target.value)}
+              className="border border-gray-300 rounded-md p-2 w-full"
+              required
+            />
+            <p className="text-sm text-gray-500 mt-1">
+              Lower numbers are listed first; albums with the same number are
+              listed newest first.
+            </p>
+          </div>
+        </div>
+
+        <TranslationFields
+          fields={[
+            { name: "title", label: "Title" },
+            { name: "description", label: "Description", multiline: true },
+          ]}
+          value={translations}
+          onChange={setTranslations}
+        />
+
+        {/* Photos, in the order they are shown */}
+        <div className="mb-4">
+          <label className="block text-gray-700 mb-2">Photos</label>
+          <BulkUploadImages
+            addLabel="Add to album"
+            onAdd={handleImagesUpload}
+          />
+          {images.length === 0 ? (
+            <p className="text-sm text-gray-500 mt-2">
+              No photos yet. Upload them above and add them to the album.
+            </p>
+          ) : (
+            <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-4 mt-4">
+              {images.map((image, index) => (
+                <div
+                  key={image.image_id}
+                  className={`border rounded-md p-2 ${
+                    coverImageId === image.image_id
+                      ? "border-orange-500"
+                      : "border-gray-300"
+                  }`}
+                >
+                  <div className="relative w-full h-32 mb-2">
+                    <Image
+                      src={image.public_url}
+                      alt={image.alt_text || `Photo ${index + 1}`}
+                      fill
+                      className="object-cover rounded-md"
+                    />
+                  </div>
+                  <div className="flex flex-wrap gap-2 text-sm">
+                    <button
+                      type="button"
+                      onClick={() => moveImage(index, -1)}
+                      disabled={index === 0}
+                      className="px-2 rounded bg-gray-200 disabled:opacity-50"
+                    >
+                      &larr;
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => moveImage(index, 1)}
+                      disabled={index === images.length - 1}
+                      className="px-2 rounded bg-gray-200 disabled:opacity-50"
+                    >
+                      &rarr;
+                    </button>
+                    {coverImageId === image.image_id ? (
+                      <span className="text-orange-600 font-medium">Cover</span>
+                    ) : (
+                      <button
+                        type="button"
+                        onClick={() => setCoverImageId(image.image_id)}
+                        className="text-blue-600 hover:underline"
+                      >
+                        Set as cover
+                      </button>
+                    )}
+                    <button
+                      type="button"
+                      onClick={() => removeImage(image.image_id)}
+                      className="text-red-500 hover:underline"
+                    >
+                      Remove
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+          {images.length > 0 && coverImageId === null && (
+            <p className="text-sm text-gray-500 mt-2">
+              Without a cover, the first photo is shown on the album list.
+            </p>
+          )}
+        </div>
+
+        <div className="flex gap-2">
+          <button
+            type="submit"
+            disabled={loading}
+            className={`bg-blue-500 text-white py-2 px-4 rounded-md hover:bg-blue-600 transition duration-200 ${
+              loading ? "opacity-50 cursor-not-allowed" : ""
+            }`}
+          >
+            {loading ? "Saving..." : album ? "Save Changes" : "Add Album"}
+          </button>
+          {onCancel && (
+            <button
+              type="button"
+              onClick={onCancel}
+              className="bg-gray-200 text-gray-800 py-2 px-4 rounded-md hover:bg-gray-300"
+            >
+              Cancel
+            </button>
+          )}
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default AlbumForm;
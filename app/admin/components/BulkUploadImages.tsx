@@ -0,0 +1,304 @@
+"use client";
+import React, { useEffect, useRef, useState } from "react";
+
+// Files uploaded at the same time; the rest wait their turn
+const CONCURRENT_UPLOADS = 3;
+
+export interface UploadedImage {
+  imageId: number;
+  publicUrl: string;
+}
+
+type UploadStatus = "queued" | "uploading" | "done" | "failed";
+
+interface UploadItem {
+  id: number;
+  file: File;
+  status: UploadStatus;
+  progress: number; // 0-100
+  error?: string;
+  image?: UploadedImage;
+}
+
+interface BulkUploadImagesProps {
+  addLabel: string; // e.g. "Add to album"
+  onAdd: (images: UploadedImage[]) => void; // Called with every finished upload
+}
+
+const statusStyles: Record<UploadStatus, string> = {
+  queued: "bg-gray-300",
+  uploading: "bg-blue-500",
+  done: "bg-green-500",
+  failed: "bg-red-500",
+};
+
+const formatSize = (bytes: number) =>
+  bytes < 1024 * 1024
+    ? `${Math.ceil(bytes / 1024)} KB`
+    : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+const BulkUploadImages: React.FC<BulkUploadImagesProps> = ({
+  addLabel,
+  onAdd,
+}) => {
+  const [items, setItems] = useState<UploadItem[]>([]);
+  const [dragging, setDragging] = useState(false);
+  const requests = useRef(new Map<number, XMLHttpRequest>());
+  const nextId = useRef(0);
+
+  // Start queued files whenever a slot is free
+  useEffect(() => {
+    const updateItem = (id: number, changes: Partial<UploadItem>) => {
+      setItems((prev) =>
+        prev.map((item) => (item.id === id ? { ...item, ...changes } : item))
+      );
+    };
+
+    // XMLHttpRequest rather than fetch, which cannot report upload progress
+    const startUpload = (item: UploadItem) => {
+      const request = new XMLHttpRequest();
+      requests.current.set(item.id, request);
+      updateItem(item.id, { status: "uploading", progress: 0 });
+
+      request.upload.onprogress = (event) => {
+        if (event.lengthComputable) {
+          updateItem(item.id, {
+            progress: Math.round((event.loaded / event.total) * 100),
+          });
+        }
+      };
+
+      request.onload = () => {
+        requests.current.delete(item.id);
+        try {
+          const body = JSON.parse(request.responseText);
+          if (request.status < 200 || request.status >= 300) {
+            throw new Error(body.message || "Failed to upload image");
+          }
+          updateItem(item.id, {
+            status: "done",
+            progress: 100,
+            image: {
+              imageId: body.data.image_id,
+              publicUrl: `/storage/${body.data.file_path}`, // As in UploadImage
+            },
+          });
+        } catch (error) {
+          updateItem(item.id, {
+            status: "failed",
+            error:
+              error instanceof Error ? error.message : "Failed to upload image",
+          });
+        }
+      };
+
+      request.onerror = () => {
+        requests.current.delete(item.id);
+        updateItem(item.id, { status: "failed", error: "Network error" });
+      };
+
+      const formData = new FormData();
+      formData.append("file", item.file);
+      request.open("POST", "/api/images/upload");
+      request.send(formData);
+    };
+
+    const free = CONCURRENT_UPLOADS - requests.current.size;
+    items
+      .filter(
+        (item) => item.status === "queued" && !requests.current.has(item.id)
+      )
+      .slice(0, Math.max(free, 0))
+      .forEach(startUpload);
+  }, [items]);
+
+  // Leaving the page stops whatever is still uploading
+  useEffect(() => {
+    const active = requests.current;
+    return () => active.forEach((request) => request.abort());
+  }, []);
+
+  const addFiles = (files: FileList | null) => {
+    const images = Array.from(files || []).filter((file) =>
+      file.type.startsWith("image/")
+    );
+    setItems((prev) => [
+      ...prev,
+      ...images.map((file) => ({
+        id: nextId.current++,
+        file,
+        status: "queued" as const,
+        progress: 0,
+      })),
+    ]);
+  };
+
+  const handleDrop = (event: React.DragEvent) => {
+    event.preventDefault();
+    setDragging(false);
+    addFiles(event.dataTransfer.files);
+  };
+
+  const cancelItems = (shouldCancel: (item: UploadItem) => boolean) => {
+    items.filter(shouldCancel).forEach((item) => {
+      requests.current.get(item.id)?.abort();
+      requests.current.delete(item.id);
+    });
+    setItems((prev) => prev.filter((item) => !shouldCancel(item)));
+  };
+
+  const retryItems = (shouldRetry: (item: UploadItem) => boolean) => {
+    setItems((prev) =>
+      prev.map((item) =>
+        item.status === "failed" && shouldRetry(item)
+          ? {
+              ...item,
+              status: "queued" as const,
+              progress: 0,
+              error: undefined,
+            }
+          : item
+      )
+    );
+  };
+
+  // Hands the finished uploads to the form and clears them from the list
+  const addFinished = () => {
+    const finished = items.filter((item) => item.status === "done");
+    onAdd(finished.map((item) => item.image as UploadedImage));
+    setItems((prev) => prev.filter((item) => item.status !== "done"));
+  };
+
+  const count = (status: UploadStatus) =>
+    items.filter((item) => item.status === status).length;
+  const pending = count("queued") + count("uploading");
+
+  return (
+    <div className="bg-transparent p-4 rounded-md shadow-md border border-gray-300">
+      <h2 className="text-lg font-semibold mb-4 text-center">Upload Images</h2>
+
+      <label
+        onDragOver={(event) => {
+          event.preventDefault();
+          setDragging(true);
+        }}
+        onDragLeave={() => setDragging(false)}
+        onDrop={handleDrop}
+        className={`flex flex-col items-center justify-center border-2 border-dashed rounded-md p-6 cursor-pointer text-center transition duration-200 ${
+          dragging
+            ? "border-blue-500 bg-blue-50"
+            : "border-gray-300 hover:border-blue-400"
+        }`}
+      >
+        <input
+          type="file"
+          accept="image/*"
+          multiple
+          onChange={(event) => {
+            addFiles(event.target.files);
+            event.target.value = ""; // Allow choosing the same files again
+          }}
+          className="hidden"
+        />
+        <span className="text-gray-700">
+          Drop images here, or click to choose files
+        </span>
+        <span className="text-sm text-gray-500">
+          {CONCURRENT_UPLOADS} files are uploaded at a time
+        </span>
+      </label>
+
+      {items.length > 0 && (
+        <>
+          <p className="text-sm text-gray-600 mt-4">
+            {count("done")} of {items.length} uploaded
+            {pending > 0 && `, ${pending} in progress`}
+            {count("failed") > 0 && `, ${count("failed")} failed`}
+          </p>
+
+          <ul className="mt-2 max-h-72 overflow-y-auto divide-y divide-gray-200">
+            {items.map((item) => (
+              <li key={item.id} className="py-2">
+                <div className="flex justify-between items-center gap-2 text-sm">
+                  <span className="truncate">
+                    {item.file.name}{" "}
+                    <span className="text-gray-500">
+                      ({formatSize(item.file.size)})
+                    </span>
+                  </span>
+                  <span className="flex gap-2 shrink-0">
+                    {item.status === "failed" && (
+                      <button
+                        type="button"
+                        onClick={() => retryItems((other) => other === item)}
+                        className="text-blue-600 hover:underline"
+                      >
+                        Retry
+                      </button>
+                    )}
+                    {item.status !== "done" && (
+                      <button
+                        type="button"
+                        onClick={() => cancelItems((other) => other === item)}
+                        className="text-red-500 hover:underline"
+                      >
+                        {item.status === "failed" ? "Remove" : "Cancel"}
+                      </button>
+                    )}
+                  </span>
+                </div>
+                <div className="w-full h-2 bg-gray-200 rounded mt-1">
+                  <div
+                    className={`h-2 rounded transition-all duration-200 ${
+                      statusStyles[item.status]
+                    }`}
+                    style={{ width: `${item.progress}%` }}
+                  />
+                </div>
+                {item.error && (
+                  <p className="text-xs text-red-500 mt-1">{item.error}</p>
+                )}
+              </li>
+            ))}
+          </ul>
+
+          <div className="flex flex-wrap gap-2 mt-4">
+            <button
+              type="button"
+              onClick={addFinished}
+              disabled={count("done") === 0}
+              className="bg-blue-500 text-white py-1 px-3 rounded-md hover:bg-blue-600 transition duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {addLabel} ({count("done")})
+            </button>
+            {count("failed") > 0 && (
+              <button
+                type="button"
+                onClick={() => retryItems(() => true)}
+                className="bg-gray-200 text-gray-800 py-1 px-3 rounded-md hover:bg-gray-300"
+              >
+                Retry Failed
+              </button>
+            )}
+            {pending > 0 && (
+              <button
+                type="button"
+                onClick={() =>
+                  cancelItems(
+                    (item) =>
+                      item.status === "queued" || item.status === "uploading"
+                  )
+                }
+                className="bg-red-500 text-white py-1 px-3 rounded-md hover:bg-red-600 transition duration-200"
+              >
+                Cancel All
+              </button>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default BulkUploadImages;
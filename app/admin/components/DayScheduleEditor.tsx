@@ -0,0 +1,163 @@
+"use client";
+
+import React from "react";
+import { DarshanSession, DaySchedule, PoojaTime } from "../../temple/timings";
+
+interface DayScheduleEditorProps {
+  value: DaySchedule;
+  onChange: (schedule: DaySchedule) => void;
+}
+
+// Darshan sessions and poojas for one day, used by the weekly timings and
+// by special-day overrides
+const DayScheduleEditor: React.FC<DayScheduleEditorProps> = ({
+  value,
+  onChange,
+}) => {
+  const updateSession = (
+    index: number,
+    field: keyof DarshanSession,
+    time: string
+  ) => {
+    onChange({
+      ...value,
+      darshan: value.darshan.map((session, i) =>
+        i === index ? { ...session, [field]: time } : session
+      ),
+    });
+  };
+
+  const updatePooja = (index: number, changes: Partial<PoojaTime>) => {
+    onChange({
+      ...value,
+      poojas: value.poojas.map((pooja, i) =>
+        i === index ? { ...pooja, ...changes } : pooja
+      ),
+    });
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+      <div>
+        <label className="block text-gray-700 mb-2 font-medium">Darshan</label>
+        {value.darshan.length === 0 && (
+          <p className="text-sm text-gray-500 mb-2">No darshan.</p>
+        )}
+        {value.darshan.map((session, index) => (
+          <div key={index} className="flex items-center gap-2 mb-2">
+            <input
+              type="time"
+              value={session.from}
+              onChange={(e) => updateSession(index, "from", e.target.value)}
+              className="border border-gray-300 rounded-md p-2"
+              required
+            />
+            <span>to</span>
+            <input
+              type="time"
+              value={session.to}
+              onChange={(e) => updateSession(index, "to", e.target.value)}
+              className="border border-gray-300 rounded-md p-2"
+              required
+            />
+            <button
+              type="button"
+              onClick={() =>
+                onChange({
+                  ...value,
+                  darshan: value.darshan.filter((_, i) => i !== index),
+                })
+              }
+              className="text-red-500 hover:underline"
+            >
+              Remove
+            </button>
+          </div>
+        ))}
+        <button
+          type="button"
+          onClick={() =>
+            onChange({
+              ...value,
+              darshan: [...value.darshan, { from: "", to: "" }],
+            })
+          }
+          className="bg-gray-200 text-gray-800 py-1 px-3 rounded-md hover:bg-gray-300"
+        >
+          Add Session
+        </button>
+      </div>
+
+      <div>
+        <label className="block text-gray-700 mb-2 font-medium">Poojas</label>
+        {value.poojas.length === 0 && (
+          <p className="text-sm text-gray-500 mb-2">No poojas.</p>
+        )}
+        {value.poojas.map((pooja, index) => (
+          <div
+            key={index}
+            className="grid grid-cols-[7rem_1fr] gap-2 mb-3 border-b border-gray-200 pb-2"
+          >
+            <input
+              type="time"
+              value={pooja.time}
+              onChange={(e) => updatePooja(index, { time: e.target.value })}
+              className="border border-gray-300 rounded-md p-2"
+              required
+            />
+            <input
+              type="text"
+              value={pooja.name.en}
+              onChange={(e) =>
+                updatePooja(index, {
+                  name: { ...pooja.name, en: e.target.value },
+                })
+              }
+              placeholder="Name"
+              className="border border-gray-300 rounded-md p-2"
+              required
+            />
+            <button
+              type="button"
+              onClick={() =>
+                onChange({
+                  ...value,
+                  poojas: value.poojas.filter((_, i) => i !== index),
+                })
+              }
+              className="text-red-500 hover:underline text-left"
+            >
+              Remove
+            </button>
+            <input
+              type="text"
+              value={pooja.name.kn}
+              onChange={(e) =>
+                updatePooja(index, {
+                  name: { ...pooja.name, kn: e.target.value },
+                })
+              }
+              placeholder="Name (Kannada)"
+              className="border border-gray-300 rounded-md p-2"
+              required
+            />
+          </div>
+        ))}
+        <button
+          type="button"
+          onClick={() =>
+            onChange({
+              ...value,
+              poojas: [...value.poojas, { time: "", name: { en: "", kn: "" } }],
+            })
+          }
+          className="bg-gray-200 text-gray-800 py-1 px-3 rounded-md hover:bg-gray-300"
+        >
+          Add Pooja
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default DayScheduleEditor;
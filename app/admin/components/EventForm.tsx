@@ -0,0 +1,372 @@
+"use client";
+
+import React, { useState } from "react";
+import Swal from "sweetalert2";
+import Image from "next/image";
+import UploadImage from "./UploadImage";
+import TranslationFields from "./TranslationFields";
+import { Translations } from "@/app/i18n/content";
+import { ScheduleItem, TempleEvent } from "../../events/eventData";
+
+interface EventFormProps {
+  event?: TempleEvent; // Edit this event instead of adding a new one
+  onSave: () => void;
+  onCancel?: () => void;
+}
+
+const emptyItem = (date: string): ScheduleItem => ({
+  date,
+  time: "",
+  title: "",
+  title_kannada: "",
+});
+
+const EventForm: React.FC<EventFormProps> = ({ event, onSave, onCancel }) => {
+  const [title, setTitle] = useState(event?.title || "");
+  const [titleKannada, setTitleKannada] = useState(event?.title_kannada || "");
+  const [description, setDescription] = useState(event?.description || "");
+  const [descriptionKannada, setDescriptionKannada] = useState(
+    event?.description_kannada || ""
+  );
+  const [translations, setTranslations] = useState<Translations>(
+    event?.translations ?? {}
+  );
+  const [startDate, setStartDate] = useState(event?.startDate || "");
+  const [endDate, setEndDate] = useState(event?.endDate || "");
+  const [schedule, setSchedule] = useState<ScheduleItem[]>(
+    event?.schedule || []
+  );
+  const [coverImageId, setCoverImageId] = useState<number | null>(
+    event?.coverImageId ?? null
+  );
+  const [coverPreview, setCoverPreview] = useState<string | null>(
+    event?.coverImage?.public_url || null
+  );
+  const [loading, setLoading] = useState(false);
+
+  const handleImageUpload = (imageData: {
+    imageId: number;
+    publicUrl: string;
+  }) => {
+    setCoverImageId(imageData.imageId);
+    setCoverPreview(imageData.publicUrl);
+  };
+
+  const updateItem = (
+    index: number,
+    field: keyof ScheduleItem,
+    value: string
+  ) => {
+    setSchedule((prev) =>
+      prev.map((item, i) => (i === index ? { ...item, [field]: value } : item))
+    );
+  };
+
+  // New rows start on the same day as the last one
+  const addItem = () => {
+    const lastDate = schedule[schedule.length - 1]?.date || startDate;
+    setSchedule((prev) => [...prev, emptyItem(lastDate)]);
+  };
+
+  const removeItem = (index: number) => {
+    setSchedule((prev) => prev.filter((_, i) => i !== index));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!title || !titleKannada || !description || !descriptionKannada) {
+      Swal.fire("Error!", "Please fill in all fields.", "error");
+      return;
+    }
+
+    if (!startDate || !endDate || endDate < startDate) {
+      Swal.fire(
+        "Error!",
+        "The end date must be on or after the start date.",
+        "error"
+      );
+      return;
+    }
+
+    const outside = schedule.find(
+      (item) => !item.date || item.date < startDate || item.date > endDate
+    );
+    if (outside) {
+      Swal.fire(
+        "Error!",
+        `"${outside.title || "Schedule item"}" is not within the event dates.`,
+        "error"
+      );
+      return;
+    }
+
+    if (schedule.some((item) => !item.title)) {
+      Swal.fire("Error!", "Every schedule item needs a title.", "error");
+      return;
+    }
+
+    const body = {
+      title,
+      title_kannada: titleKannada,
+      description,
+      description_kannada: descriptionKannada,
+      translations,
+      start_date: startDate,
+      end_date: endDate,
+      schedule: schedule.map((item) => ({
+        date: item.date,
+        time: item.time || undefined,
+        title: item.title,
+        title_kannada: item.title_kannada || undefined,
+      })),
+      cover_image_id: coverImageId,
+    };
+
+    setLoading(true);
+    try {
+      const response = await fetch(
+        event ? `/api/events/${event.id}` : "/api/events",
+        {
+          method: event ? "PATCH" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(body),
+        }
+      );
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || "Failed to save event");
+      }
+
+      Swal.fire(
+        "Success!",
+        event ? "Event updated successfully." : "Event added successfully.",
+        "success"
+      );
+
+      if (!event) {
+        setTitle("");
+        setTitleKannada("");
+        setDescription("");
+        setDescriptionKannada("");
+        setTranslations({});
+        setStartDate("");
+        setEndDate("");
+        setSchedule([]);
+        setCoverImageId(null);
+        setCoverPreview(null);
+      }
+      onSave();
+    } catch (error) {
+      Swal.fire(
+        "Error!",
+        error instanceof Error ? error.message : "Failed to save event",
+        "error"
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-md shadow-md mb-6">
+      <h2 className="text-lg font-semibold mb-4">
+        {event ? `Edit ${event.title}` : "Add Event"}
+      </h2>
+
+      {/* Cover Image */}
+      <UploadImage onImageUpload={handleImageUpload} />
+      <div className="my-4">
+        <label className="block text-gray-700 mb-2">Cover Image</label>
+        {coverPreview ? (
+          <div className="flex items-center gap-4">
+            <div className="relative w-40 h-24">
+              <Image
+                src={coverPreview}
+                alt="Cover"
+                fill
+                className="object-cover rounded-md"
+              />
+            </div>
+            <button
+              type="button"
+              onClick={() => {
+                setCoverImageId(null);
+                setCoverPreview(null);
+              }}
+              className="text-red-500 hover:underline"
+            >
+              Remove
+            </button>
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500">No cover image.</p>
+        )}
+      </div>
+
+      <form onSubmit={handleSubmit}>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mb-4">
+          <div>
+            <label className="block text-gray-700 mb-2">Title</label>
+            <input
+              type="text"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              className="border border-gray-300 rounded-md p-2 w-full"
+              required
+            />
+          </div>
+          <div>
+            <label className="block text-gray-700 mb-2">Title (Kannada)</label>
+            <input
+              type="text"
+              value={titleKannada}
+              onChange={(e) => setTitleKannada(e.target.value)}
+              className="border border-gray-300 rounded-md p-2 w-full"
+              required
+            />
+          </div>
+          <div>
+            <label className="block text-gray-700 mb-2">Description</label>
+            <textarea
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              className="border border-gray-300 rounded-md p-2 w-full"
+              required
+            />
+          </div>
+          <div>
+            <label className="block text-gray-700 mb-2">
+              Description (Kannada)
+            </label>
+            <textarea
+              value={descriptionKannada}
+              onChange={(e) => setDescriptionKannada(e.target.value)}
+              className="border border-gray-300 rounded-md p-2 w-full"
+              required
+            />
+          </div>
+          <div>
+            <label className="block text-gray-700 mb-2">Start Date</label>
+            <input
+              type="date"
+              value={startDate}
+              onChange={(e) => setStartDate(e.target.value)}
+              className="border border-gray-300 rounded-md p-2 w-full"
+              required
+            />
+          </div>
+          <div>
+            <label className="block text-gray-700 mb-2">End Date</label>
+            <input
+              type="date"
+              value={endDate}
+              min={startDate || undefined}
+              onChange={(e) => setEndDate(e.target.value)}
+              className="border border-gray-300 rounded-md p-2 w-full"
+              required
+            />
+          </div>
+        </div>
+
+        <TranslationFields
+          fields={[
+            { name: "title", label: "Title" },
+            { name: "description", label: "Description", multiline: true },
+          ]}
+          value={translations}
+          onChange={setTranslations}
+        />
+
+        {/* Day-wise programme */}
+        <div className="mb-4">
+          <label className="block text-gray-700 mb-2">Schedule</label>
+          {schedule.length === 0 && (
+            <p className="text-sm text-gray-500 mb-2">
+              No schedule items. Add one per programme, e.g. the rathotsava on
+              the last evening.
+            </p>
+          )}
+          {schedule.map((item, index) => (
+            <div
+              key={index}
+              className="grid grid-cols-1 sm:grid-cols-[10rem_7rem_1fr_1fr_auto] gap-2 mb-2"
+            >
+              <input
+                type="date"
+                value={item.date}
+                min={startDate || undefined}
+                max={endDate || undefined}
+                onChange={(e) => updateItem(index, "date", e.target.value)}
+                className="border border-gray-300 rounded-md p-2"
+                required
+              />
+              <input
+                type="time"
+                value={item.time || ""}
+                onChange={(e) => updateItem(index, "time", e.target.value)}
+                className="border border-gray-300 rounded-md p-2"
+              />
+              <input
+                type="text"
+                value={item.title}
+                onChange={(e) => updateItem(index, "title", e.target.value)}
+                placeholder="Programme"
+                className="border border-gray-300 rounded-md p-2"
+                required
+              />
+              <input
+                type="text"
+                value={item.title_kannada || ""}
+                onChange={(e) =>
+                  updateItem(index, "title_kannada", e.target.value)
+                }
+                placeholder="Programme (Kannada)"
+                className="border border-gray-300 rounded-md p-2"
+              />
+              <button
+                type="button"
+                onClick={() => removeItem(index)}
+                className="text-red-500 hover:underline px-2"
+              >
+                Remove
+              </button>
+            </div>
+          ))}
+          <button
+            type="button"
+            onClick={addItem}
+            disabled={!startDate}
+            className="bg-gray-200 text-gray-800 py-1 px-3 rounded-md hover:bg-gray-300 disabled:opacity-50"
+          >
+            Add Schedule Item
+          </button>
+        </div>
+
+        <div className="flex gap-2">
+          <button
+            type="submit"
+            disabled={loading}
+            className={`bg-blue-500 text-white py-2 px-4 rounded-md hover:bg-blue-600 transition duration-200 ${
+              loading ? "opacity-50 cursor-not-allowed" : ""
+            }`}
+          >
+            {loading ? "Saving..." : event ? "Save Changes" : "Add Event"}
+          </button>
+          {onCancel && (
+            <button
+              type="button"
+              onClick={onCancel}
+              className="bg-gray-200 text-gray-800 py-2 px-4 rounded-md hover:bg-gray-300"
+            >
+              Cancel
+            </button>
+          )}
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default EventForm;
@@ -1,75 +1,155 @@
 "use client";
 
 import React from "react";
-
-// Interface for HallForm
-interface HallForm {
-  id: number;
-  name: string;
-  reason: string;
-  gotra?: string;
-  mobileNumber: string;
-  date: Date; // Updated to use Date type
-  hallId: number;
-  hallName: string;
-  isBooked: boolean;
-}
+import { HallForm, formatBookingSlot } from "../hallforms/hallFormData";
+import {
+  BookingStatus,
+  BookingTimestamps,
+  bookingStatusLabels,
+  canTransition,
+  holdExpiresAt,
+  holdStartedAt,
+} from "../../booking/status";
 
 interface HallFormsListProps {
   hallForms: HallForm[];
-  onConfirm: (id: number, date: Date) => void; // Updated to pass Date type
+  onConfirm: (form: HallForm) => void; // Confirms every booked day
+  onStatusChange: (id: number, status: BookingStatus) => void;
+  onClose: (form: HallForm, status: BookingStatus) => void; // Reject or cancel
   onDelete: (id: number) => void;
 }
 
+// Timeline rows, in lifecycle order
+const timestampLabels: [keyof BookingTimestamps, string][] = [
+  ["requestedAt", "Requested"],
+  ["heldAt", "Put on hold"],
+  ["confirmedAt", "Confirmed"],
+  ["completedAt", "Completed"],
+  ["rejectedAt", "Rejected"],
+  ["cancelledAt", "Cancelled"],
+  ["expiredAt", "Expired"],
+];
+
 export default function HallFormsList({
   hallForms,
   onConfirm,
+  onStatusChange,
+  onClose,
   onDelete,
 }: HallFormsListProps): JSX.Element {
   return (
     <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6 mt-6">
-      {hallForms.map((form) => (
-        <div
-          key={form.id}
-          className="bg-white border-l-4 border-orange-500 shadow-lg rounded-lg p-6 transition duration-300 transform hover:scale-105 flex flex-col justify-between max-w-xs mx-auto"
-        >
-          <h2 className="text-xl font-semibold text-orange-600 mb-2">
-            {form.name}
-          </h2>
-          {/* Add the DES prefix for display */}
-          <p className="text-gray-700 mb-2">Booking ID: DES{form.id}</p>
-          <p className="text-gray-700 mb-2">Hall Name: {form.hallName}</p>
-          <p className="text-gray-700 mb-2">Reason: {form.reason}</p>
-          {form.gotra && (
-            <p className="text-gray-700 mb-2">Gotra: {form.gotra}</p>
-          )}
-          <p className="text-gray-700 mb-2">Mobile: {form.mobileNumber}</p>
-          <p className="text-sm text-gray-500 font-medium">
-            Date: {form.date.toLocaleDateString("en-GB")} {/* Format Date */}
-          </p>
-          <p
-            className={`text-sm font-medium ${
-              form.isBooked ? "text-green-600" : "text-red-600"
-            }`}
+      {hallForms.map((form) => {
+        const holdStart = holdStartedAt(form.timestamps);
+        const isHolding =
+          form.status === "requested" || form.status === "on_hold";
+
+        return (
+          <div
+            key={form.id}
+            className="bg-white border-l-4 border-orange-500 shadow-lg rounded-lg p-6 transition duration-300 transform hover:scale-105 flex flex-col justify-between max-w-xs mx-auto"
           >
-            Status: {form.isBooked ? "Confirmed" : "Pending"}
-          </p>
-          {!form.isBooked && (
+            <div className="flex justify-between items-start gap-2 mb-2">
+              <h2 className="text-xl font-semibold text-orange-600">
+                {form.name}
+              </h2>
+              <span
+                className={`px-2 py-1 rounded-full text-xs font-medium whitespace-nowrap ${
+                  bookingStatusLabels[form.status].badgeClassName
+                }`}
+              >
+                {bookingStatusLabels[form.status].en}
+              </span>
+            </div>
+            {/* Add the DES prefix for display */}
+            <p className="text-gray-700 mb-2">Booking ID: DES{form.id}</p>
+            <p className="text-gray-700 mb-2">Hall Name: {form.hallName}</p>
+            <p className="text-gray-700 mb-2">Reason: {form.reason}</p>
+            {form.gotra && (
+              <p className="text-gray-700 mb-2">Gotra: {form.gotra}</p>
+            )}
+            <p className="text-gray-700 mb-2">Mobile: {form.mobileNumber}</p>
+            <p className="text-sm text-gray-500 font-medium">
+              {form.slots.length > 1 ? "Dates" : "Date"}:
+            </p>
+            <ul className="text-sm text-gray-500 font-medium mb-2">
+              {form.slots.map((slot) => (
+                <li key={slot.date}>{formatBookingSlot(slot)}</li>
+              ))}
+            </ul>
+            {isHolding && holdStart && (
+              <p className="text-sm text-orange-600 font-medium">
+                Hold expires: {holdExpiresAt(holdStart).toLocaleString("en-GB")}
+              </p>
+            )}
+
+            {form.statusReason && (
+              <p className="text-sm text-red-600 font-medium">
+                {bookingStatusLabels[form.status].en} reason:{" "}
+                {form.statusReason}
+              </p>
+            )}
+
+            <ul className="text-xs text-gray-500 mt-2">
+              {timestampLabels
+                .filter(([key]) => form.timestamps[key])
+                .map(([key, label]) => (
+                  <li key={key}>
+                    {label}: {form.timestamps[key]?.toLocaleString("en-GB")}
+                  </li>
+                ))}
+            </ul>
+
+            {canTransition(form.status, "on_hold") && (
+              <button
+                onClick={() => onStatusChange(form.id, "on_hold")}
+                className="mt-4 bg-orange-500 text-white px-3 py-1 rounded block"
+              >
+                Put on Hold
+              </button>
+            )}
+            {canTransition(form.status, "confirmed") && (
+              <button
+                onClick={() => onConfirm(form)}
+                className="mt-2 bg-blue-500 text-white px-3 py-1 rounded block"
+              >
+                Confirm
+              </button>
+            )}
+            {canTransition(form.status, "completed") && (
+              <button
+                onClick={() => onStatusChange(form.id, "completed")}
+                className="mt-2 bg-green-600 text-white px-3 py-1 rounded block"
+              >
+                Mark Completed
+              </button>
+            )}
+            {canTransition(form.status, "rejected") && (
+              <button
+                onClick={() => onClose(form, "rejected")}
+                className="mt-2 bg-red-500 text-white px-3 py-1 rounded block"
+              >
+                Reject
+              </button>
+            )}
+            {canTransition(form.status, "cancelled") && (
+              <button
+                onClick={() => onClose(form, "cancelled")}
+                className="mt-2 bg-red-500 text-white px-3 py-1 rounded block"
+              >
+                Cancel Booking
+              </button>
+            )}
+            {/* Hard delete drops the record entirely, so keep it for spam */}
             <button
-              onClick={() => onConfirm(form.id, form.date)} // Pass numeric ID and Date object
-              className="mt-4 bg-blue-500 text-white px-3 py-1 rounded block"
+              onClick={() => onDelete(form.id)} // Pass numeric ID
+              className="mt-2 bg-gray-200 text-gray-700 px-3 py-1 rounded block"
             >
-              Confirm
+              Delete as Spam
             </button>
-          )}
-          <button
-            onClick={() => onDelete(form.id)} // Pass numeric ID
-            className="mt-2 bg-red-500 text-white px-3 py-1 rounded block"
-          >
-            Delete
-          </button>
-        </div>
-      ))}
+          </div>
+        );
+      })}
     </div>
   );
 }
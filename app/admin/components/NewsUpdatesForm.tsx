@@ -2,7 +2,11 @@
 
 import React, { useState } from "react";
 import Swal from "sweetalert2";
-import UploadImage from "../components/UploadImage";
+import TranslationFields from "./TranslationFields";
+import { Translations } from "@/app/i18n/content";
+import BulkUploadImages, {
+  UploadedImage,
+} from "../components/BulkUploadImages";
 
 interface AddNewsUpdateProps {
   onAdd: () => void; // Callback to refresh news updates
@@ -13,20 +17,13 @@ const AddNewsUpdate: React.FC<AddNewsUpdateProps> = ({ onAdd }) => {
   const [content, setContent] = useState<string>("");
   const [titleKannada, setTitleKannada] = useState<string>("");
   const [contentKannada, setContentKannada] = useState<string>("");
+  const [translations, setTranslations] = useState<Translations>({});
   const [imageIds, setImageIds] = useState<number[]>([]); // Store multiple image IDs
   const [loading, setLoading] = useState<boolean>(false);
 
-  // Handle image upload and add the image ID to the list
-  const handleImageUpload = (imageData: {
-    imageId: number;
-    publicUrl: string;
-  }) => {
-    setImageIds((prev) => [...prev, imageData.imageId]); // Add the new image ID to the array
-    Swal.fire(
-      "Success!",
-      `Image uploaded successfully. Image ID: ${imageData.imageId}`,
-      "success"
-    );
+  // Add the IDs of the uploaded images to the list
+  const handleImagesUpload = (images: UploadedImage[]) => {
+    setImageIds((prev) => [...prev, ...images.map((image) => image.imageId)]);
   };
 
   // Handle removing an image ID from the list
@@ -56,6 +53,7 @@ const AddNewsUpdate: React.FC<AddNewsUpdateProps> = ({ onAdd }) => {
       content,
       title_kannada: titleKannada,
       content_kannada: contentKannada,
+      translations,
       imageIds, // Include the list of image IDs
     };
 
@@ -82,6 +80,7 @@ const AddNewsUpdate: React.FC<AddNewsUpdateProps> = ({ onAdd }) => {
       setContent("");
       setTitleKannada("");
       setContentKannada("");
+      setTranslations({});
       setImageIds([]);
       onAdd(); // Refresh the news updates list
     } catch (error) {
@@ -100,7 +99,10 @@ const AddNewsUpdate: React.FC<AddNewsUpdateProps> = ({ onAdd }) => {
       <h2 className="text-lg font-semibold mb-4">Add News Update</h2>
 
       {/* Image Upload Section */}
-      <UploadImage onImageUpload={handleImageUpload} />
+      <BulkUploadImages
+        addLabel="Add to news update"
+        onAdd={handleImagesUpload}
+      />
 
       {/* Display Image IDs */}
       <div className="mb-4">
@@ -163,6 +165,14 @@ const AddNewsUpdate: React.FC<AddNewsUpdateProps> = ({ onAdd }) => {
             required
           />
         </div>
+        <TranslationFields
+          fields={[
+            { name: "title", label: "Title" },
+            { name: "content", label: "Content", multiline: true },
+          ]}
+          value={translations}
+          onChange={setTranslations}
+        />
         <button
           type="submit"
           disabled={loading}
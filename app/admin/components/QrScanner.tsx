@@ -0,0 +1,111 @@
+"use client";
+
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import jsQR from "jsqr";
+
+interface QrScannerProps {
+  onScan: (value: string) => void; // Called once per decoded code
+}
+
+const QrScanner: React.FC<QrScannerProps> = ({ onScan }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const frameRef = useRef<number | null>(null);
+  const [scanning, setScanning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const stopCamera = useCallback(() => {
+    if (frameRef.current !== null) {
+      cancelAnimationFrame(frameRef.current);
+      frameRef.current = null;
+    }
+    streamRef.current?.getTracks().forEach((track) => track.stop());
+    streamRef.current = null;
+    setScanning(false);
+  }, []);
+
+  // Decode the current video frame, and keep going until a code is found
+  const scanFrame = useCallback(() => {
+    const video = videoRef.current;
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext("2d", { willReadFrequently: true });
+
+    if (video && canvas && context && video.readyState >= 2) {
+      canvas.width = video.videoWidth;
+      canvas.height = video.videoHeight;
+      context.drawImage(video, 0, 0, canvas.width, canvas.height);
+      const image = context.getImageData(0, 0, canvas.width, canvas.height);
+      const code = jsQR(image.data, image.width, image.height);
+
+      if (code?.data) {
+        stopCamera();
+        onScan(code.data.trim());
+        return;
+      }
+    }
+
+    frameRef.current = requestAnimationFrame(scanFrame);
+  }, [onScan, stopCamera]);
+
+  const startCamera = async () => {
+    setError(null);
+    if (!navigator.mediaDevices?.getUserMedia) {
+      setError("Camera is not available on this device. Enter the ID below.");
+      return;
+    }
+
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({
+        video: { facingMode: "environment" }, // Prefer the back camera on phones
+      });
+      streamRef.current = stream;
+      if (videoRef.current) {
+        videoRef.current.srcObject = stream;
+        await videoRef.current.play();
+      }
+      setScanning(true);
+      frameRef.current = requestAnimationFrame(scanFrame);
+    } catch (err) {
+      console.error("Error starting camera:", err);
+      setError("Could not access the camera. Enter the ID below.");
+      stopCamera();
+    }
+  };
+
+  // Release the camera when leaving the page
+  useEffect(() => stopCamera, [stopCamera]);
+
+  return (
+    <div className="bg-white p-4 rounded-md shadow-md border border-gray-300">
+      <h2 className="text-lg font-semibold mb-4 text-center">Scan Receipt</h2>
+      <video
+        ref={videoRef}
+        className={`w-full rounded-md bg-black ${scanning ? "" : "hidden"}`}
+        muted
+        playsInline
+      />
+      <canvas ref={canvasRef} className="hidden" />
+      {error && <p className="text-red-500 text-sm mb-2">{error}</p>}
+      <div className="flex justify-center mt-4">
+        {scanning ? (
+          <button
+            onClick={stopCamera}
+            className="bg-red-500 text-white py-1 px-3 rounded-md hover:bg-red-600 transition duration-200"
+          >
+            Stop Camera
+          </button>
+        ) : (
+          <button
+            onClick={startCamera}
+            className="bg-blue-500 text-white py-1 px-3 rounded-md hover:bg-blue-600 transition duration-200"
+          >
+            Start Camera
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default QrScanner;
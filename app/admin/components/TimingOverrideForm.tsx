@@ -0,0 +1,211 @@
+"use client";
+
+import React, { useState } from "react";
+import Swal from "sweetalert2";
+import DayScheduleEditor from "./DayScheduleEditor";
+import {
+  DEFAULT_DAY,
+  DaySchedule,
+  TimingOverride,
+  scheduleProblem,
+} from "../../temple/timings";
+
+interface TimingOverrideFormProps {
+  override?: TimingOverride; // Edit this override instead of adding one
+  onSave: () => void;
+  onCancel?: () => void;
+}
+
+const TimingOverrideForm: React.FC<TimingOverrideFormProps> = ({
+  override,
+  onSave,
+  onCancel,
+}) => {
+  const [date, setDate] = useState(override?.date || "");
+  const [endDate, setEndDate] = useState(override?.endDate || "");
+  const [title, setTitle] = useState(override?.title.en || "");
+  const [titleKannada, setTitleKannada] = useState(override?.title.kn || "");
+  const [note, setNote] = useState(override?.note.en || "");
+  const [noteKannada, setNoteKannada] = useState(override?.note.kn || "");
+  const [closed, setClosed] = useState(override?.closed || false);
+  // New overrides start from the usual timings, which are then adjusted
+  const [schedule, setSchedule] = useState<DaySchedule>(
+    override?.schedule || DEFAULT_DAY
+  );
+  const [loading, setLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (endDate && endDate < date) {
+      Swal.fire(
+        "Error!",
+        "The last day must be on or after the first day.",
+        "error"
+      );
+      return;
+    }
+
+    const problem = closed ? null : scheduleProblem(schedule, "en");
+    if (problem) {
+      Swal.fire("Error!", problem, "error");
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const response = await fetch(
+        override
+          ? `/api/timingoverrides/${override.id}`
+          : "/api/timingoverrides",
+        {
+          method: override ? "PATCH" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            date,
+            end_date: endDate || date,
+            title,
+            title_kannada: titleKannada,
+            note,
+            note_kannada: noteKannada,
+            is_closed: closed,
+            darshan: closed ? [] : schedule.darshan,
+            poojas: closed ? [] : schedule.poojas,
+          }),
+        }
+      );
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || "Failed to save special timings");
+      }
+
+      Swal.fire("Saved!", "The special timings have been saved.", "success");
+      onSave();
+    } catch (error) {
+      Swal.fire(
+        "Error!",
+        error instanceof Error
+          ? error.message
+          : "Failed to save special timings",
+        "error"
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="bg-white p-6 rounded-md shadow-md mb-6"
+    >
+      <h2 className="text-lg font-semibold mb-4">
+        {override ? `Edit ${override.title.en}` : "Add Special Day"}
+      </h2>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mb-4">
+        <div>
+          <label className="block text-gray-700 mb-2">Date</label>
+          <input
+            type="date"
+            value={date}
+            onChange={(e) => setDate(e.target.value)}
+            className="border border-gray-300 rounded-md p-2 w-full"
+            required
+          />
+        </div>
+        <div>
+          <label className="block text-gray-700 mb-2">
+            Last Day (if more than one)
+          </label>
+          <input
+            type="date"
+            value={endDate}
+            min={date || undefined}
+            onChange={(e) => setEndDate(e.target.value)}
+            className="border border-gray-300 rounded-md p-2 w-full"
+          />
+        </div>
+        <div>
+          <label className="block text-gray-700 mb-2">Occasion</label>
+          <input
+            type="text"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            placeholder="e.g. Chandra Grahana"
+            className="border border-gray-300 rounded-md p-2 w-full"
+            required
+          />
+        </div>
+        <div>
+          <label className="block text-gray-700 mb-2">Occasion (Kannada)</label>
+          <input
+            type="text"
+            value={titleKannada}
+            onChange={(e) => setTitleKannada(e.target.value)}
+            className="border border-gray-300 rounded-md p-2 w-full"
+            required
+          />
+        </div>
+        <div>
+          <label className="block text-gray-700 mb-2">Note</label>
+          <textarea
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            className="border border-gray-300 rounded-md p-2 w-full"
+          />
+        </div>
+        <div>
+          <label className="block text-gray-700 mb-2">Note (Kannada)</label>
+          <textarea
+            value={noteKannada}
+            onChange={(e) => setNoteKannada(e.target.value)}
+            className="border border-gray-300 rounded-md p-2 w-full"
+          />
+        </div>
+      </div>
+
+      <label className="flex items-center gap-2 mb-4">
+        <input
+          type="checkbox"
+          checked={closed}
+          onChange={(e) => setClosed(e.target.checked)}
+        />
+        Temple closed (no darshan or poojas)
+      </label>
+
+      {!closed && (
+        <div className="mb-4">
+          <DayScheduleEditor value={schedule} onChange={setSchedule} />
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <button
+          type="submit"
+          disabled={loading}
+          className={`bg-blue-500 text-white py-2 px-4 rounded-md hover:bg-blue-600 transition duration-200 ${
+            loading ? "opacity-50 cursor-not-allowed" : ""
+          }`}
+        >
+          {loading
+            ? "Saving..."
+            : override
+              ? "Save Changes"
+              : "Add Special Day"}
+        </button>
+        {onCancel && (
+          <button
+            type="button"
+            onClick={onCancel}
+            className="bg-gray-200 text-gray-800 py-2 px-4 rounded-md hover:bg-gray-300"
+          >
+            Cancel
+          </button>
+        )}
+      </div>
+    </form>
+  );
+};
+
+export default TimingOverrideForm;
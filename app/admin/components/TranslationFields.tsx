@@ -0,0 +1,76 @@
+"use client";
+
+import React from "react";
+import { LOCALE_NAMES } from "@/app/i18n";
+import { TRANSLATED_LOCALES, Translations } from "@/app/i18n/content";
+
+interface TranslationField {
+  name: string;
+  label: string;
+  multiline?: boolean;
+}
+
+interface TranslationFieldsProps {
+  fields: TranslationField[];
+  value: Translations;
+  onChange: (value: Translations) => void;
+}
+
+// Optional text for the locales beyond English and Kannada; a field left
+// empty is shown in the locale's fallback language on the site
+const TranslationFields = ({
+  fields,
+  value,
+  onChange,
+}: TranslationFieldsProps): JSX.Element => {
+  const setField = (
+    locale: (typeof TRANSLATED_LOCALES)[number],
+    field: string,
+    text: string
+  ) =>
+    onChange({
+      ...value,
+      [locale]: { ...value[locale], [field]: text || undefined },
+    });
+
+  return (
+    <details className="mb-4 border border-gray-200 rounded-md p-3">
+      <summary className="cursor-pointer text-gray-700 font-medium">
+        Other languages (optional)
+      </summary>
+      {TRANSLATED_LOCALES.map((locale) => (
+        <div key={locale} className="mt-3">
+          <h3 className="text-sm font-semibold text-gray-600 mb-2">
+            {LOCALE_NAMES[locale]}
+          </h3>
+          {fields.map(({ name, label, multiline }) => {
+            const inputProps = {
+              lang: locale,
+              value: value[locale]?.[name] ?? "",
+              className: "border border-gray-300 rounded-md p-2 w-full",
+            };
+            return (
+              <div key={name} className="mb-2">
+                <label className="block text-gray-700 mb-1">{label}</label>
+                {multiline ? (
+                  <textarea
+                    {...inputProps}
+                    onChange={(e) => setField(locale, name, e.target.value)}
+                  />
+                ) : (
+                  <input
+                    type="text"
+                    {...inputProps}
+                    onChange={(e) => setField(locale, name, e.target.value)}
+                  />
+                )}
+              </div>
+            );
+          })}
+        </div>
+      ))}
+    </details>
+  );
+};
+
+export default TranslationFields;
@@ -2,6 +2,8 @@
 
 import { useState } from "react";
 import Swal from "sweetalert2";
+import TranslationFields from "./TranslationFields";
+import { Translations } from "@/app/i18n/content";
 
 interface Hall {
   id: number;
@@ -9,6 +11,7 @@ interface Hall {
   description: string;
   name_kannada?: string;
   description_kannada?: string;
+  translations?: Translations | null;
 }
 
 interface UpdateHallFormProps {
@@ -28,6 +31,9 @@ const UpdateHallForm = ({
   const [descriptionKannada, setDescriptionKannada] = useState(
     hall.description_kannada || ""
   );
+  const [translations, setTranslations] = useState<Translations>(
+    hall.translations ?? {}
+  );
   const [loading, setLoading] = useState(false);
 
   const handleUpdate = async () => {
@@ -43,6 +49,7 @@ const UpdateHallForm = ({
           description,
           name_kannada: nameKannada,
           description_kannada: descriptionKannada,
+          translations,
         }),
       });
 
@@ -126,6 +133,14 @@ const UpdateHallForm = ({
               rows={3}
             ></textarea>
           </div>
+          <TranslationFields
+            fields={[
+              { name: "name", label: "Name" },
+              { name: "description", label: "Description", multiline: true },
+            ]}
+            value={translations}
+            onChange={setTranslations}
+          />
           <div className="flex justify-end space-x-3">
             <button
               type="button"
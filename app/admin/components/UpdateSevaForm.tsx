@@ -0,0 +1,241 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Swal from "sweetalert2";
+import TranslationFields from "./TranslationFields";
+import { Translations } from "@/app/i18n/content";
+
+interface Seva {
+  id: number;
+  name: string;
+  description: string;
+  base_price: number;
+  name_kannada?: string;
+  description_kannada?: string;
+  translations?: Translations | null;
+}
+
+// One row per price the seva has had, recorded by the backend on each change
+interface PriceHistoryEntry {
+  price: number;
+  effectiveFrom: Date;
+}
+
+interface UpdateSevaFormProps {
+  seva: Seva;
+  onUpdate: () => void;
+  onClose: () => void;
+}
+
+const UpdateSevaForm = ({
+  seva,
+  onUpdate,
+  onClose,
+}: UpdateSevaFormProps): JSX.Element => {
+  const [name, setName] = useState(seva.name);
+  const [description, setDescription] = useState(seva.description);
+  const [nameKannada, setNameKannada] = useState(seva.name_kannada || "");
+  const [descriptionKannada, setDescriptionKannada] = useState(
+    seva.description_kannada || ""
+  );
+  const [translations, setTranslations] = useState<Translations>(
+    seva.translations ?? {}
+  );
+  const [basePrice, setBasePrice] = useState(String(seva.base_price));
+  const [priceHistory, setPriceHistory] = useState<PriceHistoryEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    const fetchPriceHistory = async () => {
+      try {
+        const res = await fetch(`/api/sevas/${seva.id}/prices`);
+        if (!res.ok) throw new Error("Failed to load price history");
+        const { data } = await res.json();
+
+        setPriceHistory(
+          data
+            .map((entry: { price: string; effective_from: string }) => ({
+              price: parseFloat(entry.price), // Decimal columns arrive as strings
+              effectiveFrom: new Date(entry.effective_from),
+            }))
+            .sort(
+              (a: PriceHistoryEntry, b: PriceHistoryEntry) =>
+                b.effectiveFrom.getTime() - a.effectiveFrom.getTime()
+            )
+        );
+      } catch (error) {
+        console.error(error);
+      }
+    };
+
+    fetchPriceHistory();
+  }, [seva.id]);
+
+  const handleUpdate = async () => {
+    const price = Number(basePrice);
+    if (!Number.isFinite(price) || price < 0) {
+      Swal.fire("Error!", "Please enter a valid price.", "error");
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/sevas/${seva.id}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          name,
+          description,
+          name_kannada: nameKannada,
+          description_kannada: descriptionKannada,
+          translations,
+          base_price: price,
+        }),
+      });
+
+      if (!res.ok) {
+        const errorData = await res.json();
+        throw new Error(errorData.message || "Failed to update seva");
+      }
+
+      onUpdate(); // Update the parent component
+    } catch (error) {
+      Swal.fire(
+        "Error!",
+        error instanceof Error ? error.message : "Failed to update seva",
+        "error"
+      );
+    } finally {
+      setLoading(false);
+      onClose(); // Close the modal
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-lg p-8 w-full max-w-lg max-h-screen overflow-y-auto">
+        <h2 className="text-2xl font-bold mb-6 text-gray-800">Update Seva</h2>
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleUpdate();
+          }}
+        >
+          <div className="mb-4">
+            <label className="block text-sm font-medium text-gray-700">
+              Name
+            </label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+              required
+            />
+          </div>
+          <div className="mb-4">
+            <label className="block text-sm font-medium text-gray-700">
+              Description
+            </label>
+            <textarea
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+              rows={3}
+              required
+            ></textarea>
+          </div>
+          <div className="mb-4">
+            <label className="block text-sm font-medium text-gray-700">
+              Name (Kannada)
+            </label>
+            <input
+              type="text"
+              value={nameKannada}
+              onChange={(e) => setNameKannada(e.target.value)}
+              className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+          <div className="mb-4">
+            <label className="block text-sm font-medium text-gray-700">
+              Description (Kannada)
+            </label>
+            <textarea
+              value={descriptionKannada}
+              onChange={(e) => setDescriptionKannada(e.target.value)}
+              className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+              rows={3}
+            ></textarea>
+          </div>
+          <TranslationFields
+            fields={[
+              { name: "name", label: "Name" },
+              { name: "description", label: "Description", multiline: true },
+            ]}
+            value={translations}
+            onChange={setTranslations}
+          />
+          <div className="mb-4">
+            <label className="block text-sm font-medium text-gray-700">
+              Price (₹)
+            </label>
+            <input
+              type="number"
+              min={0}
+              step="0.01"
+              value={basePrice}
+              onChange={(e) => setBasePrice(e.target.value)}
+              className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+              required
+            />
+          </div>
+
+          {/* Earlier prices, newest first */}
+          <div className="mb-6">
+            <h3 className="text-sm font-medium text-gray-700 mb-2">
+              Price History
+            </h3>
+            {priceHistory.length > 0 ? (
+              <ul className="bg-gray-100 p-3 rounded-md text-sm space-y-1">
+                {priceHistory.map((entry) => (
+                  <li
+                    key={entry.effectiveFrom.toISOString()}
+                    className="flex justify-between"
+                  >
+                    <span>₹{entry.price}</span>
+                    <span className="text-gray-500">
+                      from {entry.effectiveFrom.toLocaleDateString("en-GB")}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm text-gray-500">No price changes yet.</p>
+            )}
+          </div>
+
+          <div className="flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="bg-gray-300 text-gray-700 px-4 py-2 rounded-md"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700"
+              disabled={loading}
+            >
+              {loading ? "Updating..." : "Update"}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default UpdateSevaForm;
@@ -0,0 +1,255 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import LoadingSpinner from "../../components/LoadingSpinner";
+import { formatBookingId } from "../../components/Receipt";
+import { paymentStatusLabels } from "../../components/PaymentButton";
+import { PaymentStatus } from "../../payments/types";
+import {
+  DONATION_PURPOSES,
+  DonationPurpose,
+  donationPurposeLabels,
+} from "../../donations/purposes";
+import { toDateKey } from "../../panchanga/dates";
+
+// Interface for a donation as returned by the API
+interface ApiDonation {
+  id: number;
+  donorName: string;
+  mobileNumber: string;
+  pan?: string | null;
+  address: string;
+  amount: number | string;
+  purpose: DonationPurpose;
+  paymentStatus?: PaymentStatus;
+  createdAt: string;
+}
+
+interface Donation {
+  id: number;
+  displayId: string;
+  donorName: string;
+  mobileNumber: string;
+  pan: string | null;
+  address: string;
+  amount: number;
+  purpose: DonationPurpose;
+  paymentStatus: PaymentStatus;
+  createdAt: Date;
+}
+
+const formatDonation = (donation: ApiDonation): Donation => ({
+  id: donation.id,
+  displayId: formatBookingId("donation", donation.id),
+  donorName: donation.donorName,
+  mobileNumber: donation.mobileNumber,
+  pan: donation.pan || null,
+  address: donation.address,
+  amount: Number(donation.amount), // Decimal columns arrive as strings
+  purpose: donation.purpose,
+  paymentStatus: donation.paymentStatus || "pending",
+  createdAt: new Date(donation.createdAt),
+});
+
+export default function Donations(): JSX.Element {
+  const [donations, setDonations] = useState<Donation[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [filters, setFilters] = useState({
+    from: "",
+    to: "",
+    purpose: "",
+    paymentStatus: "",
+  });
+
+  const fetchDonations = async () => {
+    setLoading(true);
+    try {
+      const res = await fetch("/api/donations");
+      if (!res.ok) throw new Error("Failed to load donations");
+
+      const { data }: { data: ApiDonation[] } = await res.json();
+      setDonations(
+        data
+          .map(formatDonation)
+          .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      );
+    } catch (err) {
+      console.error(err);
+      setError("Failed to load donations. Please try again later.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchDonations();
+  }, []);
+
+  const handleFilterChange = (
+    e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>
+  ) => {
+    const { name, value } = e.target;
+    setFilters((prevFilters) => ({ ...prevFilters, [name]: value }));
+  };
+
+  const filteredDonations = useMemo(
+    () =>
+      donations.filter((donation) => {
+        const day = toDateKey(donation.createdAt);
+        return (
+          (!filters.from || day >= filters.from) &&
+          (!filters.to || day <= filters.to) &&
+          (!filters.purpose || donation.purpose === filters.purpose) &&
+          (!filters.paymentStatus ||
+            donation.paymentStatus === filters.paymentStatus)
+        );
+      }),
+    [donations, filters]
+  );
+
+  // Totals only count money actually received
+  const totals = useMemo(() => {
+    const byPurpose = Object.fromEntries(
+      DONATION_PURPOSES.map((purpose) => [purpose, { amount: 0, count: 0 }])
+    ) as Record<DonationPurpose, { amount: number; count: number }>;
+
+    filteredDonations
+      .filter((donation) => donation.paymentStatus === "paid")
+      .forEach((donation) => {
+        const total = byPurpose[donation.purpose];
+        if (!total) return;
+        total.amount += donation.amount;
+        total.count += 1;
+      });
+
+    const overall = Object.values(byPurpose).reduce(
+      (sum, total) => sum + total.amount,
+      0
+    );
+    return { byPurpose, overall };
+  }, [filteredDonations]);
+
+  return (
+    <div className="container mx-auto p-6">
+      {error && <p className="text-red-500 text-center">{error}</p>}
+
+      {/* Filter Inputs */}
+      <div className="mb-4 flex flex-wrap gap-4">
+        <label className="flex items-center gap-2">
+          From
+          <input
+            type="date"
+            name="from"
+            value={filters.from}
+            onChange={handleFilterChange}
+            className="border border-gray-300 rounded-md p-2"
+          />
+        </label>
+        <label className="flex items-center gap-2">
+          To
+          <input
+            type="date"
+            name="to"
+            value={filters.to}
+            min={filters.from || undefined}
+            onChange={handleFilterChange}
+            className="border border-gray-300 rounded-md p-2"
+          />
+        </label>
+        <select
+          name="purpose"
+          value={filters.purpose}
+          onChange={handleFilterChange}
+          className="border border-gray-300 rounded-md p-2 flex-1"
+        >
+          <option value="">All purposes</option>
+          {DONATION_PURPOSES.map((purpose) => (
+            <option key={purpose} value={purpose}>
+              {donationPurposeLabels[purpose].en}
+            </option>
+          ))}
+        </select>
+        <select
+          name="paymentStatus"
+          value={filters.paymentStatus}
+          onChange={handleFilterChange}
+          className="border border-gray-300 rounded-md p-2 flex-1"
+        >
+          <option value="">All payment statuses</option>
+          <option value="paid">Paid</option>
+          <option value="pending">Pending</option>
+          <option value="failed">Failed</option>
+        </select>
+      </div>
+
+      {/* Totals by purpose */}
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-6">
+        {DONATION_PURPOSES.map((purpose) => (
+          <div
+            key={purpose}
+            className="bg-white border-l-4 border-orange-500 shadow-lg rounded-lg p-4"
+          >
+            <p className="text-sm text-gray-600">
+              {donationPurposeLabels[purpose].en}
+            </p>
+            <p className="text-xl font-semibold text-orange-600">
+              ₹{totals.byPurpose[purpose].amount.toLocaleString("en-IN")}
+            </p>
+            <p className="text-xs text-gray-500">
+              {totals.byPurpose[purpose].count} paid
+            </p>
+          </div>
+        ))}
+        <div className="bg-white border-l-4 border-green-500 shadow-lg rounded-lg p-4">
+          <p className="text-sm text-gray-600">Total received</p>
+          <p className="text-xl font-semibold text-green-600">
+            ₹{totals.overall.toLocaleString("en-IN")}
+          </p>
+        </div>
+      </div>
+
+      {loading && <LoadingSpinner />}
+      {!loading && filteredDonations.length === 0 && !error && (
+        <p className="text-center text-orange-500 font-medium">
+          No donations found.
+        </p>
+      )}
+
+      <div className="space-y-4">
+        {filteredDonations.map((donation) => (
+          <div
+            key={donation.id}
+            className="bg-white border-l-4 border-orange-500 shadow-lg rounded-lg p-6"
+          >
+            <div className="flex justify-between flex-wrap gap-2">
+              <h2 className="text-xl font-semibold text-orange-600">
+                {donation.displayId} – {donation.donorName}
+              </h2>
+              <p className="text-xl font-semibold">
+                ₹{donation.amount.toLocaleString("en-IN")}
+              </p>
+            </div>
+            <p className="text-gray-700">
+              Purpose: {donationPurposeLabels[donation.purpose]?.en || donation.purpose}
+            </p>
+            <p className="text-gray-700">Mobile: {donation.mobileNumber}</p>
+            {donation.pan && <p className="text-gray-700">PAN: {donation.pan}</p>}
+            <p className="text-gray-700">Address: {donation.address}</p>
+            <p className="text-sm text-gray-500 font-medium">
+              Date: {donation.createdAt.toLocaleDateString("en-GB")}
+            </p>
+            <p
+              className={`text-sm font-medium mt-2 ${
+                paymentStatusLabels[donation.paymentStatus].className
+              }`}
+            >
+              {paymentStatusLabels[donation.paymentStatus].en}
+            </p>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
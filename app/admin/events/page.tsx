@@ -0,0 +1,183 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Swal from "sweetalert2";
+import Image from "next/image";
+import LoadingSpinner from "../../components/LoadingSpinner";
+import EventForm from "../components/EventForm";
+import { toDateKey } from "../../panchanga/dates";
+import {
+  TempleEvent,
+  eventDates,
+  eventStatus,
+  fetchEventsData,
+} from "../../events/eventData";
+
+const statusStyles = {
+  upcoming: "bg-blue-100 text-blue-700",
+  ongoing: "bg-green-100 text-green-700",
+  past: "bg-gray-200 text-gray-600",
+};
+
+export default function EventsAdmin(): JSX.Element {
+  const [events, setEvents] = useState<TempleEvent[]>([]);
+  const [editingEvent, setEditingEvent] = useState<TempleEvent | null>(null);
+  const [showPast, setShowPast] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchEvents = async () => {
+    setLoading(true);
+    try {
+      const data = await fetchEventsData();
+      setEvents(data.sort((a, b) => a.startDate.localeCompare(b.startDate)));
+    } catch (err) {
+      console.error(err);
+      setError("Failed to load events. Please try again later.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchEvents();
+  }, []);
+
+  const deleteEvent = async (event: TempleEvent) => {
+    const confirmDelete = await Swal.fire({
+      title: `Delete ${event.title}?`,
+      text: "You won't be able to revert this!",
+      icon: "warning",
+      showCancelButton: true,
+      confirmButtonColor: "#d33",
+      cancelButtonColor: "#3085d6",
+      confirmButtonText: "Yes, delete it!",
+    });
+
+    if (!confirmDelete.isConfirmed) return;
+
+    try {
+      const response = await fetch(`/api/events/${event.id}`, {
+        method: "DELETE",
+      });
+      if (!response.ok) throw new Error("Failed to delete event");
+
+      setEvents((prev) => prev.filter((item) => item.id !== event.id));
+      if (editingEvent?.id === event.id) setEditingEvent(null);
+      Swal.fire("Deleted!", "The event has been deleted.", "success");
+    } catch (error) {
+      Swal.fire(
+        "Error!",
+        error instanceof Error ? error.message : "Failed to delete event",
+        "error"
+      );
+    }
+  };
+
+  const editEvent = (event: TempleEvent) => {
+    setEditingEvent(event);
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  };
+
+  const today = toDateKey(new Date());
+  const visibleEvents = events.filter(
+    (event) => showPast || eventStatus(event, today) !== "past"
+  );
+
+  return (
+    <div className="container mx-auto p-6">
+      {/* Keyed so switching events resets the form */}
+      <EventForm
+        key={editingEvent?.id ?? "new"}
+        event={editingEvent || undefined}
+        onSave={() => {
+          setEditingEvent(null);
+          fetchEvents();
+        }}
+        onCancel={editingEvent ? () => setEditingEvent(null) : undefined}
+      />
+
+      <label className="flex items-center gap-2 mb-4">
+        <input
+          type="checkbox"
+          checked={showPast}
+          onChange={(e) => setShowPast(e.target.checked)}
+        />
+        Show past events
+      </label>
+
+      {error && <p className="text-red-500 text-center">{error}</p>}
+      {loading && <LoadingSpinner />}
+      {!loading && visibleEvents.length === 0 && !error && (
+        <p className="text-center text-orange-500 font-medium">
+          No events available.
+        </p>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-8 mt-6">
+        {visibleEvents.map((event) => {
+          const status = eventStatus(event, today);
+          return (
+            <div
+              key={event.id}
+              className="bg-white border-l-4 border-orange-500 shadow-lg rounded-lg p-6 flex flex-col justify-between"
+            >
+              <div>
+                {event.coverImage && (
+                  <div className="relative w-full h-40 mb-4">
+                    <Image
+                      src={event.coverImage.public_url}
+                      alt={event.coverImage.alt_text || event.title}
+                      fill
+                      className="object-cover rounded-lg"
+                    />
+                  </div>
+                )}
+                <div className="flex justify-between items-start gap-2">
+                  <h2 className="text-xl font-semibold text-orange-600">
+                    {event.title}
+                  </h2>
+                  <span
+                    className={`px-2 py-1 rounded-full text-xs font-medium capitalize ${statusStyles[status]}`}
+                  >
+                    {status}
+                  </span>
+                </div>
+                <p className="text-gray-600">{event.title_kannada}</p>
+                <p className="text-sm text-gray-500 font-medium mt-2">
+                  {eventDates(event)}
+                </p>
+                <p className="text-sm text-gray-500">
+                  {event.schedule.length} schedule item
+                  {event.schedule.length === 1 ? "" : "s"}
+                </p>
+              </div>
+              <div className="mt-4 flex flex-wrap gap-2">
+                <button
+                  onClick={() => editEvent(event)}
+                  className="bg-blue-500 text-white px-3 py-1 rounded"
+                >
+                  Edit
+                </button>
+                <a
+                  href={`/events/${event.id}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="bg-gray-200 text-gray-800 px-3 py-1 rounded"
+                >
+                  View
+                </a>
+                <button
+                  onClick={() => deleteEvent(event)}
+                  className="bg-red-500 text-white px-3 py-1 rounded"
+                >
+                  Delete
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
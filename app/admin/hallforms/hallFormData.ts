@@ -0,0 +1,124 @@
+import {
+  BookingStatus,
+  BookingTimestamps,
+  effectiveStatus,
+  legacyStatus,
+} from "../../booking/status";
+import { BookingSlot } from "../../booking/types";
+import { getDatesInRange, slotLabels } from "../../booking/slots";
+
+// Interface for each HallForm entry
+export interface HallForm {
+  id: number;
+  name: string;
+  reason: string;
+  gotra?: string;
+  mobileNumber: string;
+  date: Date; // Date type instead of string
+  endDate: Date; // Last day; the same as date for a one-day booking
+  slots: BookingSlot[]; // One entry per day, YYYY-MM-DD
+  hallId: number;
+  hallName: string;
+  isBooked: boolean;
+  status: BookingStatus; // Already accounts for holds past their deadline
+  timestamps: BookingTimestamps;
+  statusReason: string | null; // Why it was rejected or cancelled
+  checkedInAt: Date | null;
+  displayId: string; // Separate property for prefixed ID
+}
+
+// Interface for API response that includes the nested hall object
+export interface ApiHallForm {
+  id: number;
+  name: string;
+  reason: string;
+  mobileNumber: string;
+  date: string; // Still string from the API
+  endDate?: string | null; // Missing on rows created before multi-day bookings
+  slots?: BookingSlot[] | null; // Missing on rows created before half days
+  hallId: number;
+  status?: BookingStatus; // Missing on rows created before booking states
+  createdAt?: string;
+  heldAt?: string | null;
+  confirmedAt?: string | null;
+  completedAt?: string | null;
+  rejectedAt?: string | null;
+  cancelledAt?: string | null;
+  expiredAt?: string | null;
+  statusReason?: string | null;
+  checkedInAt?: string | null;
+  hall: {
+    name: string;
+    hallAvailability: {
+      date: string;
+      is_booked: boolean;
+    }[];
+  };
+}
+
+const toDate = (value?: string | null) => (value ? new Date(value) : null);
+
+const toDayKey = (value: string) => value.split("T")[0];
+
+// Older rows booked every day of their range in full
+const bookedSlots = (form: ApiHallForm): BookingSlot[] =>
+  form.slots?.length
+    ? form.slots.map(({ date, slot }) => ({ date: toDayKey(date), slot }))
+    : getDatesInRange(
+        toDayKey(form.date),
+        toDayKey(form.endDate || form.date)
+      ).map((date) => ({ date, slot: "full" }));
+
+// "12/01/2026 (Morning)"
+export const formatBookingSlot = ({ date, slot }: BookingSlot) =>
+  `${new Date(date).toLocaleDateString("en-GB", {
+    timeZone: "Asia/Kolkata",
+  })} (${slotLabels[slot].en})`;
+
+// Flatten the API shape and work out whether the date is booked
+export const formatHallForm = (form: ApiHallForm): HallForm => {
+  const availability = form.hall.hallAvailability.find(
+    (avail) =>
+      new Date(avail.date).toISOString() === new Date(form.date).toISOString()
+  );
+  const isBooked = availability?.is_booked || false; // Check if the hall is booked
+
+  const timestamps: BookingTimestamps = {
+    requestedAt: toDate(form.createdAt),
+    heldAt: toDate(form.heldAt),
+    confirmedAt: toDate(form.confirmedAt),
+    completedAt: toDate(form.completedAt),
+    rejectedAt: toDate(form.rejectedAt),
+    cancelledAt: toDate(form.cancelledAt),
+    expiredAt: toDate(form.expiredAt),
+  };
+  const status =
+    form.status || legacyStatus(isBooked, form.reason) || "requested";
+
+  return {
+    id: form.id,
+    displayId: `DES${form.id}`, // Add prefixed ID for display
+    name: form.name,
+    reason: form.reason,
+    mobileNumber: form.mobileNumber,
+    date: new Date(form.date), // Convert date string to Date object
+    endDate: new Date(form.endDate || form.date),
+    slots: bookedSlots(form),
+    hallId: form.hallId,
+    hallName: form.hall.name || "N/A", // Access hall name safely
+    isBooked,
+    status: effectiveStatus(status, timestamps),
+    timestamps,
+    statusReason: form.statusReason || null,
+    checkedInAt: toDate(form.checkedInAt),
+  };
+};
+
+// Fetch Hall Forms with Hall name and isBooked status included
+export const fetchHallFormsData = async (): Promise<HallForm[]> => {
+  const res = await fetch(`/api/hallforms`);
+  if (!res.ok) throw new Error("Failed to load hall forms");
+
+  const { data }: { data: ApiHallForm[] } = await res.json(); // Type response data
+  return data.map(formatHallForm);
+};
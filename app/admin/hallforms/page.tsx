@@ -1,43 +1,26 @@
 "use client";
 
 import { useEffect, useState } from "react";
+import { useDispatch } from "react-redux";
 import LoadingSpinner from "../../components/LoadingSpinner"; // Import the LoadingSpinner component
 import HallFormsList from "../components/HallFormsList"; // Import the new HallFormsList component
 import Swal from "sweetalert2";
 import AddManualForm from "../components/AddManualForm"; // Import the AddHallForms component
-
-// Interface for each HallForm entry
-interface HallForm {
-  id: number;
-  name: string;
-  reason: string;
-  gotra?: string;
-  mobileNumber: string;
-  date: Date; // Date type instead of string
-  hallId: number;
-  hallName: string;
-  isBooked: boolean;
-  displayId: string; // Separate property for prefixed ID
-}
-
-// Interface for API response that includes the nested hall object
-interface ApiHallForm {
-  id: number;
-  name: string;
-  reason: string;
-  mobileNumber: string;
-  date: string; // Still string from the API
-  hallId: number;
-  hall: {
-    name: string;
-    hallAvailability: {
-      date: string;
-      is_booked: boolean;
-    }[];
-  };
-}
+import {
+  HallForm,
+  fetchHallFormsData,
+  formatBookingSlot,
+} from "./hallFormData";
+import {
+  BookingStatus,
+  bookingStatusLabels,
+  isClosed,
+} from "../../booking/status";
+import { AppDispatch } from "../../store";
+import { invalidateAvailability } from "../../store/availabilitySlice";
 
 export default function HallForms(): JSX.Element {
+  const dispatch = useDispatch<AppDispatch>();
   const [hallForms, setHallForms] = useState<HallForm[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -48,7 +31,10 @@ export default function HallForms(): JSX.Element {
     mobileNumber: "",
     date: "",
     id: "",
+    status: "",
   });
+  // Rejected and cancelled bookings are kept on record but listed separately
+  const [showClosed, setShowClosed] = useState(false);
 
   // State for filtered results
   const [filteredHallForms, setFilteredHallForms] = useState<HallForm[]>([]);
@@ -57,29 +43,7 @@ export default function HallForms(): JSX.Element {
   const fetchHallForms = async () => {
     setLoading(true);
     try {
-      const res = await fetch(`/api/hallforms`);
-      if (!res.ok) throw new Error("Failed to load hall forms");
-
-      const { data }: { data: ApiHallForm[] } = await res.json(); // Type response data
-      const formattedData = data.map((form) => {
-        const availability = form.hall.hallAvailability.find(
-          (avail) =>
-            new Date(avail.date).toISOString() ===
-            new Date(form.date).toISOString()
-        );
-
-        return {
-          id: form.id,
-          displayId: `DES${form.id}`, // Add prefixed ID for display
-          name: form.name,
-          reason: form.reason,
-          mobileNumber: form.mobileNumber,
-          date: new Date(form.date), // Convert date string to Date object
-          hallId: form.hallId,
-          hallName: form.hall.name || "N/A", // Access hall name safely
-          isBooked: availability?.is_booked || false, // Check if the hall is booked
-        };
-      });
+      const formattedData = await fetchHallFormsData();
 
       setHallForms(formattedData);
       setFilteredHallForms(formattedData); // Initialize filtered results
@@ -93,8 +57,8 @@ export default function HallForms(): JSX.Element {
 
   const deleteHallForm = async (id: number) => {
     const confirmDelete = await Swal.fire({
-      title: "Are you sure?",
-      text: "You won't be able to revert this!",
+      title: "Delete as spam?",
+      text: "The request will be removed for good. Use Reject or Cancel for genuine requests so they stay on record.",
       icon: "warning",
       showCancelButton: true,
       confirmButtonColor: "#d33",
@@ -113,9 +77,7 @@ export default function HallForms(): JSX.Element {
         }
 
         // Update the local state to remove the deleted hall form
-        setFilteredHallForms((prevForms) =>
-          prevForms.filter((form) => form.id !== id)
-        );
+        setHallForms((prevForms) => prevForms.filter((form) => form.id !== id));
 
         Swal.fire("Deleted!", "Your hall form has been deleted.", "success");
       } catch (error) {
@@ -128,13 +90,21 @@ export default function HallForms(): JSX.Element {
     }
   };
 
-  const confirmBooking = async (id: number, date: Date) => {
+  // Confirms the whole booked range, each day with its own slot
+  const confirmBooking = async (form: HallForm) => {
     try {
-      const response = await fetch(`/api/hallforms/${id}/confirm-reserve`, {
-        method: "PATCH", // Use PATCH instead of POST
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ date: date.toISOString() }), // Send the date in ISO format
-      });
+      const response = await fetch(
+        `/api/hallforms/${form.id}/confirm-reserve`,
+        {
+          method: "PATCH", // Use PATCH instead of POST
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            date: form.date.toISOString(),
+            endDate: form.endDate.toISOString(),
+            slots: form.slots,
+          }),
+        }
+      );
 
       if (!response.ok) {
         throw new Error("Failed to confirm reservation");
@@ -155,19 +125,105 @@ export default function HallForms(): JSX.Element {
     }
   };
 
+  const updateStatus = async (id: number, status: BookingStatus) => {
+    try {
+      const response = await fetch(`/api/hallforms/${id}/status`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ status }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || "Failed to update status");
+      }
+
+      Swal.fire(
+        "Success!",
+        `The booking is now ${bookingStatusLabels[status].en.toLowerCase()}.`,
+        "success"
+      );
+      fetchHallForms();
+    } catch (error) {
+      Swal.fire(
+        "Error!",
+        error instanceof Error ? error.message : "Failed to update status",
+        "error"
+      );
+    }
+  };
+
+  // Reject or cancel, keeping the record and freeing the date
+  const closeBooking = async (form: HallForm, status: BookingStatus) => {
+    const action = status === "rejected" ? "Reject" : "Cancel";
+    const { value: reason, isConfirmed } = await Swal.fire({
+      title: `${action} ${form.displayId}?`,
+      text: `${form.name} – ${form.date.toLocaleDateString("en-GB")}`,
+      input: "textarea",
+      inputLabel: "Reason",
+      inputPlaceholder: `Reason to ${action.toLowerCase()} this booking`,
+      inputValidator: (value) =>
+        value.trim() ? null : "Please enter a reason.",
+      icon: "warning",
+      showCancelButton: true,
+      confirmButtonColor: "#d33",
+      cancelButtonColor: "#3085d6",
+      confirmButtonText: `Yes, ${action.toLowerCase()} it`,
+      cancelButtonText: "Back",
+    });
+
+    if (!isConfirmed) return;
+
+    try {
+      const response = await fetch(`/api/hallforms/${form.id}/status`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ status, reason: reason.trim() }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(
+          errorData.message || `Failed to ${action.toLowerCase()} booking`
+        );
+      }
+
+      dispatch(invalidateAvailability()); // The date is free again
+      Swal.fire(
+        "Done!",
+        `${form.displayId} has been ${bookingStatusLabels[status].en.toLowerCase()}.`,
+        "success"
+      );
+      fetchHallForms();
+    } catch (error) {
+      Swal.fire(
+        "Error!",
+        error instanceof Error
+          ? error.message
+          : `Failed to ${action.toLowerCase()} booking`,
+        "error"
+      );
+    }
+  };
+
   // Function to handle filter input changes
-  const handleFilterChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleFilterChange = (
+    e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>
+  ) => {
     const { name, value } = e.target;
     setFilters((prevFilters) => ({ ...prevFilters, [name]: value }));
   };
 
   useEffect(() => {
-    fetchHallForms();
+    // Expire overdue holds first so the list starts out current
+    fetch("/api/hallforms/expire-holds", { method: "POST" })
+      .catch((err) => console.error("Error expiring holds:", err))
+      .finally(fetchHallForms);
   }, []);
 
   useEffect(() => {
     const applyFilters = () => {
-      const { name, mobileNumber, date, id } = filters;
+      const { name, mobileNumber, date, id, status } = filters;
 
       const filteredForms = hallForms.filter((form) => {
         const matchesName = form.name
@@ -175,18 +231,27 @@ export default function HallForms(): JSX.Element {
           .includes(name.toLowerCase());
         const matchesMobile = form.mobileNumber.includes(mobileNumber);
         const matchesDate = date
-          ? form.date.toLocaleDateString("en-GB").includes(date)
+          ? form.slots.some((slot) => formatBookingSlot(slot).includes(date))
           : true;
         const matchesId = form.displayId.includes(id); // Use displayId for filter
+        const matchesStatus = status ? form.status === status : true;
+        const matchesView = isClosed(form.status) === showClosed;
 
-        return matchesName && matchesMobile && matchesDate && matchesId;
+        return (
+          matchesName &&
+          matchesMobile &&
+          matchesDate &&
+          matchesId &&
+          matchesStatus &&
+          matchesView
+        );
       });
 
       setFilteredHallForms(filteredForms);
     };
 
     applyFilters(); // Apply filters whenever the filters change
-  }, [filters, hallForms]); // Depend on both filters and original hallForms
+  }, [filters, hallForms, showClosed]); // Depend on both filters and original hallForms
 
   return (
     <div className="container mx-auto p-6">
@@ -198,6 +263,30 @@ export default function HallForms(): JSX.Element {
         </p>
       )}
 
+      {/* Active bookings vs. rejected / cancelled ones */}
+      <div className="mb-4 flex gap-2">
+        <button
+          onClick={() => setShowClosed(false)}
+          className={`px-4 py-2 rounded-md ${
+            showClosed
+              ? "bg-gray-200 text-gray-700"
+              : "bg-orange-500 text-white"
+          }`}
+        >
+          Active
+        </button>
+        <button
+          onClick={() => setShowClosed(true)}
+          className={`px-4 py-2 rounded-md ${
+            showClosed
+              ? "bg-orange-500 text-white"
+              : "bg-gray-200 text-gray-700"
+          }`}
+        >
+          Rejected / Cancelled
+        </button>
+      </div>
+
       {/* Filter Inputs */}
       <div className="mb-4 flex flex-wrap gap-4">
         <input
@@ -232,6 +321,19 @@ export default function HallForms(): JSX.Element {
           onChange={handleFilterChange}
           className="border border-gray-300 rounded-md p-2 flex-1"
         />
+        <select
+          name="status"
+          value={filters.status}
+          onChange={handleFilterChange}
+          className="border border-gray-300 rounded-md p-2 flex-1"
+        >
+          <option value="">All statuses</option>
+          {Object.entries(bookingStatusLabels).map(([status, label]) => (
+            <option key={status} value={status}>
+              {label.en}
+            </option>
+          ))}
+        </select>
       </div>
 
       {/* Add Hall Form */}
@@ -243,6 +345,8 @@ export default function HallForms(): JSX.Element {
       <HallFormsList
         hallForms={filteredHallForms} // Pass unchanged HallForms
         onConfirm={confirmBooking}
+        onStatusChange={updateStatus}
+        onClose={closeBooking}
         onDelete={deleteHallForm}
       />
     </div>
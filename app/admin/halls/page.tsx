@@ -1,8 +1,7 @@
 "use client";
 
 import { useEffect, useState } from "react";
-import { useSelector } from "react-redux";
-import { RootState } from "../../store";
+import { Translations } from "../../i18n/content";
 import LoadingSpinner from "../../components/LoadingSpinner";
 import AddHall from "../components/AddHallForm";
 import Swal from "sweetalert2";
@@ -15,14 +14,11 @@ interface Hall {
   description: string;
   name_kannada?: string;
   description_kannada?: string;
+  translations?: Translations | null;
   images: string[]; // Array of public image URLs
 }
 
 const HallsList = (): JSX.Element => {
-  const showKannada = useSelector(
-    (state: RootState) => state.locale.locale === "kn"
-  );
-
   const [halls, setHalls] = useState<Hall[]>([]);
   const [selectedHall, setSelectedHall] = useState<Hall | null>(null);
   const [error, setError] = useState<string | null>(null);
@@ -43,6 +39,7 @@ const HallsList = (): JSX.Element => {
           description: string;
           name_kannada?: string;
           description_kannada?: string;
+          translations?: Translations | null;
           HallImages: { Images: { public_url: string } }[];
         }) => ({
           id: hall.hall_id,
@@ -50,6 +47,7 @@ const HallsList = (): JSX.Element => {
           description: hall.description,
           name_kannada: hall.name_kannada,
           description_kannada: hall.description_kannada,
+          translations: hall.translations,
           images: hall.HallImages.map((image) => image.Images.public_url),
         })
       );
@@ -130,10 +128,10 @@ const HallsList = (): JSX.Element => {
             style={{ minHeight: "320px" }}
           >
             <h2 className="text-xl font-semibold text-gray-800 break-words">
-              {showKannada ? hall.name_kannada : hall.name}
+              {hall.name}
             </h2>
             <p className="text-gray-600 mt-2 break-words">
-              {showKannada ? hall.description_kannada : hall.description}
+              {hall.description}
             </p>
             <div className="mt-4 grid grid-cols-2 gap-2">
               {hall.images.map((imageUrl, index) => (
@@ -2,8 +2,6 @@
 
 import { useEffect, useState } from "react";
 import LoadingSpinner from "../../components/LoadingSpinner";
-import { useSelector } from "react-redux";
-import { RootState } from "../../store";
 import Swal from "sweetalert2";
 import AddNewsUpdate from "../components/NewsUpdatesForm";
 import Image from "next/image";
@@ -22,9 +20,6 @@ export default function NewsUpdates(): JSX.Element {
   const [newsUpdates, setNewsUpdates] = useState<NewsUpdate[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const showKannada = useSelector(
-    (state: RootState) => state.locale.locale === "kn"
-  );
 
   const fetchNewsUpdates = async () => {
     setLoading(true);
@@ -128,10 +123,10 @@ export default function NewsUpdates(): JSX.Element {
           >
             <div className="relative max-h-40 overflow-y-auto pr-2 custom-scrollbar">
               <h2 className="text-2xl font-semibold text-orange-600 mb-3">
-                {showKannada ? news.title_kannada : news.title}
+                {news.title}
               </h2>
               <p className="text-gray-700 mb-4">
-                {showKannada ? news.content_kannada : news.content}
+                {news.content}
               </p>
               <div className="absolute bottom-0 left-0 right-0 h-6 bg-gradient-to-t from-white to-transparent pointer-events-none"></div>
             </div>
@@ -7,24 +7,36 @@ const AdminPage = () => {
   const [newsUpdatesCount, setNewsUpdatesCount] = useState(0);
   const [galleryCount, setGalleryCount] = useState(0);
   const [hallFormsCount, setHallFormsCount] = useState(0);
+  const [sevasCount, setSevasCount] = useState(0);
+  const [sevaFormsCount, setSevaFormsCount] = useState(0);
   const [loading, setLoading] = useState(true); // Loading state
 
   const fetchCounts = useCallback(async () => {
     setLoading(true); // Set loading to true when fetching
     try {
-      const [hallsRes, newsUpdatesRes, hallFormsRes, galleryRes] =
-        await Promise.all([
-          fetch("/api/halls"),
-          fetch("/api/news-updates"),
-          fetch("/api/hallforms"),
-          fetch("/api/gallery"),
-        ]);
+      const [
+        hallsRes,
+        newsUpdatesRes,
+        hallFormsRes,
+        galleryRes,
+        sevasRes,
+        sevaFormsRes,
+      ] = await Promise.all([
+        fetch("/api/halls"),
+        fetch("/api/news-updates"),
+        fetch("/api/hallforms"),
+        fetch("/api/gallery/albums"),
+        fetch("/api/sevas?includeInactive=true"),
+        fetch("/api/sevaforms"),
+      ]);
 
       if (
         !hallsRes.ok ||
         !newsUpdatesRes.ok ||
         !hallFormsRes.ok ||
-        !galleryRes.ok
+        !galleryRes.ok ||
+        !sevasRes.ok ||
+        !sevaFormsRes.ok
       ) {
         throw new Error("Failed to fetch data");
       }
@@ -33,13 +45,17 @@ const AdminPage = () => {
       const newsUpdatesData = await newsUpdatesRes.json();
       const hallFormsData = await hallFormsRes.json();
       const galleryData = await galleryRes.json();
+      const sevasData = await sevasRes.json();
+      const sevaFormsData = await sevaFormsRes.json();
 
       // Update the counts from the data arrays
       setHallsCount(hallsData.data.length);
       setNewsUpdatesCount(newsUpdatesData.data.length);
       setHallFormsCount(hallFormsData.data.length);
+      setSevasCount(sevasData.data.length);
+      setSevaFormsCount(sevaFormsData.data.length);
 
-      // Update gallery count based on the data structure
+      // The gallery count is the number of albums
       const galleryCount = galleryData.data.length;
       setGalleryCount(galleryCount);
     } catch (error) {
@@ -58,6 +74,38 @@ const AdminPage = () => {
       <h2 className="text-2xl font-semibold mb-6 text-center">
         Welcome to the Admin Dashboard
       </h2>
+      <div className="flex justify-center gap-4 mb-6">
+        <Link
+          href="/admin/checkin"
+          className="bg-orange-500 text-white py-2 px-4 rounded-md hover:bg-orange-600 transition duration-200"
+        >
+          Counter Check-in (Scan Receipt)
+        </Link>
+        <Link
+          href="/admin/donations"
+          className="bg-green-600 text-white py-2 px-4 rounded-md hover:bg-green-700 transition duration-200"
+        >
+          Donations
+        </Link>
+        <Link
+          href="/admin/subscriptions"
+          className="bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 transition duration-200"
+        >
+          Seva Subscriptions
+        </Link>
+        <Link
+          href="/admin/events"
+          className="bg-purple-600 text-white py-2 px-4 rounded-md hover:bg-purple-700 transition duration-200"
+        >
+          Events
+        </Link>
+        <Link
+          href="/admin/timings"
+          className="bg-teal-600 text-white py-2 px-4 rounded-md hover:bg-teal-700 transition duration-200"
+        >
+          Temple Timings
+        </Link>
+      </div>
       <div className="flex flex-col sm:flex-row justify-between space-y-4 sm:space-y-0 sm:space-x-4">
         {loading ? (
           <div className="flex justify-center items-center">
@@ -90,6 +138,18 @@ const AdminPage = () => {
                 <span className="text-lg font-bold">Hall Forms</span>
               </div>
             </Link>
+            <Link href="/admin/sevas">
+              <div className="flex flex-col items-center bg-orange-500 text-white rounded-lg p-6 h-40 w-full sm:w-40 text-center cursor-pointer transition duration-200 hover:bg-orange-600">
+                <CountAnimation count={sevasCount} />
+                <span className="text-lg font-bold">Sevas</span>
+              </div>
+            </Link>
+            <Link href="/admin/sevaforms">
+              <div className="flex flex-col items-center bg-purple-500 text-white rounded-lg p-6 h-40 w-full sm:w-40 text-center cursor-pointer transition duration-200 hover:bg-purple-600">
+                <CountAnimation count={sevaFormsCount} />
+                <span className="text-lg font-bold">Seva Forms</span>
+              </div>
+            </Link>
           </>
         )}
       </div>
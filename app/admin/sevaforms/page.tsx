@@ -0,0 +1,292 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import Swal from "sweetalert2";
+import LoadingSpinner from "../../components/LoadingSpinner";
+import { paymentStatusLabels } from "../../components/PaymentButton";
+import {
+  SevaForm,
+  fetchSevaFormsData,
+  markSevaPerformed,
+} from "./sevaFormData";
+import { NAKSHATRAS, RASHIS, bilingualName } from "../../panchanga/names";
+import { toDateKey } from "../../panchanga/dates";
+
+// Worklist sections: one per day, then one per seva within the day
+interface WorklistDay {
+  date: string;
+  sevas: { sevaId: number; sevaName: string; forms: SevaForm[] }[];
+}
+
+const groupWorklist = (forms: SevaForm[]): WorklistDay[] => {
+  const days = new Map<string, Map<number, SevaForm[]>>();
+
+  forms.forEach((form) => {
+    const day = toDateKey(form.date);
+    const sevas = days.get(day) || new Map<number, SevaForm[]>();
+    sevas.set(form.sevaId, [...(sevas.get(form.sevaId) || []), form]);
+    days.set(day, sevas);
+  });
+
+  return Array.from(days.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, sevas]) => ({
+      date,
+      sevas: Array.from(sevas.entries())
+        .map(([sevaId, sevaForms]) => ({
+          sevaId,
+          sevaName: sevaForms[0].sevaName,
+          forms: sevaForms.sort((a, b) => a.name.localeCompare(b.name)),
+        }))
+        .sort((a, b) => a.sevaName.localeCompare(b.sevaName)),
+    }));
+};
+
+export default function SevaForms(): JSX.Element {
+  const [sevaForms, setSevaForms] = useState<SevaForm[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Today's worklist by default
+  const [filters, setFilters] = useState(() => {
+    const today = toDateKey(new Date());
+    return { from: today, to: today, sevaId: "", hidePerformed: false };
+  });
+
+  const fetchSevaForms = async () => {
+    setLoading(true);
+    try {
+      setSevaForms(await fetchSevaFormsData());
+    } catch (err) {
+      console.error(err);
+      setError("Failed to load seva forms. Please try again later.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchSevaForms();
+  }, []);
+
+  const handleFilterChange = (
+    e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>
+  ) => {
+    const { name, value } = e.target;
+    setFilters((prevFilters) => ({ ...prevFilters, [name]: value }));
+  };
+
+  const markPerformed = async (form: SevaForm) => {
+    const confirmMark = await Swal.fire({
+      title: "Mark as Performed?",
+      text: `${form.displayId} – ${form.name} (${form.sevaName})`,
+      icon: "question",
+      showCancelButton: true,
+      confirmButtonColor: "#3085d6",
+      cancelButtonColor: "#d33",
+      confirmButtonText: "Yes",
+    });
+
+    if (!confirmMark.isConfirmed) return;
+
+    try {
+      await markSevaPerformed(form.id);
+      setSevaForms((prevForms) =>
+        prevForms.map((item) =>
+          item.id === form.id ? { ...item, performedAt: new Date() } : item
+        )
+      );
+    } catch (error) {
+      Swal.fire(
+        "Error!",
+        error instanceof Error ? error.message : "Failed to update record",
+        "error"
+      );
+    }
+  };
+
+  // Every seva that appears in the submissions, for the filter
+  const sevaOptions = useMemo(
+    () =>
+      Array.from(
+        new Map(sevaForms.map((form) => [form.sevaId, form.sevaName]))
+      ).sort(([, a], [, b]) => a.localeCompare(b)),
+    [sevaForms]
+  );
+
+  const worklist = useMemo(
+    () =>
+      groupWorklist(
+        sevaForms.filter((form) => {
+          const day = toDateKey(form.date);
+          return (
+            (!filters.from || day >= filters.from) &&
+            (!filters.to || day <= filters.to) &&
+            (!filters.sevaId || form.sevaId === Number(filters.sevaId)) &&
+            (!filters.hidePerformed || !form.performedAt)
+          );
+        })
+      ),
+    [sevaForms, filters]
+  );
+
+  return (
+    <div className="container mx-auto p-6">
+      {error && <p className="text-red-500 text-center">{error}</p>}
+
+      {/* Filter Inputs */}
+      <div className="mb-4 flex flex-wrap items-center gap-4 print:hidden">
+        <label className="flex items-center gap-2">
+          From
+          <input
+            type="date"
+            name="from"
+            value={filters.from}
+            onChange={handleFilterChange}
+            className="border border-gray-300 rounded-md p-2"
+          />
+        </label>
+        <label className="flex items-center gap-2">
+          To
+          <input
+            type="date"
+            name="to"
+            value={filters.to}
+            min={filters.from || undefined}
+            onChange={handleFilterChange}
+            className="border border-gray-300 rounded-md p-2"
+          />
+        </label>
+        <select
+          name="sevaId"
+          value={filters.sevaId}
+          onChange={handleFilterChange}
+          className="border border-gray-300 rounded-md p-2 flex-1"
+        >
+          <option value="">All sevas</option>
+          {sevaOptions.map(([sevaId, sevaName]) => (
+            <option key={sevaId} value={sevaId}>
+              {sevaName}
+            </option>
+          ))}
+        </select>
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={filters.hidePerformed}
+            onChange={(e) =>
+              setFilters((prevFilters) => ({
+                ...prevFilters,
+                hidePerformed: e.target.checked,
+              }))
+            }
+          />
+          Hide performed
+        </label>
+        <button
+          onClick={() => window.print()}
+          className="bg-blue-500 text-white px-4 py-2 rounded-md hover:bg-blue-600"
+        >
+          Print Worklist
+        </button>
+      </div>
+
+      {loading && <LoadingSpinner />}
+      {!loading && worklist.length === 0 && !error && (
+        <p className="text-center text-orange-500 font-medium">
+          No sevas booked for the selected dates.
+        </p>
+      )}
+
+      <div className="printable-worklist space-y-8">
+        {worklist.map((day) => (
+          <section key={day.date}>
+            <h2 className="text-2xl font-semibold text-orange-600 border-b-2 border-orange-300 pb-1 mb-4">
+              {new Date(`${day.date}T00:00:00`).toLocaleDateString("en-GB", {
+                weekday: "long",
+                day: "2-digit",
+                month: "2-digit",
+                year: "numeric",
+              })}
+            </h2>
+
+            {day.sevas.map((seva) => (
+              <div key={seva.sevaId} className="mb-6 break-inside-avoid">
+                <h3 className="text-lg font-semibold text-gray-800 mb-2">
+                  {seva.sevaName} ({seva.forms.length})
+                </h3>
+                <table className="w-full text-left border border-gray-300 bg-white text-sm">
+                  <thead className="bg-orange-100">
+                    <tr>
+                      <th className="p-2 border">ID</th>
+                      <th className="p-2 border">Name</th>
+                      <th className="p-2 border">Gotra</th>
+                      <th className="p-2 border">Nakshathra</th>
+                      <th className="p-2 border">Rashi</th>
+                      <th className="p-2 border">Payment</th>
+                      <th className="p-2 border">Performed</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {seva.forms.map((form) => (
+                      <tr key={form.id}>
+                        <td className="p-2 border">{form.displayId}</td>
+                        <td className="p-2 border font-medium">
+                          {form.name}
+                          {form.subscriptionId !== null && (
+                            <span className="block text-xs font-normal text-gray-500">
+                              Subscription SUB{form.subscriptionId}
+                            </span>
+                          )}
+                        </td>
+                        <td className="p-2 border">{form.gotra || "-"}</td>
+                        <td className="p-2 border">
+                          {bilingualName(NAKSHATRAS, form.nakshathra)}
+                        </td>
+                        <td className="p-2 border">
+                          {bilingualName(RASHIS, form.rashi)}
+                        </td>
+                        <td className="p-2 border">
+                          {form.paymentStatus ? (
+                            <span
+                              className={
+                                paymentStatusLabels[form.paymentStatus]
+                                  .className
+                              }
+                            >
+                              {paymentStatusLabels[form.paymentStatus].en}
+                            </span>
+                          ) : (
+                            "-"
+                          )}
+                        </td>
+                        <td className="p-2 border">
+                          {form.performedAt ? (
+                            <span className="text-green-600">
+                              ✓{" "}
+                              {form.performedAt.toLocaleTimeString("en-GB", {
+                                hour: "2-digit",
+                                minute: "2-digit",
+                              })}
+                            </span>
+                          ) : (
+                            <button
+                              onClick={() => markPerformed(form)}
+                              className="bg-green-600 text-white px-2 py-1 rounded print:hidden"
+                            >
+                              Mark as Performed
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ))}
+          </section>
+        ))}
+      </div>
+    </div>
+  );
+}
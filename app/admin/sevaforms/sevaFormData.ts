@@ -0,0 +1,79 @@
+import { formatBookingId } from "../../booking/bookingIds";
+import { PaymentStatus } from "../../payments/types";
+
+// Interface for each SevaForm entry
+export interface SevaForm {
+  id: number;
+  displayId: string; // SEVA-prefixed ID, as printed on the receipt
+  name: string;
+  nakshathra: string;
+  rashi: string;
+  gotra?: string;
+  mobileNumber: string;
+  date: Date;
+  sevaId: number;
+  sevaName: string;
+  sevaNameKannada?: string;
+  paymentStatus?: PaymentStatus;
+  performedAt: Date | null;
+  subscriptionId: number | null; // Set when generated from a subscription
+}
+
+// Interface for API response that includes the nested seva object
+export interface ApiSevaForm {
+  id: number;
+  name: string;
+  nakshathra: string;
+  rashi: string;
+  gotra?: string;
+  mobileNumber: string;
+  date: string;
+  sevaId: number;
+  paymentStatus?: PaymentStatus;
+  performedAt?: string | null;
+  subscriptionId?: number | null;
+  seva?: {
+    name: string;
+    name_kannada?: string;
+  };
+}
+
+// Free sevas and those booked before online payment have no payment status
+export const isSevaPaid = (paymentStatus?: PaymentStatus) =>
+  !paymentStatus || paymentStatus === "paid";
+
+export const formatSevaForm = (form: ApiSevaForm): SevaForm => ({
+  id: form.id,
+  displayId: formatBookingId("seva", form.id),
+  name: form.name,
+  nakshathra: form.nakshathra,
+  rashi: form.rashi,
+  gotra: form.gotra,
+  mobileNumber: form.mobileNumber,
+  date: new Date(form.date),
+  sevaId: form.sevaId,
+  sevaName: form.seva?.name || "Seva",
+  sevaNameKannada: form.seva?.name_kannada,
+  paymentStatus: form.paymentStatus,
+  performedAt: form.performedAt ? new Date(form.performedAt) : null,
+  subscriptionId: form.subscriptionId ?? null,
+});
+
+export const fetchSevaFormsData = async (): Promise<SevaForm[]> => {
+  const res = await fetch(`/api/sevaforms`);
+  if (!res.ok) throw new Error("Failed to load seva forms");
+
+  const { data }: { data: ApiSevaForm[] } = await res.json();
+  return data.map(formatSevaForm);
+};
+
+// Same endpoint the counter check-in uses
+export const markSevaPerformed = async (id: number) => {
+  const response = await fetch(`/api/sevaforms/${id}/perform`, {
+    method: "PATCH",
+  });
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.message || "Failed to update record");
+  }
+};
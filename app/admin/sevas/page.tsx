@@ -0,0 +1,276 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Translations } from "../../i18n/content";
+import LoadingSpinner from "../../components/LoadingSpinner";
+import AddSeva from "../components/AddSevaForm";
+import Swal from "sweetalert2";
+import UpdateSevaForm from "../components/UpdateSevaForm";
+
+interface Seva {
+  id: number;
+  name: string;
+  description: string;
+  base_price: number;
+  name_kannada?: string;
+  description_kannada?: string;
+  translations?: Translations | null;
+  isActive: boolean; // Inactive sevas are hidden from the public list
+  archivedAt: Date | null; // Retired for good, kept for old seva forms
+}
+
+const SevasAdminList = (): JSX.Element => {
+  const [sevas, setSevas] = useState<Seva[]>([]);
+  const [selectedSeva, setSelectedSeva] = useState<Seva | null>(null);
+  const [showArchived, setShowArchived] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  // Fetch every seva, including the ones hidden from devotees
+  const fetchSevas = async () => {
+    setLoading(true);
+    try {
+      const res = await fetch("/api/sevas?includeInactive=true");
+      if (!res.ok) throw new Error("Failed to load sevas");
+      const { data } = await res.json();
+
+      const formattedData = data.map(
+        (seva: {
+          seva_id: number;
+          name: string;
+          description: string;
+          base_price: string;
+          name_kannada?: string;
+          description_kannada?: string;
+          translations?: Translations | null;
+          is_active?: boolean;
+          archived_at?: string | null;
+        }) => ({
+          id: seva.seva_id,
+          name: seva.name,
+          description: seva.description,
+          base_price: parseFloat(seva.base_price), // Convert to number
+          name_kannada: seva.name_kannada,
+          description_kannada: seva.description_kannada,
+          translations: seva.translations,
+          isActive: seva.is_active !== false, // Older rows have no flag
+          archivedAt: seva.archived_at ? new Date(seva.archived_at) : null,
+        })
+      );
+
+      setSevas(formattedData);
+    } catch (err) {
+      console.error(err);
+      setError("Failed to load sevas. Please try again later.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const patchSeva = async (id: number, changes: Record<string, unknown>) => {
+    const response = await fetch(`/api/sevas/${id}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(changes),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.message || "Failed to update seva");
+    }
+  };
+
+  // Show or hide a seva on the public sevas page
+  const toggleActive = async (seva: Seva) => {
+    try {
+      await patchSeva(seva.id, { is_active: !seva.isActive });
+      setSevas((prevSevas) =>
+        prevSevas.map((item) =>
+          item.id === seva.id ? { ...item, isActive: !seva.isActive } : item
+        )
+      );
+    } catch (error) {
+      Swal.fire(
+        "Error!",
+        error instanceof Error ? error.message : "Failed to update seva",
+        "error"
+      );
+    }
+  };
+
+  // Archiving keeps the seva for existing seva forms instead of deleting it
+  const archiveSeva = async (seva: Seva) => {
+    const confirmArchive = await Swal.fire({
+      title: `Archive ${seva.name}?`,
+      text: "It will be hidden from devotees. Existing seva forms keep it.",
+      icon: "warning",
+      showCancelButton: true,
+      confirmButtonColor: "#d33",
+      cancelButtonColor: "#3085d6",
+      confirmButtonText: "Yes, archive it!",
+    });
+
+    if (!confirmArchive.isConfirmed) return;
+
+    try {
+      await patchSeva(seva.id, { archived: true, is_active: false });
+      Swal.fire("Archived!", "The seva has been archived.", "success");
+      fetchSevas();
+    } catch (error) {
+      Swal.fire(
+        "Error!",
+        error instanceof Error ? error.message : "Failed to archive seva",
+        "error"
+      );
+    }
+  };
+
+  const restoreSeva = async (seva: Seva) => {
+    try {
+      await patchSeva(seva.id, { archived: false });
+      Swal.fire(
+        "Restored!",
+        "The seva is back. Mark it active to show it to devotees.",
+        "success"
+      );
+      fetchSevas();
+    } catch (error) {
+      Swal.fire(
+        "Error!",
+        error instanceof Error ? error.message : "Failed to restore seva",
+        "error"
+      );
+    }
+  };
+
+  // Update seva callback
+  const handleUpdateSeva = () => {
+    Swal.fire({
+      title: "Update Successful!",
+      text: "The seva has been updated successfully.",
+      icon: "success",
+      confirmButtonText: "OK",
+    }).then(() => {
+      fetchSevas(); // Reload sevas after updating
+    });
+  };
+
+  useEffect(() => {
+    fetchSevas();
+  }, []);
+
+  const visibleSevas = sevas.filter(
+    (seva) => (seva.archivedAt !== null) === showArchived
+  );
+
+  return (
+    <div className="container mx-auto p-6">
+      <AddSeva onAdd={fetchSevas} />
+
+      <div className="flex gap-2">
+        <button
+          onClick={() => setShowArchived(false)}
+          className={`px-4 py-2 rounded-md ${
+            showArchived
+              ? "bg-gray-200 text-gray-700"
+              : "bg-orange-500 text-white"
+          }`}
+        >
+          Current
+        </button>
+        <button
+          onClick={() => setShowArchived(true)}
+          className={`px-4 py-2 rounded-md ${
+            showArchived
+              ? "bg-orange-500 text-white"
+              : "bg-gray-200 text-gray-700"
+          }`}
+        >
+          Archived
+        </button>
+      </div>
+
+      {error && <p className="text-red-500 text-center">{error}</p>}
+      {loading && <LoadingSpinner />}
+      {!loading && visibleSevas.length === 0 && !error && (
+        <p className="text-center mt-6">No sevas available.</p>
+      )}
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-8 mt-10">
+        {visibleSevas.map((seva) => (
+          <div
+            key={seva.id}
+            className={`bg-white shadow-lg rounded-lg p-6 relative flex flex-col justify-between ${
+              seva.isActive ? "" : "opacity-70"
+            }`}
+          >
+            <div className="flex justify-between items-start gap-2">
+              <h2 className="text-xl font-semibold text-gray-800 break-words">
+                {seva.name}
+              </h2>
+              <span
+                className={`px-2 py-1 rounded-full text-xs font-medium whitespace-nowrap ${
+                  seva.isActive
+                    ? "bg-green-100 text-green-700"
+                    : "bg-gray-200 text-gray-600"
+                }`}
+              >
+                {seva.isActive ? "Active" : "Inactive"}
+              </span>
+            </div>
+            <p className="text-gray-600 mt-2 break-words">
+              {seva.description}
+            </p>
+            <p className="mt-4 font-semibold text-lg text-gray-800">
+              Price: ₹{seva.base_price}
+            </p>
+            {seva.archivedAt && (
+              <p className="text-sm text-gray-500">
+                Archived on {seva.archivedAt.toLocaleDateString("en-GB")}
+              </p>
+            )}
+            <div className="mt-4 flex flex-wrap gap-2">
+              {seva.archivedAt ? (
+                <button
+                  onClick={() => restoreSeva(seva)}
+                  className="bg-blue-500 text-white px-3 py-1 rounded"
+                >
+                  Restore
+                </button>
+              ) : (
+                <>
+                  <button
+                    onClick={() => setSelectedSeva(seva)}
+                    className="bg-blue-500 text-white px-3 py-1 rounded"
+                  >
+                    Update
+                  </button>
+                  <button
+                    onClick={() => toggleActive(seva)}
+                    className="bg-orange-500 text-white px-3 py-1 rounded"
+                  >
+                    {seva.isActive ? "Deactivate" : "Activate"}
+                  </button>
+                  <button
+                    onClick={() => archiveSeva(seva)}
+                    className="bg-red-500 text-white px-3 py-1 rounded"
+                  >
+                    Archive
+                  </button>
+                </>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+      {selectedSeva && (
+        <UpdateSevaForm
+          seva={selectedSeva}
+          onUpdate={handleUpdateSeva}
+          onClose={() => setSelectedSeva(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default SevasAdminList;
@@ -0,0 +1,293 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import Swal from "sweetalert2";
+import LoadingSpinner from "../../components/LoadingSpinner";
+import { paymentStatusLabels } from "../../components/PaymentButton";
+import {
+  describeRecurrence,
+  upcomingOccurrences,
+} from "../../sevas/recurrence";
+import { addDays, formatDateKey, toDateKey } from "../../panchanga/dates";
+import { NAKSHATRAS, bilingualName } from "../../panchanga/names";
+import { SevaForm, fetchSevaFormsData } from "../sevaforms/sevaFormData";
+import {
+  GENERATE_AHEAD_DAYS,
+  SevaSubscription,
+  fetchSubscriptionsData,
+} from "./subscriptionData";
+
+// Dates after the generated ones, to show what comes next
+const NEXT_DATES_COUNT = 3;
+
+export default function Subscriptions(): JSX.Element {
+  const [subscriptions, setSubscriptions] = useState<SevaSubscription[]>([]);
+  const [sevaForms, setSevaForms] = useState<SevaForm[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [filters, setFilters] = useState({
+    search: "",
+    seva: "",
+    showEnded: false,
+  });
+
+  const fetchData = async () => {
+    setLoading(true);
+    try {
+      // Create any seva forms that are due before listing them
+      await fetch("/api/sevasubscriptions/generate", { method: "POST" }).catch(
+        (err) => console.error("Error generating subscription sevas:", err)
+      );
+
+      const [subscriptionsData, sevaFormsData] = await Promise.all([
+        fetchSubscriptionsData(),
+        fetchSevaFormsData(),
+      ]);
+      setSubscriptions(subscriptionsData.sort((a, b) => b.id - a.id));
+      setSevaForms(sevaFormsData.filter((form) => form.subscriptionId));
+    } catch (err) {
+      console.error(err);
+      setError("Failed to load subscriptions. Please try again later.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  const handleFilterChange = (
+    e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>
+  ) => {
+    const { name, value, type } = e.target;
+    setFilters((prevFilters) => ({
+      ...prevFilters,
+      [name]:
+        type === "checkbox" ? (e.target as HTMLInputElement).checked : value,
+    }));
+  };
+
+  // Stop generating new dates; seva forms already created stay as they are
+  const cancelSubscription = async (subscription: SevaSubscription) => {
+    const confirmCancel = await Swal.fire({
+      title: `Cancel ${subscription.displayId}?`,
+      text: "No new seva dates will be created. Dates already in the worklist are kept.",
+      icon: "warning",
+      showCancelButton: true,
+      confirmButtonColor: "#d33",
+      cancelButtonColor: "#3085d6",
+      confirmButtonText: "Yes, cancel it!",
+    });
+
+    if (!confirmCancel.isConfirmed) return;
+
+    try {
+      const response = await fetch(
+        `/api/sevasubscriptions/${subscription.id}`,
+        {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ is_active: false }),
+        }
+      );
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || "Failed to cancel subscription");
+      }
+
+      setSubscriptions((prev) =>
+        prev.map((item) =>
+          item.id === subscription.id ? { ...item, isActive: false } : item
+        )
+      );
+      Swal.fire(
+        "Cancelled!",
+        "The subscription has been cancelled.",
+        "success"
+      );
+    } catch (error) {
+      Swal.fire(
+        "Error!",
+        error instanceof Error
+          ? error.message
+          : "Failed to cancel subscription",
+        "error"
+      );
+    }
+  };
+
+  const today = toDateKey(new Date());
+
+  const sevaNames = useMemo(
+    () =>
+      Array.from(new Set(subscriptions.map((item) => item.sevaName))).sort(),
+    [subscriptions]
+  );
+
+  const filteredSubscriptions = useMemo(
+    () =>
+      subscriptions.filter(
+        (subscription) =>
+          (filters.showEnded ||
+            (subscription.isActive &&
+              subscription.recurrence.endDate >= today)) &&
+          (!filters.seva || subscription.sevaName === filters.seva) &&
+          (!filters.search ||
+            `${subscription.displayId} ${subscription.name} ${subscription.mobileNumber}`
+              .toLowerCase()
+              .includes(filters.search.toLowerCase()))
+      ),
+    [subscriptions, filters, today]
+  );
+
+  const instancesFor = (subscription: SevaSubscription) =>
+    sevaForms
+      .filter((form) => form.subscriptionId === subscription.id)
+      .sort((a, b) => a.date.getTime() - b.date.getTime());
+
+  return (
+    <div className="container mx-auto p-6">
+      {error && <p className="text-red-500 text-center">{error}</p>}
+
+      <p className="text-gray-600 mb-4">
+        Seva forms are created for each subscription date up to{" "}
+        {GENERATE_AHEAD_DAYS} days ahead, and then appear in the seva worklist.
+      </p>
+
+      {/* Filter Inputs */}
+      <div className="mb-4 flex flex-wrap gap-4">
+        <input
+          type="text"
+          name="search"
+          value={filters.search}
+          onChange={handleFilterChange}
+          placeholder="Search by ID, name or phone"
+          className="border border-gray-300 rounded-md p-2 flex-1"
+        />
+        <select
+          name="seva"
+          value={filters.seva}
+          onChange={handleFilterChange}
+          className="border border-gray-300 rounded-md p-2 flex-1"
+        >
+          <option value="">All sevas</option>
+          {sevaNames.map((name) => (
+            <option key={name} value={name}>
+              {name}
+            </option>
+          ))}
+        </select>
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            name="showEnded"
+            checked={filters.showEnded}
+            onChange={handleFilterChange}
+          />
+          Show ended and cancelled
+        </label>
+      </div>
+
+      {loading && <LoadingSpinner />}
+      {!loading && filteredSubscriptions.length === 0 && !error && (
+        <p className="text-center text-orange-500 font-medium">
+          No subscriptions found.
+        </p>
+      )}
+
+      <div className="space-y-4">
+        {filteredSubscriptions.map((subscription) => {
+          const instances = instancesFor(subscription);
+          const lastGenerated = instances.length
+            ? toDateKey(instances[instances.length - 1].date)
+            : null;
+          const nextDates = subscription.isActive
+            ? upcomingOccurrences(
+                subscription.recurrence,
+                lastGenerated && lastGenerated >= today
+                  ? addDays(lastGenerated, 1)
+                  : today,
+                NEXT_DATES_COUNT
+              )
+            : [];
+
+          return (
+            <div
+              key={subscription.id}
+              className="bg-white border-l-4 border-orange-500 shadow-lg rounded-lg p-6"
+            >
+              <div className="flex justify-between flex-wrap gap-2">
+                <h2 className="text-xl font-semibold text-orange-600">
+                  {subscription.displayId} – {subscription.name}
+                </h2>
+                {!subscription.isActive && (
+                  <span className="px-2 py-1 rounded text-sm bg-red-100 text-red-700">
+                    Cancelled
+                  </span>
+                )}
+              </div>
+              <p className="text-gray-700">Seva: {subscription.sevaName}</p>
+              <p className="text-gray-700">
+                Repeats: {describeRecurrence(subscription.recurrence, "en")}
+              </p>
+              <p className="text-gray-700">
+                Period: {formatDateKey(subscription.recurrence.startDate)} –{" "}
+                {formatDateKey(subscription.recurrence.endDate)}
+              </p>
+              <p className="text-gray-700">
+                Nakshathra: {bilingualName(NAKSHATRAS, subscription.nakshathra)}
+              </p>
+              <p className="text-gray-700">
+                Mobile: {subscription.mobileNumber}
+              </p>
+              {subscription.paymentStatus && (
+                <p
+                  className={`text-sm font-medium ${
+                    paymentStatusLabels[subscription.paymentStatus].className
+                  }`}
+                >
+                  {paymentStatusLabels[subscription.paymentStatus].en}
+                </p>
+              )}
+
+              <div className="mt-4">
+                <p className="font-medium text-gray-800">
+                  Generated seva forms ({instances.length})
+                </p>
+                {instances.length === 0 ? (
+                  <p className="text-sm text-gray-500">None yet.</p>
+                ) : (
+                  <ul className="text-sm text-gray-700">
+                    {instances.map((form) => (
+                      <li key={form.id}>
+                        {form.date.toLocaleDateString("en-GB")} –{" "}
+                        {form.displayId}
+                        {form.performedAt ? " ✓ performed" : ""}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                {nextDates.length > 0 && (
+                  <p className="text-sm text-gray-500 mt-1">
+                    Next: {nextDates.map(formatDateKey).join(", ")}
+                  </p>
+                )}
+              </div>
+
+              {subscription.isActive && (
+                <button
+                  onClick={() => cancelSubscription(subscription)}
+                  className="mt-4 px-4 py-2 bg-red-500 text-white rounded hover:bg-red-600"
+                >
+                  Cancel Subscription
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
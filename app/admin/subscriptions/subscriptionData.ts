@@ -0,0 +1,82 @@
+import { formatBookingId } from "../../booking/bookingIds";
+import { PaymentStatus } from "../../payments/types";
+import { Recurrence, RecurrenceType } from "../../sevas/recurrence";
+
+// Seva forms for each date are created this many days ahead, so they show
+// up in the worklist, the check-in desk and the day-before reminders
+export const GENERATE_AHEAD_DAYS = 30;
+
+export interface SevaSubscription {
+  id: number;
+  displayId: string; // SUB-prefixed ID
+  name: string;
+  nakshathra: string;
+  rashi: string;
+  gotra?: string;
+  mobileNumber: string;
+  sevaId: number;
+  sevaName: string;
+  recurrence: Recurrence;
+  isActive: boolean;
+  paymentStatus?: PaymentStatus;
+  createdAt: Date | null;
+}
+
+// Interface for API response; the nakshatra rule reuses the devotee's nakshathra
+export interface ApiSevaSubscription {
+  id: number;
+  name: string;
+  nakshathra: string;
+  rashi: string;
+  gotra?: string;
+  mobileNumber: string;
+  sevaId: number;
+  recurrenceType: RecurrenceType;
+  startDate: string;
+  endDate: string;
+  is_active?: boolean;
+  paymentStatus?: PaymentStatus;
+  createdAt?: string;
+  seva?: {
+    name: string;
+    name_kannada?: string;
+  };
+}
+
+// Dates may come back as full timestamps; the rule only needs the day
+const toDay = (value: string) => value.slice(0, 10);
+
+export const toRecurrence = (
+  subscription: ApiSevaSubscription
+): Recurrence => ({
+  type: subscription.recurrenceType,
+  startDate: toDay(subscription.startDate),
+  endDate: toDay(subscription.endDate),
+  nakshatra: subscription.nakshathra,
+});
+
+export const formatSubscription = (
+  subscription: ApiSevaSubscription
+): SevaSubscription => ({
+  id: subscription.id,
+  displayId: formatBookingId("subscription", subscription.id),
+  name: subscription.name,
+  nakshathra: subscription.nakshathra,
+  rashi: subscription.rashi,
+  gotra: subscription.gotra,
+  mobileNumber: subscription.mobileNumber,
+  sevaId: subscription.sevaId,
+  sevaName: subscription.seva?.name || "Seva",
+  recurrence: toRecurrence(subscription),
+  isActive: subscription.is_active !== false,
+  paymentStatus: subscription.paymentStatus,
+  createdAt: subscription.createdAt ? new Date(subscription.createdAt) : null,
+});
+
+export const fetchSubscriptionsData = async (): Promise<SevaSubscription[]> => {
+  const res = await fetch(`/api/sevasubscriptions`);
+  if (!res.ok) throw new Error("Failed to load subscriptions");
+
+  const { data }: { data: ApiSevaSubscription[] } = await res.json();
+  return data.map(formatSubscription);
+};
@@ -0,0 +1,274 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Swal from "sweetalert2";
+import LoadingSpinner from "../../components/LoadingSpinner";
+import DayScheduleEditor from "../components/DayScheduleEditor";
+import TimingOverrideForm from "../components/TimingOverrideForm";
+import { formatDateKey, toDateKey } from "../../panchanga/dates";
+import {
+  DaySchedule,
+  TimingOverride,
+  WEEKDAYS,
+  fetchTimingsData,
+  formatSession,
+  formatTime,
+  formatWeekly,
+  scheduleProblem,
+} from "../../temple/timings";
+
+export default function TimingsAdmin(): JSX.Element {
+  const [weekly, setWeekly] = useState<DaySchedule[]>(formatWeekly([]));
+  const [overrides, setOverrides] = useState<TimingOverride[]>([]);
+  const [weekday, setWeekday] = useState(new Date().getDay());
+  const [editingOverride, setEditingOverride] = useState<TimingOverride | null>(
+    null
+  );
+  const [showPast, setShowPast] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchTimings = async () => {
+    setLoading(true);
+    try {
+      const data = await fetchTimingsData();
+      setWeekly(data.weekly);
+      setOverrides(data.overrides.sort((a, b) => a.date.localeCompare(b.date)));
+    } catch (err) {
+      console.error(err);
+      setError("Failed to load timings. Please try again later.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchTimings();
+  }, []);
+
+  // Saves the selected weekday's timings to the given weekdays
+  const saveWeekly = async (weekdays: number[]) => {
+    const schedule = weekly[weekday];
+    const problem = scheduleProblem(schedule, "en");
+    if (problem) {
+      Swal.fire("Error!", problem, "error");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const results = await Promise.all(
+        weekdays.map((day) =>
+          fetch(`/api/templetimings/${day}`, {
+            method: "PUT",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ weekday: day, ...schedule }),
+          })
+        )
+      );
+      const failed = results.find((response) => !response.ok);
+      if (failed) {
+        const errorData = await failed.json();
+        throw new Error(errorData.message || "Failed to save timings");
+      }
+
+      setWeekly((prev) =>
+        prev.map((day, index) => (weekdays.includes(index) ? schedule : day))
+      );
+      Swal.fire("Saved!", "The timings have been saved.", "success");
+    } catch (error) {
+      Swal.fire(
+        "Error!",
+        error instanceof Error ? error.message : "Failed to save timings",
+        "error"
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deleteOverride = async (override: TimingOverride) => {
+    const confirmDelete = await Swal.fire({
+      title: `Delete ${override.title.en}?`,
+      text: "The regular timings will apply on these days again.",
+      icon: "warning",
+      showCancelButton: true,
+      confirmButtonColor: "#d33",
+      cancelButtonColor: "#3085d6",
+      confirmButtonText: "Yes, delete it!",
+    });
+
+    if (!confirmDelete.isConfirmed) return;
+
+    try {
+      const response = await fetch(`/api/timingoverrides/${override.id}`, {
+        method: "DELETE",
+      });
+      if (!response.ok) throw new Error("Failed to delete special timings");
+
+      setOverrides((prev) => prev.filter((item) => item.id !== override.id));
+      if (editingOverride?.id === override.id) setEditingOverride(null);
+      Swal.fire(
+        "Deleted!",
+        "The special timings have been deleted.",
+        "success"
+      );
+    } catch (error) {
+      Swal.fire(
+        "Error!",
+        error instanceof Error
+          ? error.message
+          : "Failed to delete special timings",
+        "error"
+      );
+    }
+  };
+
+  const today = toDateKey(new Date());
+  const visibleOverrides = overrides.filter(
+    (override) => showPast || override.endDate >= today
+  );
+
+  return (
+    <div className="container mx-auto p-6">
+      {error && <p className="text-red-500 text-center">{error}</p>}
+      {loading && <LoadingSpinner />}
+
+      {/* Regular weekly timings */}
+      <div className="bg-white p-6 rounded-md shadow-md mb-6">
+        <h2 className="text-lg font-semibold mb-4">Regular Timings</h2>
+        <div className="flex flex-wrap gap-2 mb-4">
+          {WEEKDAYS.map((day, index) => (
+            <button
+              key={day.en}
+              onClick={() => setWeekday(index)}
+              className={`px-3 py-1 rounded-md ${
+                weekday === index
+                  ? "bg-orange-500 text-white"
+                  : "bg-gray-200 text-gray-700"
+              }`}
+            >
+              {day.en}
+            </button>
+          ))}
+        </div>
+        <DayScheduleEditor
+          value={weekly[weekday]}
+          onChange={(schedule) =>
+            setWeekly((prev) =>
+              prev.map((day, index) => (index === weekday ? schedule : day))
+            )
+          }
+        />
+        <div className="flex flex-wrap gap-2 mt-4">
+          <button
+            onClick={() => saveWeekly([weekday])}
+            disabled={saving}
+            className="bg-blue-500 text-white py-2 px-4 rounded-md hover:bg-blue-600 disabled:opacity-50"
+          >
+            {saving ? "Saving..." : `Save ${WEEKDAYS[weekday].en}`}
+          </button>
+          <button
+            onClick={() => saveWeekly(WEEKDAYS.map((_, index) => index))}
+            disabled={saving}
+            className="bg-green-600 text-white py-2 px-4 rounded-md hover:bg-green-700 disabled:opacity-50"
+          >
+            Save for Every Day
+          </button>
+        </div>
+      </div>
+
+      {/* Special days; keyed so switching overrides resets the form */}
+      <div id="special-day-form">
+        <TimingOverrideForm
+          key={editingOverride?.id ?? "new"}
+          override={editingOverride || undefined}
+          onSave={() => {
+            setEditingOverride(null);
+            fetchTimings();
+          }}
+          onCancel={
+            editingOverride ? () => setEditingOverride(null) : undefined
+          }
+        />
+      </div>
+
+      <label className="flex items-center gap-2 mb-4">
+        <input
+          type="checkbox"
+          checked={showPast}
+          onChange={(e) => setShowPast(e.target.checked)}
+        />
+        Show past special days
+      </label>
+
+      {!loading && visibleOverrides.length === 0 && !error && (
+        <p className="text-center text-orange-500 font-medium">
+          No special days.
+        </p>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
+        {visibleOverrides.map((override) => (
+          <div
+            key={override.id}
+            className="bg-white border-l-4 border-orange-500 shadow-lg rounded-lg p-6"
+          >
+            <h3 className="text-xl font-semibold text-orange-600">
+              {override.title.en} / {override.title.kn}
+            </h3>
+            <p className="text-sm text-gray-500 font-medium">
+              {formatDateKey(override.date)}
+              {override.endDate !== override.date &&
+                ` – ${formatDateKey(override.endDate)}`}
+            </p>
+            {override.note.en && (
+              <p className="text-gray-700 mt-2">{override.note.en}</p>
+            )}
+            {override.closed ? (
+              <p className="text-red-600 font-medium mt-2">Temple closed</p>
+            ) : (
+              <div className="text-sm text-gray-700 mt-2">
+                <p>
+                  Darshan:{" "}
+                  {override.schedule.darshan
+                    .map((session) => formatSession(session, "en"))
+                    .join(", ") || "None"}
+                </p>
+                <p>
+                  Poojas:{" "}
+                  {override.schedule.poojas
+                    .map(
+                      (pooja) =>
+                        `${pooja.name.en} ${formatTime(pooja.time, "en")}`
+                    )
+                    .join(", ") || "None"}
+                </p>
+              </div>
+            )}
+            <div className="mt-4 flex gap-2">
+              <button
+                onClick={() => {
+                  setEditingOverride(override);
+                  document
+                    .getElementById("special-day-form")
+                    ?.scrollIntoView({ behavior: "smooth" });
+                }}
+                className="bg-blue-500 text-white px-3 py-1 rounded"
+              >
+                Edit
+              </button>
+              <button
+                onClick={() => deleteOverride(override)}
+                className="bg-red-500 text-white px-3 py-1 rounded"
+              >
+                Delete
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -1,152 +1,63 @@
 "use client";
 
-import React, { useEffect, useState } from "react";
-import { useSelector, useDispatch } from "react-redux";
-import { RootState, AppDispatch } from "../store";
-import { changeLocale } from "../store/localeSlice";
+import React from "react";
+import { useT } from "../i18n/useT";
 
-type LocaleType = "en" | "kn";
+// Committee roles in order; only some list a phone number
+const ROLES = [
+  { key: "president", contact: "contacts.president" },
+  { key: "vicePresident", contact: "contacts.vicePresident" },
+  { key: "secretary" },
+  { key: "treasurer" },
+] as const;
 
-interface AdministrationContent {
-  sevaSamithiTitle: string;
-  sevaSamithiDescription: string;
-  managementPresidentTitle: string;
-  managementPresidentName: string;
-  contactNumber: string;
-  managementVicePresidentTitle: string;
-  managementVicePresidentName: string;
-  viceContactNumber: string;
-  managementSecretaryTitle: string;
-  managementSecretaryName: string;
-  managementTreasurerTitle: string;
-  managementTreasurerName: string;
-  membersTitle: string;
-  members: string[];
-  templePriestTitle: string;
-  templePriestName: string;
-  priestContactNumber: string;
-}
-
-const administrationContent: Record<LocaleType, AdministrationContent> = {
-  en: {
-    sevaSamithiTitle: "Shrirama Seva Samithi",
-    sevaSamithiDescription:
-      "Shrirama Seva Samithi operates under the guidance of Jagadguru Shankaracharya Mahasamsthanam - Sri Samsthana Gokarna Sri RamachandrapuraMatha, led by His Holiness Srimad Jagadguru Shankaracharya Sri Sri Raghaveshwara Bharati Mahaswamiji. The Seva Samithi diligently follows the instructions and traditions set forth by the Matha to uphold the spiritual and cultural values of the temple.",
-    managementPresidentTitle: "President:",
-    managementPresidentName: "Shri Mahesh Bhat Choontharu",
-    contactNumber: "Contact no: +91 9448625254, +91 7019616082",
-    managementVicePresidentTitle: "Vice President:",
-    managementVicePresidentName: "Shri Krishnamoorthi Nenaru",
-    viceContactNumber: "Contact no: +91 9008145925",
-    managementSecretaryTitle: "Secretary:",
-    managementSecretaryName: "Shri Ganeshamoorthy.K",
-    managementTreasurerTitle: "Treasurer:",
-    managementTreasurerName: "Shri Sathyavenkatesha Hebbar",
-    membersTitle: "Members:",
-    members: [
-      "Shri Anekara Ganapayya",
-      "Shri Gopalakrishna Bhat Katta",
-      "Shri Ramachandra Kote",
-      "Shri Adarsha Krishna Nenaru",
-      "Shri Karthikesha Hebbar",
-      "Shri Krishnaprasad K",
-      "Shri Praneetha Venkatesha Sharma",
-      "Shri Sudheshna Deraje",
-      "Shri Ashraya Nenaru",
-    ],
-    templePriestTitle: "Temple Priest:",
-    templePriestName: "Shri Raghurama Sharma",
-    priestContactNumber: "Contact Number: +91 9741251613",
-  },
-  kn: {
-    sevaSamithiTitle: "ಶ್ರೀ ರಾಮ ಸೇವಾ ಸಮಿತಿ",
-    sevaSamithiDescription:
-      "ಶ್ರೀ ರಾಮ ಸೇವಾ ಸಮಿತಿಯು ಜಗದ್ಗುರು ಶಂಕರಾಚಾರ್ಯ ಮಹಾಸಂಸ್ಥಾನಂ - ಶ್ರೀಸಂಸ್ಥಾನ ಗೋಕರ್ಣ ಶ್ರೀ ರಾಮಚಂದ್ರಾಪುರಮಠದ ಮಾರ್ಗದರ್ಶನದಲ್ಲಿ ಕಾರ್ಯನಿರ್ವಹಿಸುತ್ತದೆ, ಇದನ್ನು ಜಗದ್ಗುರು ಶಂಕರಾಚಾರ್ಯ ಮಹಾಸಂಸ್ಥಾನಂ - ಶ್ರೀಸಂಸ್ಥಾನ ಗೋಕರ್ಣ ಶ್ರೀ ರಾಮಚಂದ್ರಾಪುರಮಠ, ಪರಮಪೂಜ್ಯ ಶ್ರೀಮಜ್ಜಗದ್ಗುರು ಶಂಕರಾಚಾರ್ಯ ಶ್ರೀ ಶ್ರೀ ರಾಘವೇಶ್ವರ ಭಾರತೀ ಮಹಾಸ್ವಾಮೀಜಿಯವರು ನೇತೃತ್ವ ವಹಿಸಿದ್ದಾರೆ. ಸೇವಾ ಸಮಿತಿಯು ಮಠದ ಮಾರ್ಗದರ್ಶನದ ಪ್ರಕಾರ ದೇವಾಲಯದ ಆಧ್ಯಾತ್ಮಿಕ ಮತ್ತು ಸಾಂಸ್ಕೃತಿಕ ಮೌಲ್ಯಗಳನ್ನು ಕಾಪಾಡುತ್ತದೆ.",
-    managementPresidentTitle: "ಅಧ್ಯಕ್ಷರು:",
-    managementPresidentName: "ಶ್ರೀ ಮಹೇಶ್ ಭಟ್ ಚೂಂತಾರು",
-    contactNumber: "ದೂರವಾಣಿ ಸಂ: +919448625254, +917019616082",
-    managementVicePresidentTitle: "ಉಪಾಧ್ಯಕ್ಷರು:",
-    managementVicePresidentName: "ಶ್ರೀ ಕೃಷ್ಣಮೂರ್ತಿ ನೇಣಾರು",
-    viceContactNumber: "ದೂರವಾಣಿ ಸಂ: +91 9008145925",
-    managementSecretaryTitle: "ಕಾರ್ಯದರ್ಶಿ:",
-    managementSecretaryName: "ಶ್ರೀ ಗಣೇಶಮೂರ್ತಿ.ಕೆ",
-    managementTreasurerTitle: "ಖಜಾಂಚಿ:",
-    managementTreasurerName: "ಶ್ರೀ ಸತ್ಯವೆಂಕಟೇಶ ಹೆಬ್ಬಾರ್",
-    membersTitle: "ಸದಸ್ಯರು:",
-    members: [
-      "ಶ್ರೀ ಆನೆಕಾರ ಗಣಪಯ್ಯ",
-      "ಶ್ರೀ ಗೋಪಾಲಕೃಷ್ಣ ಭಟ್‌ ಕಟ್ಟ",
-      "ಶ್ರೀ ರಾಮಚಂದ್ರ ಕೋಟೆ",
-      "ಶ್ರೀ ಆದರ್ಶ ಕೃಷ್ಣ ನೇಣಾರು",
-      "ಶ್ರೀ ಕಾರ್ತಿಕೇಶ ಹೆಬ್ಬಾರ್",
-      "ಶ್ರೀ ಕೃಷ್ಣಪ್ರಸಾದ್ ಕೆ",
-      "ಶ್ರೀ ಪ್ರಣೀತ ವೆಂಕಟೇಶ ಶರ್ಮಾ",
-      "ಶ್ರೀ ಸುಧೇಷ್ಣ ದೇರಾಜೆ",
-      "ಶ್ರೀ ಆಶ್ರಯ ನೇಣಾರು",
-    ],
-    templePriestTitle: "ಅರ್ಚಕರು:",
-    templePriestName: "ಶ್ರೀ ರಘುರಾಮ ಶರ್ಮಾ",
-    priestContactNumber: "ದೂರವಾಣಿ ಸಂ: +919741251613",
-  },
-};
+// Entries of administration.members, in the order they are listed
+const MEMBERS = [
+  "anekaraGanapayya",
+  "gopalakrishnaBhatKatta",
+  "ramachandraKote",
+  "adarshaKrishnaNenaru",
+  "karthikeshaHebbar",
+  "krishnaprasadK",
+  "praneethaVenkateshaSharma",
+  "sudheshnaDeraje",
+  "ashrayaNenaru",
+] as const;
 
 const Administration: React.FC = () => {
-  const dispatch = useDispatch<AppDispatch>();
-  const currentLocale: LocaleType = useSelector(
-    (state: RootState) => state.locale.locale
-  ) as LocaleType;
-
-  const content = administrationContent[currentLocale];
-  const [isLocaleLoaded, setIsLocaleLoaded] = useState(false);
-
-  useEffect(() => {
-    const savedLocale = (localStorage.getItem("locale") || "en") as LocaleType;
-    dispatch(changeLocale(savedLocale));
-    setIsLocaleLoaded(true);
-  }, [dispatch]);
-
-  if (!isLocaleLoaded) {
-    return (
-      <div className="flex justify-center items-center min-h-screen">Loading...</div>
-    );
-  }
+  const t = useT("administration");
 
   return (
     <div className="min-h-screen p-8 bg-[var(--background)] text-[var(--foreground)]">
       <div className="max-w-4xl mx-auto text-center">
         <section aria-labelledby="seva-samithi">
           <h1 id="seva-samithi" className="text-[var(--primary)] font-bold text-2xl mb-4">
-            {content.sevaSamithiTitle}
+            {t("sevaSamithi.title")}
           </h1>
-          <p className="mb-8">{content.sevaSamithiDescription}</p>
+          <p className="mb-8">{t("sevaSamithi.description")}</p>
         </section>
 
-        {[
-          { title: content.managementPresidentTitle, name: content.managementPresidentName, contact: content.contactNumber },
-          { title: content.managementVicePresidentTitle, name: content.managementVicePresidentName, contact: content.viceContactNumber },
-          { title: content.managementSecretaryTitle, name: content.managementSecretaryName },
-          { title: content.managementTreasurerTitle, name: content.managementTreasurerName },
-        ].map((role, index) => (
-          <section key={index} className="mb-8">
-            <h3 className="text-[var(--primary)] font-bold mb-2">{role.title}</h3>
-            <p className="font-semibold text-[var(--primary)] mb-1">{role.name}</p>
-            {role.contact && <p>{role.contact}</p>}
+        {ROLES.map((role) => (
+          <section key={role.key} className="mb-8">
+            <h3 className="text-[var(--primary)] font-bold mb-2">{t(`roles.${role.key}.title`)}</h3>
+            <p className="font-semibold text-[var(--primary)] mb-1">{t(`roles.${role.key}.name`)}</p>
+            {"contact" in role && <p>{t(role.contact)}</p>}
           </section>
         ))}
 
         <section aria-labelledby="members">
-          <h3 id="members" className="text-[var(--primary)] font-bold mb-6">{content.membersTitle}</h3>
+          <h3 id="members" className="text-[var(--primary)] font-bold mb-6">{t("membersTitle")}</h3>
           <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-            {content.members.map((member, index) => (
-              <p key={index} className="font-semibold text-[var(--primary)]">{member}</p>
+            {MEMBERS.map((member) => (
+              <p key={member} className="font-semibold text-[var(--primary)]">{t(`members.${member}`)}</p>
             ))}
           </div>
         </section>
 
         <section aria-labelledby="priest" className="mt-10">
-          <h3 id="priest" className="text-[var(--primary)] font-bold mb-2">{content.templePriestTitle}</h3>
-          <p className="font-semibold text-[var(--primary)]">{content.templePriestName}</p>
-          <p>{content.priestContactNumber}</p>
+          <h3 id="priest" className="text-[var(--primary)] font-bold mb-2">{t("priest.title")}</h3>
+          <p className="font-semibold text-[var(--primary)]">{t("priest.name")}</p>
+          <p>{t("priest.contact")}</p>
         </section>
       </div>
     </div>
@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from "next/server";
+
+// Route handlers talk to the backend directly, not through the /api rewrite
+export const backendUrl = (path: string) =>
+  `${process.env.NEXT_PUBLIC_URL}/v1/api${path}`;
+
+// Headers worth passing on, so the admin session still reaches the backend
+const forwardedHeaders = ["content-type", "cookie", "authorization"];
+
+const forwardHeaders = (request?: NextRequest) => {
+  const headers = new Headers();
+  forwardedHeaders.forEach((name) => {
+    const value = request?.headers.get(name);
+    if (value) headers.set(name, value);
+  });
+  return headers;
+};
+
+// GET a backend endpoint with the given headers, and unwrap its `data`
+export const getData = async <T>(
+  path: string,
+  headers: Headers
+): Promise<T> => {
+  const res = await fetch(backendUrl(path), { headers, cache: "no-store" });
+  if (!res.ok) {
+    throw new Error(`Backend rejected ${path} (${res.status})`);
+  }
+  const { data } = await res.json();
+  return data;
+};
+
+// GET a backend endpoint as the caller, and unwrap its `data`
+export const fetchBackendData = async <T>(
+  path: string,
+  request?: NextRequest
+): Promise<T> => getData(path, forwardHeaders(request));
+
+// Calls the site makes on its own behalf, such as scheduled jobs and payment
+// checks, have no admin session to pass on and use BACKEND_SERVICE_TOKEN
+export const serviceHeaders = () => {
+  const token = process.env.BACKEND_SERVICE_TOKEN;
+  if (!token) {
+    throw new Error("BACKEND_SERVICE_TOKEN is not set");
+  }
+  return new Headers({ authorization: `Bearer ${token}` });
+};
+
+// GET a backend endpoint as the site itself, and unwrap its `data`
+export const fetchServiceData = async <T>(path: string): Promise<T> =>
+  getData(path, serviceHeaders());
+
+// Vercel Cron calls scheduled jobs with "Authorization: Bearer <CRON_SECRET>";
+// with no CRON_SECRET set, no request counts as the scheduler
+export const isCronRequest = (request: NextRequest) => {
+  const secret = process.env.CRON_SECRET;
+  return (
+    Boolean(secret) &&
+    request.headers.get("authorization") === `Bearer ${secret}`
+  );
+};
+
+// A job run by the scheduler acts as the site; run from an admin page, it
+// acts with the admin's session, which the backend checks as usual. Null if
+// the caller brought neither
+export const jobHeaders = (request: NextRequest): Headers | null => {
+  if (isCronRequest(request)) return serviceHeaders();
+  const headers = forwardHeaders(request);
+  return headers.has("cookie") || headers.has("authorization") ? headers : null;
+};
+
+export const unauthorized = () =>
+  NextResponse.json(
+    { statusCode: 401, message: "Unauthorized" },
+    { status: 401 }
+  );
+
+// Forwards a request to the same backend endpoint the rewrite would have hit,
+// for local routes that do extra work around an existing endpoint
+export const proxyToBackend = async (
+  request: NextRequest,
+  path: string,
+  body?: string
+) => {
+  const res = await fetch(backendUrl(`${path}${request.nextUrl.search}`), {
+    method: request.method,
+    headers: forwardHeaders(request),
+    body,
+    cache: "no-store",
+  });
+
+  const text = await res.text();
+  let data = null;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    // Not JSON; hand the body back untouched
+  }
+
+  return {
+    ok: res.ok,
+    data,
+    response: new NextResponse(text, {
+      status: res.status,
+      headers: {
+        "Content-Type": res.headers.get("content-type") || "application/json",
+      },
+    }),
+  };
+};
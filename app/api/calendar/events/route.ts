@@ -0,0 +1,93 @@
+// app/api/calendar/events/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { fetchBackendData } from "../../backend";
+import {
+  CALENDAR_CONTENT_TYPE,
+  CalendarEvent,
+  buildCalendar,
+} from "../../../calendar/ics";
+import { ApiEvent, TempleEvent, formatEvent } from "../../../events/eventData";
+import { formatTime } from "../../../temple/timings";
+import { festivalsBetween } from "../../../panchanga/festivals";
+import { PANCHANGA_LAST_DAY } from "../../../panchanga/table";
+import { addDays, toDateKey } from "../../../panchanga/dates";
+
+// Recent festivals stay in the feed for a while, then drop off
+const PAST_DAYS = 60;
+
+// The event itself spans its days; timed programmes get their own entries
+const templeEventEntries = (
+  event: TempleEvent,
+  origin: string
+): CalendarEvent[] => {
+  const url = `${origin}/events/${event.id}`;
+  const programme = event.schedule
+    .map(
+      (item) =>
+        `${item.date}${item.time ? ` ${formatTime(item.time, "en")}` : ""}: ${
+          item.title
+        }`
+    )
+    .join("\n");
+
+  return [
+    {
+      uid: `event-${event.id}`,
+      title: event.title_kannada
+        ? `${event.title} / ${event.title_kannada}`
+        : event.title,
+      description: [event.description, programme].filter(Boolean).join("\n\n"),
+      date: event.startDate,
+      endDate: event.endDate,
+      url,
+    },
+    ...event.schedule
+      .filter((item) => item.time)
+      .map((item, index) => ({
+        uid: `event-${event.id}-${index}`,
+        title: `${item.title} – ${event.title}`,
+        date: item.date,
+        time: item.time,
+        url,
+      })),
+  ];
+};
+
+export async function GET(request: NextRequest) {
+  const from = addDays(toDateKey(new Date()), -PAST_DAYS);
+
+  // Festivals come from the bundled panchanga, so the feed still has them
+  // if the backend is down
+  let templeEvents: TempleEvent[] = [];
+  try {
+    const data = await fetchBackendData<ApiEvent[]>("/events");
+    templeEvents = data
+      .map(formatEvent)
+      .filter((event) => event.endDate >= from);
+  } catch (error) {
+    console.error("Error fetching events for the calendar feed:", error);
+  }
+
+  const festivals: CalendarEvent[] = festivalsBetween(
+    from,
+    PANCHANGA_LAST_DAY
+  ).map(({ date, festival }) => ({
+    uid: `festival-${festival.code}-${date}`,
+    title: `${festival.en} / ${festival.kn}`,
+    date,
+  }));
+
+  const calendar = buildCalendar("Shrirama Temple Chokkadi – Events", [
+    ...templeEvents.flatMap((event) =>
+      templeEventEntries(event, request.nextUrl.origin)
+    ),
+    ...festivals,
+  ]);
+
+  return new NextResponse(calendar, {
+    headers: {
+      "Content-Type": CALENDAR_CONTENT_TYPE,
+      "Content-Disposition": 'inline; filename="chokkadi-events.ics"',
+    },
+  });
+}
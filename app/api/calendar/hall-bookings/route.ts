@@ -0,0 +1,66 @@
+// app/api/calendar/hall-bookings/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { fetchServiceData } from "../../backend";
+import { CALENDAR_CONTENT_TYPE, buildCalendar } from "../../../calendar/ics";
+import { slotLabels } from "../../../booking/slots";
+import {
+  ApiHallForm,
+  formatHallForm,
+} from "../../../admin/hallforms/hallFormData";
+
+// Calendar apps cannot log in, so the feed is guarded by a secret in its URL
+// instead: /api/calendar/hall-bookings?token=<ADMIN_CALENDAR_TOKEN>. A leaked
+// URL should not leak devotees, so the feed only says which hall is taken on
+// which day; names and numbers stay behind the admin login.
+export async function GET(request: NextRequest) {
+  const token = process.env.ADMIN_CALENDAR_TOKEN;
+  if (!token || request.nextUrl.searchParams.get("token") !== token) {
+    return NextResponse.json(
+      { statusCode: 404, message: "Not found." },
+      { status: 404 }
+    );
+  }
+
+  try {
+    const bookings = (await fetchServiceData<ApiHallForm[]>("/hallforms"))
+      .map(formatHallForm)
+      .filter(
+        (form) => form.status === "confirmed" || form.status === "completed"
+      )
+      // One entry per booked day, so each keeps its own slot
+      .flatMap((form) =>
+        form.slots.map(({ date, slot }) => ({
+          id: form.id,
+          displayId: form.displayId,
+          hallName: form.hallName,
+          date,
+          slot,
+        }))
+      );
+
+    const calendar = buildCalendar(
+      "Shrirama Temple Chokkadi – Hall Bookings",
+      bookings.map((booking) => ({
+        uid: `hall-${booking.id}-${booking.date}`,
+        title: `${booking.hallName}: booked (${slotLabels[booking.slot].en})`,
+        description: `Booking ${booking.displayId}`,
+        date: booking.date,
+        url: `${request.nextUrl.origin}/admin/hallforms`,
+      }))
+    );
+
+    return new NextResponse(calendar, {
+      headers: {
+        "Content-Type": CALENDAR_CONTENT_TYPE,
+        "Content-Disposition": 'inline; filename="chokkadi-hall-bookings.ics"',
+        "Cache-Control": "private, no-store",
+      },
+    });
+  } catch (error) {
+    console.error("Error building the hall bookings feed:", error);
+    return NextResponse.json(
+      { statusCode: 500, message: "Failed to build the calendar." },
+      { status: 500 }
+    );
+  }
+}
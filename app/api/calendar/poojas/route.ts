@@ -0,0 +1,81 @@
+// app/api/calendar/poojas/route.ts
+import { NextResponse } from "next/server";
+import {
+  CALENDAR_CONTENT_TYPE,
+  CalendarEvent,
+  buildCalendar,
+} from "../../../calendar/ics";
+import { POOJA_DURATION_MINUTES, overrideDays } from "../../../temple/timings";
+import { loadTimings } from "../../../temple/loadTimings";
+import { addDays, weekdayOf } from "../../../panchanga/dates";
+
+// Repeats need a first day; any day before the feed went up will do
+const FIRST_DAY = "2026-01-01";
+
+export async function GET() {
+  const { weekly, overrides } = await loadTimings();
+  const skippedDays = overrides.flatMap(overrideDays);
+
+  // One repeating entry per pooja, on the weekdays it is held; override
+  // days are skipped and get their own entries below
+  const poojas = new Map<string, CalendarEvent>();
+  weekly.forEach((schedule, weekday) => {
+    schedule.poojas.forEach((pooja) => {
+      const key = `${pooja.time}-${pooja.name.en}`;
+      const existing = poojas.get(key);
+      if (existing) {
+        existing.repeatWeekdays?.push(weekday);
+        return;
+      }
+      poojas.set(key, {
+        uid: `pooja-${pooja.time.replace(":", "")}-${pooja.name.en
+          .toLowerCase()
+          .replace(/[^a-z0-9]+/g, "-")}`,
+        title: `${pooja.name.en} / ${pooja.name.kn}`,
+        date: FIRST_DAY,
+        time: pooja.time,
+        durationMinutes: POOJA_DURATION_MINUTES,
+        repeatWeekdays: [weekday],
+        exceptDates: skippedDays,
+      });
+    });
+  });
+
+  // Start each repeat on a day it is actually held
+  const repeating = Array.from(poojas.values()).map((event) => {
+    let date = event.date;
+    while (!event.repeatWeekdays?.includes(weekdayOf(date))) {
+      date = addDays(date, 1);
+    }
+    return { ...event, date };
+  });
+
+  const special: CalendarEvent[] = overrides.flatMap((override) =>
+    override.closed
+      ? []
+      : overrideDays(override).flatMap((date) =>
+          override.schedule.poojas.map((pooja) => ({
+            uid: `override-${override.id}-${date}-${pooja.time.replace(":", "")}`,
+            title: `${pooja.name.en} / ${pooja.name.kn}`,
+            description: [override.title.en, override.note.en]
+              .filter(Boolean)
+              .join("\n"),
+            date,
+            time: pooja.time,
+            durationMinutes: POOJA_DURATION_MINUTES,
+          }))
+        )
+  );
+
+  const calendar = buildCalendar("Shrirama Temple Chokkadi – Daily Poojas", [
+    ...repeating,
+    ...special,
+  ]);
+
+  return new NextResponse(calendar, {
+    headers: {
+      "Content-Type": CALENDAR_CONTENT_TYPE,
+      "Content-Disposition": 'inline; filename="chokkadi-poojas.ics"',
+    },
+  });
+}
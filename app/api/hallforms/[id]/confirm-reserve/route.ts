@@ -0,0 +1,43 @@
+// app/api/hallforms/[id]/confirm-reserve/route.ts
+import { NextRequest } from "next/server";
+import { fetchBackendData, proxyToBackend } from "../../../backend";
+import { notify } from "../../../../notifications/provider";
+import { hallFormContext } from "../../../../notifications/contexts";
+import {
+  ApiHallForm,
+  formatHallForm,
+} from "../../../../admin/hallforms/hallFormData";
+
+// Confirms through the backend as before, then tells the devotee
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const { ok, response } = await proxyToBackend(
+    request,
+    `/hallforms/${id}/confirm-reserve`,
+    await request.text()
+  );
+
+  if (ok) {
+    try {
+      const forms = await fetchBackendData<ApiHallForm[]>(
+        "/hallforms",
+        request
+      );
+      const form = forms.find((item) => item.id === Number(id));
+      if (form) {
+        await notify(
+          "confirmation",
+          form.mobileNumber,
+          hallFormContext(formatHallForm(form))
+        );
+      }
+    } catch (error) {
+      console.error("Error looking up confirmed hall form:", error);
+    }
+  }
+
+  return response;
+}
@@ -0,0 +1,53 @@
+// app/api/hallforms/[id]/status/route.ts
+import { NextRequest } from "next/server";
+import { fetchBackendData, proxyToBackend } from "../../../backend";
+import { notify } from "../../../../notifications/provider";
+import { hallFormContext } from "../../../../notifications/contexts";
+import {
+  ApiHallForm,
+  formatHallForm,
+} from "../../../../admin/hallforms/hallFormData";
+import { BookingStatus, isClosed } from "../../../../booking/status";
+
+// Updates the status through the backend as before, and tells the devotee
+// when their booking was rejected or cancelled
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const body = await request.text();
+  const { ok, response } = await proxyToBackend(
+    request,
+    `/hallforms/${id}/status`,
+    body
+  );
+
+  let update: { status?: BookingStatus; reason?: string } = {};
+  try {
+    update = JSON.parse(body);
+  } catch {
+    // Leave it to the backend to reject malformed bodies
+  }
+
+  if (ok && update.status && isClosed(update.status)) {
+    try {
+      const forms = await fetchBackendData<ApiHallForm[]>(
+        "/hallforms",
+        request
+      );
+      const form = forms.find((item) => item.id === Number(id));
+      if (form) {
+        await notify(
+          "cancellation",
+          form.mobileNumber,
+          hallFormContext(formatHallForm(form), update.reason)
+        );
+      }
+    } catch (error) {
+      console.error("Error looking up cancelled hall form:", error);
+    }
+  }
+
+  return response;
+}
@@ -0,0 +1,80 @@
+// app/api/hallforms/expire-holds/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { backendUrl, jobHeaders, unauthorized } from "../../backend";
+import {
+  ApiHallForm,
+  formatHallForm,
+} from "../../../admin/hallforms/hallFormData";
+
+// Moves requests and holds that were not confirmed in time to "expired",
+// which frees their dates. Run by the scheduler and by the admin list on
+// load; it only touches bookings that are already past their deadline.
+const expireHolds = async (headers: Headers) => {
+  const res = await fetch(backendUrl("/hallforms"), {
+    headers,
+    cache: "no-store",
+  });
+  if (!res.ok) {
+    throw new Error(`Backend rejected hall forms lookup (${res.status})`);
+  }
+
+  const { data }: { data: ApiHallForm[] } = await res.json();
+  const overdue = data.filter(
+    (form) =>
+      form.status !== "expired" && formatHallForm(form).status === "expired"
+  );
+
+  const updateHeaders = new Headers(headers);
+  updateHeaders.set("Content-Type", "application/json");
+
+  const results = await Promise.allSettled(
+    overdue.map(async (form) => {
+      const update = await fetch(backendUrl(`/hallforms/${form.id}/status`), {
+        method: "PATCH",
+        headers: updateHeaders,
+        body: JSON.stringify({ status: "expired" }),
+      });
+      if (!update.ok) {
+        throw new Error(`Could not expire DES${form.id} (${update.status})`);
+      }
+      return form.id;
+    })
+  );
+
+  results
+    .filter(
+      (result): result is PromiseRejectedResult => result.status === "rejected"
+    )
+    .forEach((result) => console.error(result.reason));
+
+  return results
+    .filter(
+      (result): result is PromiseFulfilledResult<number> =>
+        result.status === "fulfilled"
+    )
+    .map((result) => result.value);
+};
+
+const handle = async (request: NextRequest) => {
+  const headers = jobHeaders(request);
+  if (!headers) return unauthorized();
+
+  try {
+    const expired = await expireHolds(headers);
+    return NextResponse.json({
+      statusCode: 200,
+      message: `Expired ${expired.length} booking(s)`,
+      data: { expired },
+    });
+  } catch (error) {
+    console.error("Error expiring holds:", error);
+    return NextResponse.json(
+      { statusCode: 500, message: "Failed to expire holds." },
+      { status: 500 }
+    );
+  }
+};
+
+// GET for the scheduled job, POST for the admin list on load
+export const GET = handle;
+export const POST = handle;
@@ -0,0 +1,54 @@
+// app/api/hallforms/route.ts
+import { NextRequest } from "next/server";
+import { fetchBackendData, proxyToBackend } from "../backend";
+import { notify } from "../../notifications/provider";
+import { formatNotificationDate } from "../../notifications/contexts";
+import { formatBookingId } from "../../booking/bookingIds";
+import { BookingSlot, Hall } from "../../booking/types";
+import { slotLabels } from "../../booking/slots";
+
+// Hall names for the message; a generic name is fine if the lookup fails
+const getHallName = async (hallId: number) => {
+  try {
+    const halls = await fetchBackendData<Hall[]>("/halls");
+    const hall = halls.find((item) => item.hall_id === hallId);
+    if (hall) return { en: hall.name, kn: hall.name_kannada || hall.name };
+  } catch (error) {
+    console.error("Error fetching hall name:", error);
+  }
+  return { en: "Temple hall", kn: "ದೇವಾಲಯದ ಸಭಾಂಗಣ" };
+};
+
+// Listing is unchanged; this route only exists so submissions can notify
+export async function GET(request: NextRequest) {
+  const { response } = await proxyToBackend(request, "/hallforms");
+  return response;
+}
+
+export async function POST(request: NextRequest) {
+  const body = await request.text();
+  const { ok, data, response } = await proxyToBackend(
+    request,
+    "/hallforms",
+    body
+  );
+
+  if (ok && data?.data) {
+    const { bookingId, formDetails } = data.data;
+    const slots: BookingSlot[] = formDetails.slots || [];
+    await notify("submission", formDetails.mobileNumber, {
+      subject: "hall",
+      bookingId: formatBookingId("hall", bookingId),
+      name: formDetails.name,
+      item: await getHallName(Number(formDetails.hallId)),
+      dates: slots.length
+        ? slots.map(
+            ({ date, slot }) =>
+              `${formatNotificationDate(date)} ${slotLabels[slot].en}`
+          )
+        : [formatNotificationDate(formDetails.date)],
+    });
+  }
+
+  return response;
+}
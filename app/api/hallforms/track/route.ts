@@ -0,0 +1,56 @@
+// app/api/hallforms/track/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { backendUrl, serviceHeaders } from "../../backend";
+
+const forward = async (path: string, body: unknown, headers?: Headers) => {
+  const requestHeaders = new Headers(headers);
+  requestHeaders.set("Content-Type", "application/json");
+  const res = await fetch(backendUrl(path), {
+    method: "POST",
+    headers: requestHeaders,
+    body: JSON.stringify(body),
+    cache: "no-store",
+  });
+  return new NextResponse(await res.text(), {
+    status: res.status,
+    headers: {
+      "Content-Type": res.headers.get("content-type") || "application/json",
+    },
+  });
+};
+
+// A booking is only shown to whoever holds its mobile number, so the OTP is
+// checked here rather than trusted from the browser. The lookup itself then
+// goes to the backend as the site, which is the only caller it accepts.
+export async function POST(request: NextRequest) {
+  const { bookingId, mobileNumber, otp } = await request
+    .json()
+    .catch(() => ({}));
+
+  if (!bookingId || !mobileNumber || !otp) {
+    return NextResponse.json(
+      {
+        statusCode: 400,
+        message: "Booking ID, mobile number and OTP are required.",
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const verified = await forward("/otp/verify", { mobileNumber, otp });
+    if (!verified.ok) return verified;
+
+    return await forward(
+      "/hallforms/track",
+      { bookingId, mobileNumber },
+      serviceHeaders()
+    );
+  } catch (error) {
+    console.error("Error tracking booking:", error);
+    return NextResponse.json(
+      { statusCode: 500, message: "Failed to look up the booking." },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,62 @@
+// app/api/notifications/reminders/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { fetchServiceData, isCronRequest, unauthorized } from "../../backend";
+import { notify } from "../../../notifications/provider";
+import {
+  BackendSevaForm,
+  hallFormContext,
+  sevaFormContext,
+} from "../../../notifications/contexts";
+import {
+  ApiHallForm,
+  formatHallForm,
+} from "../../../admin/hallforms/hallFormData";
+import { isSevaPaid } from "../../../admin/sevaforms/sevaFormData";
+import { addDays, todayInIndia } from "../../../panchanga/dates";
+
+const isOn = (date: Date | string, day: string) =>
+  new Date(date).toLocaleDateString("en-CA", { timeZone: "Asia/Kolkata" }) ===
+  day;
+
+// Run once a day by the scheduled job: reminds everyone with a confirmed
+// hall booking starting tomorrow, or a paid seva tomorrow. Nobody else may
+// trigger it, since it sends SMS to every booking
+export async function GET(request: NextRequest) {
+  if (!isCronRequest(request)) return unauthorized();
+
+  try {
+    const day = addDays(todayInIndia(), 1);
+    const [hallForms, sevaForms] = await Promise.all([
+      fetchServiceData<ApiHallForm[]>("/hallforms"),
+      fetchServiceData<BackendSevaForm[]>("/sevaforms"),
+    ]);
+
+    const halls = hallForms
+      .map(formatHallForm)
+      .filter((form) => form.status === "confirmed" && isOn(form.date, day));
+    const sevas = sevaForms.filter(
+      (form) => isSevaPaid(form.paymentStatus) && isOn(form.date, day)
+    );
+
+    await Promise.all([
+      ...halls.map((form) =>
+        notify("reminder", form.mobileNumber, hallFormContext(form))
+      ),
+      ...sevas.map((form) =>
+        notify("reminder", form.mobileNumber, sevaFormContext(form))
+      ),
+    ]);
+
+    return NextResponse.json({
+      statusCode: 200,
+      message: `Sent ${halls.length + sevas.length} reminder(s)`,
+      data: { date: day, halls: halls.length, sevas: sevas.length },
+    });
+  } catch (error) {
+    console.error("Error sending reminders:", error);
+    return NextResponse.json(
+      { statusCode: 500, message: "Failed to send reminders." },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,50 @@
+// app/api/payments/mock/complete/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getPaymentGateway,
+  isMockGatewayEnabled,
+} from "../../../../payments/gateway";
+import { completeMockPayment } from "../../../../payments/mockGateway";
+
+const notFound = () =>
+  NextResponse.json({ statusCode: 404, message: "Not found" }, { status: 404 });
+
+// Plays the part of the gateway's checkout page for the mock adapter. Only
+// exists where the mock adapter is enabled and selected
+export async function POST(request: NextRequest) {
+  try {
+    if (!isMockGatewayEnabled() || getPaymentGateway().name !== "mock") {
+      return notFound();
+    }
+
+    const body: { orderId?: unknown; succeed?: unknown } | null = await request
+      .json()
+      .catch(() => null);
+    if (!body || typeof body.orderId !== "string") {
+      return NextResponse.json(
+        { statusCode: 400, message: "Invalid request body." },
+        { status: 400 }
+      );
+    }
+
+    const payload = completeMockPayment(body.orderId, Boolean(body.succeed));
+    if (!payload) {
+      return NextResponse.json(
+        { statusCode: 400, message: "Unknown order." },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      statusCode: 200,
+      message: "Mock payment completed",
+      data: payload,
+    });
+  } catch (error) {
+    console.error("Error completing mock payment:", error);
+    return NextResponse.json(
+      { statusCode: 500, message: "Failed to complete mock payment." },
+      { status: 500 }
+    );
+  }
+}
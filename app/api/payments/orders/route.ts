@@ -0,0 +1,118 @@
+// app/api/payments/orders/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { backendUrl, fetchServiceData } from "../../backend";
+import { getPaymentGateway } from "../../../payments/gateway";
+import { PaymentPurpose, PaymentStatus } from "../../../payments/types";
+import { occurrencesBetween } from "../../../sevas/recurrence";
+import {
+  ApiSevaSubscription,
+  toRecurrence,
+} from "../../../admin/subscriptions/subscriptionData";
+import { ApiSevaForm } from "../../../admin/sevaforms/sevaFormData";
+
+interface CreateOrderBody {
+  purpose: PaymentPurpose;
+  referenceId: number;
+}
+
+// Only the fields the order needs
+interface ApiDonation {
+  amount: number | string; // Decimal columns arrive as strings
+  paymentStatus?: PaymentStatus;
+}
+
+// Seva prices come from the backend so the browser cannot change them
+const getSevaPrice = async (sevaId: number): Promise<number | null> => {
+  const res = await fetch(backendUrl("/sevas"), { cache: "no-store" });
+  if (!res.ok) return null;
+  const { data } = await res.json();
+  const seva = data.find(
+    (item: { seva_id: number; base_price: string }) => item.seva_id === sevaId
+  );
+  return seva ? parseFloat(seva.base_price) : null;
+};
+
+// What is charged always comes from the stored booking, never from the
+// browser; null if there is nothing left to pay
+const getSevaFormTotal = async (sevaFormId: number) => {
+  const form = await fetchServiceData<ApiSevaForm>(`/sevaforms/${sevaFormId}`);
+  return form.paymentStatus === "paid" ? null : getSevaPrice(form.sevaId);
+};
+
+const getDonationTotal = async (donationId: number) => {
+  const donation = await fetchServiceData<ApiDonation>(
+    `/donations/${donationId}`
+  );
+  return donation.paymentStatus === "paid" ? null : Number(donation.amount);
+};
+
+// A sponsored subscription pays for every date it covers, at today's price
+const getSubscriptionTotal = async (
+  subscriptionId: number
+): Promise<number | null> => {
+  const data = await fetchServiceData<ApiSevaSubscription>(
+    `/sevasubscriptions/${subscriptionId}`
+  );
+  if (data.paymentStatus === "paid") return null;
+
+  const price = await getSevaPrice(data.sevaId);
+  const recurrence = toRecurrence(data);
+  const dates = occurrencesBetween(
+    recurrence,
+    recurrence.startDate,
+    recurrence.endDate
+  );
+  return price === null ? null : price * dates.length;
+};
+
+export async function POST(request: NextRequest) {
+  try {
+    const body: CreateOrderBody = await request.json();
+
+    if (!Number.isInteger(body.referenceId) || body.referenceId <= 0) {
+      return NextResponse.json(
+        { statusCode: 400, message: "A valid referenceId is required." },
+        { status: 400 }
+      );
+    }
+
+    let amount: number | null = null;
+    let description = "";
+
+    if (body.purpose === "seva") {
+      amount = await getSevaFormTotal(body.referenceId);
+      description = `Seva booking SEVA${body.referenceId}`;
+    } else if (body.purpose === "subscription") {
+      amount = await getSubscriptionTotal(body.referenceId);
+      description = `Seva subscription SUB${body.referenceId}`;
+    } else if (body.purpose === "donation") {
+      amount = await getDonationTotal(body.referenceId);
+      description = `Donation ${body.referenceId}`;
+    }
+
+    if (!amount || !Number.isFinite(amount) || amount < 1) {
+      return NextResponse.json(
+        { statusCode: 400, message: "Could not determine the amount to pay." },
+        { status: 400 }
+      );
+    }
+
+    const order = await getPaymentGateway().createOrder({
+      purpose: body.purpose,
+      referenceId: body.referenceId,
+      amount,
+      description,
+    });
+
+    return NextResponse.json(
+      { statusCode: 201, message: "Payment order created", data: order },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Error creating payment order:", error);
+    return NextResponse.json(
+      { statusCode: 500, message: "Failed to create payment order." },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,61 @@
+// app/api/payments/verify/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { backendUrl, serviceHeaders } from "../../backend";
+import { getPaymentGateway, paymentResources } from "../../../payments/gateway";
+import { PaymentCallbackPayload } from "../../../payments/types";
+
+// Called by the checkout (or the gateway's webhook) once a payment finishes.
+// The seva/donation record stays "pending payment" until this succeeds.
+export async function POST(request: NextRequest) {
+  try {
+    const payload: PaymentCallbackPayload = await request.json();
+    const gateway = getPaymentGateway();
+    const result = await gateway.verifyPayment(payload);
+
+    if (!result.verified) {
+      return NextResponse.json(
+        { statusCode: 400, message: "Payment could not be verified." },
+        { status: 400 }
+      );
+    }
+
+    const headers = serviceHeaders();
+    headers.set("Content-Type", "application/json");
+    const res = await fetch(
+      backendUrl(
+        `/${paymentResources[result.purpose]}/${result.referenceId}/payment`
+      ),
+      {
+        method: "PATCH",
+        headers,
+        body: JSON.stringify({
+          paymentStatus: result.status,
+          orderId: result.orderId,
+          paymentId: result.paymentId,
+          amount: result.amount,
+          gateway: gateway.name,
+        }),
+      }
+    );
+
+    if (!res.ok) {
+      throw new Error(`Backend rejected payment update (${res.status})`);
+    }
+
+    return NextResponse.json({
+      statusCode: 200,
+      message: "Payment verified",
+      data: {
+        status: result.status,
+        orderId: result.orderId,
+        paymentId: result.paymentId,
+      },
+    });
+  } catch (error) {
+    console.error("Error verifying payment:", error);
+    return NextResponse.json(
+      { statusCode: 500, message: "Failed to verify payment." },
+      { status: 500 }
+    );
+  }
+}
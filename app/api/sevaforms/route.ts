@@ -0,0 +1,50 @@
+// app/api/sevaforms/route.ts
+import { NextRequest } from "next/server";
+import { fetchBackendData, proxyToBackend } from "../backend";
+import { notify } from "../../notifications/provider";
+import { sevaFormContext } from "../../notifications/contexts";
+
+interface BackendSeva {
+  seva_id: number;
+  name: string;
+  name_kannada?: string;
+}
+
+// Listing is unchanged; this route only exists so submissions can notify
+export async function GET(request: NextRequest) {
+  const { response } = await proxyToBackend(request, "/sevaforms");
+  return response;
+}
+
+export async function POST(request: NextRequest) {
+  const body = await request.text();
+  const { ok, data, response } = await proxyToBackend(
+    request,
+    "/sevaforms",
+    body
+  );
+
+  if (ok && data?.data) {
+    try {
+      const submitted = JSON.parse(body);
+      const sevas = await fetchBackendData<BackendSeva[]>("/sevas");
+      const seva = sevas.find((item) => item.seva_id === submitted.sevaId);
+
+      await notify(
+        "submission",
+        submitted.mobileNumber,
+        sevaFormContext({
+          id: data.data.id,
+          name: submitted.name,
+          mobileNumber: submitted.mobileNumber,
+          date: submitted.date,
+          seva,
+        })
+      );
+    } catch (error) {
+      console.error("Error preparing seva notification:", error);
+    }
+  }
+
+  return response;
+}
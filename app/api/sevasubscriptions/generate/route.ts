@@ -0,0 +1,135 @@
+import { NextRequest, NextResponse } from "next/server";
+import { backendUrl, getData, jobHeaders, unauthorized } from "../../backend";
+import { addDays } from "../../../panchanga/dates";
+import { occurrencesBetween } from "../../../sevas/recurrence";
+import { ApiSevaForm } from "../../../admin/sevaforms/sevaFormData";
+import {
+  ApiSevaSubscription,
+  GENERATE_AHEAD_DAYS,
+  toRecurrence,
+} from "../../../admin/subscriptions/subscriptionData";
+
+// YYYY-MM-DD in temple time, whatever zone the server runs in
+const dayInIndia = (date: Date | string) =>
+  new Date(date).toLocaleDateString("en-CA", { timeZone: "Asia/Kolkata" });
+
+// Creates the seva form for every subscription date in the next
+// GENERATE_AHEAD_DAYS that does not have one yet. Safe to call repeatedly:
+// dates that already have a form are skipped, and each form is sent with an
+// Idempotency-Key so the backend drops a second create for the same
+// subscription and date if two runs overlap.
+const generateInstances = async (headers: Headers) => {
+  const [subscriptions, sevaForms] = await Promise.all([
+    getData<ApiSevaSubscription[]>("/sevasubscriptions", headers),
+    getData<ApiSevaForm[]>("/sevaforms", headers),
+  ]);
+
+  const existing = new Set(
+    sevaForms
+      .filter((form) => form.subscriptionId)
+      .map((form) => `${form.subscriptionId}:${dayInIndia(form.date)}`)
+  );
+
+  const today = dayInIndia(new Date());
+  const until = addDays(today, GENERATE_AHEAD_DAYS);
+
+  const pending = subscriptions
+    .filter((subscription) => subscription.is_active !== false)
+    .flatMap((subscription) =>
+      occurrencesBetween(toRecurrence(subscription), today, until)
+        .filter((date) => !existing.has(`${subscription.id}:${date}`))
+        .map((date) => ({ subscription, date }))
+    );
+
+  const results = await Promise.allSettled(
+    pending.map(async ({ subscription, date }) => {
+      const createHeaders = new Headers(headers);
+      createHeaders.set("Content-Type", "application/json");
+      createHeaders.set(
+        "Idempotency-Key",
+        `sevasubscription-${subscription.id}-${date}`
+      );
+
+      const res = await fetch(backendUrl("/sevaforms"), {
+        method: "POST",
+        headers: createHeaders,
+        body: JSON.stringify({
+          name: subscription.name,
+          nakshathra: subscription.nakshathra,
+          rashi: subscription.rashi,
+          gotra: subscription.gotra,
+          mobileNumber: subscription.mobileNumber,
+          mobileNumberConfirmation: subscription.mobileNumber,
+          date,
+          sevaId: subscription.sevaId,
+          subscriptionId: subscription.id,
+          // Sponsored subscriptions are paid up front for every date
+          paymentStatus:
+            subscription.paymentStatus === "paid" ? "paid" : undefined,
+        }),
+      });
+      if (!res.ok) {
+        throw new Error(
+          `Could not create SUB${subscription.id} seva on ${date} (${res.status})`
+        );
+      }
+      return `SUB${subscription.id}:${date}`;
+    })
+  );
+
+  results
+    .filter(
+      (result): result is PromiseRejectedResult => result.status === "rejected"
+    )
+    .forEach((result) => console.error(result.reason));
+
+  return results
+    .filter(
+      (result): result is PromiseFulfilledResult<string> =>
+        result.status === "fulfilled"
+    )
+    .map((result) => result.value);
+};
+
+// One pass at a time on this instance, so the scheduler and an admin
+// opening the list at the same moment do not both create the same forms.
+// Only the lock is shared: a caller that finds a pass running learns nothing
+// about it, since its own credentials have not been checked by the backend.
+let running = false;
+
+const handle = async (request: NextRequest) => {
+  const headers = jobHeaders(request);
+  if (!headers) return unauthorized();
+
+  if (running) {
+    return NextResponse.json(
+      {
+        statusCode: 202,
+        message: "Subscription sevas are already being generated.",
+      },
+      { status: 202 }
+    );
+  }
+
+  running = true;
+  try {
+    const created = await generateInstances(headers);
+    return NextResponse.json({
+      statusCode: 200,
+      message: `Created ${created.length} seva form(s)`,
+      data: { created },
+    });
+  } catch (error) {
+    console.error("Error generating subscription sevas:", error);
+    return NextResponse.json(
+      { statusCode: 500, message: "Failed to generate subscription sevas." },
+      { status: 500 }
+    );
+  } finally {
+    running = false;
+  }
+};
+
+// GET for the scheduled job, POST for the admin list on load
+export const GET = handle;
+export const POST = handle;
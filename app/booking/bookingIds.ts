@@ -0,0 +1,13 @@
+export type ReceiptKind = "hall" | "seva" | "donation" | "subscription";
+
+const idPrefixes: Record<ReceiptKind, string> = {
+  hall: "DES",
+  seva: "SEVA",
+  donation: "DON",
+  subscription: "SUB",
+};
+
+// Hall bookings are shown as DES{id}; sevas and donations get their own
+// prefix so the check-in scanner can tell them apart
+export const formatBookingId = (kind: ReceiptKind, id: number | string) =>
+  `${idPrefixes[kind]}${String(id).replace(/^\D+/, "")}`;
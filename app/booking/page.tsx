@@ -1,8 +1,9 @@
 "use client";
 
 import React, { useState, useEffect } from "react";
-import { useSelector } from "react-redux";
-import { RootState } from "../store";
+import Link from "next/link";
+import { MessageKey } from "../i18n";
+import { useLocalePath, useT } from "../i18n/useT";
 import HallList from "../components/HallList";
 import HallForm from "../components/HallForm";
 import { Hall, HallsResponse } from "./types";
@@ -10,19 +11,17 @@ import { Hall, HallsResponse } from "./types";
 const BookingPage = () => {
   const [halls, setHalls] = useState<Hall[]>([]);
   const [selectedHallId, setSelectedHallId] = useState<number | null>(null);
-  const [selectedDate, setSelectedDate] = useState<string | null>(null);
+  const [selectedStartDate, setSelectedStartDate] = useState<string | null>(
+    null
+  );
+  const [selectedEndDate, setSelectedEndDate] = useState<string | null>(null);
   const [message, setMessage] = useState<string>("");
-  const [mounted, setMounted] = useState(false); // Mount state
-
-  // Get translated text from Redux
-  const { reserveAHall } = useSelector(
-    (state: RootState) => state.locale.messages
+  const [loadError, setLoadError] = useState<MessageKey<"booking"> | null>(
+    null
   );
 
-  // Set mounted state after component mounts
-  useEffect(() => {
-    setMounted(true);
-  }, []);
+  const t = useT("booking");
+  const localePath = useLocalePath();
 
   useEffect(() => {
     const fetchHallsAndImages = async () => {
@@ -38,58 +37,77 @@ const BookingPage = () => {
           }));
           setHalls(updatedHalls);
         } else {
-          setMessage("Error: Invalid halls data format.");
+          setLoadError("invalidHalls");
         }
       } catch (error) {
         console.error("Failed to fetch halls", error);
-        setMessage("Error: Could not fetch halls.");
+        setLoadError("hallsError");
       }
     };
 
     fetchHallsAndImages();
   }, []);
 
-  const handleDateSelect = (hallId: number, date: string) => {
+  const handleDateSelect = (
+    hallId: number,
+    startDate: string,
+    endDate: string
+  ) => {
     window.scrollTo({ top: 30, behavior: "smooth" });
     setSelectedHallId(hallId);
-    setSelectedDate(date);
+    setSelectedStartDate(startDate);
+    setSelectedEndDate(endDate);
   };
 
   const goBack = () => {
     setSelectedHallId(null);
-    setSelectedDate(null);
+    setSelectedStartDate(null);
+    setSelectedEndDate(null);
     setMessage("");
   };
 
-  if (!mounted) {
-    // Prevent rendering until component has mounted
-    return null;
-  }
+  const selectedHall = halls.find((hall) => hall.hall_id === selectedHallId);
 
   return (
     // <main className="min-h-screen p-6  bg-[var(--background)] ">
     <main className="min-h-screen bg-[var(--background)] flex flex-col items-center justify-center">
     <div className="bg-[var(--background)] container max-w-prose mx-auto p-4 mb-80">
       <h1 className="text-2xl font-bold mb-6 mt-10 text-center">
-        {reserveAHall}
+        {t("title")}
       </h1>
-      {!selectedHallId || !selectedDate ? (
+      <p className="text-center text-sm mb-6">
+        <Link
+          href={localePath("/track-booking")}
+          className="text-blue-600 hover:underline"
+        >
+          {t("trackBooking")}
+        </Link>
+      </p>
+      {!selectedHallId || !selectedStartDate || !selectedEndDate ? (
         <HallList halls={halls} onDateSelect={handleDateSelect} />
       ) : (
         <div>
           <HallForm
             selectedHallId={selectedHallId as number}
-            selectedDate={selectedDate as string}
+            selectedStartDate={selectedStartDate as string}
+            selectedEndDate={selectedEndDate as string}
+            hallName={{
+              en: selectedHall?.name || "",
+              kn: selectedHall?.name_kannada || "",
+            }}
             setMessage={setMessage}
           />
           <button
             onClick={goBack}
             className="mt-4 px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600"
           >
-            Back
+            {t("back")}
           </button>
         </div>
       )}
+      {loadError && (
+        <div className="text-center text-red-500">{t(loadError)}</div>
+      )}
       {message && <div className="text-center text-red-500">{message}</div>}
     </div>
     </main>
@@ -0,0 +1,48 @@
+import { SlotType } from "./types";
+import { AvailabilityEntry } from "../store/availabilitySlice";
+import { blocksDate } from "./status";
+
+export const SLOT_TYPES: SlotType[] = ["morning", "evening", "full"];
+
+// Long enough for a reception eve, the wedding day and a day after
+export const MAX_RANGE_DAYS = 3;
+
+export const slotLabels: Record<SlotType, { en: string; kn: string }> = {
+  morning: { en: "Morning", kn: "ಬೆಳಗ್ಗೆ" },
+  evening: { en: "Evening", kn: "ಸಂಜೆ" },
+  full: { en: "Full Day", kn: "ಪೂರ್ಣ ದಿನ" },
+};
+
+// Every ISO date from start to end (inclusive)
+export const getDatesInRange = (startDate: string, endDate: string): string[] => {
+  const dates: string[] = [];
+  const current = new Date(`${startDate}T00:00:00Z`);
+  const end = new Date(`${endDate}T00:00:00Z`);
+
+  while (current <= end) {
+    dates.push(current.toISOString().split("T")[0]);
+    current.setUTCDate(current.getUTCDate() + 1);
+  }
+
+  return dates;
+};
+
+// An entry blocks its slot while its booking is still live
+export const isBlocking = (entry: AvailabilityEntry) =>
+  blocksDate(entry.status);
+
+// Slots still open on a day, given that day's availability entries
+export const getFreeSlots = (entries: AvailabilityEntry[]): SlotType[] => {
+  const taken = entries.filter(isBlocking).map((entry) => entry.slot);
+
+  if (taken.includes("full")) return [];
+
+  const morningFree = !taken.includes("morning");
+  const eveningFree = !taken.includes("evening");
+
+  return SLOT_TYPES.filter((slot) => {
+    if (slot === "morning") return morningFree;
+    if (slot === "evening") return eveningFree;
+    return morningFree && eveningFree;
+  });
+};
@@ -0,0 +1,129 @@
+// Lifecycle of a hall booking:
+// requested → on hold → confirmed → completed, with rejected / cancelled /
+// expired as dead ends. Rejected is a request the temple turned down;
+// cancelled is one that was accepted and later called off.
+export type BookingStatus =
+  | "requested"
+  | "on_hold"
+  | "confirmed"
+  | "completed"
+  | "rejected"
+  | "cancelled"
+  | "expired";
+
+// How long an unconfirmed request holds the hall, as promised in the booking message
+export const HOLD_HOURS = 26;
+
+export const bookingTransitions: Record<BookingStatus, BookingStatus[]> = {
+  requested: ["on_hold", "confirmed", "rejected", "expired"],
+  on_hold: ["confirmed", "rejected", "cancelled", "expired"],
+  confirmed: ["completed", "cancelled"],
+  completed: [],
+  rejected: [],
+  cancelled: [],
+  expired: [],
+};
+
+export const canTransition = (from: BookingStatus, to: BookingStatus) =>
+  bookingTransitions[from].includes(to);
+
+// When each state was entered; null until the booking reaches it
+export interface BookingTimestamps {
+  requestedAt: Date | null;
+  heldAt: Date | null;
+  confirmedAt: Date | null;
+  completedAt: Date | null;
+  rejectedAt: Date | null;
+  cancelledAt: Date | null;
+  expiredAt: Date | null;
+}
+
+export const bookingStatusLabels: Record<
+  BookingStatus,
+  { en: string; kn: string; badgeClassName: string }
+> = {
+  requested: {
+    en: "Requested",
+    kn: "ವಿನಂತಿಸಲಾಗಿದೆ",
+    badgeClassName: "bg-blue-100 text-blue-700",
+  },
+  on_hold: {
+    en: "On hold",
+    kn: "ತಡೆಹಿಡಿಯಲಾಗಿದೆ",
+    badgeClassName: "bg-orange-100 text-orange-700",
+  },
+  confirmed: {
+    en: "Confirmed",
+    kn: "ದೃಢೀಕರಿಸಲಾಗಿದೆ",
+    badgeClassName: "bg-green-100 text-green-700",
+  },
+  completed: {
+    en: "Completed",
+    kn: "ಪೂರ್ಣಗೊಂಡಿದೆ",
+    badgeClassName: "bg-gray-200 text-gray-700",
+  },
+  rejected: {
+    en: "Rejected",
+    kn: "ತಿರಸ್ಕರಿಸಲಾಗಿದೆ",
+    badgeClassName: "bg-red-100 text-red-700",
+  },
+  cancelled: {
+    en: "Cancelled",
+    kn: "ರದ್ದುಗೊಳಿಸಲಾಗಿದೆ",
+    badgeClassName: "bg-red-100 text-red-700",
+  },
+  expired: {
+    en: "Expired",
+    kn: "ಅವಧಿ ಮುಗಿದಿದೆ",
+    badgeClassName: "bg-gray-100 text-gray-500",
+  },
+};
+
+// Closing a booking this way needs a reason, which is kept with the record
+export const CLOSED_STATUSES: BookingStatus[] = ["rejected", "cancelled"];
+
+export const isClosed = (status: BookingStatus) =>
+  CLOSED_STATUSES.includes(status);
+
+// Only these states keep the hall's date taken
+export const blocksDate = (status: BookingStatus | null) =>
+  status === "requested" ||
+  status === "on_hold" ||
+  status === "confirmed" ||
+  status === "completed";
+
+// Rows written before the status column existed only carry is_booked and
+// the free-text reason, so derive the closest state from those
+export const legacyStatus = (
+  isBooked: boolean,
+  reason?: string
+): BookingStatus | null => {
+  if (isBooked) return "confirmed";
+  if (reason === "On hold") return "on_hold";
+  return null;
+};
+
+export const holdExpiresAt = (heldAt: Date) =>
+  new Date(heldAt.getTime() + HOLD_HOURS * 60 * 60 * 1000);
+
+// A new request holds the date for HOLD_HOURS; placing it on hold restarts the clock
+export const holdStartedAt = (
+  timestamps: Pick<BookingTimestamps, "requestedAt" | "heldAt">
+) => timestamps.heldAt || timestamps.requestedAt;
+
+// Holds past their deadline count as expired even before the sweep has run
+export const effectiveStatus = (
+  status: BookingStatus,
+  timestamps: Pick<BookingTimestamps, "requestedAt" | "heldAt">,
+  now: Date = new Date()
+): BookingStatus => {
+  const startedAt = holdStartedAt(timestamps);
+  if (
+    (status === "requested" || status === "on_hold") &&
+    startedAt &&
+    holdExpiresAt(startedAt) <= now
+  ) {
+    return "expired";
+  }
+  return status;
+};
@@ -1,9 +1,12 @@
+import { Translations } from "../i18n/content";
+
 export interface Hall {
   hall_id: number;
   name: string;
   description: string;
   name_kannada: string;
   description_kannada: string;
+  translations?: Translations | null; // Names in Tulu, Hindi, ...
   HallImages: HallImage[];
   images: string[];
 }
@@ -26,7 +29,16 @@ export interface HallsResponse {
   data: Hall[];
 }
 
+export type SlotType = "morning" | "evening" | "full";
+
+export interface BookingSlot {
+  date: string; // ISO date string
+  slot: SlotType;
+}
+
 export interface Booking {
   hall_id: number;
-  date: string; // ISO date string
+  date: string; // ISO date string of the first day
+  endDate: string; // ISO date string of the last day (same as date for one day)
+  slots: BookingSlot[]; // One entry per day in the range
 }
@@ -0,0 +1,146 @@
+import { addDays } from "../panchanga/dates";
+
+// iCalendar (RFC 5545) files for calendar apps. Times are temple time;
+// Asia/Kolkata has no daylight saving, so a single fixed offset describes it.
+
+export const TEMPLE_LOCATION =
+  "Shrirama Temple, Chokkadi, Amarapadnur Village, Sullia Taluk, Dakshina Kannada - 574212";
+
+const TIMEZONE = "Asia/Kolkata";
+const UID_DOMAIN = "srtchokkadi.org";
+
+export interface CalendarEvent {
+  uid: string; // Stable, so re-imports update the event instead of copying it
+  title: string;
+  description?: string;
+  date: string; // YYYY-MM-DD
+  endDate?: string; // Last day, inclusive, for all-day events over several days
+  time?: string; // HH:MM; the event is all-day without it
+  durationMinutes?: number;
+  repeatWeekdays?: number[]; // 0 = Sunday; all seven repeats daily
+  exceptDates?: string[]; // Days a repeating event is skipped
+  location?: string; // Defaults to the temple
+  url?: string;
+}
+
+const escapeText = (text: string) =>
+  text
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+
+const utf8Length = (char: string) => {
+  const code = char.codePointAt(0) || 0;
+  if (code < 0x80) return 1;
+  if (code < 0x800) return 2;
+  return code < 0x10000 ? 3 : 4;
+};
+
+// Lines may be at most 75 octets; Kannada takes three per letter, so fold
+// by bytes without splitting a character
+const foldLine = (line: string) => {
+  const parts: string[] = [];
+  let current = "";
+  let length = 0;
+  for (const char of line) {
+    const size = utf8Length(char);
+    if (length + size > (parts.length ? 74 : 75)) {
+      parts.push(current);
+      current = "";
+      length = 0;
+    }
+    current += char;
+    length += size;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+};
+
+const compactDate = (key: string) => key.replace(/-/g, "");
+
+const localTime = (key: string, time: string) =>
+  `${compactDate(key)}T${time.replace(":", "")}00`;
+
+const BYDAY = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+const utcStamp = (date: Date) =>
+  date
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}/, "");
+
+const eventLines = (event: CalendarEvent, stamp: string) => {
+  const lines = [
+    "BEGIN:VEVENT",
+    `UID:${event.uid}@${UID_DOMAIN}`,
+    `DTSTAMP:${stamp}`,
+  ];
+
+  if (event.time) {
+    lines.push(
+      `DTSTART;TZID=${TIMEZONE}:${localTime(event.date, event.time)}`,
+      `DURATION:PT${event.durationMinutes || 60}M`
+    );
+  } else {
+    // All-day events end on the morning after their last day
+    lines.push(
+      `DTSTART;VALUE=DATE:${compactDate(event.date)}`,
+      `DTEND;VALUE=DATE:${compactDate(addDays(event.endDate || event.date, 1))}`,
+      "TRANSP:TRANSPARENT"
+    );
+  }
+
+  if (event.repeatWeekdays?.length) {
+    lines.push(
+      event.repeatWeekdays.length === 7
+        ? "RRULE:FREQ=DAILY"
+        : `RRULE:FREQ=WEEKLY;BYDAY=${event.repeatWeekdays
+            .map((weekday) => BYDAY[weekday])
+            .join(",")}`
+    );
+    const { time, exceptDates } = event;
+    if (time && exceptDates?.length) {
+      lines.push(
+        `EXDATE;TZID=${TIMEZONE}:${exceptDates
+          .map((key) => localTime(key, time))
+          .join(",")}`
+      );
+    }
+  }
+  lines.push(`SUMMARY:${escapeText(event.title)}`);
+  if (event.description) {
+    lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  }
+  lines.push(`LOCATION:${escapeText(event.location || TEMPLE_LOCATION)}`);
+  if (event.url) lines.push(`URL:${event.url}`);
+  lines.push("END:VEVENT");
+  return lines;
+};
+
+export const buildCalendar = (name: string, events: CalendarEvent[]) => {
+  const stamp = utcStamp(new Date());
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Shrirama Temple Chokkadi//Website//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(name)}`,
+    `X-WR-TIMEZONE:${TIMEZONE}`,
+    "BEGIN:VTIMEZONE",
+    `TZID:${TIMEZONE}`,
+    "BEGIN:STANDARD",
+    "DTSTART:19700101T000000",
+    "TZOFFSETFROM:+0530",
+    "TZOFFSETTO:+0530",
+    "TZNAME:IST",
+    "END:STANDARD",
+    "END:VTIMEZONE",
+    ...events.flatMap((event) => eventLines(event, stamp)),
+    "END:VCALENDAR",
+  ];
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+};
+
+export const CALENDAR_CONTENT_TYPE = "text/calendar; charset=utf-8";
@@ -0,0 +1,165 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { WEEKDAY_KEYS } from "../i18n";
+import { useDataLocale, useT } from "../i18n/useT";
+import {
+  PANCHANGA_FIRST_DAY,
+  PANCHANGA_LAST_DAY,
+  masaLabel,
+  panchangaFor,
+  tithiLabel,
+} from "../panchanga/table";
+import { festivalsBetween } from "../panchanga/festivals";
+import {
+  daysInMonth,
+  formatDateKey,
+  parseDateKey,
+  toDateKey,
+} from "../panchanga/dates";
+import CalendarSubscribe from "../components/CalendarSubscribe";
+
+const monthKey = (year: number, month: number) =>
+  `${year}-${String(month).padStart(2, "0")}`;
+
+const FIRST_MONTH = PANCHANGA_FIRST_DAY.slice(0, 7);
+const LAST_MONTH = PANCHANGA_LAST_DAY.slice(0, 7);
+
+export default function TempleCalendar() {
+  const currentLocale = useDataLocale();
+  const t = useT("calendar");
+  const tCommon = useT("common");
+
+  const today = toDateKey(new Date());
+  // Start on this month, or the nearest month the bundled panchanga covers
+  const [month, setMonth] = useState(() => {
+    const current = today.slice(0, 7);
+    if (current < FIRST_MONTH) return FIRST_MONTH;
+    if (current > LAST_MONTH) return LAST_MONTH;
+    return current;
+  });
+
+  const { year, month: monthNumber } = parseDateKey(`${month}-01`);
+  const lastDay = `${month}-${String(daysInMonth(year, monthNumber)).padStart(2, "0")}`;
+
+  const days = useMemo(() => {
+    const firstWeekday = new Date(year, monthNumber - 1, 1).getDay();
+    return [
+      ...Array.from({ length: firstWeekday }, () => null),
+      ...Array.from({ length: daysInMonth(year, monthNumber) }, (_, i) =>
+        panchangaFor(`${month}-${String(i + 1).padStart(2, "0")}`)
+      ),
+    ];
+  }, [month, year, monthNumber]);
+
+  const festivals = useMemo(
+    () => festivalsBetween(`${month}-01`, lastDay),
+    [month, lastDay]
+  );
+
+  // Lunar months overlapping this Gregorian month, e.g. "Ashwayuja – Kartika"
+  const masas = Array.from(
+    new Set(
+      days
+        .filter((day) => day !== null)
+        .map((day) => masaLabel(day, currentLocale))
+    )
+  ).join(" – ");
+
+  const changeMonth = (step: number) => {
+    const date = new Date(year, monthNumber - 1 + step, 1);
+    setMonth(monthKey(date.getFullYear(), date.getMonth() + 1));
+  };
+
+  return (
+    <main className="min-h-screen flex flex-col items-center p-6 bg-[var(--background)] font-serif">
+      <h1 className="text-3xl font-bold mb-6 text-[var(--foreground)] text-center">
+        {t("title")}
+      </h1>
+
+      <div className="w-full max-w-4xl bg-white bg-opacity-90 p-4 sm:p-6 rounded-lg shadow-lg">
+        <div className="flex justify-between items-center mb-4">
+          <button
+            onClick={() => changeMonth(-1)}
+            disabled={month <= FIRST_MONTH}
+            className="px-4 py-2 bg-gray-200 rounded-lg hover:bg-gray-300 text-gray-800 font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {tCommon("previous")}
+          </button>
+          <div className="text-center">
+            <h2 className="text-xl font-semibold text-orange-600">
+              {new Date(year, monthNumber - 1).toLocaleString(
+                currentLocale === "kn" ? "kn-IN" : "en-GB",
+                { month: "long", year: "numeric" }
+              )}
+            </h2>
+            <p className="text-sm text-gray-600">{masas}</p>
+          </div>
+          <button
+            onClick={() => changeMonth(1)}
+            disabled={month >= LAST_MONTH}
+            className="px-4 py-2 bg-gray-200 rounded-lg hover:bg-gray-300 text-gray-800 font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {tCommon("next")}
+          </button>
+        </div>
+
+        <div className="grid grid-cols-7 gap-1 sm:gap-2">
+          {WEEKDAY_KEYS.map((weekday) => (
+            <div key={weekday} className="text-center font-medium">
+              {tCommon(`weekdays.${weekday}`)}
+            </div>
+          ))}
+          {days.map((day, index) => {
+            if (!day) return <div key={index} />;
+
+            const dayFestivals = festivals.filter(
+              ({ date }) => date === day.date
+            );
+            return (
+              <div
+                key={day.date}
+                className={`rounded-lg p-1 sm:p-2 min-h-[5.5rem] text-xs sm:text-sm ${
+                  dayFestivals.length ? "bg-orange-100" : "bg-green-50"
+                } ${day.date === today ? "ring-2 ring-orange-500" : ""}`}
+              >
+                <p className="font-bold">{parseDateKey(day.date).day}</p>
+                <p className="text-gray-700">
+                  {tithiLabel(day, currentLocale)}
+                </p>
+                <p className="text-gray-500">{day.nakshatra[currentLocale]}</p>
+                {dayFestivals.map(({ festival }) => (
+                  <p
+                    key={festival.code}
+                    className="font-semibold text-orange-700"
+                  >
+                    {festival[currentLocale]}
+                  </p>
+                ))}
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="mt-6">
+          <h3 className="text-lg font-semibold mb-2">{t("festivals")}</h3>
+          {festivals.length === 0 ? (
+            <p className="text-gray-600">{t("noFestivals")}</p>
+          ) : (
+            <ul className="space-y-1">
+              {festivals.map(({ date, festival }) => (
+                <li key={`${date}-${festival.code}`}>
+                  <span className="font-medium">{formatDateKey(date)}</span> –{" "}
+                  {festival[currentLocale]}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <p className="mt-6 text-sm text-gray-500">{t("note")}</p>
+        <CalendarSubscribe feedPath="/api/calendar/events" />
+      </div>
+    </main>
+  );
+}
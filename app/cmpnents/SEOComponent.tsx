@@ -1,22 +0,0 @@
-// components/SEOComponent.tsx
-import Head from 'next/head';
-
-interface SEOProps {
-  title: string;
-  description: string;
-  image?: string;
-  url?: string;
-}
-
-const SEOComponent: React.FC<SEOProps> = ({ title, description, image, url }) => (
-  <Head>
-    <title>{title}</title>
-    <meta name="description" content={description} />
-    <meta property="og:title" content={title} />
-    <meta property="og:description" content={description} />
-    {image && <meta property="og:image" content={image} />}
-    {url && <meta property="og:url" content={url} />}
-  </Head>
-);
-
-export default SEOComponent;
@@ -1,35 +1,34 @@
-import React, { useEffect, useState, useCallback, useRef } from "react";
+import React, { useEffect, useState, useRef } from "react";
+import { useDispatch, useSelector } from "react-redux";
 import { FaCalendar } from "react-icons/fa";
+import { RootState, AppDispatch } from "../store";
+import {
+  entriesForDay,
+  fetchMonthAvailability,
+} from "../store/availabilitySlice";
+import {
+  MAX_RANGE_DAYS,
+  getDatesInRange,
+  getFreeSlots,
+  isBlocking,
+  slotLabels,
+} from "../booking/slots";
+import { bookingStatusLabels } from "../booking/status";
+import { describePanchanga, panchangaFor } from "../panchanga/table";
+import { festivalsOn } from "../panchanga/festivals";
+import { WEEKDAY_KEYS } from "../i18n";
+import { useDataLocale, useT } from "../i18n/useT";
 
 interface CalendarProps {
   hallId: number;
-  onDateSelect: (hallId: number, date: string) => void;
-}
-
-interface AvailabilityData {
-  date: string;
-  reason: string;
-  isBooked: boolean;
-}
-
-interface APIResponse {
-  statusCode: number;
-  message: string;
-  data: {
-    date: string;
-    reason: string;
-    is_booked: boolean;
-    hall: {
-      hall_id: number;
-      name: string;
-    };
-  }[];
+  onDateSelect: (hallId: number, startDate: string, endDate: string) => void;
 }
 
 const Calendar: React.FC<CalendarProps> = ({ hallId, onDateSelect }) => {
-  const [availabilityData, setAvailabilityData] = useState<AvailabilityData[]>(
-    []
-  );
+  const dispatch = useDispatch<AppDispatch>();
+  const locale = useDataLocale();
+  const t = useT("hallCalendar");
+  const tCommon = useT("common");
   const [currentMonth, setCurrentMonth] = useState<number>(
     new Date().getMonth()
   );
@@ -37,34 +36,26 @@ const Calendar: React.FC<CalendarProps> = ({ hallId, onDateSelect }) => {
     new Date().getFullYear()
   );
   const [showDropdown, setShowDropdown] = useState<boolean>(false);
+  const [rangeStart, setRangeStart] = useState<string | null>(null);
+  const [rangeEnd, setRangeEnd] = useState<string | null>(null);
+  const [rangeError, setRangeError] = useState<string>("");
 
   const dropdownRef = useRef<HTMLDivElement>(null);
 
-  const fetchAvailability = useCallback(async () => {
-    try {
-      const response = await fetch(`/api/halls/availability`);
-      const result: APIResponse = await response.json();
-
-      if (result.statusCode === 200) {
-        const dataForHall = result.data
-          .filter((item) => item.hall.hall_id === hallId)
-          .map((item) => ({
-            date: item.date.split("T")[0],
-            reason: item.reason || "Available",
-            isBooked: item.is_booked,
-          }));
-        setAvailabilityData(dataForHall);
-      } else {
-        console.error("Failed to fetch availability data");
-      }
-    } catch (error) {
-      console.error("Error fetching availability:", error);
-    }
-  }, [hallId]);
+  // Every cached month, so ranges can span month boundaries
+  const cachedMonths = useSelector(
+    (state: RootState) => state.availability.months
+  );
 
+  // Fetch the visible month and prefetch the next one; cached months are skipped
   useEffect(() => {
-    fetchAvailability();
-  }, [fetchAvailability]);
+    dispatch(
+      fetchMonthAvailability({ year: currentYear, month: currentMonth })
+    );
+    dispatch(
+      fetchMonthAvailability({ year: currentYear, month: currentMonth + 1 })
+    );
+  }, [dispatch, currentYear, currentMonth]);
 
   // Close the dropdown if the click is outside
   useEffect(() => {
@@ -115,17 +106,44 @@ const Calendar: React.FC<CalendarProps> = ({ hallId, onDateSelect }) => {
     }
   };
 
-  const getReasonColor = (reason: string) => {
-    switch (reason) {
-      case "Available":
-        return "text-green-500";
-      case "On hold":
-        return "text-orange-500";
-      case "Booked":
-        return "text-red-500";
-      default:
-        return "text-gray-500";
+  // Null until the day's month has loaded
+  const getEntriesForDay = (day: string) =>
+    entriesForDay(cachedMonths, hallId, day);
+
+  // First click picks the start day, a later click extends the range
+  const handleDayClick = (day: string) => {
+    setRangeError("");
+
+    if (!rangeStart || rangeEnd || day <= rangeStart) {
+      setRangeStart(day);
+      setRangeEnd(null);
+      return;
+    }
+
+    const range = getDatesInRange(rangeStart, day);
+    if (range.length > MAX_RANGE_DAYS) {
+      setRangeError(t("tooManyDays", { count: MAX_RANGE_DAYS }));
+      return;
     }
+    if (
+      range.some((date) => {
+        const entries = getEntriesForDay(date);
+        return !entries || getFreeSlots(entries).length === 0;
+      })
+    ) {
+      setRangeError(t("unavailable"));
+      return;
+    }
+
+    setRangeEnd(day);
+  };
+
+  const isInRange = (day: string) =>
+    !!rangeStart && day >= rangeStart && day <= (rangeEnd || rangeStart);
+
+  const handleContinue = () => {
+    if (!rangeStart) return;
+    onDateSelect(hallId, rangeStart, rangeEnd || rangeStart);
   };
 
   const getDaysInMonth = (month: number, year: number): string[] => {
@@ -187,7 +205,7 @@ const Calendar: React.FC<CalendarProps> = ({ hallId, onDateSelect }) => {
       currentMonth === new Date().getMonth() && currentYear === new Date().getFullYear()
     }
   >
-    Previous
+    {tCommon("previous")}
   </button>
 
   <div className="flex items-center gap-2 max-w relative" ref={dropdownRef}>
@@ -253,7 +271,7 @@ const Calendar: React.FC<CalendarProps> = ({ hallId, onDateSelect }) => {
           onClick={() => setShowDropdown(false)}
           className="mt-5 px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 w-full"
         >
-          Go
+          {t("go")}
         </button>
       </div>
     )}
@@ -272,15 +290,15 @@ const Calendar: React.FC<CalendarProps> = ({ hallId, onDateSelect }) => {
       currentYear === new Date().getFullYear() + Math.floor((new Date().getMonth() + 36) / 12)
     }
   >
-    Next
+    {tCommon("next")}
   </button>
 </div>
 
 
       <div className="grid grid-cols-7 gap-2">
-        {["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"].map((day, index) => (
-          <div key={index} className="text-center font-medium">
-            {day}
+        {WEEKDAY_KEYS.map((day) => (
+          <div key={day} className="text-center font-medium">
+            {tCommon(`weekdays.${day}`)}
           </div>
         ))}
         {daysInMonth.map((day, index) => {
@@ -288,49 +306,104 @@ const Calendar: React.FC<CalendarProps> = ({ hallId, onDateSelect }) => {
             return <div key={index} className="text-center"></div>;
           }
 
-          const availability = availabilityData.find(
-            (data) => data.date === day
-          );
+          const dayEntries = getEntriesForDay(day);
+          const isLoaded = dayEntries !== null;
+          const freeSlots = dayEntries ? getFreeSlots(dayEntries) : [];
+          const isFullyTaken = isLoaded && freeSlots.length === 0;
+          const isPartlyTaken =
+            isLoaded && !isFullyTaken && !freeSlots.includes("full");
+          const blockingEntry = dayEntries?.find(isBlocking);
           const isToday =
             new Date(day).toDateString() === new Date().toDateString();
+          // Shown where the bundled panchanga covers the day
+          const panchanga = panchangaFor(day);
+          const festivals = festivalsOn(day);
 
           return (
             <div key={day} className="text-center">
               <button
                 onClick={() =>
-                  !availability?.isBooked &&
-                  availability?.reason !== "On hold" &&
-                  !isToday &&
-                  onDateSelect(hallId, day)
+                  isLoaded && !isFullyTaken && !isToday && handleDayClick(day)
                 }
                 className={`p-2 rounded-lg w-full ${
-                  availability?.isBooked
+                  isInRange(day)
+                    ? "bg-orange-300 ring-2 ring-orange-500"
+                    : !isLoaded
+                    ? "bg-gray-100 cursor-wait"
+                    : isFullyTaken &&
+                      (blockingEntry?.status === "confirmed" ||
+                        blockingEntry?.status === "completed")
                     ? "bg-red-100 cursor-not-allowed"
-                    : availability?.reason === "On hold"
+                    : isFullyTaken
                     ? "bg-orange-100 cursor-not-allowed"
+                    : isPartlyTaken
+                    ? "bg-yellow-100 hover:bg-yellow-200"
                     : "bg-green-100 hover:bg-green-200"
                 }`}
-                disabled={
-                  availability?.isBooked ||
-                  availability?.reason === "On hold" ||
-                  isToday
+                disabled={!isLoaded || isFullyTaken || isToday}
+                title={
+                  panchanga
+                    ? [
+                        describePanchanga(panchanga, locale),
+                        ...festivals.map((festival) => festival[locale]),
+                      ].join("\n")
+                    : undefined
                 }
               >
                 <span>{new Date(day).getDate()}</span>
+                {panchanga && (
+                  <span
+                    className={`block text-[10px] leading-tight truncate ${
+                      festivals.length ? "text-orange-700 font-semibold" : "text-gray-600"
+                    }`}
+                  >
+                    {festivals.length ? festivals[0][locale] : panchanga.tithi[locale]}
+                  </span>
+                )}
               </button>
-              {availability && (
-                <div
-                  className={`text-xs mt-1 font-medium ${getReasonColor(
-                    availability.reason
-                  )}`}
-                >
-                  {availability.reason}
+              {isPartlyTaken ? (
+                <div className="text-xs mt-1 font-medium text-yellow-600">
+                  {t("free", {
+                    slots: freeSlots
+                      .map((slot) => slotLabels[slot][locale])
+                      .join(", "),
+                  })}
                 </div>
+              ) : (
+                blockingEntry?.status && (
+                  <span
+                    className={`inline-block text-xs mt-1 px-2 rounded-full font-medium ${
+                      bookingStatusLabels[blockingEntry.status].badgeClassName
+                    }`}
+                  >
+                    {bookingStatusLabels[blockingEntry.status][locale]}
+                  </span>
+                )
               )}
             </div>
           );
         })}
       </div>
+
+      {rangeError && (
+        <p className="text-sm text-red-500 mt-4">{rangeError}</p>
+      )}
+      {rangeStart && (
+        <div className="mt-4 flex flex-col sm:flex-row items-center justify-between gap-2 bg-orange-50 border border-orange-200 rounded-lg p-3">
+          <span className="text-sm text-gray-700">
+            {new Date(rangeStart).toLocaleDateString("en-GB")}
+            {rangeEnd &&
+              ` – ${new Date(rangeEnd).toLocaleDateString("en-GB")}`}
+            {!rangeEnd && ` ${t("addMoreDays")}`}
+          </span>
+          <button
+            onClick={handleContinue}
+            className="px-4 py-2 bg-[#ff9718] text-white rounded-lg hover:bg-orange-400 font-medium"
+          >
+            {t("continue")}
+          </button>
+        </div>
+      )}
     </div>
   );
 };
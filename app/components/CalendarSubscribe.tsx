@@ -0,0 +1,41 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { useT } from "../i18n/useT";
+
+interface CalendarSubscribeProps {
+  feedPath: string; // e.g. /api/calendar/events
+}
+
+// Subscribing keeps the phone's calendar in step with the feed; the
+// download is a one-off copy for apps that cannot subscribe
+const CalendarSubscribe: React.FC<CalendarSubscribeProps> = ({ feedPath }) => {
+  const t = useT("calendarSubscribe");
+  const [host, setHost] = useState<string | null>(null);
+
+  useEffect(() => {
+    setHost(window.location.host);
+  }, []);
+
+  if (!host) return null;
+
+  return (
+    <div className="flex flex-wrap justify-center gap-2 mt-4 print:hidden">
+      <a
+        href={`webcal://${host}${feedPath}`}
+        className="px-4 py-2 bg-orange-500 text-white rounded hover:bg-orange-600"
+      >
+        {t("subscribe")}
+      </a>
+      <a
+        href={feedPath}
+        download
+        className="px-4 py-2 bg-gray-200 text-gray-800 rounded hover:bg-gray-300"
+      >
+        {t("download")}
+      </a>
+    </div>
+  );
+};
+
+export default CalendarSubscribe;
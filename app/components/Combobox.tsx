@@ -0,0 +1,151 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { normalise } from "../panchanga/names";
+
+export interface ComboboxOption {
+  value: string; // What gets stored
+  label: string; // What is shown, in the current locale
+  keywords?: string[]; // Other spellings that should also match a search
+}
+
+interface ComboboxProps {
+  id: string;
+  options: ComboboxOption[];
+  value: string;
+  onChange: (value: string) => void;
+  required?: boolean;
+  placeholder?: string;
+  noMatchText?: string;
+  chooseText?: string; // Shown when typed text matches no option
+  // Keep whatever was typed when nothing matches, e.g. for gotra
+  allowCustom?: boolean;
+}
+
+const Combobox: React.FC<ComboboxProps> = ({
+  id,
+  options,
+  value,
+  onChange,
+  required,
+  placeholder,
+  noMatchText = "No matches",
+  chooseText = "Please choose an option from the list.",
+  allowCustom = false,
+}) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [query, setQuery] = useState<string | null>(null); // null while not typing
+  const [open, setOpen] = useState(false);
+  const [highlighted, setHighlighted] = useState(0);
+
+  // Values that are not in the list (custom or legacy text) are shown as stored
+  const selectedLabel =
+    options.find((option) => option.value === value)?.label ?? value;
+
+  const matches = useMemo(() => {
+    if (!query) return options;
+    const key = normalise(query);
+    return options.filter((option) =>
+      [option.label, option.value, ...(option.keywords || [])].some(
+        (candidate) => normalise(candidate).includes(key)
+      )
+    );
+  }, [options, query]);
+
+  // Typed text is not a value unless custom text is allowed, so keep the
+  // form from submitting it as if `required` were met
+  useEffect(() => {
+    inputRef.current?.setCustomValidity(
+      required && !allowCustom && !value && query ? chooseText : ""
+    );
+  }, [required, allowCustom, value, query, chooseText]);
+
+  const select = (option: ComboboxOption) => {
+    onChange(option.value);
+    setQuery(null);
+    setOpen(false);
+  };
+
+  const handleInput = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setQuery(e.target.value);
+    setOpen(true);
+    setHighlighted(0);
+    if (allowCustom) onChange(e.target.value);
+    else if (!e.target.value) onChange("");
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setOpen(true);
+      setHighlighted((prev) => Math.min(prev + 1, matches.length - 1));
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setHighlighted((prev) => Math.max(prev - 1, 0));
+    } else if (e.key === "Enter" && open && matches[highlighted]) {
+      e.preventDefault();
+      select(matches[highlighted]);
+    } else if (e.key === "Escape") {
+      setQuery(null);
+      setOpen(false);
+    }
+  };
+
+  // Custom text is already stored by then; otherwise half-typed text is dropped
+  const handleBlur = () => {
+    setOpen(false);
+    setQuery(null);
+  };
+
+  return (
+    <div className="relative">
+      <input
+        ref={inputRef}
+        type="text"
+        id={id}
+        role="combobox"
+        aria-expanded={open}
+        aria-controls={`${id}-options`}
+        aria-autocomplete="list"
+        autoComplete="off"
+        value={query ?? selectedLabel}
+        placeholder={placeholder}
+        required={required}
+        onChange={handleInput}
+        onFocus={() => setOpen(true)}
+        onBlur={handleBlur}
+        onKeyDown={handleKeyDown}
+        className="border border-gray-300 rounded-md p-2 w-full focus:outline-none focus:ring-2 focus:ring-orange-400"
+      />
+      {open && (matches.length > 0 || !allowCustom) && (
+        <ul
+          id={`${id}-options`}
+          role="listbox"
+          className="absolute z-10 mt-1 max-h-60 w-full overflow-y-auto bg-white border border-gray-300 rounded-md shadow-lg"
+        >
+          {matches.length === 0 && (
+            <li className="p-2 text-gray-500">{noMatchText}</li>
+          )}
+          {matches.map((option, index) => (
+            <li
+              key={option.value}
+              role="option"
+              aria-selected={option.value === value}
+              // Select before the input's blur closes the list
+              onMouseDown={(e) => {
+                e.preventDefault();
+                select(option);
+              }}
+              onMouseEnter={() => setHighlighted(index)}
+              className={`p-2 cursor-pointer text-gray-800 ${
+                index === highlighted ? "bg-orange-100" : ""
+              } ${option.value === value ? "font-semibold" : ""}`}
+            >
+              {option.label}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default Combobox;
@@ -1,16 +1,71 @@
-import React, { useState } from "react";
+import React, { useMemo, useState } from "react";
+import { useDispatch, useSelector } from "react-redux";
+import { RootState, AppDispatch } from "../store";
+import {
+  entriesForDay,
+  invalidateAvailability,
+} from "../store/availabilitySlice";
+import { BookingSlot, SlotType } from "../booking/types";
+import { getDatesInRange, getFreeSlots, slotLabels } from "../booking/slots";
+import Receipt, { ReceiptData, formatBookingId } from "./Receipt";
+import { HOLD_HOURS } from "../booking/status";
+import { Locale, pickLocale, translate } from "../i18n";
+import { useLocale, useLocalePath, useT } from "../i18n/useT";
+
+// Reasons offered in the form, sent to the backend as written here
+const REASONS = ["Wedding", "Upanayana", "Reception", "Others"] as const;
+
+const isListedReason = (reason: string): reason is (typeof REASONS)[number] =>
+  REASONS.includes(reason as (typeof REASONS)[number]);
 
 interface HallFormProps {
   selectedHallId: number;
-  selectedDate: string;
+  selectedStartDate: string;
+  selectedEndDate: string;
+  hallName: { en: string; kn: string };
   setMessage: (message: string) => void;
 }
 
 const HallForm: React.FC<HallFormProps> = ({
   selectedHallId,
-  selectedDate,
+  selectedStartDate,
+  selectedEndDate,
+  hallName,
   setMessage,
 }) => {
+  const dispatch = useDispatch<AppDispatch>();
+  const locale = useLocale();
+  const t = useT("hallForm");
+  const tCommon = useT("common");
+  const localePath = useLocalePath();
+  const cachedMonths = useSelector(
+    (state: RootState) => state.availability.months
+  );
+
+  // Slots still open on each selected day, from the cached availability;
+  // null while the day's month is not loaded
+  const freeSlotsByDate = useMemo(
+    () =>
+      getDatesInRange(selectedStartDate, selectedEndDate).map((date) => {
+        const entries = entriesForDay(cachedMonths, selectedHallId, date);
+        return { date, freeSlots: entries && getFreeSlots(entries) };
+      }),
+    [cachedMonths, selectedHallId, selectedStartDate, selectedEndDate]
+  );
+  // Only days with a slot still open can be reserved
+  const canReserve = freeSlotsByDate.every(
+    ({ freeSlots }) => freeSlots && freeSlots.length > 0
+  );
+
+  // Slots the user picked; other days default to the whole day where
+  // possible, else whichever half is free
+  const [slots, setSlots] = useState<Record<string, SlotType>>({});
+  const slotFor = (date: string, freeSlots: SlotType[]): SlotType =>
+    freeSlots.includes(slots[date])
+      ? slots[date]
+      : freeSlots.includes("full")
+      ? "full"
+      : freeSlots[0];
   const [name, setName] = useState<string>("");
   const [reason, setReason] = useState<string>("");
   const [customReason, setCustomReason] = useState<string>("");
@@ -19,6 +74,7 @@ const HallForm: React.FC<HallFormProps> = ({
   const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
   const [isOtpSent, setIsOtpSent] = useState<boolean>(false);
   const [isOtpVerified, setIsOtpVerified] = useState<boolean>(false);
+  const [receipt, setReceipt] = useState<ReceiptData | null>(null);
 
   const reasonColors: Record<string, string> = {
     Wedding: "bg-blue-200 text-blue-700",
@@ -29,7 +85,7 @@ const HallForm: React.FC<HallFormProps> = ({
 
   const sendOtp = async () => {
     if (!mobileNumber || mobileNumber.length !== 10) {
-      setMessage("Please enter a valid 10-digit mobile number.");
+      setMessage(tCommon("invalidMobile"));
       return;
     }
 
@@ -42,20 +98,20 @@ const HallForm: React.FC<HallFormProps> = ({
 
       const data = await response.json();
       if (response.ok) {
-        setMessage("OTP sent successfully!");
+        setMessage(t("otpSent"));
         setIsOtpSent(true);
       } else {
-        setMessage(`Error: ${data.message || "Failed to send OTP."}`);
+        setMessage(tCommon("error", { message: data.message || tCommon("sendOtpFailed") }));
       }
     } catch (error) {
       console.error("Error sending OTP:", error);
-      setMessage("Error: Failed to send OTP.");
+      setMessage(tCommon("error", { message: tCommon("sendOtpFailed") }));
     }
   };
 
   const verifyOtp = async () => {
     if (!otp) {
-      setMessage("Please enter the OTP.");
+      setMessage(t("enterOtp"));
       return;
     }
 
@@ -68,14 +124,14 @@ const HallForm: React.FC<HallFormProps> = ({
 
       const data = await response.json();
       if (response.ok) {
-        setMessage("OTP verified successfully!");
+        setMessage(t("otpVerified"));
         setIsOtpVerified(true);
       } else {
-        setMessage(`Error: ${data.message || "Failed to verify OTP."}`);
+        setMessage(tCommon("error", { message: data.message || tCommon("verifyOtpFailed") }));
       }
     } catch (error) {
       console.error("Error verifying OTP:", error);
-      setMessage("Error: Failed to verify OTP.");
+      setMessage(tCommon("error", { message: tCommon("verifyOtpFailed") }));
     }
   };
 
@@ -89,10 +145,21 @@ const HallForm: React.FC<HallFormProps> = ({
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!isOtpVerified) {
-      setMessage("Please verify your OTP before submitting.");
+      setMessage(t("verifyFirst"));
+      return;
+    }
+    if (!canReserve) {
+      setMessage(t("datesUnavailable"));
       return;
     }
 
+    const bookingSlots: BookingSlot[] = freeSlotsByDate.map(
+      ({ date, freeSlots }) => ({
+        date,
+        slot: slotFor(date, freeSlots || []),
+      })
+    );
+
     setIsSubmitting(true);
 
     try {
@@ -106,7 +173,9 @@ const HallForm: React.FC<HallFormProps> = ({
             reason: reason === "Others" ? customReason : reason,
             mobileNumber: "+91" + mobileNumber,
             mobileNumberConfirmation: "+91" + mobileNumber,
-            date: selectedDate,
+            date: selectedStartDate,
+            endDate: selectedEndDate,
+            slots: bookingSlots,
             hallId: selectedHallId,
           },
         }),
@@ -115,12 +184,60 @@ const HallForm: React.FC<HallFormProps> = ({
       const data = await response.json();
       if (response.ok) {
         const { bookingId, formDetails } = data.data;
-        const formattedDate = new Date(formDetails.date).toLocaleDateString(
-          "en-GB"
+        const bookedReason: string = formDetails.reason;
+        // Custom reasons are printed as entered
+        const reasonIn = (language: Locale) =>
+          isListedReason(bookedReason)
+            ? translate(language, "hallForm", `reasons.${bookedReason}`)
+            : bookedReason;
+        const formattedDateList = bookingSlots.map(
+          ({ date, slot }) =>
+            `${new Date(date).toLocaleDateString("en-GB")} (${
+              slotLabels[slot].en
+            })`
         );
         alert(
-          `Hare Raama!\n\nThank you for reserving the hall at Shrirama Temple Chokkadi.\n\nYour request is under review. Please contact the temple authority at one of the following numbers: +91 94486 25254, +91 70196 16082, 08257 200585, or +91 97412 51613 for confirmation within 26 hours to finalize your booking.\n\nBooking Id: ${bookingId}\n\nDetails provided by you:\n- Name: ${formDetails.name}\n- Purpose: ${formDetails.reason}\n- Mobile: ${formDetails.mobileNumber}\n- Booking Date: ${formattedDate}\n\nTo confirm the booking, please make the necessary payment and contact the temple authority. Failure to confirm within the given time may result in cancellation of the reservation.\n\nThank you,\nShrirama Temple Chokkadi`
+          t("reserved", {
+            holdHours: HOLD_HOURS,
+            bookingId,
+            name: formDetails.name,
+            purpose: reasonIn(locale),
+            mobile: formDetails.mobileNumber,
+            dates: bookingSlots
+              .map(
+                ({ date, slot }) =>
+                  `${new Date(date).toLocaleDateString("en-GB")} (${
+                    pickLocale(slotLabels[slot], locale)
+                  })`
+              )
+              .join(", "),
+            trackUrl: `${window.location.origin}${localePath("/track-booking")}?id=${bookingId}`,
+          })
         );
+        setReceipt({
+          kind: "hall",
+          bookingId: formatBookingId("hall", bookingId),
+          name: formDetails.name,
+          mobileNumber: formDetails.mobileNumber,
+          item: hallName,
+          purpose: {
+            en: formDetails.reason,
+            kn: reasonIn("kn"),
+          },
+          dates: formattedDateList,
+          // One entry per day, so each keeps its own slot
+          calendarEvents: bookingSlots.map(({ date, slot }) => ({
+            uid: `hall-${bookingId}-${date}`,
+            title: `${hallName.en} – ${slotLabels[slot].en} (${formatBookingId(
+              "hall",
+              bookingId
+            )})`,
+            description: `${formDetails.reason}\nAwaiting confirmation from the temple office.\n${window.location.origin}${localePath("/track-booking")}?id=${bookingId}`,
+            date,
+          })),
+        });
+        // The requested date is now on hold, so refetch it next time
+        dispatch(invalidateAvailability());
         setName("");
         setReason("");
         setCustomReason("");
@@ -129,130 +246,162 @@ const HallForm: React.FC<HallFormProps> = ({
         setIsOtpSent(false);
         setIsOtpVerified(false);
       } else {
-        setMessage(`Error: ${data.message || "Failed to reserve hall."}`);
+        setMessage(tCommon("error", { message: data.message || t("reserveFailed") }));
       }
     } catch (error) {
       console.error("Error submitting form:", error);
-      setMessage("Error: Failed to submit form.");
+      setMessage(tCommon("error", { message: t("submitFailed") }));
     } finally {
       setIsSubmitting(false);
     }
   };
 
   return (
-    <form onSubmit={handleSubmit} className="space-y-4 max-w-lg mx-auto">
-      {/* Selected Date */}
-      <div>
-  <label className="block text-sm font-medium">Selected Date</label>
-  <input
-    type="text"
-    value={new Date(selectedDate).toLocaleDateString("en-GB")}
-    disabled
-    className="mt-1 p-2 border rounded w-full bg-gray-100 text-gray-700"
-  />
-</div>
+    <>
+      <form onSubmit={handleSubmit} className="space-y-4 max-w-lg mx-auto">
+        {/* Selected Dates and Slots */}
+        <div>
+          <label className="block text-sm font-medium">{t("selectedDates")}</label>
+          {freeSlotsByDate.map(({ date, freeSlots }) => (
+            <div key={date} className="flex items-center mt-1 space-x-2">
+              <input
+                type="text"
+                value={new Date(date).toLocaleDateString("en-GB")}
+                disabled
+                className="p-2 border rounded flex-1 bg-gray-100 text-gray-700"
+              />
+              {!freeSlots ? (
+                <span className="p-2 text-gray-500">
+                  {t("checkingAvailability")}
+                </span>
+              ) : freeSlots.length === 0 ? (
+                <span className="p-2 text-red-600">{t("dateTaken")}</span>
+              ) : (
+                <select
+                  value={slotFor(date, freeSlots)}
+                  onChange={(e) =>
+                    setSlots((prev) => ({
+                      ...prev,
+                      [date]: e.target.value as SlotType,
+                    }))
+                  }
+                  className="p-2 border rounded"
+                >
+                  {freeSlots.map((slot) => (
+                    <option key={slot} value={slot}>
+                      {pickLocale(slotLabels[slot], locale)}
+                    </option>
+                  ))}
+                </select>
+              )}
+            </div>
+          ))}
+        </div>
 
-      {/* Full Name */}
-      <div>
-        <label className="block text-sm font-medium">Full Name</label>
-        <input
-          type="text"
-          value={name}
-          onChange={(e) => setName(e.target.value)}
-          className="mt-1 p-2 border rounded w-full"
-          required
-        />
-      </div>
-      {/* Reason for Booking */}
-      <div>
-        <label className="block text-sm font-medium">Reason for Booking</label>
-        <select
-          value={reason}
-          onChange={(e) => setReason(e.target.value)}
-          className={`mt-1 p-2 border rounded w-full ${
-            reasonColors[reason] || ""
-          }`}
-          required
-        >
-          <option value="">Select a reason</option>
-          <option value="Wedding">Wedding</option>
-          <option value="Upanayana">Upanayana</option>
-          <option value="Reception">Reception</option>
-          <option value="Others">Others</option>
-        </select>
-      </div>
-      {reason === "Others" && (
+        {/* Full Name */}
         <div>
-          <label className="block text-sm font-medium">Custom Reason</label>
+          <label className="block text-sm font-medium">{t("fullName")}</label>
           <input
             type="text"
-            value={customReason}
-            onChange={(e) => setCustomReason(e.target.value)}
+            value={name}
+            onChange={(e) => setName(e.target.value)}
             className="mt-1 p-2 border rounded w-full"
             required
           />
         </div>
-      )}
-      {/* Mobile Number */}
-      <div>
-        <label className="block text-sm font-medium">Mobile Number</label>
-        <div className="flex items-center mt-1 space-x-2">
-          <div className="flex items-center bg-gray-100 border border-gray-300 rounded px-3 py-2">
-            <span role="img" aria-label="India flag">
-              🇮🇳
-            </span>
-            <span className="ml-2 text-gray-700 font-medium">+91</span>
-          </div>
-          <input
-            type="text"
-            value={mobileNumber}
-            onChange={handleMobileNumberChange}
-            className="flex-1 p-2 border border-gray-300 rounded w-full"
-            placeholder="Enter your mobile number"
-            maxLength={10}
+        {/* Reason for Booking */}
+        <div>
+          <label className="block text-sm font-medium">{t("reason")}</label>
+          <select
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            className={`mt-1 p-2 border rounded w-full ${
+              reasonColors[reason] || ""
+            }`}
             required
-          />
-        </div>
-        {!isOtpSent && (
-          <button
-            type="button"
-            onClick={sendOtp}
-            className="mt-2 px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600"
           >
-            Send OTP
-          </button>
+            <option value="">{t("selectReason")}</option>
+            {REASONS.map((option) => (
+              <option key={option} value={option}>
+                {t(`reasons.${option}`)}
+              </option>
+            ))}
+          </select>
+        </div>
+        {reason === "Others" && (
+          <div>
+            <label className="block text-sm font-medium">{t("customReason")}</label>
+            <input
+              type="text"
+              value={customReason}
+              onChange={(e) => setCustomReason(e.target.value)}
+              className="mt-1 p-2 border rounded w-full"
+              required
+            />
+          </div>
         )}
-      </div>
-      {isOtpSent && (
+        {/* Mobile Number */}
         <div>
-          <label className="block text-sm font-medium">OTP</label>
-          <input
-            type="text"
-            value={otp}
-            onChange={(e) => setOtp(e.target.value)}
-            className="mt-1 p-2 border rounded w-full"
-            required
-          />
-          {!isOtpVerified && (
+          <label className="block text-sm font-medium">{t("mobileNumber")}</label>
+          <div className="flex items-center mt-1 space-x-2">
+            <div className="flex items-center bg-gray-100 border border-gray-300 rounded px-3 py-2">
+              <span role="img" aria-label="India flag">
+                🇮🇳
+              </span>
+              <span className="ml-2 text-gray-700 font-medium">+91</span>
+            </div>
+            <input
+              type="text"
+              value={mobileNumber}
+              onChange={handleMobileNumberChange}
+              className="flex-1 p-2 border border-gray-300 rounded w-full"
+              placeholder={t("mobilePlaceholder")}
+              maxLength={10}
+              required
+            />
+          </div>
+          {!isOtpSent && (
             <button
               type="button"
-              onClick={verifyOtp}
-              className="mt-2 px-4 py-2 bg-green-500 text-white rounded hover:bg-green-600"
+              onClick={sendOtp}
+              className="mt-2 px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600"
             >
-              Verify OTP
+              {tCommon("sendOtp")}
             </button>
           )}
         </div>
-      )}
-      {/* Submit Button */}
-      <button
-        type="submit"
-        disabled={isSubmitting}
-        className="w-full bg-blue-500 text-white p-2 rounded disabled:bg-gray-400"
-      >
-        {isSubmitting ? "Submitting..." : "Reserve Now"}
-      </button>
-    </form>
+        {isOtpSent && (
+          <div>
+            <label className="block text-sm font-medium">{tCommon("otp")}</label>
+            <input
+              type="text"
+              value={otp}
+              onChange={(e) => setOtp(e.target.value)}
+              className="mt-1 p-2 border rounded w-full"
+              required
+            />
+            {!isOtpVerified && (
+              <button
+                type="button"
+                onClick={verifyOtp}
+                className="mt-2 px-4 py-2 bg-green-500 text-white rounded hover:bg-green-600"
+              >
+                {tCommon("verifyOtp")}
+              </button>
+            )}
+          </div>
+        )}
+        {/* Submit Button */}
+        <button
+          type="submit"
+          disabled={isSubmitting || !canReserve}
+          className="w-full bg-blue-500 text-white p-2 rounded disabled:bg-gray-400"
+        >
+          {isSubmitting ? tCommon("submitting") : t("submit")}
+        </button>
+      </form>
+      {receipt && <Receipt data={receipt} />}
+    </>
   );
 };
 
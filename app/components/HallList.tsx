@@ -1,18 +1,17 @@
 import React from "react";
 import Image from "next/image";
-import { useSelector } from "react-redux";
-import { RootState } from "../store";
 import { Hall } from "../booking/types";
 import Calendar from "./Calendar";
+import { useLocalized, useT } from "../i18n/useT";
 
 interface HallListProps {
   halls: Hall[];
-  onDateSelect: (hallId: number, date: string) => void;
+  onDateSelect: (hallId: number, startDate: string, endDate: string) => void;
 }
 
 const HallList: React.FC<HallListProps> = ({ halls, onDateSelect }) => {
-  // Get the current locale from Redux
-  const { locale } = useSelector((state: RootState) => state.locale);
+  const localized = useLocalized();
+  const t = useT("booking");
 
   return (
     <div className="grid grid-cols-1 gap-4 justify-center">
@@ -22,10 +21,10 @@ const HallList: React.FC<HallListProps> = ({ halls, onDateSelect }) => {
           className="border p-4 rounded-lg text-center shadow-lg"
         >
           <h2 className="text-xl font-semibold text-gray-700">
-            {locale === "en" ? hall.name : hall.name_kannada}
+            {localized(hall, "name")}
           </h2>
           <p className="text-gray-600 text-sm">
-            {locale === "en" ? hall.description : hall.description_kannada}
+            {localized(hall, "description")}
           </p>
           <div className="mt-2">
             {hall.images.length > 0 ? (
@@ -40,13 +39,11 @@ const HallList: React.FC<HallListProps> = ({ halls, onDateSelect }) => {
                 />
               ))
             ) : (
-              <p>No images available</p>
+              <p>{t("noImages")}</p>
             )}
           </div>
           <div className="mt-4">
-            <h3 className="text-lg font-medium mb-2">
-              {locale === "en" ? "Availability Calendar" : "ಲಭ್ಯತೆ ಕ್ಯಾಲೆಂಡರ್"}
-            </h3>
+            <h3 className="text-lg font-medium mb-2">{t("availability")}</h3>
             <Calendar hallId={hall.hall_id} onDateSelect={onDateSelect} />
           </div>
         </div>
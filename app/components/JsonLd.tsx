@@ -0,0 +1,16 @@
+interface JsonLdProps {
+  data: object | object[];
+}
+
+// Structured data for search engines. `<` is escaped so text from the
+// backend cannot close the script tag early.
+export default function JsonLd({ data }: JsonLdProps) {
+  return (
+    <script
+      type="application/ld+json"
+      dangerouslySetInnerHTML={{
+        __html: JSON.stringify(data).replace(/</g, "\\u003c"),
+      }}
+    />
+  );
+}
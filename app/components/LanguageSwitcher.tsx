@@ -1,25 +1,41 @@
 // app/components/LanguageSwitcher.tsx
 "use client";
 
-import { useDispatch, useSelector } from "react-redux";
-import { RootState, AppDispatch } from "../store";
-import { changeLocale } from "../store/localeSlice";
+import { ChangeEvent } from "react";
+import { LOCALES, LOCALE_NAMES, isLocale } from "../i18n";
+import { useLocale } from "../i18n/useT";
+import { localizePath, splitLocale } from "../i18n/routing";
 
 export default function LanguageSwitcher() {
-  const dispatch = useDispatch<AppDispatch>();
-  const locale = useSelector((state: RootState) => state.locale.locale);
+  const locale = useLocale();
 
-  const handleLocaleChange = () => {
-    const newLocale = locale === "en" ? "kn" : "en"; // Toggle between languages
-    dispatch(changeLocale(newLocale));
+  // Load the same page under the chosen locale's prefix, so the server renders
+  // it (and <html lang>) in that language
+  const handleLocaleChange = (event: ChangeEvent<HTMLSelectElement>) => {
+    const newLocale = event.target.value;
+    if (!isLocale(newLocale) || newLocale === locale) return;
+    const { pathname, search, hash } = window.location;
+    const { path } = splitLocale(pathname);
+    window.location.assign(`${localizePath(newLocale, path)}${search}${hash}`);
   };
 
   return (
-    <button
-      onClick={handleLocaleChange}
-      className="py-2 px-4 rounded-md font-bold text-white transition duration-200 bg-orange-500 hover:bg-orange-600"
+    <select
+      value={locale}
+      onChange={handleLocaleChange}
+      aria-label="Language"
+      className="py-2 px-4 rounded-md font-bold text-white transition duration-200 bg-orange-500 hover:bg-orange-600 cursor-pointer"
     >
-      {locale === "en" ? "ಕನ್ನಡ" : "English"}
-    </button>
+      {LOCALES.map((option) => (
+        <option
+          key={option}
+          value={option}
+          lang={option}
+          className="bg-white text-gray-900"
+        >
+          {LOCALE_NAMES[option]}
+        </option>
+      ))}
+    </select>
   );
 }
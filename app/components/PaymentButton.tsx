@@ -0,0 +1,167 @@
+"use client";
+
+import React, { useState } from "react";
+import {
+  PaymentCallbackPayload,
+  PaymentOrder,
+  PaymentPurpose,
+  PaymentStatus,
+} from "../payments/types";
+import { useT } from "../i18n/useT";
+
+export const paymentStatusLabels: Record<
+  PaymentStatus,
+  { en: string; kn: string; className: string }
+> = {
+  pending: {
+    en: "Pending payment",
+    kn: "ಪಾವತಿ ಬಾಕಿ ಇದೆ",
+    className: "text-orange-600",
+  },
+  paid: { en: "Paid", kn: "ಪಾವತಿಸಲಾಗಿದೆ", className: "text-green-600" },
+  failed: { en: "Payment failed", kn: "ಪಾವತಿ ವಿಫಲವಾಗಿದೆ", className: "text-red-600" },
+};
+
+interface PaymentButtonProps {
+  purpose: PaymentPurpose;
+  referenceId: number;
+  amount: number; // Shown on the button; the server charges the stored amount
+  onStatusChange: (status: PaymentStatus) => void;
+}
+
+const PaymentButton: React.FC<PaymentButtonProps> = ({
+  purpose,
+  referenceId,
+  amount,
+  onStatusChange,
+}) => {
+  const t = useT("payment");
+  const [order, setOrder] = useState<PaymentOrder | null>(null);
+  const [processing, setProcessing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const verifyPayment = async (payload: PaymentCallbackPayload) => {
+    const response = await fetch("/api/payments/verify", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(payload),
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.message || "Failed to verify payment.");
+    }
+    onStatusChange(data.data.status);
+  };
+
+  const handlePay = async () => {
+    setProcessing(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/payments/orders", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ purpose, referenceId }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || "Failed to start payment.");
+      }
+
+      const newOrder: PaymentOrder = data.data;
+      switch (newOrder.checkout.type) {
+        case "mock":
+          setOrder(newOrder); // Opens the mock checkout below
+          break;
+        case "upi":
+          window.location.href = newOrder.checkout.uri; // Hands off to the UPI app
+          break;
+        case "redirect":
+          window.location.href = newOrder.checkout.url;
+          break;
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to start payment.");
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  // Stand-in for a gateway checkout page during development
+  const completeMockPayment = async (succeed: boolean) => {
+    if (!order) return;
+    setProcessing(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/payments/mock/complete", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ orderId: order.orderId, succeed }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || "Mock payment failed.");
+      }
+      await verifyPayment(data.data);
+      setOrder(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Payment failed.");
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  return (
+    <div className="mt-2">
+      <button
+        type="button"
+        onClick={handlePay}
+        disabled={processing}
+        className="bg-green-600 text-white py-2 px-4 rounded-md shadow hover:bg-green-700 transition disabled:bg-gray-400"
+      >
+        {processing ? t("wait") : t("pay", { amount })}
+      </button>
+      {error && <p className="text-red-600 mt-1">{error}</p>}
+
+      {order && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg shadow-lg p-8 w-full max-w-sm text-center">
+            <h2 className="text-xl font-bold mb-2 text-gray-800">
+              Mock Payment Gateway
+            </h2>
+            <p className="text-gray-600 mb-6">
+              Amount: ₹{order.amount} ({order.currency})
+            </p>
+            <div className="flex justify-center space-x-3">
+              <button
+                type="button"
+                onClick={() => completeMockPayment(true)}
+                disabled={processing}
+                className="bg-green-600 text-white px-4 py-2 rounded-md hover:bg-green-700"
+              >
+                Pay
+              </button>
+              <button
+                type="button"
+                onClick={() => completeMockPayment(false)}
+                disabled={processing}
+                className="bg-red-500 text-white px-4 py-2 rounded-md hover:bg-red-600"
+              >
+                Fail
+              </button>
+              <button
+                type="button"
+                onClick={() => setOrder(null)}
+                disabled={processing}
+                className="bg-gray-300 text-gray-700 px-4 py-2 rounded-md"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PaymentButton;
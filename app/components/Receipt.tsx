@@ -0,0 +1,239 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import Image from "next/image";
+import QRCode from "qrcode";
+import { PaymentStatus } from "../payments/types";
+import { ReceiptKind, formatBookingId } from "../booking/bookingIds";
+import { CalendarEvent, buildCalendar } from "../calendar/ics";
+
+export type { ReceiptKind };
+export { formatBookingId };
+
+interface BilingualText {
+  en: string;
+  kn: string;
+}
+
+export interface ReceiptData {
+  kind: ReceiptKind;
+  bookingId: string; // Display ID, also encoded in the QR code
+  name: string;
+  mobileNumber?: string;
+  item: BilingualText; // Hall or seva name
+  purpose: BilingualText;
+  dates: string[]; // Already formatted, one line per day
+  amount?: number;
+  paymentStatus?: PaymentStatus;
+  details?: { label: string; value: string }[]; // Extra rows, e.g. PAN for 80G
+  calendarEvents?: CalendarEvent[]; // Offered as an .ics file when given
+}
+
+const paymentLabels: Record<PaymentStatus, string> = {
+  pending: "Pending (ಬಾಕಿ)",
+  paid: "Paid (ಪಾವತಿಸಲಾಗಿದೆ)",
+  failed: "Failed (ವಿಫಲ)",
+};
+
+const idLabels: Record<ReceiptKind, string> = {
+  hall: "Booking ID (ಬುಕ್ಕಿಂಗ್ ಐಡಿ)",
+  seva: "Booking ID (ಬುಕ್ಕಿಂಗ್ ಐಡಿ)",
+  donation: "Receipt No. (ರಸೀದಿ ಸಂಖ್ಯೆ)",
+  subscription: "Subscription ID (ಚಂದಾ ಸಂಖ್ಯೆ)",
+};
+
+const itemLabels: Record<ReceiptKind, string> = {
+  hall: "Hall (ಸಭಾಂಗಣ)",
+  seva: "Seva (ಸೇವೆ)",
+  donation: "Donation (ದೇಣಿಗೆ)",
+  subscription: "Seva (ಸೇವೆ)",
+};
+
+interface ReceiptProps {
+  data: ReceiptData;
+}
+
+const Receipt: React.FC<ReceiptProps> = ({ data }) => {
+  const receiptRef = useRef<HTMLDivElement>(null);
+  const [qrCode, setQrCode] = useState<string | null>(null);
+  const [downloading, setDownloading] = useState(false);
+
+  useEffect(() => {
+    QRCode.toDataURL(data.bookingId, { margin: 1, width: 160 })
+      .then(setQrCode)
+      .catch((error) => console.error("Error generating QR code:", error));
+  }, [data.bookingId]);
+
+  // Render the receipt as shown on screen so Kannada text keeps its font
+  const handleDownload = async () => {
+    if (!receiptRef.current) return;
+    setDownloading(true);
+    try {
+      const [{ default: html2canvas }, { jsPDF }] = await Promise.all([
+        import("html2canvas"),
+        import("jspdf"),
+      ]);
+      const canvas = await html2canvas(receiptRef.current, {
+        scale: 2,
+        backgroundColor: "#ffffff",
+      });
+      const pdf = new jsPDF({ unit: "mm", format: "a5" });
+      const width = pdf.internal.pageSize.getWidth() - 20;
+      const height = (canvas.height * width) / canvas.width;
+      pdf.addImage(canvas.toDataURL("image/png"), "PNG", 10, 10, width, height);
+      pdf.save(`receipt-${data.bookingId}.pdf`);
+    } catch (error) {
+      console.error("Error generating PDF:", error);
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  const handleAddToCalendar = () => {
+    if (!data.calendarEvents) return;
+    const blob = new Blob(
+      [buildCalendar("Shrirama Temple Chokkadi", data.calendarEvents)],
+      { type: "text/calendar;charset=utf-8" }
+    );
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `${data.bookingId}.ics`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="mt-6">
+      <div
+        ref={receiptRef}
+        className="printable-receipt bg-white border-2 border-orange-500 rounded-lg p-6 max-w-md mx-auto text-gray-800"
+      >
+        {/* Temple header */}
+        <div className="flex items-center gap-4 border-b-2 border-orange-300 pb-4 mb-4">
+          <Image
+            src="/chokkadiramaplainlogo.jpg"
+            alt="Shrirama Temple logo"
+            width={64}
+            height={64}
+            className="rounded-full"
+          />
+          <div>
+            <p className="text-lg font-bold text-orange-700">
+              ಶ್ರೀರಾಮ ದೇವಾಲಯ, ಚೊಕ್ಕಾಡಿ
+            </p>
+            <p className="font-semibold text-orange-700">
+              Shrirama Temple, Chokkadi
+            </p>
+            <p className="text-xs text-gray-600">
+              Amarapadnur Village, Sullia Taluk, Dakshina Kannada - 574212
+            </p>
+          </div>
+        </div>
+
+        <div className="flex justify-between gap-4">
+          <div className="space-y-2 text-sm">
+            <p>
+              {idLabels[data.kind]}:{" "}
+              <span className="font-bold">{data.bookingId}</span>
+            </p>
+            <p>
+              Name (ಹೆಸರು): <span className="font-bold">{data.name}</span>
+            </p>
+            {data.mobileNumber && (
+              <p>
+                Mobile (ಮೊಬೈಲ್):{" "}
+                <span className="font-bold">{data.mobileNumber}</span>
+              </p>
+            )}
+            <p>
+              {itemLabels[data.kind]}:{" "}
+              <span className="font-bold">
+                {data.item.en}
+                {data.item.kn && ` / ${data.item.kn}`}
+              </span>
+            </p>
+            <div>
+              Date (ದಿನಾಂಕ):
+              {data.dates.map((date) => (
+                <p key={date} className="font-bold">
+                  {date}
+                </p>
+              ))}
+            </div>
+            {data.amount !== undefined && (
+              <p>
+                Amount (ಮೊತ್ತ):{" "}
+                <span className="font-bold">₹{data.amount}</span>
+              </p>
+            )}
+            {data.details?.map(({ label, value }) => (
+              <p key={label}>
+                {label}: <span className="font-bold">{value}</span>
+              </p>
+            ))}
+            {data.paymentStatus && (
+              <p>
+                Payment (ಪಾವತಿ):{" "}
+                <span className="font-bold">
+                  {paymentLabels[data.paymentStatus]}
+                </span>
+              </p>
+            )}
+          </div>
+          {qrCode && (
+            <Image
+              src={qrCode}
+              alt={`QR code for ${data.bookingId}`}
+              width={120}
+              height={120}
+              className="self-start"
+            />
+          )}
+        </div>
+
+        <div className="mt-4 border-t border-orange-200 pt-3 text-sm">
+          <p className="font-medium">Purpose (ಉದ್ದೇಶ):</p>
+          <p>{data.purpose.en}</p>
+          {data.purpose.kn && data.purpose.kn !== data.purpose.en && (
+            <p>{data.purpose.kn}</p>
+          )}
+        </div>
+
+        <p className="mt-4 text-xs text-center text-gray-600">
+          Please show this receipt at the temple counter. / ದಯವಿಟ್ಟು ಈ
+          ರಸೀದಿಯನ್ನು ದೇವಾಲಯದ ಕಚೇರಿಯಲ್ಲಿ ತೋರಿಸಿ.
+        </p>
+      </div>
+
+      <div className="flex justify-center gap-2 mt-4 print:hidden">
+        <button
+          type="button"
+          onClick={() => window.print()}
+          className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600"
+        >
+          Print
+        </button>
+        <button
+          type="button"
+          onClick={handleDownload}
+          disabled={downloading}
+          className="px-4 py-2 bg-orange-500 text-white rounded hover:bg-orange-600 disabled:bg-gray-400"
+        >
+          {downloading ? "Preparing..." : "Download PDF"}
+        </button>
+        {data.calendarEvents && (
+          <button
+            type="button"
+            onClick={handleAddToCalendar}
+            className="px-4 py-2 bg-green-600 text-white rounded hover:bg-green-700"
+          >
+            Add to Calendar
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Receipt;
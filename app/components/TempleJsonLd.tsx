@@ -0,0 +1,10 @@
+import JsonLd from "./JsonLd";
+import { loadTimings } from "../temple/loadTimings";
+import { templeJsonLd } from "../seo/structuredData";
+import { todayInIndia } from "../panchanga/dates";
+
+// The temple's structured data, with the timings the page shows
+export default async function TempleJsonLd() {
+  const { weekly, overrides } = await loadTimings();
+  return <JsonLd data={templeJsonLd(weekly, overrides, todayInIndia())} />;
+}
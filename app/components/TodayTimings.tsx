@@ -0,0 +1,105 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import Link from "next/link";
+import { todayInIndia } from "../panchanga/dates";
+import {
+  DaySchedule,
+  TimingOverride,
+  fetchTimingsData,
+  formatSession,
+  formatTime,
+  formatWeekly,
+  timingsFor,
+} from "../temple/timings";
+import { useDataLocale, useLocalePath, useT } from "../i18n/useT";
+
+interface TodayTimingsProps {
+  // Pages that already loaded the timings pass them in; otherwise they are
+  // fetched here
+  timings?: { weekly: DaySchedule[]; overrides: TimingOverride[] };
+  showLink?: boolean; // Link to the full timings page
+}
+
+const TodayTimings: React.FC<TodayTimingsProps> = ({ timings, showLink }) => {
+  const locale = useDataLocale();
+  const t = useT("timings");
+  const localePath = useLocalePath();
+  // The usual timings until the saved ones arrive, or if they cannot be loaded
+  const [fetched, setFetched] = useState<{
+    weekly: DaySchedule[];
+    overrides: TimingOverride[];
+  }>({ weekly: formatWeekly([]), overrides: [] });
+
+  useEffect(() => {
+    if (timings) return;
+    fetchTimingsData()
+      .then(setFetched)
+      .catch((error) => console.error("Error loading timings:", error));
+  }, [timings]);
+
+  const { weekly, overrides } = timings || fetched;
+  const { schedule, override } = timingsFor(todayInIndia(), weekly, overrides);
+  const closed = schedule.darshan.length === 0 && schedule.poojas.length === 0;
+
+  return (
+    <div
+      className={`w-full max-w-2xl mx-auto rounded-lg shadow-lg p-4 sm:p-6 text-left ${
+        override
+          ? "bg-orange-50 border-2 border-orange-500"
+          : "bg-[var(--card-background)]"
+      }`}
+    >
+      <h2 className="text-xl font-bold text-[var(--primary)] mb-2">
+        {t("today.title")}
+      </h2>
+
+      {override && (
+        <div className="mb-3">
+          <p className="font-semibold text-orange-700">
+            {override.title[locale]}
+          </p>
+          {override.note[locale] && (
+            <p className="text-sm text-gray-700 whitespace-pre-line">
+              {override.note[locale]}
+            </p>
+          )}
+        </div>
+      )}
+
+      {closed ? (
+        <p className="text-[var(--text)]">{t("today.closed")}</p>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div>
+            <h3 className="font-semibold">{t("darshan")}</h3>
+            {schedule.darshan.map((session) => (
+              <p key={session.from} className="text-[var(--text)]">
+                {formatSession(session, locale)}
+              </p>
+            ))}
+          </div>
+          <div>
+            <h3 className="font-semibold">{t("poojas")}</h3>
+            {schedule.poojas.map((pooja) => (
+              <p key={pooja.time} className="text-[var(--text)]">
+                {pooja.name[locale]} – {formatTime(pooja.time, locale)}
+              </p>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {showLink && (
+        <Link
+          href={localePath("/temple")}
+          className="inline-block mt-3 text-orange-600 font-medium hover:underline"
+        >
+          {t("today.more")} &rarr;
+        </Link>
+      )}
+    </div>
+  );
+};
+
+export default TodayTimings;
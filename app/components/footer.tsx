@@ -2,93 +2,25 @@
 
 import React from "react";
 import Link from "next/link";
-import { useSelector } from "react-redux";
-import { RootState } from "../store";
+import { MessageKey } from "@/app/i18n";
+import { useLocalePath, useT } from "@/app/i18n/useT";
 
-// Define types for locales
-type LocaleType = "en" | "kn";
+const CONTACT_NUMBER = "08257200585";
+const EMAIL = "srtchokkadi@gmail.com";
 
-// Define text content for each language
-const footerText: Record<
-  LocaleType,
-  {
-    templeName: string;
-    quickLinks: { title: string; links: { name: string; path: string }[] };
-    addressTitle: string;
-    address: string[];
-    contactNumbers: string;
-    email: string;
-    privacyPolicy: string;
-    refundPolicy: string;
-    admin: string;
-    rightsReserved: string;
-    designedBy: string;
-    designerName: string;
-  }
-> = {
-  en: {
-    templeName: "Shrirama Temple",
-    quickLinks: {
-      title: "QUICK LINKS",
-      links: [
-        { name: "HOME", path: "/" },
-        { name: "ABOUT", path: "/administration" },
-        { name: "HALL BOOKING", path: "/booking" },
-        { name: "NEWS", path: "/newsupdates" },
-        { name: "GALLERY", path: "/gallery" },
-      ],
-    },
-    addressTitle: "Address",
-    address: [
-      "Shrirama Temple Chokkadi,",
-      "Amarapadnur village,",
-      "Sullia Taluk, Dakshina Kannada",
-      "PIN - 574212",
-    ],
-    contactNumbers: "08257200585",
-    email: "srtchokkadi@gmail.com",
-    privacyPolicy: "Privacy Policy",
-    refundPolicy: " Refund & Cancellation",
-    admin: " Admin",
-    rightsReserved: " Shrirama Temple, Chokkadi. All Rights Reserved",
-    designedBy: "Designed by:",
-    designerName: "ISDC",
-  },
-  kn: {
-    templeName: "ಶ್ರೀ ರಾಮ ದೇವಾಲಯ",
-    quickLinks: {
-      title: "ಲಿಂಕ್ಸ್",
-      links: [
-        { name: "ಮುಖಪುಟ", path: "/" },
-        { name: "ದೇವಾಲಯದ ಬಗ್ಗೆ", path: "/administration" },
-        { name: "ಸಭಾಂಗಣ ಬುಕಿಂಗ್", path: "/booking" },
-        { name: "ಸುದ್ದಿಗಳು", path: "/newsupdates" },
-        { name: "ಗ್ಯಾಲರಿ", path: "/gallery" },
-      ],
-    },
-    addressTitle: "ವಿಳಾಸ",
-    address: [
-      "ಶ್ರೀ ರಾಮ ದೇವಾಲಯ, ಚೊಕ್ಕಾಡಿ,",
-      "ಅಮರಪಡ್ನೂರು ಗ್ರಾಮ,",
-      "ಸುಳ್ಯ ತಾಲೂಕು, ದ.ಕ.",
-      "ಪಿನ್ - 574212",
-    ],
-    contactNumbers: "08257200585",
-    email: "srtchokkadi@gmail.com",
-    privacyPolicy: "ಗೌಪ್ಯತಾ ನೀತಿ",
-    refundPolicy: " ಮರುಪಾವತಿ ಮತ್ತು ರದ್ದುಪಡಿಸುವಿಕೆ",
-    admin: " ಅಡ್ಮಿನ್",
-    rightsReserved: "ಶ್ರೀ ರಾಮ ದೇವಾಲಯ, ಚೊಕ್ಕಾಡಿ. ಎಲ್ಲಾ ಹಕ್ಕುಗಳನ್ನು ಕಾಯ್ದಿರಿಸಲಾಗಿದೆ",
-    designedBy: "ಹೋಸ್ಟಿಂಗ್ ಮತ್ತು ನಿರ್ವಹಣೆ:",
-    designerName: "ಐಎಸ್‌ಡಿಸಿ",
-  },
-};
+const QUICK_LINKS: { key: MessageKey<"footer">; path: string }[] = [
+  { key: "links.home", path: "/" },
+  { key: "links.about", path: "/administration" },
+  { key: "links.booking", path: "/booking" },
+  { key: "links.news", path: "/newsupdates" },
+  { key: "links.gallery", path: "/gallery" },
+];
+
+const ADDRESS_LINES = ["line1", "line2", "line3", "line4"] as const;
 
 const Footer: React.FC = () => {
-  const currentLocale: LocaleType = useSelector(
-    (state: RootState) => state.locale.locale
-  ) as LocaleType;
-  const text = footerText[currentLocale];
+  const t = useT("footer");
+  const localePath = useLocalePath();
 
   return (
     <div className="flex flex-col ">
@@ -99,12 +31,12 @@ const Footer: React.FC = () => {
             <div className="text-left lg:text-left mb-4">
               <h3 className="text-lg font-bold mb-3 mt-0 flex items-center space-x-2">
                 <p className="text-xl font-bold text-[#710100]">
-                  {text.templeName}
+                  {t("templeName")}
                 </p>
               </h3>
               <address>
-                {text.address.map((line, idx) => (
-                  <p key={idx}>{line}</p>
+                {ADDRESS_LINES.map((line) => (
+                  <p key={line}>{t(`address.${line}`)}</p>
                 ))}
                 <div className="flex items-center space-x-2">
                   <svg
@@ -120,8 +52,8 @@ const Footer: React.FC = () => {
                     ></path>
                   </svg>
                   {/* Clickable Phone Number */}
-                  <a href={`tel:${text.contactNumbers}`} className="hover:underline">
-                    {text.contactNumbers}
+                  <a href={`tel:${CONTACT_NUMBER}`} className="hover:underline">
+                    {CONTACT_NUMBER}
                   </a>
                 </div>
                 <div className="flex items-center space-x-2">
@@ -136,8 +68,8 @@ const Footer: React.FC = () => {
                     <path d="M20 4H4c-1.1 0-2 .9-2 2v12c0 1.1.9 2 2 2h16c1.1 0 2-.9 2-2V6c0-1.1-.9-2-2-2zm0 2l-8 5-8-5V6l8 5 8-5v2zM4 18v-8l8 5 8-5v8H4z" />
                   </svg>
                   {/* Clickable Email */}
-                  <a href={`mailto:${text.email}`} className="hover:underline">
-                    {text.email}
+                  <a href={`mailto:${EMAIL}`} className="hover:underline">
+                    {EMAIL}
                   </a>
                 </div>
                 {/* Facebook Link */}
@@ -167,17 +99,17 @@ const Footer: React.FC = () => {
           <div className="text-left lg:text-center mb-5">
             <h3 className="text-lg font-bold mb-6 flex items-center space-x-2">
               <p></p>
-              <span className="font-bold">{text.quickLinks.title}</span>
+              <span className="font-bold">{t("quickLinks")}</span>
             </h3>
             <ul className="space-y-1">
-              {text.quickLinks.links.map((link, index) => (
-                <li key={index}>
+              {QUICK_LINKS.map((link) => (
+                <li key={link.key}>
                   <Link
-                    href={link.path}
+                    href={localePath(link.path)}
                     className="hover:underline hover:text-yellow-300 flex font-bold items-center"
                   >
                     <span className="inline-block w-4"></span>
-                    {link.name}
+                    {t(link.key)}
                   </Link>
                 </li>
               ))}
@@ -203,34 +135,34 @@ const Footer: React.FC = () => {
         <p>
           © 2025 | Disclaimer -{" "}
           <Link
-            href="/policy"
+            href={localePath("/policy")}
             className="text-yellow-400 hover:underline"
           >
-            {text.privacyPolicy}
+            {t("privacyPolicy")}
           </Link>{" "}
           |{" "}
           <Link
-            href="/policy"
+            href={localePath("/policy")}
             className="text-yellow-400 hover:underline"
           >
-            {text.refundPolicy}
+            {t("refundPolicy")}
           </Link>{" "}
           |{" "}
           <Link
             href="/admin"
             className="text-yellow-400 hover:underline"
           >
-            {text.admin}
+            {t("admin")}
           </Link>{" "}
-          | {text.rightsReserved}
+          | {t("rightsReserved")}
         </p>
         <p>
-          {text.designedBy}{" "}
+          {t("designedBy")}{" "}
           <Link
             href="https://www.instagram.com/isdc.sahyadri/"
             className="text-yellow-400 hover:underline"
           >
-            {text.designerName}
+            {t("designerName")}
           </Link>
         </p>
       </div>
@@ -1,13 +1,16 @@
 import React from "react";
 import Image from "next/image";
 import Link from "next/link";
+import { useLocalePath } from "../i18n/useT";
 
 const Banner = () => {
+  const localePath = useLocalePath();
+
   return (
     <div className="bg-gradient-to-br from-orange-300 to-orange-500 text-white relative">
       {/* Mobile and Tablet Image */}
       <div className="block lg:hidden">
-        <Link href="/" passHref>
+        <Link href={localePath("/")} passHref>
           <Image
             src="/kbanner.png"
             alt="Mobile/Tablet Temple Banner"
@@ -21,7 +24,7 @@ const Banner = () => {
 
       {/* PC Image */}
       <div className="hidden lg:block">
-        <Link href="/" passHref>
+        <Link href={localePath("/")} passHref>
           <Image
             src="/kbanner.png"
             alt="PC Temple Banner"
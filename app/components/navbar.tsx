@@ -3,52 +3,57 @@
 import { useState, useEffect ,useRef } from "react";
 import Link from "next/link";
 import { FaBars, FaTimes, FaChevronDown } from "react-icons/fa";
-import { useSelector } from "react-redux";
-import { RootState } from "../store";
 import Banner from "@/app/components/banner";
 import KBanner from "@/app/components/kbanner";
 import LanguageSwitcher from "@/app/components/LanguageSwitcher";
+import { MessageKey } from "@/app/i18n";
+import { useDataLocale, useLocalePath, useT } from "@/app/i18n/useT";
 
 interface NavLink {
   href: string;
-  label: Record<"en" | "kn", string>;
+  label: MessageKey<"nav">;
   subLinks?: NavLink[];
 }
 
 const navLinks: NavLink[] = [
-  { href: "/", label: { en: "HOME", kn: "ಮುಖಪುಟ" } },
+  { href: "/", label: "home" },
   {
     href: "",
-    label: { en: "ABOUT", kn: "ದೇವಾಲಯದ ಮಾಹಿತಿ" },
+    label: "about",
     subLinks: [
       {
         href: "/history",
-        label: { en: "History", kn: "ಇತಿಹಾಸ" },
+        label: "history",
+      },
+      { href: "/temple", label: "timings" },
+      {
+        href: "/calendar",
+        label: "calendar",
       },
-      { href: "/temple", label: { en: "Temple Timings", kn: "ದೇವಾಲಯದ ಸಮಯ" } },
       {
         href: "/administration",
-        label: { en: "Administration", kn: "ಸೇವಾ ಸಮಿತಿ" },
+        label: "administration",
       },
       {
         href: "/facilities",
-        label: { en: "Temple Facilities", kn: "ಸೌಲಭ್ಯಗಳು" },
+        label: "facilities",
       },
       {
         href: "/reach",
-        label: { en: "How to Reach", kn: "ದೇವಾಲಯ ತಲುಪುವ ಮಾಹಿತಿ" },
+        label: "reach",
       },
       {
         href: "/nearby",
-        label: { en: "Nearby Places", kn: "ಹತ್ತಿರದ ಸ್ಥಳಗಳು" },
+        label: "nearby",
       },
     ],
   },
-  { href: "/booking", label: { en: "HALL BOOKING", kn: "ಸಭಾಂಗಣ ಬುಕ್ಕಿಂಗ್" } },
-  { href: "/newsupdates", label: { en: "FEATURED NEWS", kn: "ಪ್ರಮುಖ ಸುದ್ದಿ" } },
-  { href: "/donations", label: { en: "DONATION", kn: "ದೇಣಿಗೆ" } },
-  { href: "/gallery", label: { en: "GALLERY", kn: "ಗ್ಯಾಲರಿ" } },
-  { href: "/contact", label: { en: "CONTACT US", kn: "ಸಂಪರ್ಕಿಸಿ" } },
+  { href: "/booking", label: "booking" },
+  { href: "/events", label: "events" },
+  { href: "/newsupdates", label: "news" },
+  { href: "/donations", label: "donations" },
+  { href: "/gallery", label: "gallery" },
+  { href: "/contact", label: "contact" },
 ];
 
 export default function Navbar() {
@@ -57,7 +62,6 @@ export default function Navbar() {
   const [dropdownTimer, setDropdownTimer] = useState<NodeJS.Timeout | null>(
     null
   );
-  const [mounted, setMounted] = useState(false);
 
   const dropdownRef = useRef<HTMLDivElement | null>(null);  
   const menuRef = useRef<HTMLDivElement | null>(null);     
@@ -87,18 +91,9 @@ export default function Navbar() {
 
 
   
-  // Access the current locale from Redux
-  const currentLocale = useSelector((state: RootState) => state.locale.locale);
-
-  // Set mounted to true after the component has mounted
-  useEffect(() => {
-    setMounted(true);
-  }, []);
-
-  // Handle undefined or fallback state
-  if (!mounted) {
-    return null; // Avoid rendering until the component has mounted
-  }
+  const dataLocale = useDataLocale();
+  const t = useT("nav");
+  const localePath = useLocalePath();
 
   const toggleMenu = () => setMenuOpen((prev) => !prev);
 
@@ -124,20 +119,20 @@ export default function Navbar() {
 
   return (
     <>
-      {currentLocale === "en" ? <Banner /> : <KBanner />}
+      {dataLocale === "en" ? <Banner /> : <KBanner />}
       <div className="sticky top-0 w-full z-10 bg-gradient-to-r from-[#EED97E] to-[#D9A857] via-[#ECC76A] shadow-lg">
         <div className="flex justify-between items-center mx-auto py-4 px-4 md:px-8">
           {/* Name Bar */}
           <div className="flex items-center flex-shrink-0 space-x-2">
             <Link
-              href="/"
+              href={localePath("/")}
               onClick={() => {
                 closeMenu();
                 window.scrollTo({ top: 0, behavior: "smooth" });
               }}
               className="text-lg font-bold text-[#8B0000] hover:underline"
             >
-              {currentLocale === "en" ? "Shrirama Temple" : "ಶ್ರೀರಾಮ ದೇವಾಲಯ"}
+              {t("templeName")}
             </Link>
             <div className="w-[3px] bg-[#DD860B] h-10"></div>
           </div>
@@ -146,38 +141,38 @@ export default function Navbar() {
           <nav className="hidden md:flex flex-1 justify-center gap-x-[2.5vw] text-m">
             {navLinks.map(({ href, label, subLinks }) => (
               <div
-                key={label.en}
+                key={label}
                 className="relative group"
-                onMouseEnter={() => subLinks && handleMouseEnter(label.en)}
+                onMouseEnter={() => subLinks && handleMouseEnter(label)}
                 onMouseLeave={handleMouseLeave}
               >
                 <Link
-                  href={href || ""}
+                  href={href ? localePath(href) : ""}
                   onClick={() => window.scrollTo({ top: 0, behavior: "smooth" })}
                   className="text-[#8B0000] font-lg flex items-center space-x-1 hover:bg-white hover:rounded-md hover:px-2 transition-all duration-200"
                 >
-                  {label[currentLocale as "en" | "kn"]}
+                  {t(label)}
                   {subLinks && (
                     <FaChevronDown
                       className={` transition-transform duration-200 ${
-                        dropdownOpen === label.en ? "rotate-180" : "rotate-0"
+                        dropdownOpen === label ? "rotate-180" : "rotate-0"
                       }`}
                     />
                   )}
                 </Link>
-                {subLinks && dropdownOpen === label.en && (
+                {subLinks && dropdownOpen === label && (
                   <div className="absolute left-0 bg-white shadow-md rounded-md mt-2">
                     {subLinks.map((subLink) => (
                       <Link
-                        key={subLink.label.en}
-                        href={subLink.href}
+                        key={subLink.label}
+                        href={localePath(subLink.href)}
                         onClick={() => {
                           window.scrollTo({ top: 0, behavior: "smooth" });
                           closeMenu();
                         }}
                         className="block px-4 py-2 text-[#8B0000] hover:bg-[#F6E27F] hover:rounded-md transition-all duration-200"
                       >
-                        {subLink.label[currentLocale as "en" | "kn"]}
+                        {t(subLink.label)}
                       </Link>
                     ))}
                   </div>
@@ -209,9 +204,9 @@ export default function Navbar() {
         {menuOpen && (
           <div ref={menuRef} className="flex flex-col items-center space-y-4 bg-gradient-to-r from-white to-orange-200 text-center shadow-md">
             {navLinks.map(({ href, label, subLinks }) => (
-              <div key={label.en} className="w-full relative">
+              <div key={label} className="w-full relative">
                 <Link
-                  href={href || ""}
+                  href={href ? localePath(href) : ""}
                   onClick={(e) => {
                     // Prevent scroll behavior on sublink click
                     if (!subLinks) {
@@ -219,33 +214,33 @@ export default function Navbar() {
                       closeMenu();
                     } else {
                       e.preventDefault(); // Prevent default behavior for sublinks
-                      handleMobileDropdownToggle(label.en);
+                      handleMobileDropdownToggle(label);
                     }
                   }}
                   className="text-[#8B0000] font-medium block px-4 py-2 hover:bg-[#F6E27F] hover:rounded-md transition-all duration-200 flex justify-between"
                 >
-                  {label[currentLocale as "en" | "kn"]}
+                  {t(label)}
                   {subLinks && (
                     <FaChevronDown
                       className={`ml-2 transition-transform duration-200 ${
-                        dropdownOpen === label.en ? "rotate-180" : "rotate-0"
+                        dropdownOpen === label ? "rotate-180" : "rotate-0"
                       }`}
                     />
                   )}
                 </Link>
-                {subLinks && dropdownOpen === label.en && (
+                {subLinks && dropdownOpen === label && (
                   <div className="pl-8 flex flex-col bg-[#FFF9E6]">
                     {subLinks.map((subLink) => (
                       <Link
-                        key={subLink.label.en}
-                        href={subLink.href}
+                        key={subLink.label}
+                        href={localePath(subLink.href)}
                         onClick={() => {
                           window.scrollTo({ top: 0, behavior: "smooth" });
                           closeMenu();
                         }}
                         className="text-[#8B0000] font-medium block px-4 py-2 hover:bg-[#F6E27F] transition-all duration-200"
                       >
-                        {subLink.label[currentLocale as "en" | "kn"]}
+                        {t(subLink.label)}
                       </Link>
                     ))}
                   </div>
@@ -1,12 +1,19 @@
 "use client";
 
+import { useState } from "react";
 import { Provider } from "react-redux";
-import store from "../store";
+import { makeStore } from "../store";
+import { Locale } from "../i18n";
 
 interface ReduxProviderProps {
+  locale: Locale;
   children: React.ReactNode;
 }
 
-export default function ReduxProvider({ children }: ReduxProviderProps) {
+export default function ReduxProvider({
+  locale,
+  children,
+}: ReduxProviderProps) {
+  const [store] = useState(() => makeStore(locale));
   return <Provider store={store}>{children}</Provider>;
 }
@@ -0,0 +1,25 @@
+import { Metadata } from "next";
+import TempleJsonLd from "../components/TempleJsonLd";
+
+const title = "Contact Shrirama Temple, Chokkadi";
+const description =
+  "Get in touch with the Shrirama Temple in Chokkadi for inquiries, visits, or support. We welcome your communication and support.";
+
+export const metadata: Metadata = {
+  title,
+  description,
+  openGraph: { title, description, url: "/contact" },
+};
+
+export default function ContactLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  return (
+    <>
+      <TempleJsonLd />
+      {children}
+    </>
+  );
+}
@@ -1,82 +1,19 @@
 "use client";
-import React, { useEffect, useState } from "react";
-import SEOComponent from "../cmpnents/SEOComponent";
-import { useSelector, useDispatch } from "react-redux";
-import { RootState, AppDispatch } from "../store";
-import { changeLocale } from "../store/localeSlice";
-
-// Define types for locales
-type LocaleType = "en" | "kn";
-
-// Define text content for each language
-const contactText: Record<
-  LocaleType,
-  {
-    postalAddress: string;
-    contactDetails: string;
-    googleMap: string;
-    address: string;
-    contactNumber: string;
-    priest: string;
-    president: string;
-    tele: string;
-    email: string;
-  }
-> = {
-  en: {
-    postalAddress: "Postal Address",
-    contactDetails: "Contact Details",
-    googleMap: "Google Map",
-    address: "Shrirama Temple, Chokkadi,\n Amarapadnur Village,\nSullia Taluk, Dakshina Kannada,\nPIN-574212",
-    contactNumber: "Contact Number:",
-    priest: "Priest:",
-    president: "President:",
-    tele: "Temple Office:",
-    email: "E-mail:",
-  },
-  kn: {
-    postalAddress: "ದೇವಾಲಯದ ವಿಳಾಸ",
-    contactDetails: "ಸಂಪರ್ಕ ಮಾಹಿತಿ",
-    googleMap: "ಗೂಗಲ್ ಮ್ಯಾಪ್ ನಕ್ಷೆ",
-    address: "ಶ್ರೀರಾಮ ದೇವಾಲಯ, ಚೊಕ್ಕಾಡಿ,\n ಅಮರಪಡ್ನೂರು ಗ್ರಾಮ,\nಸುಳ್ಯ ತಾಲೂಕು, ದ.ಕ.,\nಪಿನ್-574212",
-    contactNumber: "ಸಂಪರ್ಕ ಸಂಖ್ಯೆ:",
-    priest: "ಪ್ರಧಾನ ಅರ್ಚಕರು:",
-    president: "ಅಧ್ಯಕ್ಷರು:",
-    tele: "ದೇವಾಲಯದ ಕಚೇರಿ:",
-    email: "ಇ-ಮೇಲ್:",
-  },
-};
+import React from "react";
+import { useT } from "../i18n/useT";
 
 const Contact: React.FC = () => {
-  const dispatch = useDispatch<AppDispatch>();
-  const currentLocale: LocaleType = useSelector((state: RootState) => state.locale.locale) as LocaleType;
-  const [isLocaleLoaded, setIsLocaleLoaded] = useState(false);
-
-  const text = contactText[currentLocale];
-
-  useEffect(() => {
-    const savedLocale = (localStorage.getItem("locale") || "en") as LocaleType;
-    dispatch(changeLocale(savedLocale));
-    setIsLocaleLoaded(true);
-  }, [dispatch]);
-
-  if (!isLocaleLoaded) return null; // Prevent rendering until locale is loaded
+  const t = useT("contact");
 
   return (
     <>
-      <SEOComponent
-        title="Contact Shrirama Temple, Chokkadi"
-        description="Get in touch with the Shrirama Temple in Chokkadi for inquiries, visits, or support. We welcome your communication and support."
-        image="https://yourwebsite.com/images/temple-contact.jpg" // Replace with actual image URL
-        url="http://www.srtchokkadi.org/contact"
-      />
       <div className="min-h-screen flex items-center justify-center bg-gradient-to-b from-[#FFEB9B] to-[#FFEB9B] p-10 relative font-serif">
         <div className="flex flex-col lg:flex-row w-full max-w-5xl gap-10">
           {/* Address and Contact Details */}
           <div className="flex-1 text-center lg:text-left">
-            <h2 className="text-green-600 font-semibold text-lg uppercase mb-4 tracking-wide">{text.postalAddress}</h2>
+            <h2 className="text-green-600 font-semibold text-lg uppercase mb-4 tracking-wide">{t("postalAddress")}</h2>
             <p className="text-green-600 mb-8">
-              {text.address.split("\n").map((line, index) => (
+              {t("address").split("\n").map((line, index) => (
                 <React.Fragment key={index}>
                   {line}
                   <br />
@@ -84,21 +21,21 @@ const Contact: React.FC = () => {
               ))}
             </p>
 
-            <h2 className="text-green-600 font-semibold text-lg uppercase mb-4 tracking-wide">{text.contactDetails}</h2>
+            <h2 className="text-green-600 font-semibold text-lg uppercase mb-4 tracking-wide">{t("contactDetails")}</h2>
             <p className="text-green-600">
-              <strong>{text.contactNumber} </strong>
+              <strong>{t("contactNumber")} </strong>
               <a href="tel:+919741251613" className="hover:underline">
                 +919741251613
               </a>
             </p>
             <p className="text-green-600">
-              <strong>{text.tele} </strong>
+              <strong>{t("tele")} </strong>
               <a href="tel:08257200585" className="hover:underline">
                 08257200585
               </a>
             </p>
             <p className="text-green-600">
-              <strong>{text.president} </strong>
+              <strong>{t("president")} </strong>
               <a href="tel:+919448625254" className="hover:underline">
                 +919448625254
               </a>
@@ -108,13 +45,13 @@ const Contact: React.FC = () => {
               </a>
             </p>
             <p className="text-green-600">
-              <strong>{text.priest} </strong>
+              <strong>{t("priest")} </strong>
               <a href="tel:+919741251613" className="hover:underline">
                 +919741251613
               </a>
             </p>
             <p className="text-green-600">
-              <strong>{text.email} </strong>
+              <strong>{t("email")} </strong>
               <a href="mailto:srtchokkadi@gmail.com" className="hover:underline">
                 srtchokkadi@gmail.com
               </a>
@@ -123,7 +60,7 @@ const Contact: React.FC = () => {
 
           {/* Google Map */}
           <div className="flex-1">
-            <h2 className="text-green-600 font-semibold text-lg uppercase mb-4 tracking-wide">{text.googleMap}</h2>
+            <h2 className="text-green-600 font-semibold text-lg uppercase mb-4 tracking-wide">{t("googleMap")}</h2>
             <div className="border border-gray-300 shadow-lg">
               <iframe
                 src="https://www.google.com/maps/embed?pb=!1m18!1m12!1m3!1d2837.5709138746074!2d75.41289837131286!3d12.62628846155243!2m3!1f0!2f0!3f0!3m2!1i1024!2i768!4f13.1!3m3!1m2!1s0x3ba4edcaff21607d%3A0xa945aecb849c2572!2sSri%20Rama%20Temple!5e1!3m2!1sen!2sin!4v1737099808615!5m2!1sen!2sin"
@@ -0,0 +1,265 @@
+import React, { useState } from "react";
+import Receipt, { ReceiptData, formatBookingId } from "../components/Receipt";
+import PaymentButton, { paymentStatusLabels } from "../components/PaymentButton";
+import { PaymentStatus } from "../payments/types";
+import {
+  DONATION_PURPOSES,
+  DonationPurpose,
+  PAN_PATTERN,
+  donationPurposeLabels,
+} from "./purposes";
+import { useDataLocale, useT } from "../i18n/useT";
+
+const DonationForm: React.FC = () => {
+  const locale = useDataLocale();
+  const t = useT("donationForm");
+  const tCommon = useT("common");
+  const [donorName, setDonorName] = useState("");
+  const [mobileNumber, setMobileNumber] = useState("");
+  const [pan, setPan] = useState("");
+  const [address, setAddress] = useState("");
+  const [amount, setAmount] = useState("");
+  const [purpose, setPurpose] = useState<DonationPurpose>("general");
+
+  const [loading, setLoading] = useState(false);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const [donation, setDonation] = useState<{ id: number; amount: number } | null>(null);
+  const [receipt, setReceipt] = useState<ReceiptData | null>(null);
+  // Donations stay "pending payment" until the payment is verified
+  const [paymentStatus, setPaymentStatus] = useState<PaymentStatus | null>(null);
+
+  const validate = () => {
+    const newErrors: Record<string, string> = {};
+
+    if (!/^\d{10}$/.test(mobileNumber)) {
+      newErrors.mobileNumber = tCommon("invalidPhone");
+    }
+    if (pan && !PAN_PATTERN.test(pan)) {
+      newErrors.pan = t("invalidPan");
+    }
+    const value = Number(amount);
+    if (!Number.isInteger(value) || value < 1) {
+      newErrors.amount = t("invalidAmount");
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handlePaymentStatusChange = (status: PaymentStatus) => {
+    setPaymentStatus(status);
+    setReceipt((prev) => (prev ? { ...prev, paymentStatus: status } : prev));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!validate()) return;
+
+    setLoading(true);
+    setSubmitError(null);
+    setDonation(null);
+    setReceipt(null);
+    setPaymentStatus(null);
+
+    try {
+      const response = await fetch("/api/donations", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          donorName,
+          mobileNumber,
+          pan: pan || undefined,
+          address,
+          amount: Number(amount),
+          purpose,
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || t("failed"));
+      }
+
+      setDonation({ id: data.data.id, amount: Number(amount) });
+      setReceipt({
+        kind: "donation",
+        bookingId: formatBookingId("donation", data.data.id),
+        name: donorName,
+        mobileNumber,
+        item: donationPurposeLabels[purpose],
+        purpose: donationPurposeLabels[purpose],
+        dates: [new Date().toLocaleDateString("en-GB")],
+        amount: Number(amount),
+        paymentStatus: "pending",
+        details: [
+          ...(pan ? [{ label: "PAN (ಪ್ಯಾನ್)", value: pan }] : []),
+          { label: "Address (ವಿಳಾಸ)", value: address },
+        ],
+      });
+      setPaymentStatus("pending");
+
+      setDonorName("");
+      setMobileNumber("");
+      setPan("");
+      setAddress("");
+      setAmount("");
+      setPurpose("general");
+    } catch (error) {
+      setSubmitError(
+        error instanceof Error ? error.message : tCommon("unexpectedError")
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const inputClassName =
+    "border border-gray-300 rounded-md p-2 w-full focus:outline-none focus:ring-2 focus:ring-orange-400";
+
+  return (
+    <div className="max-w-2xl w-full p-6">
+      <h2 className="text-2xl font-bold mb-4 text-green-800 text-center">
+        {t("title")}
+      </h2>
+
+      <form
+        onSubmit={handleSubmit}
+        className="bg-white shadow rounded-lg p-4 space-y-4"
+      >
+        <div>
+          <label htmlFor="purpose" className="block mb-1 text-gray-800 font-medium">
+            {t("purpose")}
+          </label>
+          <select
+            id="purpose"
+            value={purpose}
+            onChange={(e) => setPurpose(e.target.value as DonationPurpose)}
+            className={inputClassName}
+          >
+            {DONATION_PURPOSES.map((key) => (
+              <option key={key} value={key}>
+                {donationPurposeLabels[key][locale]}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label htmlFor="amount" className="block mb-1 text-gray-800 font-medium">
+            {t("amount")}
+          </label>
+          <input
+            type="number"
+            id="amount"
+            min={1}
+            step={1}
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            required
+            className={inputClassName}
+          />
+          {errors.amount && <p className="text-red-600 mt-1">{errors.amount}</p>}
+        </div>
+
+        <div>
+          <label htmlFor="donorName" className="block mb-1 text-gray-800 font-medium">
+            {t("donorName")}
+          </label>
+          <input
+            type="text"
+            id="donorName"
+            value={donorName}
+            onChange={(e) => setDonorName(e.target.value)}
+            required
+            className={inputClassName}
+          />
+        </div>
+
+        <div>
+          <label htmlFor="mobileNumber" className="block mb-1 text-gray-800 font-medium">
+            {t("mobileNumber")}
+          </label>
+          <input
+            type="text"
+            id="mobileNumber"
+            autoComplete="off"
+            value={mobileNumber}
+            onChange={(e) => setMobileNumber(e.target.value)}
+            required
+            className={inputClassName}
+          />
+          {errors.mobileNumber && (
+            <p className="text-red-600 mt-1">{errors.mobileNumber}</p>
+          )}
+        </div>
+
+        <div>
+          <label htmlFor="pan" className="block mb-1 text-gray-800 font-medium">
+            {t("pan")}
+          </label>
+          <input
+            type="text"
+            id="pan"
+            maxLength={10}
+            value={pan}
+            onChange={(e) => setPan(e.target.value.toUpperCase())}
+            className={inputClassName}
+          />
+          <p className="text-sm text-gray-500 mt-1">{t("panHint")}</p>
+          {errors.pan && <p className="text-red-600 mt-1">{errors.pan}</p>}
+        </div>
+
+        <div>
+          <label htmlFor="address" className="block mb-1 text-gray-800 font-medium">
+            {t("address")}
+          </label>
+          <textarea
+            id="address"
+            rows={3}
+            value={address}
+            onChange={(e) => setAddress(e.target.value)}
+            required
+            className={inputClassName}
+          />
+        </div>
+
+        <button
+          type="submit"
+          className="bg-orange-600 text-white py-2 rounded-md shadow hover:bg-orange-700 transition w-full"
+          disabled={loading}
+        >
+          {loading ? tCommon("submitting") : t("submit")}
+        </button>
+      </form>
+
+      {submitError && (
+        <p className="p-4 rounded-lg mt-4 bg-red-100 text-red-800">{submitError}</p>
+      )}
+
+      {donation && paymentStatus && (
+        <div className="p-4 rounded-lg mt-4 bg-green-100 text-green-800">
+          <p>{paymentStatus === "paid" ? t("thanks") : t("success")}</p>
+          <p className="mt-2">
+            <span className="font-semibold">{tCommon("paymentStatus")}</span>{" "}
+            <span className={paymentStatusLabels[paymentStatus].className}>
+              {paymentStatusLabels[paymentStatus][locale]}
+            </span>
+          </p>
+          {paymentStatus !== "paid" && (
+            <PaymentButton
+              purpose="donation"
+              referenceId={donation.id}
+              amount={donation.amount}
+              onStatusChange={handlePaymentStatusChange}
+            />
+          )}
+        </div>
+      )}
+
+      {receipt && <Receipt data={receipt} />}
+    </div>
+  );
+};
+
+export default DonationForm;
@@ -1,79 +1,39 @@
 "use client";
-import React, { useState, useEffect } from "react";
-import { useSelector } from "react-redux";
-import { RootState } from "../store";
+import React from "react";
+import { useT } from "../i18n/useT";
+import DonationForm from "./DonationForm";
 
-// Define types for locales
-type LocaleType = "en" | "kn";
-
-// Define text content for each language
-const donationText: Record<
-  LocaleType,
-  {
-    title: string;
-    generalDonation: string;
-    bank: string;
-    branch: string;
-    accountNumber: string;
-    ifscCode: string;
-  }
-> = {
-  en: {
-    title: "Account Details",
-    generalDonation: "General Donation",
-    bank: "Bank of Baroda",
-    branch: "Kukkujadka",
-    accountNumber: "70690100003088",
-    ifscCode: "BARB0VJKJDK",
-  },
-  kn: {
-    title: "ಖಾತೆ ವಿವರಗಳು",
-    generalDonation: "ಸಾಮಾನ್ಯ ದೇಣಿಗೆ",
-    bank: "ಬ್ಯಾಂಕ್ ಆಫ್ ಬರೋಡಾ",
-    branch: "ಕುಕ್ಕುಜಡ್ಕ",
-    accountNumber: "70690100003088",
-    ifscCode: "BARB0VJKJDK",
-  },
-};
+// The temple's account for direct bank transfers
+const ACCOUNT_NUMBER = "70690100003088";
+const IFSC_CODE = "BARB0VJKJDK";
 
 const DonationsPage: React.FC = () => {
-  const [mounted, setMounted] = useState(false);
-
-  // Set mounted to true after component has mounted
-  useEffect(() => {
-    setMounted(true);
-  }, []);
-
-  const currentLocale: LocaleType = useSelector((state: RootState) => state.locale.locale) as LocaleType;
-
-  if (!mounted) {
-    return null; // Avoid rendering until the component has mounted
-  }
-
-  const text = donationText[currentLocale];
+  const t = useT("donations");
 
   return (
     <main className="min-h-screen flex flex-col items-center p-6 bg-yellow-200 font-serif">
-      <h1 className="text-3xl font-bold mb-6 text-green-800 text-center">{text.title}</h1>
+      <DonationForm />
+      <h1 className="text-3xl font-bold mt-6 mb-2 text-green-800 text-center">{t("title")}</h1>
+      <p className="text-green-700 text-center">{t("bankTransfer")}</p>
       <div className="max-w-2xl w-full p-6 space-y-6">
         <div className="p-4 bg-yellow-300 rounded-lg shadow-md">
           <p className="text-green-700 text-base font-semibold">
-            Bank (ಬ್ಯಾಂಕ್): <span className="font-bold">{text.bank}</span>
+            Bank (ಬ್ಯಾಂಕ್): <span className="font-bold">{t("bank")}</span>
           </p>
         </div>
         <div className="p-4 bg-yellow-300 rounded-lg shadow-md">
           <p className="text-green-700 text-base font-semibold">
-            Branch (ಶಾಖೆ): <span className="font-bold">{text.branch}</span>
+            Branch (ಶಾಖೆ): <span className="font-bold">{t("branch")}</span>
           </p>
         </div>
         <div className="p-4 bg-yellow-300 rounded-lg shadow-md">
           <p className="text-green-700 text-base font-semibold">
-            Account Number (ಖಾತೆ ಸಂಖ್ಯೆ): <span className="font-bold">{text.accountNumber}</span>
+            Account Number (ಖಾತೆ ಸಂಖ್ಯೆ): <span className="font-bold">{ACCOUNT_NUMBER}</span>
           </p>
         </div>
         <div className="p-4 bg-yellow-300 rounded-lg shadow-md">
           <p className="text-green-700 text-base font-semibold">
-            IFSC Code (ಐಎಫ್ಎಸ್ಸಿ ಕೋಡ್): <span className="font-bold">{text.ifscCode}</span>
+            IFSC Code (ಐಎಫ್ಎಸ್ಸಿ ಕೋಡ್): <span className="font-bold">{IFSC_CODE}</span>
           </p>
         </div>
       </div>
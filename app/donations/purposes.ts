@@ -0,0 +1,21 @@
+export type DonationPurpose = "general" | "annadana" | "festival" | "renovation";
+
+export const DONATION_PURPOSES: DonationPurpose[] = [
+  "general",
+  "annadana",
+  "festival",
+  "renovation",
+];
+
+export const donationPurposeLabels: Record<
+  DonationPurpose,
+  { en: string; kn: string }
+> = {
+  general: { en: "General Donation", kn: "ಸಾಮಾನ್ಯ ದೇಣಿಗೆ" },
+  annadana: { en: "Annadana", kn: "ಅನ್ನದಾನ" },
+  festival: { en: "Festival", kn: "ಉತ್ಸವ" },
+  renovation: { en: "Renovation", kn: "ಜೀರ್ಣೋದ್ಧಾರ" },
+};
+
+// Format of an Indian PAN, needed for the 80G certificate
+export const PAN_PATTERN = /^[A-Z]{5}[0-9]{4}[A-Z]$/;
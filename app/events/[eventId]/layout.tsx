@@ -0,0 +1,125 @@
+import { Metadata } from "next";
+import { cache } from "react";
+import { fetchBackendData } from "../../api/backend";
+import { ApiEvent, eventDates, formatEvent } from "../eventData";
+import JsonLd from "../../components/JsonLd";
+import { breadcrumbJsonLd, eventJsonLd } from "../../seo/structuredData";
+import { localeAlternates } from "../../seo/site";
+import { Locale, translate } from "../../i18n";
+import { localizedField } from "../../i18n/content";
+import { localizePath } from "../../i18n/routing";
+import { requestLocale } from "../../i18n/server";
+
+// Shared by the metadata and the structured data, so the event is only
+// fetched once per request
+const loadEvent = cache(async (eventId: string) =>
+  formatEvent(await fetchBackendData<ApiEvent>(`/events/${eventId}`))
+);
+
+// The page in the visitor's language is canonical; the others are alternates
+const localeLinks = (eventId: string, locale: Locale) => {
+  const path = `/events/${eventId}`;
+  return {
+    url: localizePath(locale, path),
+    alternates: {
+      canonical: localizePath(locale, path),
+      languages: localeAlternates(path),
+    },
+  };
+};
+
+const defaultMetadata = (eventId: string, locale: Locale): Metadata => {
+  const heading = translate(locale, "events", "title");
+  const title = `${heading} - Shrirama Temple, Chokkadi`;
+  const description =
+    "Festivals, utsavas and special poojas at Shrirama Temple, Chokkadi.";
+  const { url, alternates } = localeLinks(eventId, locale);
+  return {
+    title,
+    description,
+    alternates,
+    openGraph: {
+      title,
+      description,
+      url,
+      images: [{ url: `/default-og-image.webp` }],
+      type: "website",
+    },
+    twitter: {
+      card: "summary_large_image",
+      title,
+      description,
+      images: [`/default-og-image.webp`],
+    },
+  };
+};
+
+export async function generateMetadata({
+  params,
+}: {
+  params: Promise<{ eventId: string }>;
+}): Promise<Metadata> {
+  const { eventId } = await params;
+  const locale = await requestLocale();
+
+  try {
+    const event = await loadEvent(eventId);
+
+    const title = `${localizedField(event, "title", locale)} - Shrirama Temple, Chokkadi`;
+    const summary = localizedField(event, "description", locale);
+    const description = `${eventDates(event)}. ${summary}`.substring(0, 160);
+    const imageUrl = event.coverImage?.public_url || "/default-og-image.webp";
+    const { url, alternates } = localeLinks(eventId, locale);
+
+    return {
+      title,
+      description,
+      alternates,
+      openGraph: {
+        title,
+        description,
+        url,
+        images: [{ url: imageUrl }],
+        type: "article",
+      },
+      twitter: {
+        card: "summary_large_image",
+        title,
+        description,
+        images: [imageUrl],
+      },
+    };
+  } catch (error) {
+    console.error("Error fetching event metadata:", error);
+    return defaultMetadata(eventId, locale);
+  }
+}
+
+export default async function EventDetailLayout({
+  children,
+  params,
+}: {
+  children: React.ReactNode;
+  params: Promise<{ eventId: string }>;
+}) {
+  const { eventId } = await params;
+  // The page shows its own error if the event cannot be loaded
+  const event = await loadEvent(eventId).catch(() => null);
+
+  return (
+    <>
+      {event && (
+        <JsonLd
+          data={[
+            eventJsonLd(event),
+            breadcrumbJsonLd([
+              { name: "Events", path: "/events" },
+              { name: event.title, path: `/events/${event.id}` },
+            ]),
+          ]}
+        />
+      )}
+      {children}
+    </>
+  );
+}
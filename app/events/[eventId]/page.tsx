@@ -0,0 +1,123 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useParams } from "next/navigation";
+import Link from "next/link";
+import Image from "next/image";
+import {
+  useDataLocale,
+  useLocalePath,
+  useLocalized,
+  useT,
+} from "../../i18n/useT";
+import LoadingSpinner from "../../components/LoadingSpinner";
+import { formatDateKey } from "../../panchanga/dates";
+import { describePanchanga, panchangaFor } from "../../panchanga/table";
+import {
+  TempleEvent,
+  eventDates,
+  fetchEventData,
+  scheduleByDay,
+} from "../eventData";
+import { formatTime } from "../../temple/timings";
+
+export default function EventDetail() {
+  const { eventId } = useParams<{ eventId: string }>();
+  const dataLocale = useDataLocale();
+  const localized = useLocalized();
+  const t = useT("event");
+  const localePath = useLocalePath();
+  const [event, setEvent] = useState<TempleEvent | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState(false);
+
+  useEffect(() => {
+    if (!eventId) return;
+    fetchEventData(eventId)
+      .then(setEvent)
+      .catch((err) => {
+        console.error(err);
+        setError(true);
+      })
+      .finally(() => setLoading(false));
+  }, [eventId]);
+
+  return (
+    <div className="container mx-auto p-6 bg-[#FFFFCC] font-serif">
+      <Link
+        href={localePath("/events")}
+        className="inline-block mb-4 px-4 py-2 text-white bg-orange-600 hover:bg-orange-700 rounded-lg shadow-md"
+      >
+        &larr; {t("back")}
+      </Link>
+
+      {loading && <LoadingSpinner />}
+      {error && <p className="text-green-600 text-center">{t("error")}</p>}
+
+      {event && (
+        <div className="bg-[#FFFFE0] rounded-lg shadow-md overflow-hidden">
+          {event.coverImage && (
+            <div className="relative w-full h-64 sm:h-96">
+              <Image
+                src={event.coverImage.public_url}
+                alt={event.coverImage.alt_text || event.title}
+                fill
+                className="object-cover"
+                priority
+              />
+            </div>
+          )}
+          <div className="p-6">
+            <h1 className="text-4xl font-bold text-green-700 mb-2">
+              {localized(event, "title")}
+            </h1>
+            <p className="text-green-600 mb-4">{eventDates(event)}</p>
+            <p className="text-green-700 text-lg mb-6 whitespace-pre-line">
+              {localized(event, "description")}
+            </p>
+
+            {event.schedule.length > 0 && (
+              <>
+                <h2 className="text-2xl font-semibold text-orange-600 mb-4">
+                  {t("programme")}
+                </h2>
+                <div className="space-y-4">
+                  {scheduleByDay(event).map(({ date, items }) => {
+                    const panchanga = panchangaFor(date);
+                    return (
+                      <div
+                        key={date}
+                        className="border-l-4 border-orange-500 bg-white rounded-lg p-4"
+                      >
+                        <h3 className="font-semibold text-green-800">
+                          {formatDateKey(date)}
+                        </h3>
+                        {panchanga && (
+                          <p className="text-sm text-gray-600 mb-2">
+                            {describePanchanga(panchanga, dataLocale)}
+                          </p>
+                        )}
+                        <ul className="space-y-1">
+                          {items.map((item, index) => (
+                            <li key={index} className="text-green-700">
+                              {item.time && (
+                                <span className="font-medium mr-2">
+                                  {formatTime(item.time, dataLocale)}
+                                </span>
+                              )}
+                              {localized(item, "title")}
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    );
+                  })}
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+import { formatDateKey } from "../panchanga/dates";
+import { Translations } from "../i18n/content";
+
+// One line of the day-wise programme, e.g. "Brahmarathotsava, 7:00 PM"
+export interface ScheduleItem {
+  date: string; // YYYY-MM-DD, within the event's dates
+  time?: string; // HH:MM, 24-hour
+  title: string;
+  title_kannada?: string;
+  translations?: Translations | null;
+}
+
+export interface EventImage {
+  public_url: string;
+  alt_text: string;
+}
+
+export interface TempleEvent {
+  id: number;
+  title: string;
+  title_kannada?: string;
+  description: string;
+  description_kannada?: string;
+  translations?: Translations | null; // Other languages
+  startDate: string; // YYYY-MM-DD
+  endDate: string;
+  schedule: ScheduleItem[]; // Sorted by date, then time
+  coverImageId: number | null;
+  coverImage: EventImage | null;
+}
+
+// Interface for API response
+export interface ApiEvent {
+  event_id: number;
+  title: string;
+  title_kannada?: string;
+  description: string;
+  description_kannada?: string;
+  translations?: Translations | null;
+  start_date: string;
+  end_date: string;
+  schedule?: ScheduleItem[] | null;
+  cover_image_id?: number | null;
+  CoverImage?: EventImage | null;
+}
+
+export type EventStatus = "upcoming" | "ongoing" | "past";
+
+// Dates may come back as full timestamps; events only need the day
+const toDay = (value: string) => value.slice(0, 10);
+
+// Items without a time come first on their day
+const scheduleOrder = (a: ScheduleItem, b: ScheduleItem) =>
+  a.date.localeCompare(b.date) || (a.time || "").localeCompare(b.time || "");
+
+export const formatEvent = (event: ApiEvent): TempleEvent => ({
+  id: event.event_id,
+  title: event.title,
+  title_kannada: event.title_kannada,
+  description: event.description,
+  description_kannada: event.description_kannada,
+  translations: event.translations,
+  startDate: toDay(event.start_date),
+  endDate: toDay(event.end_date),
+  schedule: (event.schedule || [])
+    .map((item) => ({ ...item, date: toDay(item.date) }))
+    .sort(scheduleOrder),
+  coverImageId: event.cover_image_id ?? null,
+  coverImage: event.CoverImage || null,
+});
+
+export const eventStatus = (event: TempleEvent, today: string): EventStatus => {
+  if (event.endDate < today) return "past";
+  return event.startDate > today ? "upcoming" : "ongoing";
+};
+
+// "15/01/2027" or "15/01/2027 – 21/01/2027"
+export const eventDates = (event: TempleEvent) =>
+  event.startDate === event.endDate
+    ? formatDateKey(event.startDate)
+    : `${formatDateKey(event.startDate)} – ${formatDateKey(event.endDate)}`;
+
+// The programme grouped by day, in order
+export const scheduleByDay = (event: TempleEvent) => {
+  const days = new Map<string, ScheduleItem[]>();
+  event.schedule.forEach((item) => {
+    days.set(item.date, [...(days.get(item.date) || []), item]);
+  });
+  return Array.from(days, ([date, items]) => ({ date, items }));
+};
+
+export const fetchEventsData = async (): Promise<TempleEvent[]> => {
+  const res = await fetch(`/api/events`);
+  if (!res.ok) throw new Error("Failed to load events");
+
+  const { data }: { data: ApiEvent[] } = await res.json();
+  return data.map(formatEvent);
+};
+
+export const fetchEventData = async (
+  eventId: number | string
+): Promise<TempleEvent> => {
+  const res = await fetch(`/api/events/${eventId}`);
+  if (!res.ok) throw new Error("Failed to load event");
+
+  const { data }: { data: ApiEvent } = await res.json();
+  return formatEvent(data);
+};
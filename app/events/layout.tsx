@@ -0,0 +1,15 @@
+import { Metadata } from "next";
+
+export const metadata: Metadata = {
+  title: "Temple Events - Shrirama Temple, Chokkadi",
+  description:
+    "Stay updated on the festivals, utsavas and ceremonies at Shrirama Temple, Chokkadi.",
+};
+
+export default function EventsLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  return <>{children}</>;
+}
@@ -0,0 +1,125 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import Image from "next/image";
+import { useLocalePath, useLocalized, useT } from "../i18n/useT";
+import LoadingSpinner from "../components/LoadingSpinner";
+import CalendarSubscribe from "../components/CalendarSubscribe";
+import { toDateKey } from "../panchanga/dates";
+import {
+  TempleEvent,
+  eventDates,
+  eventStatus,
+  fetchEventsData,
+} from "./eventData";
+
+// Past events shown below the upcoming ones, most recent first
+const PAST_EVENTS_COUNT = 6;
+
+export default function Events() {
+  const localized = useLocalized();
+  const t = useT("events");
+  const localePath = useLocalePath();
+  const [events, setEvents] = useState<TempleEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState(false);
+
+  useEffect(() => {
+    fetchEventsData()
+      .then((data) =>
+        setEvents(data.sort((a, b) => a.startDate.localeCompare(b.startDate)))
+      )
+      .catch((err) => {
+        console.error(err);
+        setError(true);
+      })
+      .finally(() => setLoading(false));
+  }, []);
+
+  const today = toDateKey(new Date());
+
+  const upcoming = events.filter(
+    (event) => eventStatus(event, today) !== "past"
+  );
+  const past = events
+    .filter((event) => eventStatus(event, today) === "past")
+    .reverse()
+    .slice(0, PAST_EVENTS_COUNT);
+
+  const renderEvent = (event: TempleEvent) => (
+    <Link
+      key={event.id}
+      href={localePath(`/events/${event.id}`)}
+      className="bg-[#FFFFE0] rounded-lg shadow-lg transition-transform transform hover:scale-105 overflow-hidden flex flex-col"
+    >
+      {event.coverImage && (
+        <div className="relative w-full h-48">
+          <Image
+            src={event.coverImage.public_url}
+            alt={event.coverImage.alt_text || event.title}
+            fill
+            className="object-cover"
+          />
+        </div>
+      )}
+      <div className="p-6 flex flex-col flex-1">
+        {eventStatus(event, today) === "ongoing" && (
+          <span className="self-start mb-2 px-2 py-1 rounded-full text-xs font-medium bg-orange-500 text-white">
+            {t("ongoing")}
+          </span>
+        )}
+        <h2 className="text-2xl font-bold text-green-700 mb-2">
+          {localized(event, "title")}
+        </h2>
+        <p className="text-sm text-green-600 mb-2">{eventDates(event)}</p>
+        <p className="text-green-700 mb-4 line-clamp-3">
+          {localized(event, "description")}
+        </p>
+        <span className="mt-auto text-orange-600 font-medium">
+          {t("details")} &rarr;
+        </span>
+      </div>
+    </Link>
+  );
+
+  return (
+    <main className="min-h-screen flex flex-col items-center p-6 bg-[var(--background)] font-serif">
+      <h1 className="text-3xl font-bold mb-6 text-[var(--foreground)] text-center">
+        {t("title")}
+      </h1>
+      <div className="mb-6">
+        <CalendarSubscribe feedPath="/api/calendar/events" />
+      </div>
+
+      {loading && <LoadingSpinner />}
+      {error && <p className="text-red-500 text-center">{t("error")}</p>}
+
+      {!loading && !error && (
+        <div className="w-full max-w-6xl">
+          <h2 className="text-xl font-semibold text-orange-600 mb-4">
+            {t("upcoming")}
+          </h2>
+          {upcoming.length === 0 ? (
+            <p className="text-green-700 mb-10">{t("noEvents")}</p>
+          ) : (
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6 mb-10">
+              {upcoming.map(renderEvent)}
+            </div>
+          )}
+
+          {past.length > 0 && (
+            <>
+              <h2 className="text-xl font-semibold text-orange-600 mb-4">
+                {t("past")}
+              </h2>
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6 opacity-80">
+                {past.map(renderEvent)}
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </main>
+  );
+}
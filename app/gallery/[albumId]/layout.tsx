@@ -0,0 +1,119 @@
+import { Metadata } from "next";
+import { cache } from "react";
+import { fetchBackendData } from "../../api/backend";
+import {
+  ApiAlbum,
+  ApiGalleryItem,
+  LEGACY_ALBUM_ID,
+  albumDate,
+  formatAlbum,
+  formatLegacyAlbum,
+} from "../albumData";
+import JsonLd from "../../components/JsonLd";
+import { albumJsonLd, breadcrumbJsonLd } from "../../seo/structuredData";
+
+// Shared by the metadata and the structured data, so the album is only
+// fetched once per request
+const loadAlbum = cache(async (albumId: string) => {
+  if (albumId !== LEGACY_ALBUM_ID) {
+    return formatAlbum(
+      await fetchBackendData<ApiAlbum>(`/gallery/albums/${albumId}`)
+    );
+  }
+  const album = formatLegacyAlbum(
+    await fetchBackendData<ApiGalleryItem[]>("/gallery")
+  );
+  if (!album) throw new Error("No photos outside albums");
+  return album;
+});
+
+const defaultMetadata = (albumId: string): Metadata => {
+  const title = "Gallery - Shrirama Temple, Chokkadi";
+  const description = "Photo albums from Shrirama Temple, Chokkadi.";
+  return {
+    title,
+    description,
+    openGraph: {
+      title,
+      description,
+      url: `/gallery/${albumId}`,
+      images: [{ url: `/default-og-image.webp` }],
+      type: "website",
+    },
+    twitter: {
+      card: "summary_large_image",
+      title,
+      description,
+      images: [`/default-og-image.webp`],
+    },
+  };
+};
+
+export async function generateMetadata({
+  params,
+}: {
+  params: Promise<{ albumId: string }>;
+}): Promise<Metadata> {
+  const { albumId } = await params;
+
+  try {
+    const album = await loadAlbum(albumId);
+
+    const title = `${album.title} - Shrirama Temple, Chokkadi`;
+    const description = [albumDate(album), album.description]
+      .filter(Boolean)
+      .join(". ")
+      .substring(0, 160);
+    const imageUrl = album.coverImage?.public_url || "/default-og-image.webp";
+
+    return {
+      title,
+      description: description || undefined,
+      openGraph: {
+        title,
+        description: description || undefined,
+        url: `/gallery/${albumId}`,
+        images: [{ url: imageUrl }],
+        type: "website",
+      },
+      twitter: {
+        card: "summary_large_image",
+        title,
+        description: description || undefined,
+        images: [imageUrl],
+      },
+    };
+  } catch (error) {
+    console.error("Error fetching album metadata:", error);
+    return defaultMetadata(albumId);
+  }
+}
+
+export default async function AlbumDetailLayout({
+  children,
+  params,
+}: {
+  children: React.ReactNode;
+  params: Promise<{ albumId: string }>;
+}) {
+  const { albumId } = await params;
+  // The page shows its own error if the album cannot be loaded
+  const album = await loadAlbum(albumId).catch(() => null);
+
+  return (
+    <>
+      {album && (
+        <JsonLd
+          data={[
+            albumJsonLd(album),
+            breadcrumbJsonLd([
+              { name: "Gallery", path: "/gallery" },
+              { name: album.title, path: `/gallery/${album.id}` },
+            ]),
+          ]}
+        />
+      )}
+      {children}
+    </>
+  );
+}
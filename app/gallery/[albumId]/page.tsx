@@ -0,0 +1,119 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useParams } from "next/navigation";
+import Link from "next/link";
+import Image from "next/image";
+import { useLocalePath, useLocalized, useT } from "../../i18n/useT";
+import LoadingSpinner from "../../components/LoadingSpinner";
+import ImageModal from "../../components/ImageModal";
+import { GalleryAlbum, albumDate, fetchAlbumData } from "../albumData";
+
+export default function AlbumDetail(): JSX.Element {
+  const { albumId } = useParams<{ albumId: string }>();
+  const localized = useLocalized();
+  const t = useT("album");
+  const tGallery = useT("gallery");
+  const localePath = useLocalePath();
+  const [album, setAlbum] = useState<GalleryAlbum | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState(false);
+  const [isImageModalOpen, setIsImageModalOpen] = useState(false);
+  const [currentIndex, setCurrentIndex] = useState(0);
+
+  useEffect(() => {
+    if (!albumId) return;
+    fetchAlbumData(albumId)
+      .then(setAlbum)
+      .catch((err) => {
+        console.error(err);
+        setError(true);
+      })
+      .finally(() => setLoading(false));
+  }, [albumId]);
+
+  const images = album?.images ?? [];
+
+  const openImageModal = (index: number) => {
+    setCurrentIndex(index);
+    setIsImageModalOpen(true);
+  };
+
+  const closeImageModal = useCallback(() => setIsImageModalOpen(false), []);
+
+  // The modal only steps through this album's photos
+  const navigateImage = useCallback(
+    (direction: "next" | "prev") => {
+      setCurrentIndex((index) =>
+        direction === "next"
+          ? Math.min(index + 1, images.length - 1)
+          : Math.max(index - 1, 0)
+      );
+    },
+    [images.length]
+  );
+
+  return (
+    <div className="relative px-4 md:px-8 lg:px-16 py-6 bg-yellow-100">
+      <Link
+        href={localePath("/gallery")}
+        className="inline-block mb-4 px-4 py-2 text-white bg-orange-600 hover:bg-orange-700 rounded-lg shadow-md"
+      >
+        &larr; {t("back")}
+      </Link>
+
+      {loading && <LoadingSpinner />}
+      {error && <p className="text-red-500 text-center">{t("error")}</p>}
+
+      {album && (
+        <>
+          <div className="mb-6">
+            <h1 className="text-3xl font-bold text-green-800">
+              {localized(album, "title")}
+            </h1>
+            <p className="text-sm text-gray-600 mt-1">
+              {[albumDate(album), tGallery("photos", { count: images.length })]
+                .filter(Boolean)
+                .join(" · ")}
+            </p>
+            {localized(album, "description") && (
+              <p className="text-green-700 mt-3 whitespace-pre-line">
+                {localized(album, "description")}
+              </p>
+            )}
+          </div>
+
+          {images.length === 0 ? (
+            <p className="text-center text-gray-600 text-lg">{t("noPhotos")}</p>
+          ) : (
+            <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-4">
+              {images.map((image, index) => (
+                <div
+                  key={image.image_id}
+                  className="relative w-full h-48 cursor-pointer overflow-hidden bg-white rounded-lg shadow-lg transition-shadow duration-300 hover:shadow-xl"
+                  onClick={() => openImageModal(index)}
+                >
+                  <Image
+                    src={image.public_url}
+                    alt={image.alt_text || album.title}
+                    fill
+                    loading="lazy"
+                    className="object-cover rounded-lg transition-transform duration-300 hover:scale-105"
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+
+          <ImageModal
+            isOpen={isImageModalOpen}
+            images={images}
+            currentIndex={currentIndex}
+            onClose={closeImageModal}
+            onNavigate={navigateImage}
+          />
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,150 @@
+import { formatDateKey } from "../panchanga/dates";
+import { TRANSLATED_LOCALES, Translations } from "../i18n/content";
+import { translate } from "../i18n";
+
+export interface AlbumImage {
+  image_id: number;
+  public_url: string;
+  alt_text: string;
+}
+
+// Photos added before albums existed, one gallery record each, are shown
+// together as one more album at /gallery/uncategorised, after the others
+export const LEGACY_ALBUM_ID = "uncategorised";
+
+export interface GalleryAlbum {
+  id: number | typeof LEGACY_ALBUM_ID;
+  title: string;
+  title_kannada?: string;
+  description: string;
+  description_kannada?: string;
+  translations?: Translations | null; // Other languages
+  eventDate: string | null; // YYYY-MM-DD, the day the photos were taken
+  sortOrder: number; // Lower numbers are listed first
+  coverImageId: number | null;
+  coverImage: AlbumImage | null; // The first photo if no cover was chosen
+  images: AlbumImage[]; // In album order; empty in the album list
+  imageCount: number;
+}
+
+// Interface for API response
+export interface ApiAlbum {
+  album_id: number;
+  title: string;
+  title_kannada?: string;
+  description?: string | null;
+  description_kannada?: string | null;
+  translations?: Translations | null;
+  event_date?: string | null;
+  sort_order?: number | null;
+  cover_image_id?: number | null;
+  CoverImage?: AlbumImage | null;
+  image_count?: number;
+  AlbumImages?: { position: number; Images: AlbumImage }[] | null;
+}
+
+export const formatAlbum = (album: ApiAlbum): GalleryAlbum => {
+  const images = [...(album.AlbumImages || [])]
+    .sort((a, b) => a.position - b.position)
+    .map((item) => item.Images);
+
+  return {
+    id: album.album_id,
+    title: album.title,
+    title_kannada: album.title_kannada,
+    description: album.description || "",
+    description_kannada: album.description_kannada || undefined,
+    translations: album.translations,
+    eventDate: album.event_date ? album.event_date.slice(0, 10) : null,
+    sortOrder: album.sort_order ?? 0,
+    coverImageId: album.cover_image_id ?? null,
+    coverImage: album.CoverImage || images[0] || null,
+    images,
+    imageCount: album.image_count ?? images.length,
+  };
+};
+
+// A record of the gallery from before albums
+export interface ApiGalleryItem {
+  gallery_id: number;
+  title: string;
+  Images: AlbumImage;
+}
+
+const legacyTitle = () => ({
+  title: translate("en", "gallery", "uncategorised"),
+  title_kannada: translate("kn", "gallery", "uncategorised"),
+  translations: Object.fromEntries(
+    TRANSLATED_LOCALES.map((locale) => [
+      locale,
+      { title: translate(locale, "gallery", "uncategorised") },
+    ])
+  ),
+});
+
+// Null once every old record has been moved into an album
+export const formatLegacyAlbum = (
+  items: ApiGalleryItem[]
+): GalleryAlbum | null => {
+  if (items.length === 0) return null;
+  const images = items.map((item) => ({
+    ...item.Images,
+    alt_text: item.Images.alt_text || item.title,
+  }));
+
+  return {
+    id: LEGACY_ALBUM_ID,
+    ...legacyTitle(),
+    description: "",
+    eventDate: null,
+    sortOrder: 0,
+    coverImageId: null,
+    coverImage: images[0],
+    images,
+    imageCount: images.length,
+  };
+};
+
+// By the order set in the admin, then the most recent event first; albums
+// without a date come last
+export const albumOrder = (a: GalleryAlbum, b: GalleryAlbum) =>
+  a.sortOrder - b.sortOrder ||
+  (b.eventDate || "").localeCompare(a.eventDate || "");
+
+export const albumDate = (album: GalleryAlbum) =>
+  album.eventDate ? formatDateKey(album.eventDate) : null;
+
+// The old gallery records, or none if the backend no longer serves them
+export const fetchLegacyAlbum = async () => {
+  const res = await fetch(`/api/gallery`, { cache: "no-store" });
+  if (!res.ok) return null;
+
+  const { data }: { data: ApiGalleryItem[] } = await res.json();
+  return formatLegacyAlbum(data);
+};
+
+export const fetchAlbumsData = async (): Promise<GalleryAlbum[]> => {
+  const res = await fetch(`/api/gallery/albums`, { cache: "no-store" });
+  if (!res.ok) throw new Error("Failed to load albums");
+
+  const { data }: { data: ApiAlbum[] } = await res.json();
+  return data.map(formatAlbum).sort(albumOrder);
+};
+
+export const fetchAlbumData = async (
+  albumId: number | string
+): Promise<GalleryAlbum> => {
+  if (albumId === LEGACY_ALBUM_ID) {
+    const legacy = await fetchLegacyAlbum();
+    if (!legacy) throw new Error("Failed to load album");
+    return legacy;
+  }
+
+  const res = await fetch(`/api/gallery/albums/${albumId}`, {
+    cache: "no-store",
+  });
+  if (!res.ok) throw new Error("Failed to load album");
+
+  const { data }: { data: ApiAlbum } = await res.json();
+  return formatAlbum(data);
+};
@@ -0,0 +1,15 @@
+import { Metadata } from "next";
+
+export const metadata: Metadata = {
+  title: "Gallery - Shrirama Temple, Chokkadi",
+  description:
+    "Photo albums of festivals, utsavas and daily life at Shrirama Temple, Chokkadi.",
+};
+
+export default function GalleryLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  return <>{children}</>;
+}
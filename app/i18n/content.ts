@@ -0,0 +1,45 @@
+import { LOCALES, Locale, pickLocale } from "./index";
+
+// Text the temple office enters with a record: a hall, seva, news item or
+// event. English is the record's own column (`name`), Kannada its
+// `name_kannada` column, and other locales are kept in a `translations`
+// column keyed by locale:
+//   { name: "Hall", name_kannada: "ಸಭಾಂಗಣ",
+//     translations: { hi: { name: "सभागार" } } }
+export type Translations = Partial<
+  Record<Locale, Record<string, string | undefined>>
+>;
+
+export interface Translatable {
+  translations?: Translations | null;
+}
+
+// Locales without columns of their own, entered in the admin forms'
+// translation fields
+export const TRANSLATED_LOCALES = LOCALES.filter(
+  (locale) => locale !== "en" && locale !== "kn"
+);
+
+// One field of the record in every locale that has it
+export const fieldText = <R extends Translatable>(
+  record: R,
+  field: keyof R & string
+): Partial<Record<Locale, string>> => {
+  const columns = record as unknown as Record<string, string | undefined>;
+  const translated = Object.entries(record.translations ?? {}).map(
+    ([locale, fields]) => [locale, fields?.[field]]
+  );
+  return {
+    ...Object.fromEntries(translated),
+    en: columns[field],
+    kn: columns[`${field}_kannada`] || record.translations?.kn?.[field],
+  };
+};
+
+// The field in the locale, or in the nearest locale of its fallback chain
+// that has it
+export const localizedField = <R extends Translatable>(
+  record: R,
+  field: keyof R & string,
+  locale: Locale
+) => pickLocale(fieldText(record, field), locale);
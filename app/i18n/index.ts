@@ -0,0 +1,141 @@
+import en from "./messages/en";
+import kn from "./messages/kn";
+import tcy from "./messages/tcy";
+import hi from "./messages/hi";
+
+// The site's UI text, one catalog per locale. English is the reference and
+// Kannada is kept complete: both are typed against it, so a missing or
+// misspelt key is a compile error rather than a blank on the page. Tulu and
+// Hindi may leave keys out, which are then read from the next locale in
+// their fallback chain.
+
+export type Locale = "en" | "kn" | "tcy" | "hi";
+
+export const LOCALES: Locale[] = ["en", "kn", "tcy", "hi"];
+
+export const isLocale = (value: unknown): value is Locale =>
+  LOCALES.includes(value as Locale);
+
+// Each language's name in that language, for the language switcher
+export const LOCALE_NAMES: Record<Locale, string> = {
+  en: "English",
+  kn: "ಕನ್ನಡ",
+  tcy: "ತುಳು",
+  hi: "हिन्दी",
+};
+
+// Where to look when a locale has no text of its own. Tulu is written in
+// Kannada script and most Tulu speakers read Kannada; English always has it.
+const FALLBACKS: Record<Locale, Locale[]> = {
+  en: [],
+  kn: ["en"],
+  tcy: ["kn", "en"],
+  hi: ["en"],
+};
+
+// The locale itself followed by its fallbacks, e.g. tcy → kn → en
+export const fallbackChain = (locale: Locale): Locale[] => [
+  locale,
+  ...FALLBACKS[locale],
+];
+
+// Data such as panchanga names, festivals and status labels is kept in
+// English and Kannada only; other locales use the first of those in their
+// fallback chain
+export type DataLocale = "en" | "kn";
+
+export const dataLocale = (locale: Locale): DataLocale =>
+  fallbackChain(locale).find(
+    (candidate): candidate is DataLocale =>
+      candidate === "en" || candidate === "kn"
+  ) ?? "en";
+
+// The first text in the fallback chain, for text kept per locale such as
+// { en: "Morning", kn: "ಬೆಳಿಗ್ಗೆ" }
+export const pickLocale = (
+  text: Partial<Record<Locale, string>>,
+  locale: Locale
+) =>
+  fallbackChain(locale)
+    .map((candidate) => text[candidate])
+    .find(Boolean) ?? "";
+
+// Keys of common.weekdays, Sunday first like Date.getDay()
+export const WEEKDAY_KEYS = [
+  "sun",
+  "mon",
+  "tue",
+  "wed",
+  "thu",
+  "fri",
+  "sat",
+] as const;
+
+// A message that changes with a count, picked with Intl.PluralRules, e.g.
+// { one: "{count} day", other: "{count} days" }
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & {
+  other: string;
+};
+
+export type Messages = typeof en;
+export type Namespace = keyof Messages;
+
+// A plural message is kept whole: a catalog that has one must give `other`
+type DeepPartial<T> = {
+  [K in keyof T]?: T[K] extends string
+    ? string
+    : T[K] extends PluralMessage
+      ? PluralMessage
+      : DeepPartial<T[K]>;
+};
+
+// A catalog that may leave keys to its fallbacks
+export type PartialMessages = DeepPartial<Messages>;
+
+// "title", "travel.busStand.title", ...; a plural message is one key
+type Keys<T> = {
+  [K in keyof T & string]: T[K] extends string | PluralMessage
+    ? K
+    : `${K}.${Keys<T[K]>}`;
+}[keyof T & string];
+
+export type MessageKey<N extends Namespace> = Keys<Messages[N]>;
+
+// Values for {placeholders}; `count` also picks the plural form
+export type MessageParams = Record<string, string | number>;
+
+const catalogs: Record<Locale, PartialMessages> = { en, kn, tcy, hi };
+
+const lookup = (node: unknown, key: string) =>
+  key
+    .split(".")
+    .reduce<unknown>(
+      (current, part) => (current as Record<string, unknown>)?.[part],
+      node
+    ) as string | PluralMessage | undefined;
+
+const interpolate = (text: string, params?: MessageParams) =>
+  params
+    ? text.replace(/\{(\w+)\}/g, (match, name) =>
+        name in params ? String(params[name]) : match
+      )
+    : text;
+
+export const translate = <N extends Namespace>(
+  locale: Locale,
+  namespace: N,
+  key: MessageKey<N>,
+  params?: MessageParams
+): string => {
+  for (const candidate of fallbackChain(locale)) {
+    const message = lookup(catalogs[candidate][namespace], key);
+    if (message === undefined) continue;
+    if (typeof message === "string") return interpolate(message, params);
+
+    // Plural rules of the language the message is written in
+    const count = Number(params?.count ?? 0);
+    const form = new Intl.PluralRules(candidate).select(count);
+    return interpolate(message[form] ?? message.other, params);
+  }
+  return `${namespace}.${key}`;
+};
@@ -0,0 +1,482 @@
+// English UI text. This is the reference catalog: its keys define the
+// Messages type every other locale must match.
+const en = {
+  common: {
+    previous: "Previous",
+    next: "Next",
+    submitting: "Submitting...",
+    paymentStatus: "Payment status:",
+    invalidPhone: "Please enter a valid 10-digit phone number.",
+    unexpectedError: "An unexpected error occurred.",
+    price: "Price: ₹{price}",
+    otp: "OTP",
+    sendOtp: "Send OTP",
+    verifyOtp: "Verify OTP",
+    sendOtpFailed: "Failed to send OTP.",
+    verifyOtpFailed: "Failed to verify OTP.",
+    invalidMobile: "Please enter a valid 10-digit mobile number.",
+    error: "Error: {message}",
+    weekdays: {
+      sun: "Sun",
+      mon: "Mon",
+      tue: "Tue",
+      wed: "Wed",
+      thu: "Thu",
+      fri: "Fri",
+      sat: "Sat",
+    },
+  },
+  nav: {
+    templeName: "Shrirama Temple",
+    home: "HOME",
+    about: "ABOUT",
+    history: "History",
+    timings: "Temple Timings",
+    calendar: "Temple Calendar",
+    administration: "Administration",
+    facilities: "Temple Facilities",
+    reach: "How to Reach",
+    nearby: "Nearby Places",
+    booking: "HALL BOOKING",
+    events: "EVENTS",
+    news: "FEATURED NEWS",
+    donations: "DONATION",
+    gallery: "GALLERY",
+    contact: "CONTACT US",
+  },
+  footer: {
+    templeName: "Shrirama Temple",
+    quickLinks: "QUICK LINKS",
+    links: {
+      home: "HOME",
+      about: "ABOUT",
+      booking: "HALL BOOKING",
+      news: "NEWS",
+      gallery: "GALLERY",
+    },
+    address: {
+      line1: "Shrirama Temple Chokkadi,",
+      line2: "Amarapadnur village,",
+      line3: "Sullia Taluk, Dakshina Kannada",
+      line4: "PIN - 574212",
+    },
+    privacyPolicy: "Privacy Policy",
+    refundPolicy: "Refund & Cancellation",
+    admin: "Admin",
+    rightsReserved: "Shrirama Temple, Chokkadi. All Rights Reserved",
+    designedBy: "Designed by:",
+    designerName: "ISDC",
+  },
+  calendarSubscribe: {
+    subscribe: "Subscribe in Calendar",
+    download: "Download .ics",
+  },
+  timings: {
+    title: "Temple Timings",
+    weekly: "Regular Timings",
+    everyDay: "Every day",
+    darshan: "Darshan",
+    poojas: "Poojas",
+    special: "Special Days",
+    closed: "Closed",
+    today: {
+      title: "Today's Timings",
+      closed: "The temple is closed for darshan and poojas today.",
+      more: "All timings",
+    },
+    problems: {
+      darshanOrder: "Each darshan session must end after it starts.",
+      poojaIncomplete: "Each pooja needs a time and a name in English and Kannada.",
+    },
+  },
+  home: {
+    welcomeTitle: "WELCOME TO SHRIRAMA TEMPLE",
+    welcomeContent:
+      "Shrirama Temple is a sacred and revered temple nestled in the serene surroundings of Tulunadu, created by Lord Parashurama in South India. Located at the foothills of the Western Ghats in the Sullia Taluk of Dakshina Kannada district, this region is known for its lush green forests and expansive agricultural lands.",
+    readMore: "Read more",
+  },
+  calendar: {
+    title: "Temple Calendar",
+    festivals: "Festivals this month",
+    noFestivals: "No festivals this month.",
+    note: "Tithi and nakshathra are as at sunrise at Chokkadi. Please confirm festival dates with the temple office.",
+  },
+  hallCalendar: {
+    go: "Go",
+    tooManyDays: "You can reserve at most {count} days at once.",
+    unavailable: "The selected range includes a date that is not available.",
+    addMoreDays: "(tap a later date to add more days)",
+    continue: "Continue",
+    free: "{slots} free",
+  },
+  events: {
+    title: "Temple Events",
+    upcoming: "Upcoming Events",
+    past: "Past Events",
+    ongoing: "Happening now",
+    noEvents: "No upcoming events. Please check back soon.",
+    details: "View Programme",
+    error: "Failed to load events. Please try again later.",
+  },
+  event: {
+    back: "All Events",
+    programme: "Programme",
+    error: "Failed to load the event. Please try again later.",
+  },
+  gallery: {
+    title: "Gallery",
+    photos: {
+      one: "{count} photo",
+      other: "{count} photos",
+    },
+    noAlbums: "No albums yet. Please check back later.",
+    uncategorised: "Uncategorised",
+    error: "Failed to load the gallery. Please try again later.",
+  },
+  album: {
+    back: "All Albums",
+    noPhotos: "No photos in this album yet.",
+    error: "Failed to load the album. Please try again later.",
+  },
+  history: {
+    title: "History",
+    comingSoon: "Content to be published soon.",
+  },
+  facilities: {
+    title: "Desi Bhavana",
+    hall: {
+      capacity:
+        "Shrirama Temple in Chokkadi offers a hall suitable for various functions, including marriages, upanayanas, and other ceremonies. The hall can accommodate between 1000-1500 guests.",
+      space:
+        "The hall is spacious, with a comfortable environment for all your needs.",
+      wifi: "Free WiFi facility is available with the hall.",
+      rent: "The hall is available at a very reasonable rent.",
+    },
+  },
+  reach: {
+    title: "How to Reach Shrirama Temple",
+    directions:
+      "One can visit the Shrirama Temple, located 9.3 km from Bellare, which is a major town along SH 100 (Manjeshwara-Puttur-Subrahmanya State Highway). While traveling from Puttur to Subrahmanya, the temple can be reached by taking the Bellare-Pajapalla Road from Bellare, turning right at Ayyanakatte Cross, and continuing for 6.4 km.",
+    transport:
+      "You can reach Chokkadi using your own vehicle. Alternatively, you can use government buses or private vans operating between Bellare and Chokkadi. Additionally, a vehicle can be arranged from Bellare if needed.",
+    travel: {
+      busStand: { title: "Nearest Bus Stand", description: "Chokkadi" },
+      majorBusStand: {
+        title: "Nearest Major Bus Stand",
+        description: "Bellare (9.3 km),Sullia(11.3 km)",
+      },
+      railwayStation: {
+        title: "Nearest Railway Station",
+        description: "Yedamangala (16.5 km),Kaniuru Halt(18.0 km)",
+      },
+      majorRailwayStation: {
+        title: "Nearest Major Railway Station",
+        description: "Kabaka Puttur (36.0 km)",
+      },
+      airport: {
+        title: "Nearest Airport",
+        description: "Mangaluru International Airport (92.7 km)",
+      },
+    },
+  },
+  contact: {
+    postalAddress: "Postal Address",
+    contactDetails: "Contact Details",
+    googleMap: "Google Map",
+    address:
+      "Shrirama Temple, Chokkadi,\n Amarapadnur Village,\nSullia Taluk, Dakshina Kannada,\nPIN-574212",
+    contactNumber: "Contact Number:",
+    priest: "Priest:",
+    president: "President:",
+    tele: "Temple Office:",
+    email: "E-mail:",
+  },
+  donations: {
+    title: "Account Details",
+    bankTransfer: "You can also donate directly by bank transfer.",
+    bank: "Bank of Baroda",
+    branch: "Kukkujadka",
+  },
+  donationForm: {
+    title: "Donate Online",
+    donorName: "Donor Name",
+    mobileNumber: "Phone Number",
+    pan: "PAN (optional)",
+    panHint: "Required for an 80G tax exemption receipt",
+    address: "Address",
+    amount: "Amount (₹)",
+    purpose: "Purpose of Donation",
+    submit: "Donate",
+    success: "Your donation has been recorded. Please complete the payment.",
+    thanks: "Thank you for your donation!",
+    invalidPan: "Please enter a valid PAN (e.g. ABCDE1234F).",
+    invalidAmount: "Please enter a valid amount in whole rupees.",
+    failed: "Failed to record donation.",
+  },
+  payment: {
+    pay: "Pay ₹{amount}",
+    wait: "Please wait...",
+  },
+  sevas: {
+    contactOffice:
+      "Please contact the temple office for confirmation regarding the seva at least one day prior to the day of worship.",
+    error: "Failed to load sevas. Please try again later.",
+    noSevas: "No sevas available.",
+  },
+  sevaForm: {
+    name: "Name",
+    nakshathra: "Nakshathra",
+    rashi: "Rashi",
+    gotra: "Gotra (optional)",
+    mobileNumber: "Phone Number",
+    mobileNumberConfirmation: "Phone Number Confirmation",
+    date: "Date",
+    startDate: "Start Date",
+    panchanga: "Panchanga:",
+    repeat: "Repeat",
+    once: "Just once",
+    endDate: "Until",
+    preview: "Upcoming seva dates",
+    more: {
+      one: "and {count} more date",
+      other: "and {count} more dates",
+    },
+    total: {
+      one: "{count} seva, ₹{amount} in total",
+      other: "{count} sevas, ₹{amount} in total",
+    },
+    chooseNakshathra: "Please choose the nakshathra above.",
+    noDates: "No seva dates in this period.",
+    submit: "Apply for Seva",
+    search: "Type to search",
+    noMatch: "No matches",
+    chooseFromList: "Please choose an option from the list.",
+    invalidConfirmation:
+      "Please enter a valid 10-digit confirmation phone number.",
+    phoneMismatch: "Phone numbers do not match.",
+    noDatesInPeriod: "There are no seva dates in the chosen period.",
+    subscribed:
+      "Seva subscription recorded! The seva will be performed at the temple on each date.",
+    submitted:
+      "Seva form submitted successfully! Please show this ID at the temple to perform your Seva.",
+    failed: "Failed to create Seva.",
+    bookingId: "Booking ID:",
+    subscriptionId: "Subscription ID:",
+    copy: "Copy",
+    copied: "Booking ID copied to clipboard!",
+  },
+  booking: {
+    title: "Reserve a Hall",
+    trackBooking: "Already reserved? Track your booking",
+    back: "Back",
+    invalidHalls: "Error: Invalid halls data format.",
+    hallsError: "Error: Could not fetch halls.",
+    noImages: "No images available",
+    availability: "Availability Calendar",
+  },
+  hallForm: {
+    selectedDates: "Selected Dates",
+    fullName: "Full Name",
+    reason: "Reason for Booking",
+    selectReason: "Select a reason",
+    reasons: {
+      Wedding: "Wedding",
+      Upanayana: "Upanayana",
+      Reception: "Reception",
+      Others: "Others",
+    },
+    customReason: "Custom Reason",
+    mobileNumber: "Mobile Number",
+    mobilePlaceholder: "Enter your mobile number",
+    submit: "Reserve Now",
+    otpSent: "OTP sent successfully!",
+    enterOtp: "Please enter the OTP.",
+    otpVerified: "OTP verified successfully!",
+    verifyFirst: "Please verify your OTP before submitting.",
+    checkingAvailability: "Checking availability...",
+    dateTaken: "Not available",
+    datesUnavailable:
+      "One of the selected dates is no longer available. Please choose other dates.",
+    reserveFailed: "Failed to reserve hall.",
+    submitFailed: "Failed to submit form.",
+    reserved:
+      "Hare Raama!\n\nThank you for reserving the hall at Shrirama Temple Chokkadi.\n\nYour request is under review. Please contact the temple authority at one of the following numbers: +91 94486 25254, +91 70196 16082, 08257 200585, or +91 97412 51613 for confirmation within {holdHours} hours to finalize your booking.\n\nBooking Id: {bookingId}\n\nDetails provided by you:\n- Name: {name}\n- Purpose: {purpose}\n- Mobile: {mobile}\n- Booking Date(s): {dates}\n\nTo confirm the booking, please make the necessary payment and contact the temple authority. Failure to confirm within the given time may result in cancellation of the reservation.\n\nYou can check the status of your request any time at {trackUrl}\n\nThank you,\nShrirama Temple Chokkadi",
+  },
+  news: {
+    error: "Failed to load news updates. Please try again later.",
+    detailError: "Failed to load news detail. Please try again later.",
+    noNews: "No news updates available.",
+    date: "Date: {date}",
+    readMore: "Read More",
+    share: "Share",
+    shareText: "{title} - Read more at {url}",
+    shareTitle: "Share this News",
+    copyLink: "Copy Link",
+    back: "Back",
+  },
+  trackBooking: {
+    title: "Track My Booking",
+    intro:
+      "Enter the booking ID you received (for example DES123) and the mobile number used while booking.",
+    bookingId: "Booking ID",
+    mobileNumber: "Mobile Number",
+    checking: "Checking...",
+    status: "Status",
+    hall: "Hall",
+    date: "Date",
+    purpose: "Purpose",
+    statusReason: "Reason",
+    name: "Name",
+    invalidId: "Please enter a valid booking ID, e.g. DES123.",
+    notFound: "No booking found for this ID and mobile number.",
+    fetchFailed: "Failed to fetch booking status.",
+  },
+  administration: {
+    sevaSamithi: {
+      title: "Shrirama Seva Samithi",
+      description:
+        "Shrirama Seva Samithi operates under the guidance of Jagadguru Shankaracharya Mahasamsthanam - Sri Samsthana Gokarna Sri RamachandrapuraMatha, led by His Holiness Srimad Jagadguru Shankaracharya Sri Sri Raghaveshwara Bharati Mahaswamiji. The Seva Samithi diligently follows the instructions and traditions set forth by the Matha to uphold the spiritual and cultural values of the temple.",
+    },
+    roles: {
+      president: { title: "President:", name: "Shri Mahesh Bhat Choontharu" },
+      vicePresident: {
+        title: "Vice President:",
+        name: "Shri Krishnamoorthi Nenaru",
+      },
+      secretary: { title: "Secretary:", name: "Shri Ganeshamoorthy.K" },
+      treasurer: { title: "Treasurer:", name: "Shri Sathyavenkatesha Hebbar" },
+    },
+    contacts: {
+      president: "Contact no: +91 9448625254, +91 7019616082",
+      vicePresident: "Contact no: +91 9008145925",
+    },
+    membersTitle: "Members:",
+    members: {
+      anekaraGanapayya: "Shri Anekara Ganapayya",
+      gopalakrishnaBhatKatta: "Shri Gopalakrishna Bhat Katta",
+      ramachandraKote: "Shri Ramachandra Kote",
+      adarshaKrishnaNenaru: "Shri Adarsha Krishna Nenaru",
+      karthikeshaHebbar: "Shri Karthikesha Hebbar",
+      krishnaprasadK: "Shri Krishnaprasad K",
+      praneethaVenkateshaSharma: "Shri Praneetha Venkatesha Sharma",
+      sudheshnaDeraje: "Shri Sudheshna Deraje",
+      ashrayaNenaru: "Shri Ashraya Nenaru",
+    },
+    priest: {
+      title: "Temple Priest:",
+      name: "Shri Raghurama Sharma",
+      contact: "Contact Number: +91 9741251613",
+    },
+  },
+  nearby: {
+    title: "Nearby Places",
+    viewDetails: "View Details",
+    detailsLabel: "View details about {name}",
+    imageAlt: "Image of {name}",
+    close: "Close",
+    places: {
+      panchalingeshwaraPanja: {
+        name: "Shree Parivara Panchalingeshwara Temple, Panja",
+        description:
+          "Shree Parivara Panchalingeshwara Temple, located in Panja village along the Manjeshwara-Puttur-Subrahmanya state highway, is a historic Hindu temple dating back to the 13th century. According to local legends, the five Shiva Lingams enshrined here were installed by the Pandavas during their exile, linking the temple to the Mahabharata. Devotees visit to perform rituals like Rudrabhisheka, seeking blessings for marriage and relief from personal crises. The temple hosts annual events such as Brahmarathotsava and monthly rituals believed to eliminate various doshas. It is approximately 18.5 km from Shrirama Temple. For more information, please contact the temple authorities at 08257 278355.",
+      },
+      durgaparameshwariKanjarpane: {
+        name: "Shree Durgaparameshwari Temple,Kanjarpane",
+        description:
+          "Shree DurgaparameshwariTemple, located in Amaramudnoor village.Dedicated to Goddess Durga. This temple is located approximately 5 km from Chokkadi.",
+      },
+      ullakulu: {
+        name: "Shri Ullakulu Temple,Chokkadi",
+        description:
+          "The Chokkadi Ullakulu Temple, located in Chokkadi village, Sulya taluk, Dakshina Kannada, is dedicated to the Ullakulu Daiva, a revered guardian deity of Tulu Nadu. It is known for its annual Nema festival, featuring unique rituals like Addanapettu, symbolizing conflict resolution and community harmony. The temple holds cultural significance for nearby villages and is deeply rooted in local folklore. Image Courtesy: Anoop Soorinje",
+      },
+      koteSubrahmanya: {
+        name: "Kote Shri Subrahmanya Temple",
+        description:
+          "Kote Subrahmanya Temple, near Kalanja village in Sullia Taluk, is dedicated to Lord Subrahmanya, known as the protector of serpents. Nestled amidst serene landscapes, it is a popular destination for blessings of protection, wisdom, and good health. This temple located at the distance of 4.7 km from Chokkadi.",
+      },
+      kanchoduManjunatheshwara: {
+        name: "Kanchodu Shri Manjunatheshwara Temple",
+        description:
+          "Hindu pilgrimage site dedicated to Lord Shiva. It is a sacred and revered temple nestled in the serene surroundings of Tulunadu, created by Lord Parasurama in South India. Located at the foothills of the Western Ghats in the Sullia Taluk of Dakshina Kannada district, this region is known for its lush green forests and expansive agricultural lands. Located 10.3 km from Shrirama Temple.",
+      },
+      ajapilaMahalingeshwara: {
+        name: "Ajapila Shri Mahalingeshwara Temple",
+        description:
+          "Hindu pilgrimage site dedicated to Lord Shiva located at Bellare, a mjor town in Sullia Taluk. It is a sacred and revered temple nestled in the serene surroundings of Tulunadu, created by Lord Parasurama in South India. Located at the foothills of the Western Ghats in the Sullia Taluk of Dakshina Kannada district, this region is known for its lush green forests and expansive agricultural lands. Located 8.9 km from Shrirama Temple.",
+      },
+      panchalingeshwaraIvarnadu: {
+        name: "Shree Panchalingeshwara Temple,Ivarnadu",
+        description:
+          "Shree Panchalingeshwara Temple, located in Ivarnadu village along the Sullia-Bellare road, is a historic Hindu temple dedicated to Lord Shiva. This temple located 10.1 km from Chokkadi.",
+      },
+      jaladurgaPeruvaje: {
+        name: "Shri Jaladurga Devi Temple,Peruvaje",
+        description:
+          "Shri Jaladurga Devi Temple, located in Peruvaje, Karnataka, is a historic temple dedicated to Goddess Jaladurga Devi, renowned for its annual fair and Brahmarathotsava festival. The temple is beautifully adorned with various flowers during festivals, attracting numerous devotees.",
+      },
+      chennakeshavaSullia: {
+        name: "Shree Chennakeshava Temple,Sullia",
+        description:
+          "Shri Chennakeshava Temple in Sullia, Karnataka, is an 850-year-old historic temple dedicated to Lord Chennakeshava, with daily rituals and an annual festival, 'Jatrotsava,' in January. Known for its serene environment, it is a cultural and spiritual hub for devotees. It is located 11.7 km from Chokkadi.",
+      },
+      mallikarjunaThodikana: {
+        name: "Shree Mallikarjuna Temple,Thodikana",
+        description:
+          "Shree Mallikarjuna Temple in Thodikana, Karnataka, is a 13th-century temple dedicated to Lord Shiva, attracting numerous visitors weekly. Nearby attractions include the 'Meenugundi' fish tank and the Devaragundi waterfall, enhancing its cultural and natural appeal. It is located 28.6 km from Chokkadi.",
+      },
+      kukkeSubrahmanya: {
+        name: "Kukke Shri Subrahmanya Temple",
+        description:
+          "Kukke Subrahmanya is a famous Hindu temple in Karnataka, India, dedicated to Lord Subrahmanya (Kartikeyan), worshipped as the deity of serpents. Nestled amidst the lush Western Ghats, it is a significant pilgrimage center for rituals like Sarpa Samskara and Ashlesha Bali. It is located at 31.7Km from Chokkadi.",
+      },
+      harihareshwara: {
+        name: "Shri Harihareshwara Temple",
+        description:
+          "This ancient temple is situated at the village Hariharapallathadka, 29.1 kilometers away from Chokkadi. It is the abode of both Lord Vishnu (Hari) and Lord Shiva (Hara). A panoramic view of Shesha Parvatha (Western Ghats) can be seen from this temple, which is famous for Shani Pooja. For more information and Seva booking, visit the website:",
+      },
+      durgaparameshwariMarakatha: {
+        name: "Shri Durgaparameshwari Temple,Marakatha",
+        description:
+          "Shri Durgaparameshwari Temple in Marakatha, Sullia Taluk, is a revered Hindu temple dedicated to Goddess Durga Parameshwari. Situated 31.8 km from Sullia and 26.8 km from Shrirama Temple in Chokkadi, it draws devotees seeking blessings and spiritual solace. Managed by local authorities, the temple hosts various rituals and festivals honoring the Goddess. For inquiries, please contact 08257 282166.",
+      },
+      basaveshwara: {
+        name: "Shree Basaveshwara Temple",
+        description:
+          "This temple is 36.1 Km from Shrirama Temple. Located 12.1 km from Shrirama Temple in Kulkunda, just 2 km from Subrahmanya. Here, Lord Shiva is worshipped in the form of the sacred bull (Basava).",
+      },
+      mahalingeshwaraPuttur: {
+        name: "Mahathobhara Shri Mahalingeshwara Temple,Puttur",
+        description:
+          "Mahathobhara Shri Mahalingeshwara Temple in Puttur, Karnataka, is a 12th-century temple dedicated to Lord Shiva, renowned for its grand festivals like Rathotsava and Mahashivaratri. Its legend ties to a sacred Shiva Linga immovably placed, symbolizing divine presence. It is located 41.9 km from Chokkadi.",
+      },
+      dharmasthala: {
+        name: "Shri Kshethra Dharmasthala",
+        description:
+          "Major Hindu pilgrimage site dedicated to Lord Shiva, fostering religious harmony. Located 59.7 km from Shrirama Temple.",
+      },
+      bisleGhat: {
+        name: "Bisle Ghat Viewpoint",
+        description:
+          "Known for scenic views of Kumara Parvatha and the Western Ghats, located 32.4 km from Shrirama Temple.",
+      },
+      patlaBetta: {
+        name: "Patla Betta",
+        description:
+          "Picturesque hill in Sakleshpur, 40.5 km from Shrirama Temple, ideal for trekking.",
+      },
+      mallalliFalls: {
+        name: "Mallalli Falls",
+        description:
+          "200-foot waterfall in Coorg, best visited during the monsoon, formed by the Kumaradhara River. Located 57.3 km from Shrirama Temple.",
+      },
+      kumaraParvatha: {
+        name: "Kumara Parvatha Trek",
+        description:
+          "Known as Pushpagiri, this challenging trek to the fourth-highest peak in the Western Ghats starts from the base camp in Kukke Subrahmanya, 10.1 km from Shrirama Temple.",
+      },
+    },
+  },
+};
+
+export default en;
@@ -0,0 +1,344 @@
+import type { PartialMessages } from "../index";
+
+// Hindi UI text, keyed like messages/en.ts. Names of people and places and
+// the longer descriptions are not translated yet and are shown in English.
+const hi: PartialMessages = {
+  common: {
+    previous: "पिछला",
+    next: "अगला",
+    submitting: "जमा किया जा रहा है...",
+    paymentStatus: "भुगतान की स्थिति:",
+    invalidPhone: "कृपया 10 अंकों का सही फ़ोन नंबर दर्ज करें।",
+    unexpectedError: "एक अनपेक्षित त्रुटि हुई।",
+    price: "मूल्य: ₹{price}",
+    otp: "ओटीपी",
+    sendOtp: "ओटीपी भेजें",
+    verifyOtp: "ओटीपी सत्यापित करें",
+    sendOtpFailed: "ओटीपी भेजने में विफल।",
+    verifyOtpFailed: "ओटीपी सत्यापित करने में विफल।",
+    invalidMobile: "कृपया 10 अंकों का सही मोबाइल नंबर दर्ज करें।",
+    error: "त्रुटि: {message}",
+    weekdays: {
+      sun: "रवि",
+      mon: "सोम",
+      tue: "मंगल",
+      wed: "बुध",
+      thu: "गुरु",
+      fri: "शुक्र",
+      sat: "शनि",
+    },
+  },
+  nav: {
+    templeName: "श्रीराम मंदिर",
+    home: "मुखपृष्ठ",
+    about: "मंदिर के बारे में",
+    history: "इतिहास",
+    timings: "मंदिर का समय",
+    calendar: "मंदिर पंचांग",
+    administration: "सेवा समिति",
+    facilities: "सुविधाएँ",
+    reach: "कैसे पहुँचें",
+    nearby: "आस-पास के स्थान",
+    booking: "सभागार बुकिंग",
+    events: "उत्सव",
+    news: "प्रमुख समाचार",
+    donations: "दान",
+    gallery: "गैलरी",
+    contact: "संपर्क करें",
+  },
+  footer: {
+    templeName: "श्रीराम मंदिर",
+    quickLinks: "त्वरित लिंक",
+    links: {
+      home: "मुखपृष्ठ",
+      about: "मंदिर के बारे में",
+      booking: "सभागार बुकिंग",
+      news: "समाचार",
+      gallery: "गैलरी",
+    },
+    address: {
+      line1: "श्रीराम मंदिर, चोक्काडी,",
+      line2: "अमरपड्नूर ग्राम,",
+      line3: "सुल्या तालुक, दक्षिण कन्नड़",
+      line4: "पिन - 574212",
+    },
+    privacyPolicy: "गोपनीयता नीति",
+    refundPolicy: "धनवापसी और रद्दीकरण",
+    rightsReserved: "श्रीराम मंदिर, चोक्काडी। सर्वाधिकार सुरक्षित",
+    designedBy: "डिज़ाइन:",
+  },
+  calendarSubscribe: {
+    subscribe: "कैलेंडर में जोड़ें",
+    download: ".ics डाउनलोड करें",
+  },
+  timings: {
+    title: "मंदिर का समय",
+    weekly: "नियमित समय",
+    everyDay: "प्रतिदिन",
+    darshan: "दर्शन",
+    poojas: "पूजाएँ",
+    special: "विशेष दिन",
+    closed: "बंद",
+    today: {
+      title: "आज का समय",
+      closed: "आज मंदिर दर्शन और पूजा के लिए बंद है।",
+      more: "पूरा समय देखें",
+    },
+    problems: {
+      darshanOrder: "हर दर्शन सत्र शुरू होने के बाद ही समाप्त होना चाहिए।",
+      poojaIncomplete: "हर पूजा के लिए समय और अंग्रेज़ी व कन्नड़ में नाम आवश्यक है।",
+    },
+  },
+  home: {
+    welcomeTitle: "श्रीराम मंदिर में आपका स्वागत है",
+    welcomeContent:
+      "श्रीराम मंदिर दक्षिण भारत में भगवान परशुराम द्वारा रचित तुलुनाडु के शांत वातावरण में स्थित एक पवित्र और पूजनीय मंदिर है। यह दक्षिण कन्नड़ ज़िले के सुल्या तालुक में पश्चिमी घाट की तलहटी में स्थित है, और यह क्षेत्र अपने हरे-भरे वनों और विस्तृत खेतों के लिए जाना जाता है।",
+    readMore: "और पढ़ें",
+  },
+  calendar: {
+    title: "मंदिर पंचांग",
+    festivals: "इस महीने के पर्व",
+    noFestivals: "इस महीने कोई पर्व नहीं है।",
+    note: "तिथि और नक्षत्र चोक्काडी में सूर्योदय के समय के अनुसार हैं। कृपया पर्व की तिथियों की पुष्टि मंदिर कार्यालय से करें।",
+  },
+  hallCalendar: {
+    go: "जाएँ",
+    tooManyDays: "आप एक बार में अधिकतम {count} दिन आरक्षित कर सकते हैं।",
+    unavailable: "चुनी गई अवधि में एक ऐसी तिथि है जो उपलब्ध नहीं है।",
+    addMoreDays: "(और दिन जोड़ने के लिए बाद की तिथि चुनें)",
+    continue: "आगे बढ़ें",
+    free: "{slots} उपलब्ध",
+  },
+  events: {
+    title: "मंदिर के उत्सव",
+    upcoming: "आगामी उत्सव",
+    past: "पिछले उत्सव",
+    ongoing: "अभी चल रहा है",
+    noEvents: "कोई आगामी उत्सव नहीं है। कृपया बाद में देखें।",
+    details: "कार्यक्रम देखें",
+    error: "उत्सव लोड नहीं हो सके। कृपया बाद में पुनः प्रयास करें।",
+  },
+  event: {
+    back: "सभी उत्सव",
+    programme: "कार्यक्रम",
+    error: "उत्सव लोड नहीं हो सका। कृपया बाद में पुनः प्रयास करें।",
+  },
+  gallery: {
+    title: "गैलरी",
+    photos: {
+      one: "{count} फ़ोटो",
+      other: "{count} फ़ोटो",
+    },
+    noAlbums: "अभी कोई एल्बम नहीं है। कृपया बाद में देखें।",
+    uncategorised: "अवर्गीकृत चित्र",
+    error: "गैलरी लोड नहीं हो सकी। कृपया बाद में पुनः प्रयास करें।",
+  },
+  album: {
+    back: "सभी एल्बम",
+    noPhotos: "इस एल्बम में अभी कोई फ़ोटो नहीं है।",
+    error: "एल्बम लोड नहीं हो सका। कृपया बाद में पुनः प्रयास करें।",
+  },
+  history: {
+    title: "इतिहास",
+    comingSoon: "सामग्री जल्द ही प्रकाशित की जाएगी।",
+  },
+  facilities: {
+    title: "देसी भवन",
+    hall: {
+      capacity:
+        "चोक्काडी का श्रीराम मंदिर विवाह, उपनयन और अन्य समारोहों के लिए उपयुक्त सभागार प्रदान करता है। सभागार में 1000-1500 अतिथि आ सकते हैं।",
+      space: "सभागार विशाल है और आपकी सभी आवश्यकताओं के लिए आरामदायक है।",
+      wifi: "सभागार के साथ निःशुल्क वाईफ़ाई सुविधा उपलब्ध है।",
+      rent: "सभागार बहुत उचित किराए पर उपलब्ध है।",
+    },
+  },
+  reach: {
+    title: "श्रीराम मंदिर कैसे पहुँचें",
+    travel: {
+      busStand: { title: "निकटतम बस स्टैंड", description: "चोक्काडी" },
+      majorBusStand: { title: "निकटतम प्रमुख बस स्टैंड" },
+      railwayStation: { title: "निकटतम रेलवे स्टेशन" },
+      majorRailwayStation: { title: "निकटतम प्रमुख रेलवे स्टेशन" },
+      airport: { title: "निकटतम हवाई अड्डा" },
+    },
+  },
+  contact: {
+    postalAddress: "डाक पता",
+    contactDetails: "संपर्क विवरण",
+    googleMap: "गूगल मैप",
+    address:
+      "श्रीराम मंदिर, चोक्काडी,\n अमरपड्नूर ग्राम,\nसुल्या तालुक, दक्षिण कन्नड़,\nपिन-574212",
+    contactNumber: "संपर्क नंबर:",
+    priest: "पुजारी:",
+    president: "अध्यक्ष:",
+    tele: "मंदिर कार्यालय:",
+    email: "ई-मेल:",
+  },
+  donations: {
+    title: "खाते का विवरण",
+    bankTransfer: "आप बैंक ट्रांसफ़र द्वारा सीधे भी दान कर सकते हैं।",
+    bank: "बैंक ऑफ़ बड़ौदा",
+    branch: "कुक्कुजड्का",
+  },
+  donationForm: {
+    title: "ऑनलाइन दान करें",
+    donorName: "दाता का नाम",
+    mobileNumber: "फ़ोन नंबर",
+    pan: "पैन (वैकल्पिक)",
+    panHint: "80G कर छूट रसीद के लिए आवश्यक",
+    address: "पता",
+    amount: "राशि (₹)",
+    purpose: "दान का उद्देश्य",
+    submit: "दान करें",
+    success: "आपका दान दर्ज कर लिया गया है। कृपया भुगतान पूरा करें।",
+    thanks: "आपके दान के लिए धन्यवाद!",
+    invalidPan: "कृपया सही पैन दर्ज करें (जैसे ABCDE1234F)।",
+    invalidAmount: "कृपया पूरे रुपयों में सही राशि दर्ज करें।",
+    failed: "दान दर्ज करने में विफल।",
+  },
+  payment: {
+    pay: "₹{amount} का भुगतान करें",
+    wait: "कृपया प्रतीक्षा करें...",
+  },
+  sevas: {
+    contactOffice:
+      "कृपया पूजा के दिन से कम से कम एक दिन पहले सेवा की पुष्टि के लिए मंदिर कार्यालय से संपर्क करें।",
+    error: "सेवाएँ लोड नहीं हो सकीं। कृपया बाद में पुनः प्रयास करें।",
+    noSevas: "कोई सेवा उपलब्ध नहीं है।",
+  },
+  sevaForm: {
+    name: "नाम",
+    nakshathra: "नक्षत्र",
+    rashi: "राशि",
+    gotra: "गोत्र (वैकल्पिक)",
+    mobileNumber: "फ़ोन नंबर",
+    mobileNumberConfirmation: "फ़ोन नंबर की पुष्टि",
+    date: "तिथि",
+    startDate: "आरंभ तिथि",
+    panchanga: "पंचांग:",
+    repeat: "दोहराएँ",
+    once: "केवल एक बार",
+    endDate: "तक",
+    preview: "आगामी सेवा तिथियाँ",
+    more: {
+      one: "और {count} तिथि",
+      other: "और {count} तिथियाँ",
+    },
+    total: {
+      one: "{count} सेवा, कुल ₹{amount}",
+      other: "{count} सेवाएँ, कुल ₹{amount}",
+    },
+    chooseNakshathra: "कृपया ऊपर नक्षत्र चुनें।",
+    noDates: "इस अवधि में कोई सेवा तिथि नहीं है।",
+    submit: "सेवा के लिए आवेदन करें",
+    search: "खोजने के लिए टाइप करें",
+    noMatch: "कोई मेल नहीं मिला",
+    chooseFromList: "कृपया सूची में से एक विकल्प चुनें।",
+    invalidConfirmation:
+      "कृपया पुष्टि के लिए 10 अंकों का सही फ़ोन नंबर दर्ज करें।",
+    phoneMismatch: "फ़ोन नंबर मेल नहीं खाते।",
+    noDatesInPeriod: "चुनी गई अवधि में कोई सेवा तिथि नहीं है।",
+    subscribed: "सेवा सदस्यता दर्ज हो गई! हर तिथि पर मंदिर में सेवा की जाएगी।",
+    submitted:
+      "सेवा फ़ॉर्म सफलतापूर्वक जमा हुआ! सेवा कराने के लिए कृपया मंदिर में यह आईडी दिखाएँ।",
+    failed: "सेवा बनाने में विफल।",
+    bookingId: "बुकिंग आईडी:",
+    subscriptionId: "सदस्यता आईडी:",
+    copy: "कॉपी करें",
+    copied: "बुकिंग आईडी क्लिपबोर्ड पर कॉपी हो गई!",
+  },
+  booking: {
+    title: "सभागार आरक्षित करें",
+    trackBooking: "पहले ही आरक्षित किया है? अपनी बुकिंग की स्थिति देखें",
+    back: "वापस",
+    invalidHalls: "त्रुटि: सभागार का डेटा सही प्रारूप में नहीं है।",
+    hallsError: "त्रुटि: सभागार लोड नहीं हो सके।",
+    noImages: "कोई चित्र उपलब्ध नहीं है",
+    availability: "उपलब्धता कैलेंडर",
+  },
+  hallForm: {
+    selectedDates: "चुनी गई तिथियाँ",
+    fullName: "पूरा नाम",
+    reason: "बुकिंग का कारण",
+    selectReason: "कारण चुनें",
+    reasons: {
+      Wedding: "विवाह",
+      Upanayana: "उपनयन",
+      Reception: "स्वागत समारोह",
+      Others: "अन्य",
+    },
+    customReason: "अन्य कारण",
+    mobileNumber: "मोबाइल नंबर",
+    mobilePlaceholder: "अपना मोबाइल नंबर दर्ज करें",
+    submit: "अभी आरक्षित करें",
+    otpSent: "ओटीपी सफलतापूर्वक भेजा गया!",
+    enterOtp: "कृपया ओटीपी दर्ज करें।",
+    otpVerified: "ओटीपी सफलतापूर्वक सत्यापित हुआ!",
+    verifyFirst: "जमा करने से पहले कृपया अपना ओटीपी सत्यापित करें।",
+    checkingAvailability: "उपलब्धता जाँची जा रही है...",
+    dateTaken: "उपलब्ध नहीं",
+    datesUnavailable:
+      "चुनी गई तिथियों में से एक अब उपलब्ध नहीं है। कृपया दूसरी तिथियाँ चुनें।",
+    reserveFailed: "सभागार आरक्षित करने में विफल।",
+    submitFailed: "फ़ॉर्म जमा करने में विफल।",
+    reserved:
+      "हरे राम!\n\nश्रीराम मंदिर चोक्काडी में सभागार आरक्षित करने के लिए धन्यवाद।\n\nआपके अनुरोध की समीक्षा की जा रही है। अपनी बुकिंग पक्की करने के लिए कृपया {holdHours} घंटों के भीतर इनमें से किसी नंबर पर मंदिर प्रबंधन से संपर्क करें: +91 94486 25254, +91 70196 16082, 08257 200585 या +91 97412 51613।\n\nबुकिंग आईडी: {bookingId}\n\nआपके द्वारा दिया गया विवरण:\n- नाम: {name}\n- उद्देश्य: {purpose}\n- मोबाइल: {mobile}\n- बुकिंग तिथि(याँ): {dates}\n\nबुकिंग पक्की करने के लिए कृपया आवश्यक भुगतान करें और मंदिर प्रबंधन से संपर्क करें। दिए गए समय में पुष्टि न करने पर आरक्षण रद्द हो सकता है।\n\nआप अपने अनुरोध की स्थिति कभी भी यहाँ देख सकते हैं: {trackUrl}\n\nधन्यवाद,\nश्रीराम मंदिर चोक्काडी",
+  },
+  news: {
+    error: "समाचार लोड नहीं हो सके। कृपया बाद में पुनः प्रयास करें।",
+    detailError:
+      "समाचार का विवरण लोड नहीं हो सका। कृपया बाद में पुनः प्रयास करें।",
+    noNews: "कोई समाचार उपलब्ध नहीं है।",
+    date: "तिथि: {date}",
+    readMore: "और पढ़ें",
+    share: "साझा करें",
+    shareText: "{title} - और पढ़ें: {url}",
+    shareTitle: "यह समाचार साझा करें",
+    copyLink: "लिंक कॉपी करें",
+    back: "वापस",
+  },
+  trackBooking: {
+    title: "मेरी बुकिंग देखें",
+    intro:
+      "आपको मिली बुकिंग आईडी (जैसे DES123) और बुकिंग के समय दिया गया मोबाइल नंबर दर्ज करें।",
+    bookingId: "बुकिंग आईडी",
+    mobileNumber: "मोबाइल नंबर",
+    checking: "जाँच हो रही है...",
+    status: "स्थिति",
+    hall: "सभागार",
+    date: "तिथि",
+    purpose: "उद्देश्य",
+    statusReason: "कारण",
+    name: "नाम",
+    invalidId: "कृपया सही बुकिंग आईडी दर्ज करें, जैसे DES123।",
+    notFound: "इस आईडी और मोबाइल नंबर के लिए कोई बुकिंग नहीं मिली।",
+    fetchFailed: "बुकिंग की स्थिति लोड नहीं हो सकी।",
+  },
+  administration: {
+    sevaSamithi: { title: "श्रीराम सेवा समिति" },
+    roles: {
+      president: { title: "अध्यक्ष:" },
+      vicePresident: { title: "उपाध्यक्ष:" },
+      secretary: { title: "सचिव:" },
+      treasurer: { title: "कोषाध्यक्ष:" },
+    },
+    contacts: {
+      president: "संपर्क नंबर: +91 9448625254, +91 7019616082",
+      vicePresident: "संपर्क नंबर: +91 9008145925",
+    },
+    membersTitle: "सदस्य:",
+    priest: {
+      title: "मंदिर के पुजारी:",
+      contact: "संपर्क नंबर: +91 9741251613",
+    },
+  },
+  nearby: {
+    title: "आस-पास के स्थान",
+    viewDetails: "विवरण देखें",
+    detailsLabel: "{name} का विवरण देखें",
+    imageAlt: "{name} का चित्र",
+    close: "बंद करें",
+  },
+};
+
+export default hi;
@@ -0,0 +1,481 @@
+import type { Messages } from "../index";
+
+// Kannada UI text, keyed like messages/en.ts
+const kn: Messages = {
+  common: {
+    previous: "ಹಿಂದಿನ",
+    next: "ಮುಂದಿನ",
+    submitting: "ಸಲ್ಲಿಸಲಾಗುತ್ತಿದೆ...",
+    paymentStatus: "ಪಾವತಿ ಸ್ಥಿತಿ:",
+    invalidPhone: "ಸರಿಯಾದ 10 ಅಂಕಿ ಫೋನ್ ಸಂಖ್ಯೆಯನ್ನು ನಮೂದಿಸಿ",
+    unexpectedError: "ಅನಿರೀಕ್ಷಿತ ದೋಷ ಸಂಭವಿಸಿದೆ.",
+    price: "ಬೆಲೆ: ₹{price}",
+    otp: "ಒಟಿಪಿ",
+    sendOtp: "ಒಟಿಪಿ ಕಳುಹಿಸಿ",
+    verifyOtp: "ಒಟಿಪಿ ಪರಿಶೀಲಿಸಿ",
+    sendOtpFailed: "ಒಟಿಪಿ ಕಳುಹಿಸಲು ವಿಫಲವಾಗಿದೆ.",
+    verifyOtpFailed: "ಒಟಿಪಿ ಪರಿಶೀಲಿಸಲು ವಿಫಲವಾಗಿದೆ.",
+    invalidMobile: "ಸರಿಯಾದ 10 ಅಂಕಿ ಮೊಬೈಲ್ ಸಂಖ್ಯೆಯನ್ನು ನಮೂದಿಸಿ.",
+    error: "ದೋಷ: {message}",
+    weekdays: {
+      sun: "ಭಾನು",
+      mon: "ಸೋಮ",
+      tue: "ಮಂಗಳ",
+      wed: "ಬುಧ",
+      thu: "ಗುರು",
+      fri: "ಶುಕ್ರ",
+      sat: "ಶನಿ",
+    },
+  },
+  nav: {
+    templeName: "ಶ್ರೀರಾಮ ದೇವಾಲಯ",
+    home: "ಮುಖಪುಟ",
+    about: "ದೇವಾಲಯದ ಮಾಹಿತಿ",
+    history: "ಇತಿಹಾಸ",
+    timings: "ದೇವಾಲಯದ ಸಮಯ",
+    calendar: "ದೇವಾಲಯದ ಪಂಚಾಂಗ",
+    administration: "ಸೇವಾ ಸಮಿತಿ",
+    facilities: "ಸೌಲಭ್ಯಗಳು",
+    reach: "ದೇವಾಲಯ ತಲುಪುವ ಮಾಹಿತಿ",
+    nearby: "ಹತ್ತಿರದ ಸ್ಥಳಗಳು",
+    booking: "ಸಭಾಂಗಣ ಬುಕ್ಕಿಂಗ್",
+    events: "ಉತ್ಸವಗಳು",
+    news: "ಪ್ರಮುಖ ಸುದ್ದಿ",
+    donations: "ದೇಣಿಗೆ",
+    gallery: "ಗ್ಯಾಲರಿ",
+    contact: "ಸಂಪರ್ಕಿಸಿ",
+  },
+  footer: {
+    templeName: "ಶ್ರೀ ರಾಮ ದೇವಾಲಯ",
+    quickLinks: "ಲಿಂಕ್ಸ್",
+    links: {
+      home: "ಮುಖಪುಟ",
+      about: "ದೇವಾಲಯದ ಬಗ್ಗೆ",
+      booking: "ಸಭಾಂಗಣ ಬುಕಿಂಗ್",
+      news: "ಸುದ್ದಿಗಳು",
+      gallery: "ಗ್ಯಾಲರಿ",
+    },
+    address: {
+      line1: "ಶ್ರೀ ರಾಮ ದೇವಾಲಯ, ಚೊಕ್ಕಾಡಿ,",
+      line2: "ಅಮರಪಡ್ನೂರು ಗ್ರಾಮ,",
+      line3: "ಸುಳ್ಯ ತಾಲೂಕು, ದ.ಕ.",
+      line4: "ಪಿನ್ - 574212",
+    },
+    privacyPolicy: "ಗೌಪ್ಯತಾ ನೀತಿ",
+    refundPolicy: "ಮರುಪಾವತಿ ಮತ್ತು ರದ್ದುಪಡಿಸುವಿಕೆ",
+    admin: "ಅಡ್ಮಿನ್",
+    rightsReserved:
+      "ಶ್ರೀ ರಾಮ ದೇವಾಲಯ, ಚೊಕ್ಕಾಡಿ. ಎಲ್ಲಾ ಹಕ್ಕುಗಳನ್ನು ಕಾಯ್ದಿರಿಸಲಾಗಿದೆ",
+    designedBy: "ಹೋಸ್ಟಿಂಗ್ ಮತ್ತು ನಿರ್ವಹಣೆ:",
+    designerName: "ಐಎಸ್‌ಡಿಸಿ",
+  },
+  calendarSubscribe: {
+    subscribe: "ಕ್ಯಾಲೆಂಡರ್‌ಗೆ ಚಂದಾದಾರರಾಗಿ",
+    download: ".ics ಫೈಲ್ ಡೌನ್‌ಲೋಡ್",
+  },
+  timings: {
+    title: "ದೇವಾಲಯದ ಸಮಯ",
+    weekly: "ನಿತ್ಯದ ಸಮಯ",
+    everyDay: "ಪ್ರತಿದಿನ",
+    darshan: "ದರ್ಶನ",
+    poojas: "ಪೂಜೆಗಳು",
+    special: "ವಿಶೇಷ ದಿನಗಳು",
+    closed: "ಮುಚ್ಚಿರುತ್ತದೆ",
+    today: {
+      title: "ಇಂದಿನ ಸಮಯ",
+      closed: "ಇಂದು ದೇವಾಲಯದಲ್ಲಿ ದರ್ಶನ ಮತ್ತು ಪೂಜೆಗಳು ಇರುವುದಿಲ್ಲ.",
+      more: "ಎಲ್ಲಾ ಸಮಯಗಳು",
+    },
+    problems: {
+      darshanOrder: "ಪ್ರತಿ ದರ್ಶನದ ಅವಧಿ ಆರಂಭವಾದ ನಂತರವೇ ಮುಗಿಯಬೇಕು.",
+      poojaIncomplete: "ಪ್ರತಿ ಪೂಜೆಗೆ ಸಮಯ ಮತ್ತು ಇಂಗ್ಲಿಷ್ ಹಾಗೂ ಕನ್ನಡದಲ್ಲಿ ಹೆಸರು ಬೇಕು.",
+    },
+  },
+  home: {
+    welcomeTitle: "ಶ್ರೀರಾಮ ದೇವಾಲಯಕ್ಕೆ ಸ್ವಾಗತ",
+    welcomeContent:
+      "ಶ್ರೀರಾಮ ದೇವಾಲಯವು ದಕ್ಷಿಣ ಭಾರತದ ಪಶ್ಚಿಮ ಘಟ್ಟದ ಕಾಲುಭಾಗದಲ್ಲಿ ಪರಶುರಾಮ ಸೃಷ್ಟಿಯ ತುಳುನಾಡಿನಲ್ಲಿ ಇರುವ ಪುಣ್ಯ ಕ್ಷೇತ್ರ. ದಕ್ಷಿಣ ಕನ್ನಡ ಜಿಲ್ಲೆಯ ಗ್ರಾಮೀಣ ಭಾಗದ ಸುಳ್ಯ ತಾಲೂಕಿನ ಅಮರಪಡ್ನೂರು ಎಂಬ ಗ್ರಾಮದಲ್ಲಿ ಶ್ರೀರಾಮ ದೇವರು ನೆಲೆಸಿದ್ದಾರೆ.",
+    readMore: "ಇನ್ನಷ್ಟು ಓದಿ",
+  },
+  calendar: {
+    title: "ದೇವಾಲಯದ ಪಂಚಾಂಗ",
+    festivals: "ಈ ತಿಂಗಳ ಹಬ್ಬಗಳು",
+    noFestivals: "ಈ ತಿಂಗಳಲ್ಲಿ ಹಬ್ಬಗಳಿಲ್ಲ.",
+    note: "ತಿಥಿ ಮತ್ತು ನಕ್ಷತ್ರಗಳು ಚೊಕ್ಕಾಡಿಯ ಸೂರ್ಯೋದಯದ ಸಮಯದಂತೆ. ಹಬ್ಬಗಳ ದಿನಾಂಕಗಳನ್ನು ದೇವಾಲಯದ ಕಚೇರಿಯಲ್ಲಿ ಖಚಿತಪಡಿಸಿಕೊಳ್ಳಿ.",
+  },
+  hallCalendar: {
+    go: "ಹೋಗಿ",
+    tooManyDays: "ಒಮ್ಮೆಗೆ ಗರಿಷ್ಠ {count} ದಿನಗಳನ್ನು ಮಾತ್ರ ಕಾಯ್ದಿರಿಸಬಹುದು.",
+    unavailable: "ಆಯ್ಕೆ ಮಾಡಿದ ಅವಧಿಯಲ್ಲಿ ಲಭ್ಯವಿಲ್ಲದ ದಿನಾಂಕವಿದೆ.",
+    addMoreDays: "(ಹೆಚ್ಚು ದಿನಗಳಿಗಾಗಿ ನಂತರದ ದಿನಾಂಕವನ್ನು ಒತ್ತಿ)",
+    continue: "ಮುಂದುವರಿಸಿ",
+    free: "{slots} ಲಭ್ಯ",
+  },
+  events: {
+    title: "ದೇವಾಲಯದ ಉತ್ಸವಗಳು",
+    upcoming: "ಮುಂಬರುವ ಉತ್ಸವಗಳು",
+    past: "ಹಿಂದಿನ ಉತ್ಸವಗಳು",
+    ongoing: "ಈಗ ನಡೆಯುತ್ತಿದೆ",
+    noEvents: "ಮುಂಬರುವ ಉತ್ಸವಗಳಿಲ್ಲ. ದಯವಿಟ್ಟು ಮತ್ತೆ ಪರಿಶೀಲಿಸಿ.",
+    details: "ಕಾರ್ಯಕ್ರಮ ನೋಡಿ",
+    error: "ಉತ್ಸವಗಳನ್ನು ಲೋಡ್ ಮಾಡಲು ವಿಫಲವಾಗಿದೆ. ದಯವಿಟ್ಟು ನಂತರ ಪ್ರಯತ್ನಿಸಿ.",
+  },
+  event: {
+    back: "ಎಲ್ಲಾ ಉತ್ಸವಗಳು",
+    programme: "ಕಾರ್ಯಕ್ರಮಗಳು",
+    error: "ಉತ್ಸವದ ವಿವರ ಲೋಡ್ ಮಾಡಲು ವಿಫಲವಾಗಿದೆ. ದಯವಿಟ್ಟು ನಂತರ ಪ್ರಯತ್ನಿಸಿ.",
+  },
+  gallery: {
+    title: "ಗ್ಯಾಲರಿ",
+    photos: {
+      one: "{count} ಚಿತ್ರ",
+      other: "{count} ಚಿತ್ರಗಳು",
+    },
+    noAlbums: "ಯಾವುದೇ ಆಲ್ಬಮ್‌ಗಳಿಲ್ಲ. ದಯವಿಟ್ಟು ನಂತರ ನೋಡಿ.",
+    uncategorised: "ವರ್ಗೀಕರಿಸದ ಚಿತ್ರಗಳು",
+    error: "ಗ್ಯಾಲರಿ ಲೋಡ್ ಮಾಡಲು ವಿಫಲವಾಗಿದೆ. ದಯವಿಟ್ಟು ನಂತರ ಪ್ರಯತ್ನಿಸಿ.",
+  },
+  album: {
+    back: "ಎಲ್ಲಾ ಆಲ್ಬಮ್‌ಗಳು",
+    noPhotos: "ಈ ಆಲ್ಬಮ್‌ನಲ್ಲಿ ಇನ್ನೂ ಚಿತ್ರಗಳಿಲ್ಲ.",
+    error: "ಆಲ್ಬಮ್ ಲೋಡ್ ಮಾಡಲು ವಿಫಲವಾಗಿದೆ. ದಯವಿಟ್ಟು ನಂತರ ಪ್ರಯತ್ನಿಸಿ.",
+  },
+  history: {
+    title: "ಇತಿಹಾಸ",
+    comingSoon: "ಇತಿಹಾಸವನ್ನು ಶೀಘ್ರದಲ್ಲೇ ಪ್ರಕಟಿಸಲಾಗುವುದು.",
+  },
+  facilities: {
+    title: "ದೇಸೀ ಭವನ",
+    hall: {
+      capacity:
+        "ಚೊಕ್ಕಾಡಿಯ ಶ್ರೀ ರಾಮ ದೇವಸ್ಥಾನವು ಮದುವೆ, ಉಪನಯನ ಮತ್ತು ಇತರ ಸಮಾರಂಭಗಳಿಗೆ ಅನುಕೂಲಕರವಾದ ಸಭಾಂಗಣವನ್ನು ನೀಡುತ್ತದೆ. ಸಭಾಂಗಣವು 1000-1500 ಅತಿಥಿಗಳನ್ನು ಹೊಂದಲು ಅನುಕೂಲಕರವಾಗಿದೆ.",
+      space:
+        "ಸಭಾಂಗಣವು ವಿಶಾಲವಾಗಿದೆ ಮತ್ತು ಎಲ್ಲಾ ಅವಶ್ಯಕತೆಗಳಿಗೆ ಅನುಕೂಲಕರ ವಾತಾವರಣವನ್ನು ಹೊಂದಿದೆ.",
+      wifi: "ಸಭಾಂಗಣದೊಂದಿಗೆ ಉಚಿತ ವೈಫೈ ಸೌಲಭ್ಯ ಲಭ್ಯವಿದೆ.",
+      rent: "ಸಭಾಂಗಣವು ಕೈಗೆಟಕುವ ಬಾಡಿಗೆಯಲ್ಲಿ ಲಭ್ಯವಿದೆ.",
+    },
+  },
+  reach: {
+    title: "ಶ್ರೀರಾಮ ದೇವಾಲಯ ತಲುಪುವ ಮಾಹಿತಿ",
+    directions:
+      "ಶ್ರೀರಾಮ ದೇವಾಲಯವು ರಾ.ಹೆ.ಸಂ. 100 (ಮಂಜೇಶ್ವರ-ಪುತ್ತೂರು-ಸುಬ್ರಹ್ಮಣ್ಯ ರಾಜ್ಯ ಹೆದ್ದಾರಿ)ಯಲ್ಲಿ ಬೆಳ್ಳಾರೆ ಎಂಬ ಪ್ರಮುಖ ಪಟ್ಟಣದಿಂದ 9.3 ಕಿಮೀ ದೂರದಲ್ಲಿರುವ ಚೊಕ್ಕಾಡಿ ಎಂಬ ಪುಟ್ಟ ಗ್ರಾಮದಲ್ಲಿದೆ. ಪುತ್ತೂರಿನಿಂದ ಸುಬ್ರಹ್ಮಣ್ಯಕ್ಕೆ ಪ್ರಯಾಣಿಸುವಾಗ, ಬೆಳ್ಳಾರೆಯಿಂದ ಬಾಳಿಲ ರಸ್ತೆಯ ಮೂಲಕ ತೆರಳಿ ಅಯ್ಯನಕಟ್ಟೆ ಕ್ರಾಸ್‌ನಲ್ಲಿ ಬಲಗಡೆ ತಿರುಗಿ 6.4 ಕಿಮೀ ಸಾಗಿದರೆ ದೇವಾಲಯವನ್ನು ತಲುಪಬಹುದು.",
+    transport:
+      "ಚೊಕ್ಕಾಡಿಗೆ ತಲುಪಲು ತಮ್ಮ ಸ್ವಂತ ವಾಹನದ ಮೂಲಕ ಅಥವ ಬೆಳ್ಳಾರೆಯಿಂದ ಚೊಕ್ಕಾಡಿಗೆ ಸಂಚರಿಸುವ ಸರಕಾರಿ ಬಸ್‌ ಅಥವ ಖಾಸಗಿ ವ್ಯಾನ್‌ಗಳನ್ನು ಬಳಸಿಕೊಂಡು ದೇವಾಲಯವನ್ನು ತಲುಪಬಹುದು.",
+    travel: {
+      busStand: { title: "ಹತ್ತಿರದ ಬಸ್ ನಿಲ್ದಾಣ", description: "ಚೊಕ್ಕಾಡಿ" },
+      majorBusStand: {
+        title: "ಹತ್ತಿರದ ಪ್ರಮುಖ ಬಸ್ಸು ನಿಲ್ದಾಣ",
+        description: "ಬೆಳ್ಳಾರೆ (9.3 ಕಿ.ಮಿ),ಸುಳ್ಯ(11.3 ಕಿ.ಮಿ)",
+      },
+      railwayStation: {
+        title: "ಹತ್ತಿರದಲ್ಲಿರುವ ರೈಲು ನಿಲ್ದಾಣ",
+        description: "ಎಡಮಂಗಲ (16.5 ಕಿ.ಮಿ),ಕಾಣಿಯೂರು (18.3 ಕಿ.ಮಿ)",
+      },
+      majorRailwayStation: {
+        title: "ಹತ್ತಿರದಲ್ಲಿರುವ ಪ್ರಮುಖ ರೈಲು ನಿಲ್ದಾಣ",
+        description: "ಕಬಕ ಪುತ್ತೂರು (36.0 ಕಿ.ಮಿ)",
+      },
+      airport: {
+        title: "ಹತ್ತಿರದಲ್ಲಿರುವ ವಿಮಾನ ನಿಲ್ದಾಣ",
+        description: "ಮಂಗಳೂರು ಅಂತಾರಾಷ್ಟ್ರೀಯ ವಿಮಾನ ನಿಲ್ದಾಣ (92.7 ಕಿ.ಮಿ)",
+      },
+    },
+  },
+  contact: {
+    postalAddress: "ದೇವಾಲಯದ ವಿಳಾಸ",
+    contactDetails: "ಸಂಪರ್ಕ ಮಾಹಿತಿ",
+    googleMap: "ಗೂಗಲ್ ಮ್ಯಾಪ್ ನಕ್ಷೆ",
+    address:
+      "ಶ್ರೀರಾಮ ದೇವಾಲಯ, ಚೊಕ್ಕಾಡಿ,\n ಅಮರಪಡ್ನೂರು ಗ್ರಾಮ,\nಸುಳ್ಯ ತಾಲೂಕು, ದ.ಕ.,\nಪಿನ್-574212",
+    contactNumber: "ಸಂಪರ್ಕ ಸಂಖ್ಯೆ:",
+    priest: "ಪ್ರಧಾನ ಅರ್ಚಕರು:",
+    president: "ಅಧ್ಯಕ್ಷರು:",
+    tele: "ದೇವಾಲಯದ ಕಚೇರಿ:",
+    email: "ಇ-ಮೇಲ್:",
+  },
+  donations: {
+    title: "ಖಾತೆ ವಿವರಗಳು",
+    bankTransfer: "ನೀವು ನೇರವಾಗಿ ಬ್ಯಾಂಕ್ ವರ್ಗಾವಣೆಯ ಮೂಲಕವೂ ದೇಣಿಗೆ ನೀಡಬಹುದು.",
+    bank: "ಬ್ಯಾಂಕ್ ಆಫ್ ಬರೋಡಾ",
+    branch: "ಕುಕ್ಕುಜಡ್ಕ",
+  },
+  donationForm: {
+    title: "ಆನ್‌ಲೈನ್ ದೇಣಿಗೆ",
+    donorName: "ದಾನಿಯ ಹೆಸರು",
+    mobileNumber: "ಫೋನ್ ಸಂಖ್ಯೆ",
+    pan: "ಪ್ಯಾನ್ ಸಂಖ್ಯೆ (ಐಚ್ಛಿಕ)",
+    panHint: "80G ತೆರಿಗೆ ವಿನಾಯಿತಿ ರಸೀದಿಗೆ ಅಗತ್ಯವಿದೆ",
+    address: "ವಿಳಾಸ",
+    amount: "ಮೊತ್ತ (₹)",
+    purpose: "ದೇಣಿಗೆಯ ಉದ್ದೇಶ",
+    submit: "ದೇಣಿಗೆ ನೀಡಿ",
+    success: "ನಿಮ್ಮ ದೇಣಿಗೆಯನ್ನು ದಾಖಲಿಸಲಾಗಿದೆ. ದಯವಿಟ್ಟು ಪಾವತಿಯನ್ನು ಪೂರ್ಣಗೊಳಿಸಿ.",
+    thanks: "ನಿಮ್ಮ ದೇಣಿಗೆಗೆ ಧನ್ಯವಾದಗಳು!",
+    invalidPan: "ಸರಿಯಾದ ಪ್ಯಾನ್ ಸಂಖ್ಯೆಯನ್ನು ನಮೂದಿಸಿ (ಉದಾ: ABCDE1234F)",
+    invalidAmount: "ಸರಿಯಾದ ಮೊತ್ತವನ್ನು ನಮೂದಿಸಿ",
+    failed: "ದೇಣಿಗೆಯನ್ನು ದಾಖಲಿಸಲು ವಿಫಲವಾಗಿದೆ.",
+  },
+  payment: {
+    pay: "₹{amount} ಪಾವತಿಸಿ",
+    wait: "ದಯವಿಟ್ಟು ನಿರೀಕ್ಷಿಸಿ...",
+  },
+  sevas: {
+    contactOffice:
+      "ದಯವಿಟ್ಟು ಸೇವೆಯನ್ನು ನಡೆಸುವ ದಿನಕ್ಕಿಂತ ಕನಿಷ್ಟ ಒಂದು ದಿನದ ಮುಂಚಿತವಾಗಿ ದೃಢೀಕರಣಕ್ಕಾಗಿ ದೇವಾಲಯದ ಕಚೇರಿಯನ್ನು ಸಂಪರ್ಕಿಸಿ.",
+    error: "ಸೇವೆಗಳನ್ನು ಲೋಡ್ ಮಾಡಲು ವಿಫಲವಾಗಿದೆ. ದಯವಿಟ್ಟು ನಂತರ ಪ್ರಯತ್ನಿಸಿ.",
+    noSevas: "ಯಾವುದೇ ಸೇವೆಗಳು ಲಭ್ಯವಿಲ್ಲ.",
+  },
+  sevaForm: {
+    name: "ಹೆಸರು",
+    nakshathra: "ನಕ್ಷತ್ರ",
+    rashi: "ರಾಶಿ",
+    gotra: "ಗೋತ್ರ",
+    mobileNumber: "ಫೋನ್ ಸಂಖ್ಯೆ",
+    mobileNumberConfirmation: "ಫೋನ್ ಸಂಖ್ಯೆಯ ದೃಢೀಕರಣ",
+    date: "ದಿನಾಂಕ",
+    startDate: "ಪ್ರಾರಂಭ ದಿನಾಂಕ",
+    panchanga: "ಪಂಚಾಂಗ:",
+    repeat: "ಪುನರಾವರ್ತನೆ",
+    once: "ಒಂದೇ ದಿನ",
+    endDate: "ಕೊನೆಯ ದಿನಾಂಕ",
+    preview: "ಮುಂದಿನ ಸೇವಾ ದಿನಾಂಕಗಳು",
+    more: {
+      one: "ಮತ್ತು ಇನ್ನೂ {count} ದಿನಾಂಕ",
+      other: "ಮತ್ತು ಇನ್ನೂ {count} ದಿನಾಂಕಗಳು",
+    },
+    total: {
+      one: "{count} ಸೇವೆ, ಒಟ್ಟು ₹{amount}",
+      other: "{count} ಸೇವೆಗಳು, ಒಟ್ಟು ₹{amount}",
+    },
+    chooseNakshathra: "ದಯವಿಟ್ಟು ಮೇಲೆ ನಕ್ಷತ್ರವನ್ನು ಆಯ್ಕೆಮಾಡಿ.",
+    noDates: "ಈ ಅವಧಿಯಲ್ಲಿ ಯಾವುದೇ ಸೇವಾ ದಿನಾಂಕಗಳಿಲ್ಲ.",
+    submit: "ಸೇವೆಗೆ ಅರ್ಜಿ ಸಲ್ಲಿಸಿ",
+    search: "ಹುಡುಕಲು ಟೈಪ್ ಮಾಡಿ",
+    noMatch: "ಯಾವುದೂ ಹೊಂದಿಕೆಯಾಗಿಲ್ಲ",
+    chooseFromList: "ದಯವಿಟ್ಟು ಪಟ್ಟಿಯಿಂದ ಒಂದನ್ನು ಆಯ್ಕೆಮಾಡಿ.",
+    invalidConfirmation: "ಸರಿಯಾದ 10 ಅಂಕಿ ಫೋನ್ ಸಂಖ್ಯೆಯ ದೃಢೀಕರಣ ನಮೂದಿಸಿ",
+    phoneMismatch: "ಫೋನ್ ಸಂಖ್ಯೆ ಸರಿಯಾಗಿಲ್ಲ",
+    noDatesInPeriod: "ಆಯ್ಕೆ ಮಾಡಿದ ಅವಧಿಯಲ್ಲಿ ಯಾವುದೇ ಸೇವಾ ದಿನಾಂಕಗಳಿಲ್ಲ.",
+    subscribed:
+      "ಸೇವಾ ಚಂದಾವನ್ನು ಯಶಸ್ವಿಯಾಗಿ ದಾಖಲಿಸಲಾಗಿದೆ! ಪ್ರತಿ ದಿನಾಂಕದ ಸೇವೆಯನ್ನು ದೇವಸ್ಥಾನದಲ್ಲಿ ನಡೆಸಲಾಗುತ್ತದೆ.",
+    submitted:
+      "ಸೇವಾ ಅರ್ಜಿಯನ್ನು ಯಶಸ್ವಿಯಾಗಿ ಸಲ್ಲಿಸಲಾಗಿದೆ! ದಯವಿಟ್ಟು ಈ ID ಅನ್ನು ದೇವಸ್ಥಾನದಲ್ಲಿ ತೋರಿಸಿ.",
+    failed: "ಸೇವೆಯನ್ನು ದಾಖಲಿಸಲು ವಿಫಲವಾಗಿದೆ.",
+    bookingId: "ಬುಕಿಂಗ್ ID:",
+    subscriptionId: "ಚಂದಾ ID:",
+    copy: "ನಕಲಿಸಿ",
+    copied: "ಬುಕಿಂಗ್ ID ನಕಲಿಸಲಾಗಿದೆ!",
+  },
+  booking: {
+    title: "ಹಾಲ್ ಕಾಯ್ದಿರಿಸಿ",
+    trackBooking: "ಈಗಾಗಲೇ ಕಾಯ್ದಿರಿಸಿದ್ದೀರಾ? ನಿಮ್ಮ ಬುಕ್ಕಿಂಗ್ ಸ್ಥಿತಿ ನೋಡಿ",
+    back: "ಹಿಂದೆ",
+    invalidHalls: "ದೋಷ: ಹಾಲ್‌ಗಳ ಮಾಹಿತಿ ಸರಿಯಾಗಿಲ್ಲ.",
+    hallsError: "ದೋಷ: ಹಾಲ್‌ಗಳನ್ನು ಲೋಡ್ ಮಾಡಲು ಸಾಧ್ಯವಾಗಲಿಲ್ಲ.",
+    noImages: "ಚಿತ್ರಗಳು ಲಭ್ಯವಿಲ್ಲ",
+    availability: "ಲಭ್ಯತೆ ಕ್ಯಾಲೆಂಡರ್",
+  },
+  hallForm: {
+    selectedDates: "ಆಯ್ಕೆ ಮಾಡಿದ ದಿನಾಂಕಗಳು",
+    fullName: "ಪೂರ್ಣ ಹೆಸರು",
+    reason: "ಕಾಯ್ದಿರಿಸುವ ಉದ್ದೇಶ",
+    selectReason: "ಉದ್ದೇಶವನ್ನು ಆಯ್ಕೆಮಾಡಿ",
+    reasons: {
+      Wedding: "ಮದುವೆ",
+      Upanayana: "ಉಪನಯನ",
+      Reception: "ಆರತಕ್ಷತೆ",
+      Others: "ಇತರೆ",
+    },
+    customReason: "ಇತರ ಉದ್ದೇಶ",
+    mobileNumber: "ಮೊಬೈಲ್ ಸಂಖ್ಯೆ",
+    mobilePlaceholder: "ನಿಮ್ಮ ಮೊಬೈಲ್ ಸಂಖ್ಯೆಯನ್ನು ನಮೂದಿಸಿ",
+    submit: "ಈಗ ಕಾಯ್ದಿರಿಸಿ",
+    otpSent: "OTP ಯಶಸ್ವಿಯಾಗಿ ಕಳುಹಿಸಲಾಗಿದೆ!",
+    enterOtp: "ದಯವಿಟ್ಟು OTP ನಮೂದಿಸಿ.",
+    otpVerified: "OTP ಯಶಸ್ವಿಯಾಗಿ ಪರಿಶೀಲಿಸಲಾಗಿದೆ!",
+    verifyFirst: "ಸಲ್ಲಿಸುವ ಮೊದಲು ದಯವಿಟ್ಟು OTP ಪರಿಶೀಲಿಸಿ.",
+    checkingAvailability: "ಲಭ್ಯತೆ ಪರಿಶೀಲಿಸಲಾಗುತ್ತಿದೆ...",
+    dateTaken: "ಲಭ್ಯವಿಲ್ಲ",
+    datesUnavailable:
+      "ಆಯ್ಕೆ ಮಾಡಿದ ಒಂದು ದಿನಾಂಕ ಈಗ ಲಭ್ಯವಿಲ್ಲ. ದಯವಿಟ್ಟು ಬೇರೆ ದಿನಾಂಕಗಳನ್ನು ಆಯ್ಕೆಮಾಡಿ.",
+    reserveFailed: "ಹಾಲ್ ಕಾಯ್ದಿರಿಸಲು ವಿಫಲವಾಗಿದೆ.",
+    submitFailed: "ಅರ್ಜಿ ಸಲ್ಲಿಸಲು ವಿಫಲವಾಗಿದೆ.",
+    reserved:
+      "ಹರೇ ರಾಮ!\n\nಶ್ರೀರಾಮ ದೇವಾಲಯ ಚೊಕ್ಕಾಡಿಯ ಸಭಾಂಗಣವನ್ನು ಕಾಯ್ದಿರಿಸಿದ್ದಕ್ಕಾಗಿ ಧನ್ಯವಾದಗಳು.\n\nನಿಮ್ಮ ವಿನಂತಿಯನ್ನು ಪರಿಶೀಲಿಸಲಾಗುತ್ತಿದೆ. ಬುಕ್ಕಿಂಗ್ ಅನ್ನು ಖಚಿತಪಡಿಸಲು {holdHours} ಗಂಟೆಗಳೊಳಗೆ ದೇವಾಲಯದ ಆಡಳಿತವನ್ನು ಈ ಸಂಖ್ಯೆಗಳಲ್ಲಿ ಒಂದರಲ್ಲಿ ಸಂಪರ್ಕಿಸಿ: +91 94486 25254, +91 70196 16082, 08257 200585, ಅಥವಾ +91 97412 51613.\n\nಬುಕ್ಕಿಂಗ್ ಸಂಖ್ಯೆ: {bookingId}\n\nನೀವು ನೀಡಿದ ವಿವರಗಳು:\n- ಹೆಸರು: {name}\n- ಉದ್ದೇಶ: {purpose}\n- ಮೊಬೈಲ್: {mobile}\n- ಬುಕ್ಕಿಂಗ್ ದಿನಾಂಕ(ಗಳು): {dates}\n\nಬುಕ್ಕಿಂಗ್ ಖಚಿತಪಡಿಸಲು ಅಗತ್ಯ ಪಾವತಿಯನ್ನು ಮಾಡಿ ದೇವಾಲಯದ ಆಡಳಿತವನ್ನು ಸಂಪರ್ಕಿಸಿ. ನೀಡಿದ ಸಮಯದೊಳಗೆ ಖಚಿತಪಡಿಸದಿದ್ದಲ್ಲಿ ಕಾಯ್ದಿರಿಸುವಿಕೆ ರದ್ದಾಗಬಹುದು.\n\nನಿಮ್ಮ ವಿನಂತಿಯ ಸ್ಥಿತಿಯನ್ನು ಯಾವಾಗ ಬೇಕಾದರೂ ಇಲ್ಲಿ ನೋಡಬಹುದು: {trackUrl}\n\nಧನ್ಯವಾದಗಳು,\nಶ್ರೀರಾಮ ದೇವಾಲಯ ಚೊಕ್ಕಾಡಿ",
+  },
+  news: {
+    error: "ಸುದ್ದಿಗಳನ್ನು ಲೋಡ್ ಮಾಡಲು ವಿಫಲವಾಗಿದೆ. ದಯವಿಟ್ಟು ನಂತರ ಪ್ರಯತ್ನಿಸಿ.",
+    detailError:
+      "ಸುದ್ದಿಯ ವಿವರ ಲೋಡ್ ಮಾಡಲು ವಿಫಲವಾಗಿದೆ. ದಯವಿಟ್ಟು ನಂತರ ಪ್ರಯತ್ನಿಸಿ.",
+    noNews: "ಯಾವುದೇ ಸುದ್ದಿಗಳು ಲಭ್ಯವಿಲ್ಲ.",
+    date: "ದಿನಾಂಕ: {date}",
+    readMore: "ಇನ್ನಷ್ಟು ಓದಿ",
+    share: "ಹಂಚಿಕೊಳ್ಳಿ",
+    shareText: "{title} - ಇಲ್ಲಿ ಓದಿ: {url}",
+    shareTitle: "ಈ ಸುದ್ದಿಯನ್ನು ಹಂಚಿಕೊಳ್ಳಿ",
+    copyLink: "ಲಿಂಕ್ ನಕಲಿಸಿ",
+    back: "ಹಿಂದೆ",
+  },
+  trackBooking: {
+    title: "ನನ್ನ ಬುಕ್ಕಿಂಗ್ ಸ್ಥಿತಿ",
+    intro:
+      "ನೀವು ಪಡೆದ ಬುಕ್ಕಿಂಗ್ ಐಡಿ (ಉದಾ: DES123) ಮತ್ತು ಬುಕ್ಕಿಂಗ್ ಮಾಡುವಾಗ ನೀಡಿದ ಮೊಬೈಲ್ ಸಂಖ್ಯೆಯನ್ನು ನಮೂದಿಸಿ.",
+    bookingId: "ಬುಕ್ಕಿಂಗ್ ಐಡಿ",
+    mobileNumber: "ಮೊಬೈಲ್ ಸಂಖ್ಯೆ",
+    checking: "ಪರಿಶೀಲಿಸಲಾಗುತ್ತಿದೆ...",
+    status: "ಸ್ಥಿತಿ",
+    hall: "ಸಭಾಂಗಣ",
+    date: "ದಿನಾಂಕ",
+    purpose: "ಉದ್ದೇಶ",
+    statusReason: "ಕಾರಣ",
+    name: "ಹೆಸರು",
+    invalidId: "ಸರಿಯಾದ ಬುಕ್ಕಿಂಗ್ ಐಡಿ ನಮೂದಿಸಿ, ಉದಾ: DES123.",
+    notFound: "ಈ ಐಡಿ ಮತ್ತು ಮೊಬೈಲ್ ಸಂಖ್ಯೆಗೆ ಯಾವುದೇ ಬುಕ್ಕಿಂಗ್ ಕಂಡುಬಂದಿಲ್ಲ.",
+    fetchFailed: "ಬುಕ್ಕಿಂಗ್ ಸ್ಥಿತಿಯನ್ನು ಪಡೆಯಲು ವಿಫಲವಾಗಿದೆ.",
+  },
+  administration: {
+    sevaSamithi: {
+      title: "ಶ್ರೀ ರಾಮ ಸೇವಾ ಸಮಿತಿ",
+      description:
+        "ಶ್ರೀ ರಾಮ ಸೇವಾ ಸಮಿತಿಯು ಜಗದ್ಗುರು ಶಂಕರಾಚಾರ್ಯ ಮಹಾಸಂಸ್ಥಾನಂ - ಶ್ರೀಸಂಸ್ಥಾನ ಗೋಕರ್ಣ ಶ್ರೀ ರಾಮಚಂದ್ರಾಪುರಮಠದ ಮಾರ್ಗದರ್ಶನದಲ್ಲಿ ಕಾರ್ಯನಿರ್ವಹಿಸುತ್ತದೆ, ಇದನ್ನು ಜಗದ್ಗುರು ಶಂಕರಾಚಾರ್ಯ ಮಹಾಸಂಸ್ಥಾನಂ - ಶ್ರೀಸಂಸ್ಥಾನ ಗೋಕರ್ಣ ಶ್ರೀ ರಾಮಚಂದ್ರಾಪುರಮಠ, ಪರಮಪೂಜ್ಯ ಶ್ರೀಮಜ್ಜಗದ್ಗುರು ಶಂಕರಾಚಾರ್ಯ ಶ್ರೀ ಶ್ರೀ ರಾಘವೇಶ್ವರ ಭಾರತೀ ಮಹಾಸ್ವಾಮೀಜಿಯವರು ನೇತೃತ್ವ ವಹಿಸಿದ್ದಾರೆ. ಸೇವಾ ಸಮಿತಿಯು ಮಠದ ಮಾರ್ಗದರ್ಶನದ ಪ್ರಕಾರ ದೇವಾಲಯದ ಆಧ್ಯಾತ್ಮಿಕ ಮತ್ತು ಸಾಂಸ್ಕೃತಿಕ ಮೌಲ್ಯಗಳನ್ನು ಕಾಪಾಡುತ್ತದೆ.",
+    },
+    roles: {
+      president: { title: "ಅಧ್ಯಕ್ಷರು:", name: "ಶ್ರೀ ಮಹೇಶ್ ಭಟ್ ಚೂಂತಾರು" },
+      vicePresident: { title: "ಉಪಾಧ್ಯಕ್ಷರು:", name: "ಶ್ರೀ ಕೃಷ್ಣಮೂರ್ತಿ ನೇಣಾರು" },
+      secretary: { title: "ಕಾರ್ಯದರ್ಶಿ:", name: "ಶ್ರೀ ಗಣೇಶಮೂರ್ತಿ.ಕೆ" },
+      treasurer: { title: "ಖಜಾಂಚಿ:", name: "ಶ್ರೀ ಸತ್ಯವೆಂಕಟೇಶ ಹೆಬ್ಬಾರ್" },
+    },
+    contacts: {
+      president: "ದೂರವಾಣಿ ಸಂ: +919448625254, +917019616082",
+      vicePresident: "ದೂರವಾಣಿ ಸಂ: +91 9008145925",
+    },
+    membersTitle: "ಸದಸ್ಯರು:",
+    members: {
+      anekaraGanapayya: "ಶ್ರೀ ಆನೆಕಾರ ಗಣಪಯ್ಯ",
+      gopalakrishnaBhatKatta: "ಶ್ರೀ ಗೋಪಾಲಕೃಷ್ಣ ಭಟ್‌ ಕಟ್ಟ",
+      ramachandraKote: "ಶ್ರೀ ರಾಮಚಂದ್ರ ಕೋಟೆ",
+      adarshaKrishnaNenaru: "ಶ್ರೀ ಆದರ್ಶ ಕೃಷ್ಣ ನೇಣಾರು",
+      karthikeshaHebbar: "ಶ್ರೀ ಕಾರ್ತಿಕೇಶ ಹೆಬ್ಬಾರ್",
+      krishnaprasadK: "ಶ್ರೀ ಕೃಷ್ಣಪ್ರಸಾದ್ ಕೆ",
+      praneethaVenkateshaSharma: "ಶ್ರೀ ಪ್ರಣೀತ ವೆಂಕಟೇಶ ಶರ್ಮಾ",
+      sudheshnaDeraje: "ಶ್ರೀ ಸುಧೇಷ್ಣ ದೇರಾಜೆ",
+      ashrayaNenaru: "ಶ್ರೀ ಆಶ್ರಯ ನೇಣಾರು",
+    },
+    priest: {
+      title: "ಅರ್ಚಕರು:",
+      name: "ಶ್ರೀ ರಘುರಾಮ ಶರ್ಮಾ",
+      contact: "ದೂರವಾಣಿ ಸಂ: +919741251613",
+    },
+  },
+  nearby: {
+    title: "ಸಮೀಪದ ಸ್ಥಳಗಳು",
+    viewDetails: "ಹೆಚ್ಚಿನ ವಿವರಗಳು",
+    detailsLabel: "{name} ಕುರಿತು ಹೆಚ್ಚಿನ ವಿವರಗಳು",
+    imageAlt: "{name} ಚಿತ್ರ",
+    close: "ಮುಚ್ಚಿ",
+    places: {
+      panchalingeshwaraPanja: {
+        name: "ಶ್ರೀ ಪರಿವಾರ ಪಂಚಲಿಂಗೇಶ್ವರ ದೇವಸ್ಥಾನ,ಪಂಜ",
+        description:
+          "ಶ್ರೀ ಪರಿವಾರ ಪಂಚಲಿಂಗೇಶ್ವರ ದೇವಾಲಯವು ಪಂಜ ಗ್ರಾಮದಲ್ಲಿ 13ನೇ ಶತಮಾನದಿಂದ ಇತಿಹಾಸ ಹೊಂದಿರುವ ಪವಿತ್ರ ಹಿಂದೂ ದೇವಾಲಯವಾಗಿದೆ. ಮಹಾಭಾರತದ ಕಾಲದಲ್ಲಿ ಪಾಂಡವರು ವನವಾಸದ ಸಮಯದಲ್ಲಿ ಐದು ಶಿವಲಿಂಗಗಳನ್ನು ಪ್ರತಿಷ್ಠಾಪಿಸಿದ್ದರೆಂಬ ಇತಿಹಾಸವಿದೆ. ವಿವಾಹ, ಸಂತಾನ ಫಲ, ಮತ್ತು ಮೃತ್ಯು ಕಂಟಕವಿರುವವರು ಇಲ್ಲಿ ಏಕಾದಶ ರುದ್ರಾಭಿಷೇಕ ಮಾಡಿಸಿದರೆ ನಿವಾರಣೆಯಾಗುತ್ತದೆ ಎಂಬ ನಂಬಿಕೆಯಿದೆ. ಈ ದೇವಸ್ಥಾನವು ಶ್ರೀ ಹರಿಹರೇಶ್ವರ ದೇವಾಲಯದಿಂದ ಅಂದಾಜು 18.5 ಕಿ.ಮೀ ದೂರದಲ್ಲಿದೆ. ಹೆಚ್ಚಿನ ಮಾಹಿತಿಗಾಗಿ ದಯವಿಟ್ಟು ದೇವಾಲಯವನ್ನು ಸಂಪರ್ಕಿಸಿ: 08257 278355.",
+      },
+      durgaparameshwariKanjarpane: {
+        name: "ಶ್ರೀ ದುರ್ಗಾಪರಮೇಶ್ವರಿ ದೇವಸ್ಥಾನ, ಕಂಜರ್ಪಣೆ",
+        description:
+          "ಅಮರಮುಡ್ನೂರು ಗ್ರಾಮದಲ್ಲಿ ತಾಯಿ ದುರ್ಗಾದೇವಿಯನ್ನು ಆರಾಧಿಸಲಾಗುವ ದೇವಸ್ಥಾನವಿದು. ಚೊಕ್ಕಾಡಿಯಿಂದ 5 ಕಿ.ಮೀ ದೂರದಲ್ಲಿ ಶ್ರೀ ದುರ್ಗಾಪರಮೇಶ್ವರಿ ದೇವಸ್ಥಾನವಿದೆ .",
+      },
+      ullakulu: {
+        name: "ಶ್ರೀ ಉಳ್ಳಾಕುಲು ದೈವಸ್ಥಾನ,ಚೊಕ್ಕಾಡಿ",
+        description:
+          "ಚೊಕ್ಕಾಡಿ ಉಳ್ಳಾಕುಲು ದೈವಸ್ಥಾನವು ದಕ್ಷಿಣ ಕನ್ನಡದ ಸುಳ್ಯ ತಾಲೂಕಿನ ಅಮರಪಡ್ನೂರು ಗ್ರಾಮದಲ್ಲಿರುವ ಚೊಕ್ಕಾಡಿಯಲ್ಲಿದೆ.ಇದು ತುಳುನಾಡಿನ ಪ್ರಧಾನ ದೈವವಾದ ಉಳ್ಳಾಕುಲು ದೈವಕ್ಕೆ ಸಮರ್ಪಿತವಾಗಿದೆ. ಪ್ರತಿ ವರ್ಷ ನಡೆಯುವ ನೇಮೋತ್ಸವ, ಅಡ್ಡಣಪೆಟ್ಟು ಮುಂತಾದ ವಿಶಿಷ್ಟ ವಿಧಿ ವಿಧಾನಗಳು ಇಲ್ಲಿ ನಡೆಯುತ್ತದೆ.ಈ ದೈವಸ್ಥಾನವು ಸುತ್ತಮುತ್ತಲಿನ ಗ್ರಾಮಗಳಲ್ಲಿ ಮಹತ್ವವನ್ನು ಹೊಂದಿದೆ.",
+      },
+      koteSubrahmanya: {
+        name: "ಕೋಟೆ ಶ್ರೀ ಸುಬ್ರಹ್ಮಣ್ಯ ದೇವಸ್ಥಾನ",
+        description:
+          "ಕೋಟೆ ಸುಬ್ರಹ್ಮಣ್ಯ ದೇವಸ್ಥಾನವು ದಕ್ಷಿಣ ಕನ್ನಡ ಜಿಲ್ಲೆಯ ಸುಳ್ಯ ತಾಲೂಕಿನ ಕಳಂಜ ಗ್ರಾಮದ ಸಮೀಪದಲ್ಲಿದ್ದು, ಸರ್ಪರಕ್ಷಕನಾದ ಸುಬ್ರಹ್ಮಣ್ಯ ಸ್ವಾಮಿಗೆ ಸಮರ್ಪಿತವಾಗಿದೆ. ನದಿ, ಕಾಡು, ಪರ್ವತಗಳಿಂದ ಆವರಿಸಿರುವ ಶಾಂತ ಪರಿಸರದಲ್ಲಿರುವ ಈ ದೇವಸ್ಥಾನ ಭಕ್ತರಿಗೆ ರಕ್ಷಣಾ ಕೃಪೆ, ಜ್ಞಾನ ಮತ್ತು ಆರೋಗ್ಯದ ಆಶೀರ್ವಾದಕ್ಕಾಗಿ ಪ್ರಸಿದ್ಧವಾಗಿದೆ. ಶ್ರೀರಾಮ ದೇವಾಲಯದಿಂದ 4.7 ಕಿಮೀ ದೂರದಲ್ಲಿದೆ.",
+      },
+      kanchoduManjunatheshwara: {
+        name: "ಕಾಂಚೋಡು ಶ್ರೀ ಮಂಜುನಾಥೇಶ್ವರ ದೇವಸ್ಥಾನ",
+        description:
+          "ಭಗವಾನ್ ಶಂಕರನನ್ನು ಪೂಜಿಸಲಾಗುವ ರಾಜ್ಯದ ಪ್ರಸಿದ್ಧ ಹಿಂದು ಕ್ಷೇತ್ರವಿದು. ಶ್ರೀರಾಮ ದೇವಾಲಯದಿಂದ 6.7 ಕಿಮೀ ದೂರದಲ್ಲಿದೆ.",
+      },
+      ajapilaMahalingeshwara: {
+        name: "ಅಜಪಿಲ ಶ್ರೀ ಮಹಾಲಿಂಗೇಶ್ವರ ದೇವಸ್ಥಾನ",
+        description:
+          "ಸುಳ್ಯ ತಾಲೂಕಿನ ಬೆಳ್ಳಾರೆ ಪಟ್ಟಣದಲ್ಲಿರುವ ಮುಖ್ಯ ಕ್ಷೇತ್ರ.ಭಗವಾನ್‌ ಶಂಕರನನ್ನು ಪೂಜಿಸಲ್ಪಡುವ ದೇವಸ್ಥಾನವಿದು. ಇದು ಚೊಕ್ಕಾಡಿಯಿಂದ 8.9 ಕಿ.ಮೀ ದೂರದಲ್ಲಿದೆ.",
+      },
+      panchalingeshwaraIvarnadu: {
+        name: "ಶ್ರೀ ಪಂಚಲಿಂಗೇಶ್ವರ ದೇವಸ್ಥಾನ, ಐವರ್ನಾಡು",
+        description:
+          "ಶ್ರೀ ಪಂಚಲಿಂಗೇಶ್ವರ ದೇವಸ್ಥಾನ, ಸುಳ್ಯ-ಬೆಳ್ಳಾರೆ ರಸ್ತೆಯಲ್ಲಿರುವ ಐವರ್ನಾಡು ಗ್ರಾಮದಲ್ಲಿ ಶಿವ ದೇವರ ಪ್ರಾಚೀನ ದೇವಸ್ಥಾನ. ಇದು ಚೊಕ್ಕಾಡಿಯಿಂದ 10.1 ಕಿ.ಮೀ ದೂರದಲ್ಲಿದೆ.",
+      },
+      jaladurgaPeruvaje: {
+        name: "ಶ್ರೀ ಜಲದುರ್ಗಾ ದೇವಿ ದೇವಸ್ಥಾನ, ಪೆರುವಾಜೆ",
+        description:
+          "ಶ್ರೀ ಜಲದುರ್ಗಾ ದೇವಿ ದೇವಾಲಯ ಸುಳ್ಯ ತಾಲೂಕಿನ ಪೆರುವಾಜೆಯಲ್ಲಿದೆ. ತಾಯಿ ದುರ್ಗೆಗೆ ಮೀಸಲಾಗಿರುವ ಐತಿಹಾಸಿಕ ಹಿಂದು ದೇವಾಲಯವಾಗಿದೆ. ಈ ದೇವಾಲಯವು ಪ್ರತಿವರ್ಷ ನಡೆಯುವ ಜಾತ್ರೆ ಮಹೋತ್ಸವ ಮತ್ತು ಬ್ರಹ್ಮರಥೋತ್ಸವಕ್ಕೆ ಪ್ರಸಿದ್ಧವಾಗಿದೆ, ಇದು ಸಾವಿರಾರು ಭಕ್ತರನ್ನು ಆಕರ್ಷಿಸುತ್ತದೆ.",
+      },
+      chennakeshavaSullia: {
+        name: "ಶ್ರೀ ಚೆನ್ನಕೇಶವ ದೇವಸ್ಥಾನ, ಸುಳ್ಯ",
+        description:
+          "ಸುಳ್ಯದಲ್ಲಿರುವ 850 ವರ್ಷಗಳ ಹಿಂದಿನ ಈ ಪ್ರಾಚೀನ ದೇವಸ್ಥಾನ ಶ್ರೀ ಚೆನ್ನಕೇಶವನಿಗೆ ಮೀಸಲಾಗಿದ್ದು ಚೊಕ್ಕಾಡಿಯಿಂದ 11.7 ಕಿ.ಮೀ ದೂರದಲ್ಲಿದೆ.",
+      },
+      mallikarjunaThodikana: {
+        name: "ಶ್ರೀ ಮಲ್ಲಿಕಾರ್ಜುನ ದೇವಸ್ಥಾನ, ತೊಡಿಕಾನ",
+        description:
+          "ತೊಡಿಕಾನ ಶ್ರೀ ಮಲ್ಲಿಕಾರ್ಜುನ ದೇವಸ್ಥಾನವು ದಕ್ಷಿಣ ಕನ್ನಡ ಜಿಲ್ಲೆಯ ಸುಳ್ಯ ತಾಲೂಕಿನ ಸುಂದರವಾದ ಕಾಡುಪ್ರದೇಶದ ಮಧ್ಯದಲ್ಲಿ ಸ್ಥಿತವಾಗಿದೆ. ಇದು ಶಿವನಿಗೆ ಸಮರ್ಪಿತ ಪ್ರಾಚೀನ ದೇವಾಲಯವಾಗಿದ್ದು, ಭಕ್ತರು ಶ್ರದ್ಧೆಯಿಂದ ಪೂಜಿಸಿ ದೇವರ ಆಶೀರ್ವಾದ ಪಡೆಯುತ್ತಾರೆ. ಇದು ಚೊಕ್ಕಾಡಿಯಿಂದ 28.6 ಕಿ.ಮೀ ದೂರದಲ್ಲಿದೆ.",
+      },
+      kukkeSubrahmanya: {
+        name: "ಕುಕ್ಕೆ ಶ್ರೀ ಸುಬ್ರಹ್ಮಣ್ಯ ದೇವಸ್ಥಾನ",
+        description:
+          "ಕುಕ್ಕೆ ಸುಬ್ರಹ್ಮಣ್ಯ ಕರ್ನಾಟಕದ ಪ್ರಸಿದ್ಧ ಹಿಂದೂ ದೇವಸ್ಥಾನವಾಗಿದ್ದು, ನಾಗನ ರೂಪದಲ್ಲಿ ಶ್ರೀ ಸುಬ್ರಹ್ಮಣ್ಯ ದೇವರನ್ನು ಆರಾಧಿಸಲಾಗುತ್ತದೆ. ಪಶ್ಚಿಮ ಘಟ್ಟಗಳ ತಪ್ಪಲಿನಲ್ಲಿ ನೆಲೆಸಿರುವ ಈ ಕ್ಷೇತ್ರ ಸರ್ಪ ಸಂಸ್ಕಾರ ಮತ್ತು ಅಶ್ಲೇಷ ಬಲಿ ಮುಂತಾದ ಸರ್ಪ ದೋಷದ ನಿವಾರೆಣೆಗೆ ಮಾಡುವ ಸೇವೆಗಳಿಗೆ ಪ್ರಮುಖ ತೀರ್ಥ ಕ್ಷೇತ್ರವಾಗಿದೆ. ಇದು ಚೊಕ್ಕಾಡಿಯಿಂದ 31.7 ಕಿ.ಮೀ ದೂರದಲ್ಲಿದೆ.",
+      },
+      harihareshwara: {
+        name: "ಶ್ರೀ ಹರಿಹರೇಶ್ವರ ದೇವಸ್ಥಾನ,ಹರಿಹರಪಳ್ಳತ್ತಡ್ಕ",
+        description:
+          "ಈ ಪ್ರಾಚೀನ ದೇವಸ್ಥಾನ ಹರಿಹರಪಳ್ಳತಡ್ಕ ಗ್ರಾಮದಲ್ಲಿದ್ದು, ಚೊಕ್ಕಾಡಿಯಿಂದ 29.1 ಕಿ.ಮೀ ದೂರದಲ್ಲಿದೆ. ಇದು ಹರಿ (ವಿಷ್ಣು) ಮತ್ತು ಹರರ (ಶಿವ) ದಿವ್ಯ ಸನ್ನಿಧಿಯನ್ನು ಹೊಂದಿದ ಕ್ಷೇತ್ರವಾಗಿದೆ. ಈ ದೇವಸ್ಥಾನದಿಂದ ಶೇಷ ಪರ್ವತ ಹಾಗು ಪಶ್ಚಿಮ ಘಟ್ಟದ ಪರ್ವತಗಳ ಸಾಲನ್ನು ಕಾಣಬಹುದು. ಇದು ಶನಿ ಪೂಜೆಗೆ ಪ್ರಸಿದ್ಧವಾದ ಕ್ಷೇತ್ರವಾಗಿದೆ. ಹೆಚ್ಚಿನ ಮಾಹಿತಿಗಾಗಿ ಮತ್ತು ಸೇವಾ ಬುಕಿಂಗ್‌ಗಾಗಿ ದಯವಿಟ್ಟು ವೆಬ್‌ಸೈಟ್‌ಗೆ ಭೇಟಿ ನೀಡಿ:",
+      },
+      durgaparameshwariMarakatha: {
+        name: "ಶ್ರೀ ದುರ್ಗಾಪರಮೇಶ್ವರಿ ದೇವಸ್ಥಾನ, ಮರಕತ",
+        description:
+          "ಸುಳ್ಯ ತಾಲೂಕಿನ ಮರಕತದಲ್ಲಿರುವ ಶ್ರೀ ದುರ್ಗಾಪರಮೇಶ್ವರಿ ದೇವಸ್ಥಾನವು ದುರ್ಗಾಪರಮೇಶ್ವರಿ ತಾಯಿ ದುರ್ಗೆಗೆ ಅರ್ಪಿತವಾದ ಹಿಂದೂ ದೇವಾಲಯವಾಗಿದೆ.ಸುಳ್ಯದಿಂದ 25 ಕಿಲೋಮೀಟರ್ ಮತ್ತು ಚೊಕ್ಕಾಡಿಯಿಂದ 26.8 ಕಿಲೋಮೀಟರ್ ದೂರದಲ್ಲಿರುವ ಈ ದೇವಾಲಯವನ್ನು ಸ್ಥಳೀಯ ಆಡಳಿತವು ದೇವಾಲಯವನ್ನು ನೋಡಿಕೊಳ್ಳುತ್ತದೆ, ಇಲ್ಲಿ ವಿವಿಧ ಪೂಜೆಗಳು ಮತ್ತು ಉತ್ಸವಗಳು ನಡೆಯುತ್ತವೆ. ಹೆಚ್ಚಿನ ಮಾಹಿತಿಗಾಗಿ ದೇವಾಲಯದ ದೂರವಾಣಿ ಸಂಖ್ಯೆ 08257 282166 ಕರೆ ಮಾಡಬಹುದು.",
+      },
+      basaveshwara: {
+        name: "ಕುಲ್ಕುಂದ ಶ್ರೀ ಬಸವೇಶ್ವರ ದೇವಸ್ಥಾನ",
+        description:
+          "ಶ್ರೀ ರಾಮ ದೇವಾಲಯದಿಂದ 36.1 ಕಿಮೀ ದೂರದಲ್ಲಿರುವ ಈ ಸ್ಥಳವು ಕುಲ್ಕುಂದದಲ್ಲಿ ಇದೆ ಹಾಗು ಇದು ಸುಬ್ರಹ್ಮಣ್ಯದಿಂದ ಕೇವಲ 2 ಕಿಮೀ ದೂರದಲ್ಲಿದೆ. ಇಲ್ಲಿ ಶಿವ ದೇವರನ್ನು ಬಸವ (ಬಸವ) ರೂಪದಲ್ಲಿ ಪೂಜಿಸಲಾಗುತ್ತದೆ. ಸುಬ್ರಹ್ಮಣ್ಯ ದೇವರು ತಾರಕಾಸುರನ ಜೊತೆಗೆ ಯುದ್ಧ ಮಾಡಿದ ಸಂದರ್ಭದಲ್ಲಿ ಭಗವಾನ್ ಶಂಕರ ಬಸವನ ರೂಪದಲ್ಲಿ ಈ ಸ್ಥಳದಲ್ಲಿ ನೆಲೆ ನಿಂತು ಸುಬ್ರಹ್ಮಣ್ಯ ದೇವರಿಗೆ ಮಾರ್ಗದರ್ಶನ ನೀಡಿದರು ಎಂದು ಇಲ್ಲಿನ ಇತಿಹಾಸ ಹೇಳುತ್ತದೆ.",
+      },
+      mahalingeshwaraPuttur: {
+        name: "ಮಹತೋಭಾರ ಶ್ರೀ ಮಹಾಲಿಂಗೇಶ್ವರ ದೇವಸ್ಥಾನ, ಪುತ್ತೂರು",
+        description:
+          "ಮಹತೋಭಾರ ಶ್ರೀ ಮಹಾಲಿಂಗೇಶ್ವರ ದೇವಸ್ಥಾನವು ದಕ್ಷಿಣ ಕನ್ನಡ ಜಿಲ್ಲೆಯ ಪುತ್ತೂರಿನಲ್ಲಿರುವ 12ನೇ ಶತಮಾನದ ಶಿವನಿಗೆ ಮೀಸಲಾಗಿರುವ ಪ್ರಸಿದ್ಧ ದೇವಾಲಯವಾಗಿದೆ.ಇದು ಚೊಕ್ಕಾಡಿಯಿಂದ 41.9 ಕಿ.ಮೀ ದೂರದಲ್ಲಿದೆ.",
+      },
+      dharmasthala: {
+        name: "ಶ್ರೀ ಕ್ಷೇತ್ರ ಧರ್ಮಸ್ಥಳ",
+        description:
+          "ಭಗವಾನ್ ಶಂಕರನನ್ನು ಪೂಜಿಸಲಾಗುವ ರಾಜ್ಯದ ಪ್ರಸಿದ್ಧ ಹಿಂದು ಕ್ಷೇತ್ರವಿದು. ಶ್ರೀರಾಮ ದೇವಾಲಯದಿಂದ 59.7 ಕಿಮೀ ದೂರದಲ್ಲಿದೆ.",
+      },
+      bisleGhat: {
+        name: "ಬಿಸ್ಲೆ ಘಾಟ್ ವೀಕ್ಷಣಾ ಸ್ಥಳ",
+        description:
+          "ಕುಮಾರ ಪರ್ವತ ಮತ್ತು ಪಶ್ಚಿಮ ಘಟ್ಟಗಳ ವಿಹಂಗಮ ನೋಟಕ್ಕೆ ಪ್ರಸಿದ್ಧಿಯಾಗಿರುವ ಈ ಸ್ಥಳವು ದಕ್ಷಿಣ ಕನ್ನಡ, ಹಾಸನ ಮತ್ತು ಕೊಡಗು ಜಿಲ್ಲೆಗಳ ಸಂಗಮವಾಗುವ ವೀಕ್ಷಣಾ ಸ್ಥಳವಾಗಿದ್ದು, ಚೊಕ್ಕಾಡಿಯಿಂದ 56.3 ಕಿ.ಮೀ ದೂರದಲ್ಲಿದೆ.",
+      },
+      patlaBetta: {
+        name: "ಪಟ್ಲ ಬೆಟ್ಟ",
+        description:
+          "ಚೊಕ್ಕಾಡಿಯಿಂದ 64.4 ಕಿಮೀ ದೂರದಲ್ಲಿರುವ ಈ ಸ್ಥಳವು ಸಕಲೇಶಪುರದಲ್ಲಿ ಇರುವ ಒಂದು ಪ್ರಸಿದ್ಧ ಶಿಖರ. ಇಲ್ಲಿಂದ ಕುಮಾರ ಪರ್ವತ ಹಾಗು ಪುಷ್ಪಗಿರಿ ಸಾಲಿನ ಪರ್ವತ ಶಿಖರಗಳು ಕಾಣಲು ಸಿಗುತ್ತದೆ.",
+      },
+      mallalliFalls: {
+        name: "ಮಲ್ಲಳ್ಳಿ ಜಲಪಾತ",
+        description:
+          "ಶ್ರೀ ರಾಮ ದೇವಾಲಯದಿಂದ 81.2 ಕಿಮೀ ದೂರದಲ್ಲಿರುವ ಕುಮಾರಧಾರ ನದಿಯಿಂದ ನಿರ್ಮಾಣಗೊಳ್ಳುವ ಈ 200 ಅಡಿ ಎತ್ತರದ ಜಲಪಾತವನ್ನು ನೋಡಲು ಮಳೆಗಾಲ ಹೇಳಿದ ಸಮಯ.",
+      },
+      kumaraParvatha: {
+        name: "ಕುಮಾರ ಪರ್ವತ ಚಾರಣ",
+        description:
+          "ಪುಷ್ಪಗಿರಿ ಎಂದೇ ಪ್ರಸಿದ್ಧ, ಪಶ್ಚಿಮ ಘಟ್ಟಗಳ ಸಾಲಿನಲ್ಲಿರುವ ಕರ್ನಾಟಕ ರಾಜ್ಯದ ನಾಲ್ಕನೇ ಎತ್ತರದ ಶಿಖರವಾಗಿದೆ ಕುಕ್ಕೆ ಸುಬ್ರಹ್ಮಣ್ಯದಿಂದ ಆರಂಭವಾಗುವ ಚಾರಣ ದಕ್ಷಿಣ ಭಾರತದ ಕಠಿಣ ಚಾರಣಗಳಲ್ಲಿ ಒಂದು. ಚಾರಣ ಆರಂಭಗೊಳ್ಳುವ ಸ್ಥಳವಾದ ಸುಬ್ರಹ್ಮಣ್ಯದ ದೇವರಗದ್ದೆ ಶ್ರೀ ರಾಮ ದೇವಾಲಯದಿಂದ 34.4 ಕಿಮೀ ದೂರದಲ್ಲಿದೆ.",
+      },
+    },
+  },
+};
+
+export default kn;
@@ -0,0 +1,54 @@
+import type { PartialMessages } from "../index";
+
+// Tulu UI text, keyed like messages/en.ts. Only the navigation and the main
+// headings are translated so far; everything else is shown in Kannada.
+const tcy: PartialMessages = {
+  nav: {
+    templeName: "ಶ್ರೀರಾಮ ದೇವಸ್ಥಾನ",
+    home: "ಮುಖಪುಟ",
+    about: "ದೇವಸ್ಥಾನೊದ ವಿವರ",
+    history: "ಇತಿಹಾಸ",
+    timings: "ದೇವಸ್ಥಾನೊದ ಪೊರ್ತು",
+    calendar: "ದೇವಸ್ಥಾನೊದ ಪಂಚಾಂಗ",
+    administration: "ಸೇವಾ ಸಮಿತಿ",
+    facilities: "ಸೌಲಭ್ಯೊಲು",
+    events: "ಉತ್ಸವೊಲು",
+    news: "ಮುಖ್ಯ ಸುದ್ದಿಲು",
+    donations: "ದೇಣಿಗೆ",
+    gallery: "ಗ್ಯಾಲರಿ",
+    contact: "ಸಂಪರ್ಕ",
+  },
+  footer: {
+    templeName: "ಶ್ರೀರಾಮ ದೇವಸ್ಥಾನ",
+    links: {
+      home: "ಮುಖಪುಟ",
+      about: "ದೇವಸ್ಥಾನೊದ ವಿವರ",
+      news: "ಸುದ್ದಿಲು",
+      gallery: "ಗ್ಯಾಲರಿ",
+    },
+  },
+  timings: {
+    title: "ದೇವಸ್ಥಾನೊದ ಪೊರ್ತು",
+    today: {
+      title: "ಇನಿತ ಪೊರ್ತು",
+    },
+  },
+  home: {
+    welcomeTitle: "ಶ್ರೀರಾಮ ದೇವಸ್ಥಾನೊಗು ಸ್ವಾಗತ",
+    readMore: "ನನ ಓದುಲೆ",
+  },
+  calendar: {
+    title: "ದೇವಸ್ಥಾನೊದ ಪಂಚಾಂಗ",
+  },
+  events: {
+    title: "ದೇವಸ್ಥಾನೊದ ಉತ್ಸವೊಲು",
+  },
+  history: {
+    title: "ಇತಿಹಾಸ",
+  },
+  gallery: {
+    title: "ಗ್ಯಾಲರಿ",
+  },
+};
+
+export default tcy;
@@ -0,0 +1,43 @@
+import { Locale, isLocale } from "./index";
+
+// Public pages are served under a locale prefix, /en/temple or /kn/temple.
+// middleware.ts strips the prefix before routing and hands the locale to the
+// root layout in LOCALE_HEADER; LOCALE_COOKIE remembers the last one used.
+
+export const DEFAULT_LOCALE: Locale = "en";
+
+export const LOCALE_HEADER = "x-locale";
+
+export const LOCALE_COOKIE = "locale";
+
+// "/events" → "/kn/events"; the home page is just "/kn"
+export const localizePath = (locale: Locale, path: string) =>
+  path === "/" ? `/${locale}` : `/${locale}${path}`;
+
+// "/kn/events" → { locale: "kn", path: "/events" }; no locale if the path
+// has no prefix
+export const splitLocale = (
+  pathname: string
+): { locale: Locale | null; path: string } => {
+  const [, first, ...rest] = pathname.split("/");
+  if (!isLocale(first)) return { locale: null, path: pathname };
+  return { locale: first, path: `/${rest.join("/")}` };
+};
+
+// The best supported language in an Accept-Language header, e.g.
+// "kn-IN,kn;q=0.9,en;q=0.8" → "kn"
+export const negotiateLocale = (acceptLanguage: string | null) => {
+  const ranked = (acceptLanguage ?? "")
+    .split(",")
+    .map((part) => {
+      const [tag, ...options] = part.trim().split(";");
+      const quality = options.find((option) => option.trim().startsWith("q="));
+      return {
+        language: tag.split("-")[0].toLowerCase(),
+        quality: quality ? Number(quality.trim().slice(2)) : 1,
+      };
+    })
+    .filter(({ quality }) => quality > 0)
+    .sort((a, b) => b.quality - a.quality);
+  return ranked.map(({ language }) => language).find(isLocale);
+};
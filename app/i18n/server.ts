@@ -0,0 +1,10 @@
+import { headers } from "next/headers";
+import { Locale, isLocale } from "./index";
+import { DEFAULT_LOCALE, LOCALE_HEADER } from "./routing";
+
+// The locale of the page being rendered, set by middleware.ts for /en/...
+// and /kn/...; admin pages have none
+export const requestLocale = async (): Promise<Locale> => {
+  const requested = (await headers()).get(LOCALE_HEADER);
+  return isLocale(requested) ? requested : DEFAULT_LOCALE;
+};
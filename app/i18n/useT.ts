@@ -0,0 +1,52 @@
+import { useCallback } from "react";
+import { useSelector } from "react-redux";
+import { RootState } from "../store";
+import {
+  DataLocale,
+  Locale,
+  MessageKey,
+  MessageParams,
+  Namespace,
+  dataLocale,
+  translate,
+} from "./index";
+import { localizePath } from "./routing";
+import { Translatable, localizedField } from "./content";
+
+export const useLocale = (): Locale =>
+  useSelector((state: RootState) => state.locale.locale);
+
+// The locale to show English/Kannada data in, see dataLocale
+export const useDataLocale = (): DataLocale => dataLocale(useLocale());
+
+// Reads a field of a hall, seva, news item or event in the current locale:
+//   const localized = useLocalized();
+//   localized(hall, "name");
+export const useLocalized = () => {
+  const locale = useLocale();
+  return useCallback(
+    <R extends Translatable>(record: R, field: keyof R & string) =>
+      localizedField(record, field, locale),
+    [locale]
+  );
+};
+
+// Translator for one namespace of the catalog in the current locale:
+//   const t = useT("temple");
+//   t("title"); t("days", { count: 3 });
+export const useT = <N extends Namespace>(namespace: N) => {
+  const locale = useLocale();
+  return useCallback(
+    (key: MessageKey<N>, params?: MessageParams) =>
+      translate(locale, namespace, key, params),
+    [locale, namespace]
+  );
+};
+
+// Links within the site keep the current locale:
+//   const localePath = useLocalePath();
+//   <Link href={localePath("/events")}>
+export const useLocalePath = () => {
+  const locale = useLocale();
+  return useCallback((path: string) => localizePath(locale, path), [locale]);
+};
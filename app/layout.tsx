@@ -5,6 +5,11 @@ import Navbar from "./components/navbar";
 import FooterWrapper from "./components/footer-wrapper";
 import ReduxProvider from "./components/redux-provider"; // ✅ Import Client Wrapper for Redux
 
+import { metadata as siteMetadata } from "./metadata";
+import { requestLocale } from "./i18n/server";
+
+export const metadata = siteMetadata;
+
 const geistSans = localFont({
   src: "./fonts/GeistVF.woff",
   variable: "--font-geist-sans",
@@ -21,15 +26,12 @@ interface LayoutProps {
   children: React.ReactNode;
 }
 
-export default function RootLayout({ children }: LayoutProps) {
+export default async function RootLayout({ children }: LayoutProps) {
+  const locale = await requestLocale();
+
   return (
-    <html lang="en">
+    <html lang={locale}>
       <head>
-        <title>Shrirama Temple, Chokkadi</title> {/* ✅ Global title */}
-        <meta
-          name="description"
-          content="Explore the rich heritage and spiritual essence of Shrirama Temple, Chokkadi."
-        />
         {/* Google Analytics script */}
         <Script
           src="https://www.googletagmanager.com/gtag/js?id=GA_TRACKING_ID"
@@ -59,7 +61,7 @@ export default function RootLayout({ children }: LayoutProps) {
       <body
         className={`${geistSans.variable} ${geistMono.variable} antialiased`}
       >
-        <ReduxProvider>
+        <ReduxProvider locale={locale}>
           {" "}
           {/* ✅ Wrap everything inside Redux Provider */}
           <div className="flex flex-col min-h-screen">
@@ -1,4 +1,23 @@
 import { Metadata } from "next";
+import { cache } from "react";
+import { fetchBackendData } from "../../api/backend";
+import JsonLd from "../../components/JsonLd";
+import { breadcrumbJsonLd, newsArticleJsonLd } from "../../seo/structuredData";
+
+interface ApiNewsDetail {
+  news_id: number;
+  title: string;
+  content: string;
+  created_at: string;
+  updated_at?: string;
+  NewsImages?: { Images: { public_url: string; alt_text: string } | null }[];
+}
+
+// Shared by the metadata and the structured data, so the news item is only
+// fetched once per request
+const loadNews = cache((newsId: string) =>
+  fetchBackendData<ApiNewsDetail>(`/news-updates/${newsId}`)
+);
 
 export async function generateMetadata({
   params,
@@ -31,18 +50,7 @@ export async function generateMetadata({
   }
 
   try {
-    // ✅ Fetch data from the API (using a proxy path)
-    const res = await fetch(
-      `${process.env.NEXT_PUBLIC_SITE_URL}/api/news-updates/${newsId}`,
-      {
-        cache: "no-store",
-      }
-    );
-
-    if (!res.ok)
-      throw new Error(`Failed to fetch news details for newsId: ${newsId}`);
-
-    const { data } = await res.json();
+    const data = await loadNews(newsId);
 
     console.log("Fetched metadata data:", JSON.stringify(data, null, 2));
 
@@ -102,10 +110,40 @@ export async function generateMetadata({
   }
 }
 
-export default function NewsDetailLayout({
+export default async function NewsDetailLayout({
   children,
+  params,
 }: {
   children: React.ReactNode;
+  params: Promise<{ newsId: string }>;
 }) {
-  return <>{children}</>;
+  const { newsId } = await params;
+  // The page shows its own error if the news item cannot be loaded
+  const news = await loadNews(newsId).catch(() => null);
+
+  return (
+    <>
+      {news && (
+        <JsonLd
+          data={[
+            newsArticleJsonLd({
+              id: news.news_id,
+              title: news.title,
+              content: news.content,
+              publishedAt: news.created_at,
+              modifiedAt: news.updated_at,
+              images: (news.NewsImages || []).flatMap((image) =>
+                image.Images ? [image.Images.public_url] : []
+              ),
+            }),
+            breadcrumbJsonLd([
+              { name: "News & Updates", path: "/newsupdates" },
+              { name: news.title, path: `/newsupdates/${news.news_id}` },
+            ]),
+          ]}
+        />
+      )}
+      {children}
+    </>
+  );
 }
@@ -2,8 +2,8 @@
 
 import { useParams, useRouter } from "next/navigation";
 import { useEffect, useState, useCallback } from "react";
-import { useSelector } from "react-redux";
-import { RootState } from "../../store";
+import { useLocalized, useT } from "../../i18n/useT";
+import { Translations } from "../../i18n/content";
 import LoadingSpinner from "../../components/LoadingSpinner";
 import Image from "next/image";
 
@@ -13,6 +13,7 @@ interface NewsDetail {
   content: string;
   title_kannada?: string;
   content_kannada?: string;
+  translations?: Translations | null; // Other languages
   created_at: string;
   images: { public_url: string; alt_text: string }[];
 }
@@ -21,14 +22,13 @@ const NewsDetail = () => {
   const { newsId } = useParams();
   const [newsDetail, setNewsDetail] = useState<NewsDetail | null>(null);
   const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState(false);
   const [currentImageIndex, setCurrentImageIndex] = useState<number | null>(
     null
   );
 
-  const showKannada = useSelector(
-    (state: RootState) => state.locale.locale === "kn"
-  );
+  const localized = useLocalized();
+  const t = useT("news");
   const router = useRouter();
 
   const fetchNewsDetail = useCallback(async () => {
@@ -52,7 +52,7 @@ const NewsDetail = () => {
       });
     } catch (err) {
       console.error(err);
-      setError("Failed to load news detail. Please try again later.");
+      setError(true);
     } finally {
       setLoading(false);
     }
@@ -88,7 +88,8 @@ const NewsDetail = () => {
   };
 
   if (loading) return <LoadingSpinner />;
-  if (error) return <p className="text-green-600 text-center">{error}</p>;
+  if (error)
+    return <p className="text-green-600 text-center">{t("detailError")}</p>;
 
   return (
     <div className="container mx-auto p-6 bg-[#FFFFCC]">
@@ -96,18 +97,20 @@ const NewsDetail = () => {
         onClick={handleBackButtonClick}
         className="mb-4 px-4 py-2 text-white bg-orange-600 hover:bg-orange-700 rounded-lg shadow-md"
       >
-        &larr; Back
+        &larr; {t("back")}
       </button>
       {newsDetail && (
         <div className="bg-[#FFFFE0] rounded-lg shadow-md p-6">
           <h1 className="text-4xl font-bold text-green-700 mb-4">
-            {showKannada ? newsDetail.title_kannada : newsDetail.title}
+            {localized(newsDetail, "title")}
           </h1>
           <p className="text-sm text-green-600 mb-4">
-            Date: {new Date(newsDetail.created_at).toLocaleDateString()}
+            {t("date", {
+              date: new Date(newsDetail.created_at).toLocaleDateString(),
+            })}
           </p>
           <p className="text-green-700 text-lg mb-4">
-            {showKannada ? newsDetail.content_kannada : newsDetail.content}
+            {localized(newsDetail, "content")}
           </p>
           <div className="flex justify-center flex-wrap gap-4">
             {newsDetail.images.map((image, idx) => (
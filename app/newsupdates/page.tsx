@@ -2,8 +2,8 @@
 
 import { useEffect, useState, useRef,useCallback } from "react";
 import LoadingSpinner from "../components/LoadingSpinner";
-import { useSelector } from "react-redux";
-import { RootState } from "../store";
+import { useLocalePath, useLocalized, useT } from "../i18n/useT";
+import { Translations } from "../i18n/content";
 import { useRouter } from "next/navigation";
 import Image from "next/image";
 import { Share2, Copy, Facebook, Twitter, MessageCircle, X } from "lucide-react";
@@ -19,6 +19,7 @@ interface NewsUpdate {
   content: string;
   title_kannada?: string;
   content_kannada?: string;
+  translations?: Translations | null; // Other languages
   created_at: string;
   images: NewsImage[];
 }
@@ -30,6 +31,7 @@ interface NewsDataResponse {
     content: string;
     title_kannada?: string;
     content_kannada?: string;
+    translations?: Translations | null;
     created_at: string;
     NewsImages: { Images: NewsImage[] }[]; 
   }[];
@@ -44,6 +46,7 @@ const SharePopup = ({
   text: string;
   onClose: () => void;
 }) => {
+  const t = useT("news");
   const popupRef = useRef<HTMLDivElement>(null);
 
   const handleClickOutside = useCallback((event: MouseEvent) => {
@@ -61,7 +64,7 @@ const SharePopup = ({
 
   const shareOptions = [
     {
-      name: "Copy Link",
+      name: t("copyLink"),
       icon: Copy,
       action: () => {
         navigator.clipboard.writeText(url);
@@ -89,7 +92,7 @@ const SharePopup = ({
     <div className="fixed inset-0 flex items-center justify-center bg-black bg-opacity-50 z-50">
       <div ref={popupRef} className="bg-white p-5 rounded-lg shadow-lg w-80">
         <div className="flex justify-between items-center mb-4">
-          <h2 className="text-lg font-bold">Share this News</h2>
+          <h2 className="text-lg font-bold">{t("shareTitle")}</h2>
           <button onClick={onClose}>
             <X className="w-5 h-5 text-gray-600 hover:text-black" />
           </button>
@@ -117,10 +120,12 @@ const SharePopup = ({
 export default function NewsUpdates(): JSX.Element {
   const [newsUpdates, setNewsUpdates] = useState<NewsUpdate[]>([]);
   const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState(false);
   const [shareData, setShareData] = useState<{ url: string; text: string } | null>(null);
 
-  const showKannada = useSelector((state: RootState) => state.locale.locale === "kn");
+  const localized = useLocalized();
+  const t = useT("news");
+  const localePath = useLocalePath();
   const router = useRouter();
 
   const fetchNewsUpdates = async () => {
@@ -137,6 +142,7 @@ export default function NewsUpdates(): JSX.Element {
         content: news.content,
         title_kannada: news.title_kannada,
         content_kannada: news.content_kannada,
+        translations: news.translations,
         created_at: new Date(news.created_at).toLocaleDateString(),
         images: news.NewsImages.flatMap((newsImage) => newsImage.Images),
        
@@ -145,7 +151,7 @@ export default function NewsUpdates(): JSX.Element {
       setNewsUpdates(formattedNews);
     } catch (err) {
       console.error(err);
-      setError("Failed to load news updates. Please try again later.");
+      setError(true);
     } finally {
       setLoading(false);
     }
@@ -156,12 +162,15 @@ export default function NewsUpdates(): JSX.Element {
   }, []);
 
   const openNewsDetail = (news: NewsUpdate) => {
-    router.push(`/newsupdates/${news.news_id}`);
+    router.push(localePath(`/newsupdates/${news.news_id}`));
   };
 
   const shareNews = async (news: NewsUpdate) => {
-    const url = `${window.location.origin}/newsupdates/${news.news_id}`;
-    const text = `${showKannada ? news.title_kannada : news.title} - Read more at ${url}`;
+    const url = `${window.location.origin}${localePath(`/newsupdates/${news.news_id}`)}`;
+    const text = t("shareText", {
+      title: localized(news, "title"),
+      url,
+    });
 
     try {
       if (navigator.share) {
@@ -182,10 +191,10 @@ export default function NewsUpdates(): JSX.Element {
   return (
     <main className="min-h-screen flex flex-col items-center p-6 bg-[var(--background)] font-serif">
       <div className="container mx-auto p-6">
-        {error && <p className="text-red-500 text-center">{error}</p>}
+        {error && <p className="text-red-500 text-center">{t("error")}</p>}
         {loading && <LoadingSpinner />}
         {!loading && newsUpdates.length === 0 && !error && (
-          <p className="text-center text-green-700 font-medium">No news updates available.</p>
+          <p className="text-center text-green-700 font-medium">{t("noNews")}</p>
         )}
 
         <div
@@ -197,9 +206,9 @@ export default function NewsUpdates(): JSX.Element {
               className="bg-[#FFFFE0] rounded-lg shadow-lg transition-transform transform hover:scale-105 p-6"
             >
               <h2 className="text-2xl font-bold text-green-700 mb-2">
-                {showKannada ? news.title_kannada : news.title}
+                {localized(news, "title")}
               </h2>
-              <p className="text-sm text-green-600 mb-2">Date: {news.created_at}</p>
+              <p className="text-sm text-green-600 mb-2">{t("date", { date: news.created_at })}</p>
               <div className="relative w-full h-40 mb-4 overflow-hidden rounded-lg">
                 {news.images.length > 0 && (
                   <Image
@@ -213,20 +222,20 @@ export default function NewsUpdates(): JSX.Element {
                 )}
               </div>
               <p className="text-green-700 mb-4 line-clamp-3">
-                {showKannada ? news.content_kannada : news.content}
+                {localized(news, "content")}
               </p>
               <div className="flex flex-col sm:flex-row items-center gap-2 mt-4">
                 <button
                   className="h-10 w-full sm:w-auto bg-green-700 text-white py-2 px-4 rounded hover:bg-green-800 transition duration-200 ease-in-out flex items-center justify-center"
                   onClick={() => openNewsDetail(news)}
                 >
-                  Read More
+                  {t("readMore")}
                 </button>
                 <button
                   className="h-10 w-full sm:w-auto flex items-center justify-center bg-blue-500 text-white py-2 px-4 rounded hover:bg-blue-600 transition duration-200 ease-in-out"
                   onClick={() => shareNews(news)}
                 >
-                  <Share2 className="w-4 h-4 mr-2" /> Share
+                  <Share2 className="w-4 h-4 mr-2" /> {t("share")}
                 </button>
               </div>
 
@@ -0,0 +1,23 @@
+import { appendFile } from "fs/promises";
+import type { NotificationProvider } from "./provider";
+import { NotificationMessage } from "./types";
+
+// Local stand-in for an SMS/WhatsApp provider, used in development.
+// Set NOTIFICATION_LOG_FILE to also keep the messages as JSON lines.
+export const consoleProvider: NotificationProvider = {
+  name: "console",
+
+  send: async (message: NotificationMessage) => {
+    console.log(
+      `[notification] ${message.event} to ${message.to}\n${message.body}`
+    );
+
+    const logFile = process.env.NOTIFICATION_LOG_FILE;
+    if (logFile) {
+      await appendFile(
+        logFile,
+        `${JSON.stringify({ ...message, sentAt: new Date().toISOString() })}\n`
+      );
+    }
+  },
+};
@@ -0,0 +1,49 @@
+import { formatBookingId } from "../booking/bookingIds";
+import { HallForm } from "../admin/hallforms/hallFormData";
+import { slotLabels } from "../booking/slots";
+import { PaymentStatus } from "../payments/types";
+import { NotificationContext } from "./types";
+
+// Seva form as the backend returns it
+export interface BackendSevaForm {
+  id: number;
+  name: string;
+  mobileNumber: string;
+  date: string;
+  paymentStatus?: PaymentStatus;
+  seva?: {
+    name: string;
+    name_kannada?: string;
+  };
+}
+
+export const formatNotificationDate = (date: Date | string) =>
+  new Date(date).toLocaleDateString("en-GB", { timeZone: "Asia/Kolkata" });
+
+export const hallFormContext = (
+  form: HallForm,
+  reason?: string
+): NotificationContext => ({
+  subject: "hall",
+  bookingId: form.displayId,
+  name: form.name,
+  item: { en: form.hallName, kn: form.hallName },
+  // Every booked day, as in the submission message
+  dates: form.slots.map(
+    ({ date, slot }) => `${formatNotificationDate(date)} ${slotLabels[slot].en}`
+  ),
+  reason,
+});
+
+export const sevaFormContext = (
+  form: BackendSevaForm
+): NotificationContext => ({
+  subject: "seva",
+  bookingId: formatBookingId("seva", form.id),
+  name: form.name,
+  item: {
+    en: form.seva?.name || "Seva",
+    kn: form.seva?.name_kannada || form.seva?.name || "ಸೇವೆ",
+  },
+  dates: [formatNotificationDate(form.date)],
+});
@@ -0,0 +1,48 @@
+import { consoleProvider } from "./consoleProvider";
+import { renderNotification } from "./templates";
+import {
+  NotificationContext,
+  NotificationEvent,
+  NotificationMessage,
+} from "./types";
+
+// Every delivery channel (SMS gateway, WhatsApp, ...) plugs in through this interface
+export interface NotificationProvider {
+  name: string;
+  send: (message: NotificationMessage) => Promise<void>;
+}
+
+const providers: Record<string, NotificationProvider> = {
+  [consoleProvider.name]: consoleProvider,
+};
+
+// Chosen with NOTIFICATION_PROVIDER; the console provider is the local default
+export const getNotificationProvider = (): NotificationProvider => {
+  const name = process.env.NOTIFICATION_PROVIDER || consoleProvider.name;
+  const provider = providers[name];
+  if (!provider) {
+    throw new Error(`Unknown notification provider: ${name}`);
+  }
+  return provider;
+};
+
+// Numbers are stored both as "+91XXXXXXXXXX" and as bare 10-digit numbers
+export const toPhoneNumber = (mobileNumber: string) =>
+  /^\d{10}$/.test(mobileNumber) ? `+91${mobileNumber}` : mobileNumber;
+
+// A failed message must never fail the booking it is about, so errors are only logged
+export const notify = async (
+  event: NotificationEvent,
+  mobileNumber: string,
+  context: NotificationContext
+) => {
+  try {
+    await getNotificationProvider().send({
+      to: toPhoneNumber(mobileNumber),
+      event,
+      body: renderNotification(event, context),
+    });
+  } catch (error) {
+    console.error(`Error sending ${event} notification:`, error);
+  }
+};
@@ -0,0 +1,84 @@
+import { HOLD_HOURS } from "../booking/status";
+import { NotificationContext, NotificationEvent } from "./types";
+
+type Template = (context: NotificationContext) => string;
+
+const subjectNames = {
+  hall: { en: "hall booking", kn: "ಸಭಾಂಗಣ ಬುಕ್ಕಿಂಗ್" },
+  seva: { en: "seva", kn: "ಸೇವೆ" },
+};
+
+const signature = {
+  en: "- Shrirama Temple, Chokkadi",
+  kn: "- ಶ್ರೀರಾಮ ದೇವಾಲಯ, ಚೊಕ್ಕಾಡಿ",
+};
+
+const describe = (context: NotificationContext, locale: "en" | "kn") =>
+  `${subjectNames[context.subject][locale]} ${context.bookingId} (${
+    context.item[locale] || context.item.en
+  }, ${context.dates.join(", ")})`;
+
+const templates: Record<NotificationEvent, { en: Template; kn: Template }> = {
+  submission: {
+    en: (context) =>
+      `Hare Raama! ${context.name}, we have received your ${describe(
+        context,
+        "en"
+      )}.${
+        context.subject === "hall"
+          ? ` Please confirm with the temple office within ${HOLD_HOURS} hours.`
+          : ""
+      }`,
+    kn: (context) =>
+      `ಹರೇ ರಾಮ! ${context.name}, ನಿಮ್ಮ ${describe(
+        context,
+        "kn"
+      )} ವಿನಂತಿಯನ್ನು ಸ್ವೀಕರಿಸಲಾಗಿದೆ.${
+        context.subject === "hall"
+          ? ` ದಯವಿಟ್ಟು ${HOLD_HOURS} ಗಂಟೆಗಳ ಒಳಗೆ ದೇವಾಲಯದ ಕಚೇರಿಯಲ್ಲಿ ದೃಢೀಕರಿಸಿ.`
+          : ""
+      }`,
+  },
+  confirmation: {
+    en: (context) =>
+      `Hare Raama! ${context.name}, your ${describe(
+        context,
+        "en"
+      )} is confirmed.`,
+    kn: (context) =>
+      `ಹರೇ ರಾಮ! ${context.name}, ನಿಮ್ಮ ${describe(
+        context,
+        "kn"
+      )} ದೃಢೀಕರಿಸಲಾಗಿದೆ.`,
+  },
+  cancellation: {
+    en: (context) =>
+      `${context.name}, your ${describe(context, "en")} has been cancelled.${
+        context.reason ? ` Reason: ${context.reason}` : ""
+      }`,
+    kn: (context) =>
+      `${context.name}, ನಿಮ್ಮ ${describe(
+        context,
+        "kn"
+      )} ರದ್ದುಗೊಳಿಸಲಾಗಿದೆ.${context.reason ? ` ಕಾರಣ: ${context.reason}` : ""}`,
+  },
+  reminder: {
+    en: (context) =>
+      `Hare Raama! Reminder: your ${describe(context, "en")} is coming up.`,
+    kn: (context) =>
+      `ಹರೇ ರಾಮ! ನೆನಪಿಸುತ್ತಿದ್ದೇವೆ: ನಿಮ್ಮ ${describe(
+        context,
+        "kn"
+      )} ಹತ್ತಿರದಲ್ಲಿದೆ.`,
+  },
+};
+
+// Devotees get both languages in one message
+export const renderNotification = (
+  event: NotificationEvent,
+  context: NotificationContext
+) =>
+  [
+    `${templates[event].kn(context)}\n${signature.kn}`,
+    `${templates[event].en(context)}\n${signature.en}`,
+  ].join("\n\n");
@@ -0,0 +1,20 @@
+export type NotificationEvent =
+  "submission" | "confirmation" | "cancellation" | "reminder";
+
+export type NotificationSubject = "hall" | "seva";
+
+// Everything a template needs to describe the booking
+export interface NotificationContext {
+  subject: NotificationSubject;
+  bookingId: string; // Display ID, e.g. DES12 or SEVA34
+  name: string;
+  item: { en: string; kn: string }; // Hall or seva name
+  dates: string[]; // Already formatted
+  reason?: string; // Why a booking was cancelled or rejected
+}
+
+export interface NotificationMessage {
+  to: string; // Mobile number with country code
+  event: NotificationEvent;
+  body: string; // Kannada followed by English
+}
@@ -0,0 +1,61 @@
+// Calendar days are passed around as YYYY-MM-DD keys, the format of
+// <input type="date">. The arithmetic runs in UTC so the result does not
+// depend on the browser's timezone.
+
+export const toDateKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(
+    date.getDate()
+  ).padStart(2, "0")}`;
+
+// Today in temple time, whatever zone the server or browser runs in
+export const todayInIndia = () =>
+  new Date().toLocaleDateString("en-CA", { timeZone: "Asia/Kolkata" });
+
+const fromUTC = (date: Date) => date.toISOString().split("T")[0];
+
+export const parseDateKey = (key: string) => {
+  const [year, month, day] = key.split("-").map(Number);
+  return { year, month, day };
+};
+
+export const daysInMonth = (year: number, month: number) =>
+  new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+export const addDays = (key: string, days: number) => {
+  const { year, month, day } = parseDateKey(key);
+  return fromUTC(new Date(Date.UTC(year, month - 1, day + days)));
+};
+
+// Keeps the day of month where it can, else the last day (31 Jan + 1 month = 28/29 Feb)
+export const addMonths = (key: string, months: number, dayOfMonth?: number) => {
+  const { year, month, day } = parseDateKey(key);
+  const first = new Date(Date.UTC(year, month - 1 + months, 1));
+  const targetYear = first.getUTCFullYear();
+  const targetMonth = first.getUTCMonth() + 1;
+  return fromUTC(
+    new Date(
+      Date.UTC(
+        targetYear,
+        targetMonth - 1,
+        Math.min(dayOfMonth ?? day, daysInMonth(targetYear, targetMonth))
+      )
+    )
+  );
+};
+
+export const dayOfYear = (key: string) => {
+  const { year, month, day } = parseDateKey(key);
+  return (Date.UTC(year, month - 1, day) - Date.UTC(year, 0, 1)) / 86400000;
+};
+
+// 0 = Sunday
+export const weekdayOf = (key: string) => {
+  const { year, month, day } = parseDateKey(key);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+};
+
+// For display: 19/10/2026, as elsewhere on the site
+export const formatDateKey = (key: string) => {
+  const { year, month, day } = parseDateKey(key);
+  return `${String(day).padStart(2, "0")}/${String(month).padStart(2, "0")}/${year}`;
+};
@@ -0,0 +1,150 @@
+import { MASAS, RASHIS } from "./names";
+import { TithiTime, panchangaFor, tithiDays } from "./table";
+import { addDays } from "./dates";
+
+// Festivals kept by the temple, placed on the calendar from the panchanga.
+// Lunar festivals fall on a tithi (0–29, Shukla Pratipada to Amavasya) of a
+// masa (0–11 from Chaitra) and are never kept in an adhika month; solar ones
+// fall on the day the Sun enters a rashi (0–11 from Mesha). Most lunar
+// festivals take the tithi at sunrise, but some are kept on the day the
+// tithi holds at the time of their puja: midday for Rama Navami and Ganesha
+// Chaturthi, the afternoon for Vijayadashami, midnight for Shivaratri.
+export interface Festival {
+  code: string;
+  en: string;
+  kn: string;
+  masa?: number;
+  tithi?: number;
+  at?: TithiTime; // Sunrise if not given
+  sankramana?: number;
+}
+
+export const FESTIVALS: Festival[] = [
+  { code: "ugadi", en: "Ugadi", kn: "ಯುಗಾದಿ", masa: 0, tithi: 0 },
+  {
+    code: "rama_navami",
+    en: "Sri Rama Navami",
+    kn: "ಶ್ರೀ ರಾಮನವಮಿ",
+    masa: 0,
+    tithi: 8,
+    at: "madhyahna",
+  },
+  {
+    code: "mesha_sankramana",
+    en: "Mesha Sankramana (Bisu)",
+    kn: "ಮೇಷ ಸಂಕ್ರಮಣ (ಬಿಸು)",
+    sankramana: 0,
+  },
+  {
+    code: "nagara_panchami",
+    en: "Nagara Panchami",
+    kn: "ನಾಗರ ಪಂಚಮಿ",
+    masa: 4,
+    tithi: 4,
+  },
+  {
+    code: "krishna_janmashtami",
+    en: "Sri Krishna Janmashtami",
+    kn: "ಶ್ರೀ ಕೃಷ್ಣ ಜನ್ಮಾಷ್ಟಮಿ",
+    masa: 4,
+    tithi: 22,
+  },
+  {
+    code: "ganesha_chaturthi",
+    en: "Ganesha Chaturthi",
+    kn: "ಗಣೇಶ ಚತುರ್ಥಿ",
+    masa: 5,
+    tithi: 3,
+    at: "madhyahna",
+  },
+  {
+    code: "navaratri",
+    en: "Navaratri begins",
+    kn: "ನವರಾತ್ರಿ ಆರಂಭ",
+    masa: 6,
+    tithi: 0,
+  },
+  {
+    code: "vijayadashami",
+    en: "Vijayadashami",
+    kn: "ವಿಜಯದಶಮಿ",
+    masa: 6,
+    tithi: 9,
+    at: "aparahna",
+  },
+  {
+    code: "tula_sankramana",
+    en: "Tula Sankramana",
+    kn: "ತುಲಾ ಸಂಕ್ರಮಣ",
+    sankramana: 6,
+  },
+  {
+    code: "naraka_chaturdashi",
+    en: "Naraka Chaturdashi (Deepavali)",
+    kn: "ನರಕ ಚತುರ್ದಶಿ (ದೀಪಾವಳಿ)",
+    masa: 6,
+    tithi: 28,
+  },
+  {
+    code: "bali_padyami",
+    en: "Bali Padyami",
+    kn: "ಬಲಿಪಾಡ್ಯಮಿ",
+    masa: 7,
+    tithi: 0,
+  },
+  {
+    code: "champa_shashti",
+    en: "Champa Shashti",
+    kn: "ಚಂಪಾ ಷಷ್ಠಿ",
+    masa: 8,
+    tithi: 5,
+  },
+  {
+    code: "makara_sankranti",
+    en: "Makara Sankranti",
+    kn: "ಮಕರ ಸಂಕ್ರಾಂತಿ",
+    sankramana: 9,
+  },
+  {
+    code: "maha_shivaratri",
+    en: "Maha Shivaratri",
+    kn: "ಮಹಾ ಶಿವರಾತ್ರಿ",
+    masa: 10,
+    tithi: 28,
+    at: "nishita",
+  },
+];
+
+const isFestivalOn = (festival: Festival, key: string) => {
+  const day = panchangaFor(key);
+  if (!day) return false;
+  if (festival.sankramana !== undefined) {
+    return (
+      !!day.sankramana && RASHIS.indexOf(day.sankramana) === festival.sankramana
+    );
+  }
+  if (
+    festival.tithi === undefined ||
+    tithiDays(festival.tithi, key, key, festival.at).length === 0
+  ) {
+    return false;
+  }
+  // A Pratipada that begins after sunrise on the new moon day is kept that
+  // day, while the sunrise still belongs to the old month
+  const month = festival.tithi === 0 ? panchangaFor(addDays(key, 1)) : day;
+  return (
+    !!month && !month.adhika && MASAS.indexOf(month.masa) === festival.masa
+  );
+};
+
+export const festivalsOn = (key: string) =>
+  FESTIVALS.filter((festival) => isFestivalOn(festival, key));
+
+// Festivals between two dates, both included, in date order
+export const festivalsBetween = (from: string, to: string) => {
+  const found: { date: string; festival: Festival }[] = [];
+  for (let key = from; key <= to; key = addDays(key, 1)) {
+    festivalsOn(key).forEach((festival) => found.push({ date: key, festival }));
+  }
+  return found;
+};
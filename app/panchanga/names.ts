@@ -0,0 +1,355 @@
+// Canonical nakshatra, rashi and gotra names. Forms store the stable `code`
+// and show the label for the current locale; `aliases` catch the spellings
+// found in older free-text submissions.
+
+export interface CanonicalName {
+  code: string;
+  en: string;
+  kn: string;
+  aliases?: string[];
+}
+
+// In traditional order, starting from Ashwini
+export const NAKSHATRAS: CanonicalName[] = [
+  {
+    code: "ashwini",
+    en: "Ashwini",
+    kn: "ಅಶ್ವಿನಿ",
+    aliases: ["aswini", "ashvini"],
+  },
+  { code: "bharani", en: "Bharani", kn: "ಭರಣಿ" },
+  {
+    code: "krittika",
+    en: "Krittika",
+    kn: "ಕೃತ್ತಿಕಾ",
+    aliases: ["krithika", "kritika", "karthika"],
+  },
+  { code: "rohini", en: "Rohini", kn: "ರೋಹಿಣಿ" },
+  {
+    code: "mrigashira",
+    en: "Mrigashira",
+    kn: "ಮೃಗಶಿರಾ",
+    aliases: ["mrigasira", "mrigashirsha"],
+  },
+  {
+    code: "ardra",
+    en: "Ardra",
+    kn: "ಆರ್ದ್ರಾ",
+    aliases: ["arudra", "aridra", "thiruvathira"],
+  },
+  {
+    code: "punarvasu",
+    en: "Punarvasu",
+    kn: "ಪುನರ್ವಸು",
+    aliases: ["punarvasu"],
+  },
+  { code: "pushya", en: "Pushya", kn: "ಪುಷ್ಯ", aliases: ["pushyami", "pooya"] },
+  {
+    code: "ashlesha",
+    en: "Ashlesha",
+    kn: "ಆಶ್ಲೇಷಾ",
+    aliases: ["aslesha", "ashlesa", "ayilyam"],
+  },
+  { code: "magha", en: "Magha", kn: "ಮಘಾ", aliases: ["makha", "magam"] },
+  {
+    code: "purva_phalguni",
+    en: "Purva Phalguni",
+    kn: "ಪೂರ್ವ ಫಲ್ಗುಣಿ",
+    aliases: ["pubba", "hubba", "poorva phalguni", "purva"],
+  },
+  {
+    code: "uttara_phalguni",
+    en: "Uttara Phalguni",
+    kn: "ಉತ್ತರ ಫಲ್ಗುಣಿ",
+    aliases: ["uttara", "uthara", "uttaraphalguni"],
+  },
+  { code: "hasta", en: "Hasta", kn: "ಹಸ್ತ", aliases: ["hastha"] },
+  {
+    code: "chitra",
+    en: "Chitra",
+    kn: "ಚಿತ್ರಾ",
+    aliases: ["chitta", "chithra", "chithira", "ಚಿತ್ತಾ"],
+  },
+  { code: "swati", en: "Swati", kn: "ಸ್ವಾತಿ", aliases: ["swathi", "svati"] },
+  {
+    code: "vishakha",
+    en: "Vishakha",
+    kn: "ವಿಶಾಖಾ",
+    aliases: ["vishaka", "visakha", "vishakam"],
+  },
+  {
+    code: "anuradha",
+    en: "Anuradha",
+    kn: "ಅನುರಾಧಾ",
+    aliases: ["anuradha", "anusham"],
+  },
+  {
+    code: "jyeshtha",
+    en: "Jyeshtha",
+    kn: "ಜ್ಯೇಷ್ಠಾ",
+    aliases: ["jyesta", "jyeshta", "kettai"],
+  },
+  { code: "mula", en: "Mula", kn: "ಮೂಲಾ", aliases: ["moola", "moolam"] },
+  {
+    code: "purva_ashadha",
+    en: "Purva Ashadha",
+    kn: "ಪೂರ್ವಾಷಾಢಾ",
+    aliases: ["purvashada", "poorvashada", "purvashadha"],
+  },
+  {
+    code: "uttara_ashadha",
+    en: "Uttara Ashadha",
+    kn: "ಉತ್ತರಾಷಾಢಾ",
+    aliases: ["uttarashada", "utharashada", "uttarashadha"],
+  },
+  {
+    code: "shravana",
+    en: "Shravana",
+    kn: "ಶ್ರವಣ",
+    aliases: ["sravana", "shravan", "thiruvonam"],
+  },
+  {
+    code: "dhanishtha",
+    en: "Dhanishtha",
+    kn: "ಧನಿಷ್ಠಾ",
+    aliases: ["dhanishta", "dhanista", "avittam"],
+  },
+  {
+    code: "shatabhisha",
+    en: "Shatabhisha",
+    kn: "ಶತಭಿಷ",
+    aliases: ["satabhisha", "shatabhisham", "sathayam"],
+  },
+  {
+    code: "purva_bhadrapada",
+    en: "Purva Bhadrapada",
+    kn: "ಪೂರ್ವಾಭಾದ್ರಪದ",
+    aliases: ["poorvabhadra", "purvabhadra", "purattathi"],
+  },
+  {
+    code: "uttara_bhadrapada",
+    en: "Uttara Bhadrapada",
+    kn: "ಉತ್ತರಾಭಾದ್ರಪದ",
+    aliases: ["uttarabhadra", "utharabhadra", "uthrattathi"],
+  },
+  { code: "revati", en: "Revati", kn: "ರೇವತಿ", aliases: ["revathi"] },
+];
+
+// In traditional order, starting from Mesha
+export const RASHIS: CanonicalName[] = [
+  {
+    code: "mesha",
+    en: "Mesha (Aries)",
+    kn: "ಮೇಷ",
+    aliases: ["mesha", "aries", "mesham"],
+  },
+  {
+    code: "vrishabha",
+    en: "Vrishabha (Taurus)",
+    kn: "ವೃಷಭ",
+    aliases: ["vrishabha", "vrushabha", "taurus", "rishabha"],
+  },
+  {
+    code: "mithuna",
+    en: "Mithuna (Gemini)",
+    kn: "ಮಿಥುನ",
+    aliases: ["mithuna", "gemini", "mithunam"],
+  },
+  {
+    code: "karka",
+    en: "Karka (Cancer)",
+    kn: "ಕರ್ಕಾಟಕ",
+    aliases: ["karka", "karkataka", "kataka", "cancer"],
+  },
+  {
+    code: "simha",
+    en: "Simha (Leo)",
+    kn: "ಸಿಂಹ",
+    aliases: ["simha", "simham", "leo"],
+  },
+  {
+    code: "kanya",
+    en: "Kanya (Virgo)",
+    kn: "ಕನ್ಯಾ",
+    aliases: ["kanya", "kanni", "virgo"],
+  },
+  {
+    code: "tula",
+    en: "Tula (Libra)",
+    kn: "ತುಲಾ",
+    aliases: ["tula", "thula", "libra"],
+  },
+  {
+    code: "vrishchika",
+    en: "Vrishchika (Scorpio)",
+    kn: "ವೃಶ್ಚಿಕ",
+    aliases: ["vrischika", "vrishchika", "vruschika", "scorpio"],
+  },
+  {
+    code: "dhanu",
+    en: "Dhanu (Sagittarius)",
+    kn: "ಧನು",
+    aliases: ["dhanu", "dhanus", "sagittarius"],
+  },
+  {
+    code: "makara",
+    en: "Makara (Capricorn)",
+    kn: "ಮಕರ",
+    aliases: ["makara", "makaram", "capricorn"],
+  },
+  {
+    code: "kumbha",
+    en: "Kumbha (Aquarius)",
+    kn: "ಕುಂಭ",
+    aliases: ["kumbha", "kumbham", "aquarius"],
+  },
+  {
+    code: "meena",
+    en: "Meena (Pisces)",
+    kn: "ಮೀನ",
+    aliases: ["meena", "meenam", "pisces"],
+  },
+];
+
+// Suggestions only: devotees can still type a gotra that is not listed
+export const GOTRAS: CanonicalName[] = [
+  { code: "agastya", en: "Agastya", kn: "ಅಗಸ್ತ್ಯ" },
+  { code: "angirasa", en: "Angirasa", kn: "ಆಂಗೀರಸ" },
+  { code: "atri", en: "Atri", kn: "ಅತ್ರಿ", aliases: ["atreya"] },
+  {
+    code: "bharadwaja",
+    en: "Bharadwaja",
+    kn: "ಭಾರದ್ವಾಜ",
+    aliases: ["bharadvaja", "bharadwaj"],
+  },
+  { code: "bhargava", en: "Bhargava", kn: "ಭಾರ್ಗವ" },
+  {
+    code: "gautama",
+    en: "Gautama",
+    kn: "ಗೌತಮ",
+    aliases: ["gowtham", "gautam"],
+  },
+  { code: "harita", en: "Harita", kn: "ಹಾರೀತ", aliases: ["haritasa"] },
+  { code: "jamadagni", en: "Jamadagni", kn: "ಜಮದಗ್ನಿ" },
+  {
+    code: "kashyapa",
+    en: "Kashyapa",
+    kn: "ಕಾಶ್ಯಪ",
+    aliases: ["kashyap", "kasyapa"],
+  },
+  {
+    code: "kaundinya",
+    en: "Kaundinya",
+    kn: "ಕೌಂಡಿನ್ಯ",
+    aliases: ["koundinya"],
+  },
+  { code: "kaushika", en: "Kaushika", kn: "ಕೌಶಿಕ", aliases: ["koushika"] },
+  { code: "kutsa", en: "Kutsa", kn: "ಕುತ್ಸ" },
+  { code: "maudgalya", en: "Maudgalya", kn: "ಮೌದ್ಗಲ್ಯ", aliases: ["mudgala"] },
+  { code: "parashara", en: "Parashara", kn: "ಪರಾಶರ" },
+  { code: "shandilya", en: "Shandilya", kn: "ಶಾಂಡಿಲ್ಯ", aliases: ["sandilya"] },
+  { code: "shrivatsa", en: "Shrivatsa", kn: "ಶ್ರೀವತ್ಸ", aliases: ["srivatsa"] },
+  { code: "vadhula", en: "Vadhula", kn: "ವಾಧೂಲ" },
+  {
+    code: "vasishtha",
+    en: "Vasishtha",
+    kn: "ವಸಿಷ್ಠ",
+    aliases: ["vasishta", "vashishta"],
+  },
+  {
+    code: "vishwamitra",
+    en: "Vishwamitra",
+    kn: "ವಿಶ್ವಾಮಿತ್ರ",
+    aliases: ["viswamitra"],
+  },
+];
+
+// Names of the fifteen tithis of a paksha; the last one is Purnima in
+// Shukla paksha and Amavasya in Krishna paksha
+export const TITHIS: CanonicalName[] = [
+  { code: "pratipada", en: "Pratipada", kn: "ಪಾಡ್ಯ" },
+  { code: "dwitiya", en: "Dwitiya", kn: "ಬಿದಿಗೆ" },
+  { code: "tritiya", en: "Tritiya", kn: "ತದಿಗೆ" },
+  { code: "chaturthi", en: "Chaturthi", kn: "ಚೌತಿ" },
+  { code: "panchami", en: "Panchami", kn: "ಪಂಚಮಿ" },
+  { code: "shashthi", en: "Shashthi", kn: "ಷಷ್ಠಿ" },
+  { code: "saptami", en: "Saptami", kn: "ಸಪ್ತಮಿ" },
+  { code: "ashtami", en: "Ashtami", kn: "ಅಷ್ಟಮಿ" },
+  { code: "navami", en: "Navami", kn: "ನವಮಿ" },
+  { code: "dashami", en: "Dashami", kn: "ದಶಮಿ" },
+  { code: "ekadashi", en: "Ekadashi", kn: "ಏಕಾದಶಿ" },
+  { code: "dwadashi", en: "Dwadashi", kn: "ದ್ವಾದಶಿ" },
+  { code: "trayodashi", en: "Trayodashi", kn: "ತ್ರಯೋದಶಿ" },
+  { code: "chaturdashi", en: "Chaturdashi", kn: "ಚತುರ್ದಶಿ" },
+  { code: "purnima", en: "Purnima", kn: "ಹುಣ್ಣಿಮೆ" },
+  { code: "amavasya", en: "Amavasya", kn: "ಅಮಾವಾಸ್ಯೆ" },
+];
+
+export const PAKSHAS: CanonicalName[] = [
+  { code: "shukla", en: "Shukla", kn: "ಶುಕ್ಲ" },
+  { code: "krishna", en: "Krishna", kn: "ಕೃಷ್ಣ" },
+];
+
+// Lunar months in order, starting from Chaitra
+export const MASAS: CanonicalName[] = [
+  { code: "chaitra", en: "Chaitra", kn: "ಚೈತ್ರ" },
+  { code: "vaishakha", en: "Vaishakha", kn: "ವೈಶಾಖ" },
+  { code: "jyeshtha", en: "Jyeshtha", kn: "ಜ್ಯೇಷ್ಠ" },
+  { code: "ashadha", en: "Ashadha", kn: "ಆಷಾಢ" },
+  { code: "shravana", en: "Shravana", kn: "ಶ್ರಾವಣ" },
+  { code: "bhadrapada", en: "Bhadrapada", kn: "ಭಾದ್ರಪದ" },
+  { code: "ashwayuja", en: "Ashwayuja", kn: "ಆಶ್ವಯುಜ" },
+  { code: "kartika", en: "Kartika", kn: "ಕಾರ್ತಿಕ" },
+  { code: "margashira", en: "Margashira", kn: "ಮಾರ್ಗಶಿರ" },
+  { code: "pushya", en: "Pushya", kn: "ಪುಷ್ಯ" },
+  { code: "magha", en: "Magha", kn: "ಮಾಘ" },
+  { code: "phalguna", en: "Phalguna", kn: "ಫಾಲ್ಗುಣ" },
+];
+
+// Compare names ignoring case, spaces and punctuation
+export const normalise = (value: string) =>
+  value.toLowerCase().replace(/[\s._\-()]/g, "");
+
+// Match a stored value against a list: a code, a label in either script or a known alias
+export const findName = (
+  list: CanonicalName[],
+  value?: string | null
+): CanonicalName | undefined => {
+  if (!value) return undefined;
+  const key = normalise(value);
+  return list.find(
+    (name) =>
+      name.code === value ||
+      [name.code, name.en, name.kn, ...(name.aliases || [])].some(
+        (candidate) => normalise(candidate) === key
+      )
+  );
+};
+
+// Label for display; free text that matches nothing is shown as it was entered
+export const nameLabel = (
+  list: CanonicalName[],
+  value: string | null | undefined,
+  locale: "en" | "kn"
+) => {
+  const name = findName(list, value);
+  return name ? name[locale] : value || "";
+};
+
+// Both scripts, for the priests' lists
+export const bilingualName = (list: CanonicalName[], value?: string | null) => {
+  const name = findName(list, value);
+  return name ? `${name.en} / ${name.kn}` : value || "";
+};
+
+// Choices for the searchable pickers, matching on every known spelling
+export const nameOptions = (
+  list: CanonicalName[],
+  locale: "en" | "kn",
+  valueOf: (name: CanonicalName) => string = (name) => name.code
+) =>
+  list.map((name) => ({
+    value: valueOf(name),
+    label: name[locale],
+    keywords: [name.en, name.kn, ...(name.aliases || [])],
+  }));
@@ -0,0 +1,178 @@
+import {
+  CanonicalName,
+  MASAS,
+  NAKSHATRAS,
+  PAKSHAS,
+  RASHIS,
+  TITHIS,
+  findName,
+} from "./names";
+import { addDays, dayOfYear, parseDateKey } from "./dates";
+import table2026 from "./data/2026.json";
+import table2027 from "./data/2027.json";
+import table2028 from "./data/2028.json";
+
+// One bundled file per year, generated by scripts/generate-panchanga.mjs.
+// Each array has one entry per day, reckoned at sunrise at Chokkadi; values
+// index into the lists in ./names (tithi runs 0–29 across both pakshas).
+interface PanchangaYear {
+  year: number;
+  nakshatra: number[];
+  tithi: number[];
+  tithiMadhyahna: number[]; // At midday
+  tithiAparahna: number[]; // In the afternoon
+  tithiNishita: number[]; // At midnight
+  masa: number[];
+  adhikaDays: number[]; // Days of the year in an adhika (extra) month
+  sunRashi: number[];
+}
+
+const YEARS: PanchangaYear[] = [table2026, table2027, table2028];
+
+const tables = new Map(YEARS.map((table) => [table.year, table]));
+
+export const PANCHANGA_FIRST_DAY = `${YEARS[0].year}-01-01`;
+export const PANCHANGA_LAST_DAY = `${YEARS[YEARS.length - 1].year}-12-31`;
+
+export const hasPanchanga = (key: string) =>
+  key >= PANCHANGA_FIRST_DAY && key <= PANCHANGA_LAST_DAY;
+
+// When in the day a tithi is reckoned: sunrise unless a festival says
+// otherwise
+export type TithiTime = "udaya" | "madhyahna" | "aparahna" | "nishita";
+
+const tithiColumns = {
+  udaya: "tithi",
+  madhyahna: "tithiMadhyahna",
+  aparahna: "tithiAparahna",
+  nishita: "tithiNishita",
+} as const;
+
+type TithiColumn = (typeof tithiColumns)[TithiTime];
+type Column = "nakshatra" | TithiColumn | "masa" | "sunRashi";
+
+// Value on a day (at sunrise unless the column says otherwise), or null
+// outside the table
+const valueAt = (column: Column, key: string): number | null => {
+  const table = tables.get(parseDateKey(key).year);
+  return table?.[column][dayOfYear(key)] ?? null;
+};
+
+// Whether a day is "of" a nakshatra or tithi. One that holds at two
+// sunrises in a row counts once, on the first; one that begins and ends
+// between two sunrises counts on the day it begins. Tithis reckoned at
+// another time of day follow the same rule at that time.
+const isDayOf = (
+  column: "nakshatra" | TithiColumn,
+  wanted: number,
+  key: string
+) => {
+  const cycle = column === "nakshatra" ? 27 : 30;
+  const current = valueAt(column, key);
+  if (current === null) return false;
+  const previous = valueAt(column, addDays(key, -1));
+  const next = valueAt(column, addDays(key, 1));
+
+  const startsToday = current === wanted && previous !== wanted;
+  const skippedToday =
+    next !== null &&
+    (next - current + cycle) % cycle === 2 &&
+    (current + 1) % cycle === wanted;
+  return startsToday || skippedToday;
+};
+
+const daysOf = (
+  column: "nakshatra" | TithiColumn,
+  wanted: number,
+  from: string,
+  to: string
+) => {
+  const days: string[] = [];
+  for (let key = from; key <= to && hasPanchanga(key); key = addDays(key, 1)) {
+    if (isDayOf(column, wanted, key)) days.push(key);
+  }
+  return days;
+};
+
+export const nakshatraAtSunrise = (key: string): CanonicalName | null => {
+  const index = valueAt("nakshatra", key);
+  return index === null ? null : NAKSHATRAS[index];
+};
+
+// Days of a nakshatra between two dates, both included
+export const nakshatraDays = (
+  nakshatra: string,
+  from: string,
+  to: string
+): string[] => {
+  const target = findName(NAKSHATRAS, nakshatra);
+  return target
+    ? daysOf("nakshatra", NAKSHATRAS.indexOf(target), from, to)
+    : [];
+};
+
+// Days of a tithi (0–29, Shukla Pratipada to Amavasya) between two dates
+export const tithiDays = (
+  tithi: number,
+  from: string,
+  to: string,
+  at: TithiTime = "udaya"
+) => daysOf(tithiColumns[at], tithi, from, to);
+
+export interface PanchangaDay {
+  date: string;
+  tithi: CanonicalName;
+  tithiIndex: number; // 0–29, Shukla Pratipada to Amavasya
+  paksha: CanonicalName;
+  nakshatra: CanonicalName;
+  masa: CanonicalName;
+  adhika: boolean;
+  sankramana: CanonicalName | null; // Rashi the Sun enters during the day
+}
+
+const tithiName = (index: number) => {
+  const withinPaksha = index % 15;
+  if (withinPaksha < 14) return TITHIS[withinPaksha];
+  return index < 15 ? TITHIS[14] : TITHIS[15]; // Purnima / Amavasya
+};
+
+export const panchangaFor = (key: string): PanchangaDay | null => {
+  const table = tables.get(parseDateKey(key).year);
+  if (!table) return null;
+  const day = dayOfYear(key);
+  const tithiIndex = table.tithi[day];
+  const sunRashi = table.sunRashi[day];
+  const nextSunRashi = valueAt("sunRashi", addDays(key, 1));
+
+  return {
+    date: key,
+    tithi: tithiName(tithiIndex),
+    tithiIndex,
+    paksha: PAKSHAS[tithiIndex < 15 ? 0 : 1],
+    nakshatra: NAKSHATRAS[table.nakshatra[day]],
+    masa: MASAS[table.masa[day]],
+    adhika: table.adhikaDays.includes(day),
+    sankramana:
+      nextSunRashi !== null && nextSunRashi !== sunRashi
+        ? RASHIS[nextSunRashi]
+        : null,
+  };
+};
+
+const adhikaLabel = { en: "Adhika", kn: "ಅಧಿಕ" };
+const nakshatraWord = { en: "nakshathra", kn: "ನಕ್ಷತ್ರ" };
+
+// "Shukla Navami"; Purnima and Amavasya already name their paksha
+export const tithiLabel = (day: PanchangaDay, locale: "en" | "kn") =>
+  day.tithiIndex % 15 === 14
+    ? day.tithi[locale]
+    : `${day.paksha[locale]} ${day.tithi[locale]}`;
+
+export const masaLabel = (day: PanchangaDay, locale: "en" | "kn") =>
+  day.adhika ? `${adhikaLabel[locale]} ${day.masa[locale]}` : day.masa[locale];
+
+// "Ashwayuja Shukla Navami, Pushya nakshathra"
+export const describePanchanga = (day: PanchangaDay, locale: "en" | "kn") =>
+  `${masaLabel(day, locale)} ${tithiLabel(day, locale)}, ${
+    day.nakshatra[locale]
+  } ${nakshatraWord[locale]}`;
@@ -0,0 +1,49 @@
+import {
+  CreateOrderInput,
+  PaymentCallbackPayload,
+  PaymentOrder,
+  PaymentPurpose,
+  PaymentVerification,
+} from "./types";
+import { mockGateway } from "./mockGateway";
+
+// Every gateway (UPI intent, Razorpay, ...) plugs in through this interface
+export interface PaymentGatewayAdapter {
+  name: string;
+  createOrder: (input: CreateOrderInput) => Promise<PaymentOrder>;
+  verifyPayment: (
+    payload: PaymentCallbackPayload
+  ) => Promise<PaymentVerification>;
+}
+
+// The mock adapter marks anything paid, so it only exists outside production
+// unless PAYMENT_MOCK_ENABLED=true is set for a staging deployment
+export const isMockGatewayEnabled = () =>
+  process.env.NODE_ENV !== "production" ||
+  process.env.PAYMENT_MOCK_ENABLED === "true";
+
+const gateways = (): Record<string, PaymentGatewayAdapter> =>
+  isMockGatewayEnabled() ? { [mockGateway.name]: mockGateway } : {};
+
+// Chosen with PAYMENT_GATEWAY; the mock adapter is the default only where it
+// is enabled, and production refuses to take payments without a real one
+export const getPaymentGateway = (): PaymentGatewayAdapter => {
+  const name =
+    process.env.PAYMENT_GATEWAY ||
+    (isMockGatewayEnabled() ? mockGateway.name : null);
+  if (!name) {
+    throw new Error("No payment gateway configured: set PAYMENT_GATEWAY");
+  }
+  const gateway = gateways()[name];
+  if (!gateway) {
+    throw new Error(`Unknown or disabled payment gateway: ${name}`);
+  }
+  return gateway;
+};
+
+// Backend resource that owns the payment status for each purpose
+export const paymentResources: Record<PaymentPurpose, string> = {
+  seva: "sevaforms",
+  donation: "donations",
+  subscription: "sevasubscriptions",
+};
@@ -0,0 +1,102 @@
+import { createHmac, randomUUID, timingSafeEqual } from "crypto";
+import type { PaymentGatewayAdapter } from "./gateway";
+import {
+  CreateOrderInput,
+  PaymentCallbackPayload,
+  PaymentPurpose,
+} from "./types";
+
+// Local stand-in for a real gateway, used in development
+
+interface MockOrderDetails {
+  purpose: PaymentPurpose;
+  referenceId: number;
+  amount: number;
+}
+
+const getSecret = () => {
+  const secret = process.env.PAYMENT_MOCK_SECRET;
+  if (!secret) {
+    throw new Error("PAYMENT_MOCK_SECRET is not set");
+  }
+  return secret;
+};
+
+const hmac = (value: string) =>
+  createHmac("sha256", getSecret()).update(value).digest("hex");
+
+const sign = (orderId: string, paymentId: string, status: string) =>
+  hmac(`${orderId}|${paymentId}|${status}`);
+
+const isValidSignature = (expected: string, received: string) =>
+  expected.length === received.length &&
+  timingSafeEqual(Buffer.from(expected), Buffer.from(received));
+
+// The order details travel inside the order ID so no order store is needed;
+// they are signed too, so only orders this server created can be completed
+const encodeOrderId = (details: MockOrderDetails) => {
+  const encoded = Buffer.from(
+    JSON.stringify({ ...details, nonce: randomUUID() })
+  ).toString("base64url");
+  return `mock_${encoded}.${hmac(encoded)}`;
+};
+
+const decodeOrderId = (orderId: string): MockOrderDetails | null => {
+  if (!orderId.startsWith("mock_")) return null;
+  const [encoded, signature = ""] = orderId.slice(5).split(".");
+  if (!isValidSignature(hmac(encoded), signature)) return null;
+  try {
+    const { purpose, referenceId, amount } = JSON.parse(
+      Buffer.from(encoded, "base64url").toString("utf8")
+    );
+    return { purpose, referenceId, amount };
+  } catch {
+    return null;
+  }
+};
+
+// What a real gateway would post back after the devotee pays (or gives up);
+// null for an order ID this server did not create
+export const completeMockPayment = (
+  orderId: string,
+  succeed: boolean
+): PaymentCallbackPayload | null => {
+  if (!decodeOrderId(orderId)) return null;
+  const paymentId = `mockpay_${randomUUID()}`;
+  const status = succeed ? "captured" : "failed";
+  return { orderId, paymentId, status, signature: sign(orderId, paymentId, status) };
+};
+
+export const mockGateway: PaymentGatewayAdapter = {
+  name: "mock",
+
+  createOrder: async ({ purpose, referenceId, amount }: CreateOrderInput) => ({
+    orderId: encodeOrderId({ purpose, referenceId, amount }),
+    gateway: "mock",
+    amount,
+    currency: "INR",
+    purpose,
+    referenceId,
+    checkout: { type: "mock" },
+  }),
+
+  verifyPayment: async (payload: PaymentCallbackPayload) => {
+    const details = decodeOrderId(payload.orderId);
+    const verified =
+      details !== null &&
+      isValidSignature(
+        sign(payload.orderId, payload.paymentId, payload.status),
+        payload.signature
+      );
+
+    return {
+      verified,
+      status: verified && payload.status === "captured" ? "paid" : "failed",
+      orderId: payload.orderId,
+      paymentId: payload.paymentId,
+      purpose: details?.purpose ?? "seva",
+      referenceId: details?.referenceId ?? 0,
+      amount: details?.amount ?? 0,
+    };
+  },
+};
@@ -0,0 +1,46 @@
+// Shared between the payment route handlers and the client components
+
+export type PaymentPurpose = "seva" | "donation" | "subscription";
+
+export type PaymentStatus = "pending" | "paid" | "failed";
+
+export interface CreateOrderInput {
+  purpose: PaymentPurpose;
+  referenceId: number; // Seva form, donation or subscription ID
+  amount: number; // In rupees
+  description: string;
+}
+
+// What the browser needs to take the devotee through checkout
+export type PaymentCheckout =
+  | { type: "mock" }
+  | { type: "upi"; uri: string }
+  | { type: "redirect"; url: string };
+
+export interface PaymentOrder {
+  orderId: string;
+  gateway: string;
+  amount: number;
+  currency: "INR";
+  purpose: PaymentPurpose;
+  referenceId: number;
+  checkout: PaymentCheckout;
+}
+
+// Sent back by the gateway (or the mock checkout) once the devotee pays
+export interface PaymentCallbackPayload {
+  orderId: string;
+  paymentId: string;
+  status: string;
+  signature: string;
+}
+
+export interface PaymentVerification {
+  verified: boolean;
+  status: PaymentStatus;
+  orderId: string;
+  paymentId: string;
+  purpose: PaymentPurpose;
+  referenceId: number;
+  amount: number;
+}
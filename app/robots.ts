@@ -0,0 +1,23 @@
+import type { MetadataRoute } from "next";
+import { SITE_URL, absoluteUrl } from "./seo/site";
+import { LOCALES } from "./i18n";
+import { localizePath } from "./i18n/routing";
+
+export default function robots(): MetadataRoute.Robots {
+  return {
+    rules: {
+      userAgent: "*",
+      allow: "/",
+      // Staff pages, personal booking lookups and backend calls
+      disallow: [
+        "/admin",
+        "/login",
+        "/track-booking",
+        ...LOCALES.map((locale) => localizePath(locale, "/track-booking")),
+        "/api/",
+      ],
+    },
+    sitemap: absoluteUrl("/sitemap.xml"),
+    host: SITE_URL,
+  };
+}
@@ -0,0 +1,38 @@
+import { LOCALES } from "../i18n";
+import { localizePath } from "../i18n/routing";
+import location from "./location.json";
+
+// The public address of the site, used wherever a full URL is needed
+// (sitemap, robots.txt, structured data)
+export const SITE_URL = "https://www.srtchokkadi.org";
+
+export const absoluteUrl = (path: string) =>
+  path === "/" ? SITE_URL : `${SITE_URL}${path}`;
+
+// Every page is served under each locale's prefix (see middleware.ts); the
+// unprefixed URL redirects to the visitor's language
+export const localeAlternates = (path: string) => ({
+  ...Object.fromEntries(
+    LOCALES.map((locale) => [locale, absoluteUrl(localizePath(locale, path))])
+  ),
+  "x-default": absoluteUrl(path),
+});
+
+// The address and office contact shown on the contact page
+export const TEMPLE = {
+  name: "Shrirama Temple, Chokkadi",
+  nameKannada: "ಶ್ರೀರಾಮ ದೇವಾಲಯ, ಚೊಕ್ಕಾಡಿ",
+  telephone: "+91-8257-200585",
+  email: "srtchokkadi@gmail.com",
+  image: "/shrirama.jpg",
+  address: {
+    streetAddress: "Chokkadi, Amarapadnur Village",
+    addressLocality: "Sullia Taluk",
+    addressRegion: "Dakshina Kannada, Karnataka",
+    postalCode: "574212",
+    addressCountry: "IN",
+  },
+  // Shared with scripts/generate-panchanga.mjs, which reckons sunrise there
+  geo: location,
+  map: "https://maps.google.com/?cid=12197347354929276274",
+};
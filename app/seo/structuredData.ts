@@ -0,0 +1,186 @@
+import { SITE_URL, TEMPLE, absoluteUrl } from "./site";
+import { DaySchedule, TimingOverride, WEEKDAYS } from "../temple/timings";
+import { TempleEvent } from "../events/eventData";
+import { GalleryAlbum } from "../gallery/albumData";
+
+// schema.org JSON-LD for search engines, built from the same data the pages
+// render. Render the results with components/JsonLd.tsx.
+
+type JsonLd = Record<string, unknown>;
+
+const CONTEXT = "https://schema.org";
+
+// Temple time is IST, so dates with a time carry its offset
+const IST_OFFSET = "+05:30";
+
+const TEMPLE_ID = `${SITE_URL}/#temple`;
+
+const ORGANIZATION: JsonLd = {
+  "@type": "Organization",
+  name: TEMPLE.name,
+  url: SITE_URL,
+  logo: absoluteUrl("/android-chrome-512x512.png"),
+};
+
+const address: JsonLd = { "@type": "PostalAddress", ...TEMPLE.address };
+
+// Weekdays that share a darshan session are listed together
+const openingHours = (weekly: DaySchedule[]) => {
+  const sessions = new Map<string, JsonLd & { dayOfWeek: string[] }>();
+  weekly.forEach((schedule, weekday) => {
+    schedule.darshan.forEach(({ from, to }) => {
+      const key = `${from}-${to}`;
+      const existing = sessions.get(key);
+      if (existing) {
+        existing.dayOfWeek.push(WEEKDAYS[weekday].en);
+        return;
+      }
+      sessions.set(key, {
+        "@type": "OpeningHoursSpecification",
+        dayOfWeek: [WEEKDAYS[weekday].en],
+        opens: from,
+        closes: to,
+      });
+    });
+  });
+  return Array.from(sessions.values());
+};
+
+// A closed day is given as opening and closing at midnight
+const specialOpeningHours = (overrides: TimingOverride[]) =>
+  overrides.flatMap((override) => {
+    const validity = {
+      "@type": "OpeningHoursSpecification",
+      validFrom: override.date,
+      validThrough: override.endDate,
+    };
+    return override.closed || override.schedule.darshan.length === 0
+      ? [{ ...validity, opens: "00:00", closes: "00:00" }]
+      : override.schedule.darshan.map(({ from, to }) => ({
+          ...validity,
+          opens: from,
+          closes: to,
+        }));
+  });
+
+// The temple itself, with its weekly darshan hours and any special days
+// from today on
+export const templeJsonLd = (
+  weekly: DaySchedule[],
+  overrides: TimingOverride[],
+  today: string
+): JsonLd => {
+  const upcoming = overrides.filter((override) => override.endDate >= today);
+  return {
+    "@context": CONTEXT,
+    "@type": "HinduTemple",
+    "@id": TEMPLE_ID,
+    name: TEMPLE.name,
+    alternateName: TEMPLE.nameKannada,
+    url: SITE_URL,
+    image: absoluteUrl(TEMPLE.image),
+    telephone: TEMPLE.telephone,
+    email: TEMPLE.email,
+    address,
+    geo: { "@type": "GeoCoordinates", ...TEMPLE.geo },
+    hasMap: TEMPLE.map,
+    isAccessibleForFree: true,
+    openingHoursSpecification: openingHours(weekly),
+    ...(upcoming.length > 0 && {
+      specialOpeningHoursSpecification: specialOpeningHours(upcoming),
+    }),
+  };
+};
+
+const TEMPLE_PLACE: JsonLd = {
+  "@type": "HinduTemple",
+  "@id": TEMPLE_ID,
+  name: TEMPLE.name,
+  address,
+};
+
+// A festival, with each timed item of its programme as a sub-event
+export const eventJsonLd = (event: TempleEvent): JsonLd => {
+  const url = absoluteUrl(`/events/${event.id}`);
+  return {
+    "@context": CONTEXT,
+    "@type": "Event",
+    name: event.title,
+    alternateName: event.title_kannada || undefined,
+    description: event.description,
+    url,
+    startDate: event.startDate,
+    endDate: event.endDate,
+    eventStatus: "https://schema.org/EventScheduled",
+    eventAttendanceMode: "https://schema.org/OfflineEventAttendanceMode",
+    isAccessibleForFree: true,
+    location: TEMPLE_PLACE,
+    organizer: ORGANIZATION,
+    ...(event.coverImage && { image: [event.coverImage.public_url] }),
+    subEvent: event.schedule
+      .filter((item) => item.time)
+      .map((item) => ({
+        "@type": "Event",
+        name: item.title,
+        startDate: `${item.date}T${item.time}:00${IST_OFFSET}`,
+        location: TEMPLE_PLACE,
+        url,
+      })),
+  };
+};
+
+// A photo album, with each photo as an image of the gallery
+export const albumJsonLd = (album: GalleryAlbum): JsonLd => ({
+  "@context": CONTEXT,
+  "@type": "ImageGallery",
+  name: album.title,
+  alternateName: album.title_kannada || undefined,
+  description: album.description || undefined,
+  url: absoluteUrl(`/gallery/${album.id}`),
+  ...(album.eventDate && { dateCreated: album.eventDate }),
+  contentLocation: TEMPLE_PLACE,
+  image: album.images.map((image) => ({
+    "@type": "ImageObject",
+    contentUrl: image.public_url,
+    ...(image.alt_text && { caption: image.alt_text }),
+  })),
+});
+
+export interface ArticleDetails {
+  id: string | number;
+  title: string;
+  content: string;
+  publishedAt: string;
+  modifiedAt?: string;
+  images: string[];
+}
+
+export const newsArticleJsonLd = (article: ArticleDetails): JsonLd => ({
+  "@context": CONTEXT,
+  "@type": "NewsArticle",
+  mainEntityOfPage: absoluteUrl(`/newsupdates/${article.id}`),
+  // Search engines cut headlines off at 110 characters
+  headline: article.title.substring(0, 110),
+  description: article.content.substring(0, 160),
+  datePublished: article.publishedAt,
+  dateModified: article.modifiedAt || article.publishedAt,
+  ...(article.images.length > 0 && { image: article.images }),
+  author: ORGANIZATION,
+  publisher: ORGANIZATION,
+});
+
+// Trail from the home page, e.g. Home › Events › Brahmarathotsava
+export const breadcrumbJsonLd = (
+  trail: { name: string; path: string }[]
+): JsonLd => ({
+  "@context": CONTEXT,
+  "@type": "BreadcrumbList",
+  itemListElement: [{ name: "Home", path: "/" }, ...trail].map(
+    (crumb, index) => ({
+      "@type": "ListItem",
+      position: index + 1,
+      name: crumb.name,
+      item: absoluteUrl(crumb.path),
+    })
+  ),
+});
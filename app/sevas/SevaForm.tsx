@@ -1,4 +1,29 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useMemo } from "react";
+import Receipt, { ReceiptData, formatBookingId } from "../components/Receipt";
+import PaymentButton, { paymentStatusLabels } from "../components/PaymentButton";
+import { PaymentStatus } from "../payments/types";
+import Combobox from "../components/Combobox";
+import { GOTRAS, NAKSHATRAS, RASHIS, nameOptions } from "../panchanga/names";
+import {
+  PANCHANGA_LAST_DAY,
+  describePanchanga,
+  panchangaFor,
+} from "../panchanga/table";
+import { festivalsOn } from "../panchanga/festivals";
+import { addMonths, formatDateKey } from "../panchanga/dates";
+import {
+  MAX_SUBSCRIPTION_YEARS,
+  RECURRENCE_TYPES,
+  RecurrenceType,
+  describeRecurrence,
+  occurrencesBetween,
+  recurrenceLabels,
+} from "./recurrence";
+import { useDataLocale, useLocalized, useT } from "../i18n/useT";
+import { Translations } from "../i18n/content";
+
+// Dates listed before "and N more" in the preview and on the receipt
+const PREVIEW_COUNT = 6;
 
 interface Seva {
   id: number;
@@ -7,14 +32,18 @@ interface Seva {
   base_price: number;
   name_kannada?: string;
   description_kannada?: string;
+  translations?: Translations | null;
 }
 
 interface SevaFormProps {
   seva: Seva;
-  showKannada: boolean;
 }
 
-const SevaForm: React.FC<SevaFormProps> = ({ seva, showKannada }) => {
+const SevaForm: React.FC<SevaFormProps> = ({ seva }) => {
+  const locale = useDataLocale();
+  const localized = useLocalized();
+  const t = useT("sevaForm");
+  const tCommon = useT("common");
   const [name, setName] = useState("");
   const [nakshathra, setNakshathra] = useState("");
   const [rashi, setRashi] = useState("");
@@ -22,9 +51,17 @@ const SevaForm: React.FC<SevaFormProps> = ({ seva, showKannada }) => {
   const [mobileNumber, setMobileNumber] = useState("");
   const [mobileNumberConfirmation, setMobileNumberConfirmation] = useState("");
   const [date, setDate] = useState("");
+  // "once" is the original single-date booking; the rest create a subscription
+  const [repeat, setRepeat] = useState<"once" | RecurrenceType>("once");
+  const [endDate, setEndDate] = useState("");
 
   const [loading, setLoading] = useState(false);
   const [confirmation, setConfirmation] = useState<{ message: string; bookingId?: number; type: 'success' | 'error' } | null>(null);
+  const [receipt, setReceipt] = useState<ReceiptData | null>(null);
+  // New seva forms stay "pending payment" until the payment is verified
+  const [paymentStatus, setPaymentStatus] = useState<PaymentStatus | null>(null);
+  // Amount due for a new subscription, which covers all of its dates
+  const [subscriptionTotal, setSubscriptionTotal] = useState<number | null>(null);
   const [phoneError, setPhoneError] = useState("");
   const [confirmationPhoneError, setConfirmationPhoneError] = useState("");
 
@@ -37,6 +74,33 @@ const SevaForm: React.FC<SevaFormProps> = ({ seva, showKannada }) => {
     return maxDate.toISOString().split('T')[0]; // Format to YYYY-MM-DD
   })();
 
+  const isRecurring = repeat !== "once";
+
+  // Nakshathra dates come from the bundled panchanga, which ends at PANCHANGA_LAST_DAY
+  const maxEndDate = (() => {
+    if (!date) return undefined;
+    const limit = addMonths(date, MAX_SUBSCRIPTION_YEARS * 12);
+    return repeat === "nakshatra" && PANCHANGA_LAST_DAY < limit
+      ? PANCHANGA_LAST_DAY
+      : limit;
+  })();
+
+  // Tithi and nakshathra of the chosen day, to help pick an auspicious date
+  const datePanchanga = date ? panchangaFor(date) : null;
+  const dateFestivals = date ? festivalsOn(date) : [];
+
+  const occurrences = useMemo(
+    () =>
+      isRecurring && date && endDate
+        ? occurrencesBetween(
+            { type: repeat, startDate: date, endDate, nakshatra: nakshathra },
+            date,
+            endDate
+          )
+        : [],
+    [isRecurring, repeat, date, endDate, nakshathra]
+  );
+
   useEffect(() => {
     if (confirmation?.type === 'error') {
       const timer = setTimeout(() => setConfirmation(null), 5000);
@@ -46,10 +110,15 @@ const SevaForm: React.FC<SevaFormProps> = ({ seva, showKannada }) => {
 
   const handleDismissConfirmation = () => setConfirmation(null);
 
+  const handlePaymentStatusChange = (status: PaymentStatus) => {
+    setPaymentStatus(status);
+    setReceipt((prev) => (prev ? { ...prev, paymentStatus: status } : prev));
+  };
+
   const handleCopyBookingId = () => {
     if (confirmation?.bookingId) {
       navigator.clipboard.writeText(confirmation.bookingId.toString());
-      alert("Booking ID copied to clipboard!");
+      alert(t("copied"));
     }
   };
 
@@ -61,55 +130,147 @@ const SevaForm: React.FC<SevaFormProps> = ({ seva, showKannada }) => {
     let hasError = false;
 
   if (!validatePhoneNumber(mobileNumber)) {
-    setPhoneError(showKannada ? "ಸರಿಯಾದ 10 ಅಂಕಿ ಫೋನ್ ಸಂಖ್ಯೆಯನ್ನು ನಮೂದಿಸಿ" : "Please enter a valid 10-digit phone number.");
+    setPhoneError(tCommon("invalidPhone"));
     hasError = true;
   } else {
     setPhoneError("");
   }
 
   if (!validatePhoneNumber(mobileNumberConfirmation)) {
-    setConfirmationPhoneError(showKannada ? "ಸರಿಯಾದ 10 ಅಂಕಿ ಫೋನ್ ಸಂಖ್ಯೆಯ ದೃಢೀಕರಣ ನಮೂದಿಸಿ" : "Please enter a valid 10-digit confirmation phone number.");
+    setConfirmationPhoneError(t("invalidConfirmation"));
     hasError = true;
   } else if (mobileNumber !== mobileNumberConfirmation) {
-    setConfirmationPhoneError(showKannada ? "ಫೋನ್ ಸಂಖ್ಯೆ ಸರಿಯಾಗಿಲ್ಲ" : "Phone numbers do not match.");
+    setConfirmationPhoneError(t("phoneMismatch"));
     hasError = true;
   } else {
     setConfirmationPhoneError("");
   }
 
+  if (isRecurring && occurrences.length === 0) {
+    setConfirmation({
+      message: t("noDatesInPeriod"),
+      type: 'error',
+    });
+    hasError = true;
+  }
+
   if (hasError) return;
 
   setLoading(true);
   setConfirmation(null);
+  setReceipt(null);
+  setPaymentStatus(null);
+  setSubscriptionTotal(null);
+
+  const details = {
+    name,
+    nakshathra,
+    rashi,
+    gotra,
+    mobileNumber,
+    mobileNumberConfirmation,
+    sevaId: seva.id,
+  };
 
     try {
-      const response = await fetch('/api/sevaforms', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
+      const response = await fetch(
+        isRecurring ? '/api/sevasubscriptions' : '/api/sevaforms',
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify(
+            isRecurring
+              ? { ...details, recurrenceType: repeat, startDate: date, endDate }
+              : { ...details, date }
+          ),
+        }
+      );
+
+      if (response.ok && isRecurring) {
+        const data = await response.json();
+        const total = seva.base_price * occurrences.length;
+        const remaining = occurrences.length - PREVIEW_COUNT;
+
+        setConfirmation({
+          message: t("subscribed"),
+          bookingId: data.data.id,
+          type: 'success',
+        });
+        setReceipt({
+          kind: "subscription",
+          bookingId: formatBookingId("subscription", data.data.id),
           name,
-          nakshathra,
-          rashi,
-          gotra,
           mobileNumber,
-          mobileNumberConfirmation,
-          date,
-          sevaId: seva.id,
-        }),
-      });
+          item: { en: seva.name, kn: seva.name_kannada || "" },
+          purpose: { en: seva.description, kn: seva.description_kannada || "" },
+          dates: [
+            ...occurrences.slice(0, PREVIEW_COUNT).map(formatDateKey),
+            ...(remaining > 0 ? [t("more", { count: remaining })] : []),
+          ],
+          amount: total,
+          paymentStatus: total > 0 ? "pending" : undefined,
+          details: [
+            {
+              label: t("repeat"),
+              value: describeRecurrence(
+                { type: repeat, nakshatra: nakshathra },
+                locale
+              ),
+            },
+            {
+              label: t("endDate"),
+              value: formatDateKey(endDate),
+            },
+          ],
+          calendarEvents: occurrences.map((occurrence) => ({
+            uid: `subscription-${data.data.id}-${occurrence}`,
+            title: `${seva.name} (${formatBookingId("subscription", data.data.id)})`,
+            description: `Seva for ${name}`,
+            date: occurrence,
+          })),
+        });
+        setSubscriptionTotal(total);
+        setPaymentStatus(total > 0 ? "pending" : null);
 
-      if (response.ok) {
+        setName("");
+        setNakshathra("");
+        setRashi("");
+        setGotra("");
+        setMobileNumber("");
+        setMobileNumberConfirmation("");
+        setDate("");
+        setRepeat("once");
+        setEndDate("");
+      } else if (response.ok) {
         const data = await response.json();
 
         setConfirmation({
-          message: showKannada
-            ? "ಸೇವಾ ಅರ್ಜಿಯನ್ನು ಯಶಸ್ವಿಯಾಗಿ ಸಲ್ಲಿಸಲಾಗಿದೆ! ದಯವಿಟ್ಟು ಈ ID ಅನ್ನು ದೇವಸ್ಥಾನದಲ್ಲಿ ತೋರಿಸಿ."
-            : "Seva form submitted successfully! Please show this ID at the temple to perform your Seva.",
+          message: t("submitted"),
           bookingId: data.data.id,
           type: 'success',
         });
+        setReceipt({
+          kind: "seva",
+          bookingId: formatBookingId("seva", data.data.id),
+          name,
+          mobileNumber,
+          item: { en: seva.name, kn: seva.name_kannada || "" },
+          purpose: { en: seva.description, kn: seva.description_kannada || "" },
+          dates: [new Date(date).toLocaleDateString("en-GB")],
+          amount: seva.base_price,
+          paymentStatus: seva.base_price > 0 ? "pending" : undefined,
+          calendarEvents: [
+            {
+              uid: `seva-${data.data.id}`,
+              title: `${seva.name} (${formatBookingId("seva", data.data.id)})`,
+              description: `Seva for ${name}`,
+              date,
+            },
+          ],
+        });
+        setPaymentStatus(seva.base_price > 0 ? "pending" : null);
 
         setName("");
         setNakshathra("");
@@ -121,13 +282,13 @@ const SevaForm: React.FC<SevaFormProps> = ({ seva, showKannada }) => {
       } else {
         const errorData = await response.json();
         setConfirmation({
-          message: errorData.message || 'Failed to create Seva.',
+          message: errorData.message || t("failed"),
           type: 'error',
         });
       }
     } catch {
       setConfirmation({
-        message: 'An unexpected error occurred.',
+        message: tCommon("unexpectedError"),
         type: 'error',
       });
     } finally {
@@ -135,33 +296,22 @@ const SevaForm: React.FC<SevaFormProps> = ({ seva, showKannada }) => {
     }
   };
 
-  const labels = {
-    name: showKannada ? "ಹೆಸರು" : "Name",
-    nakshathra: showKannada ? "ನಕ್ಷತ್ರ" : "Nakshathra",
-    rashi: showKannada ? "ರಾಶಿ" : "Rashi",
-    gotra: showKannada ? "ಗೋತ್ರ" : "Gotra (optional)",
-    mobileNumber: showKannada ? "ಫೋನ್ ಸಂಖ್ಯೆ" : "Phone Number",
-    mobileNumberConfirmation: showKannada ? "ಫೋನ್ ಸಂಖ್ಯೆಯ ದೃಢೀಕರಣ" : "Phone Number Confirmation",
-    date: showKannada ? "ದಿನಾಂಕ" : "Date",
-    submit: showKannada ? "ಸೇವೆಗೆ ಅರ್ಜಿ ಸಲ್ಲಿಸಿ" : "Apply for Seva",
-  };
-
   return (
     <div className="max-w-md mx-auto p-4">
       <h1 className="text-2xl font-semibold text-orange-600 mb-2">
-        {showKannada ? seva.name_kannada : seva.name}
+        {localized(seva, "name")}
       </h1>
       <p className="text-gray-600 mb-4">
-        {showKannada ? seva.description_kannada : seva.description}
+        {localized(seva, "description")}
       </p>
       <p className="font-bold text-lg text-orange-600 mb-4">
-        Price: ₹{seva.base_price}
+        {tCommon("price", { price: seva.base_price })}
       </p>
 
       <form onSubmit={handleSubmit} className="bg-white shadow rounded-lg p-4 space-y-4">
         <div>
           <label htmlFor="name" className="block mb-1 text-gray-800 font-medium">
-            {labels.name}
+            {t("name")}
           </label>
           <input
             type="text"
@@ -175,48 +325,53 @@ const SevaForm: React.FC<SevaFormProps> = ({ seva, showKannada }) => {
 
         <div>
           <label htmlFor="nakshathra" className="block mb-1 text-gray-800 font-medium">
-            {labels.nakshathra}
+            {t("nakshathra")}
           </label>
-          <input
-            type="text"
+          <Combobox
             id="nakshathra"
+            options={nameOptions(NAKSHATRAS, locale)}
             value={nakshathra}
-            onChange={(e) => setNakshathra(e.target.value)}
+            onChange={setNakshathra}
             required
-            className="border border-gray-300 rounded-md p-2 w-full focus:outline-none focus:ring-2 focus:ring-orange-400"
+            placeholder={t("search")}
+            noMatchText={t("noMatch")}
+            chooseText={t("chooseFromList")}
           />
         </div>
 
         <div>
           <label htmlFor="rashi" className="block mb-1 text-gray-800 font-medium">
-            {labels.rashi}
+            {t("rashi")}
           </label>
-          <input
-            type="text"
+          <Combobox
             id="rashi"
+            options={nameOptions(RASHIS, locale)}
             value={rashi}
-            onChange={(e) => setRashi(e.target.value)}
+            onChange={setRashi}
             required
-            className="border border-gray-300 rounded-md p-2 w-full focus:outline-none focus:ring-2 focus:ring-orange-400"
+            placeholder={t("search")}
+            noMatchText={t("noMatch")}
+            chooseText={t("chooseFromList")}
           />
         </div>
 
         <div>
           <label htmlFor="gotra" className="block mb-1 text-gray-800 font-medium">
-            {labels.gotra}
+            {t("gotra")}
           </label>
-          <input
-            type="text"
+          {/* Suggestions only; any other gotra can be typed in */}
+          <Combobox
             id="gotra"
+            options={nameOptions(GOTRAS, locale, (gotra) => gotra.en)}
             value={gotra}
-            onChange={(e) => setGotra(e.target.value)}
-            className="border border-gray-300 rounded-md p-2 w-full focus:outline-none focus:ring-2 focus:ring-orange-400"
+            onChange={setGotra}
+            allowCustom
           />
         </div>
 
         <div>
           <label htmlFor="mobileNumber" className="block mb-1 text-gray-800 font-medium">
-            {labels.mobileNumber}
+            {t("mobileNumber")}
           </label>
           <input
             type="text"
@@ -232,7 +387,7 @@ const SevaForm: React.FC<SevaFormProps> = ({ seva, showKannada }) => {
 
         <div>
           <label htmlFor="mobileNumberConfirmation" className="block mb-1 text-gray-800 font-medium">
-            {labels.mobileNumberConfirmation}
+            {t("mobileNumberConfirmation")}
           </label>
           <input
             type="text"
@@ -246,9 +401,28 @@ const SevaForm: React.FC<SevaFormProps> = ({ seva, showKannada }) => {
           {confirmationPhoneError && <p className="text-red-600 mt-1">{confirmationPhoneError}</p>}
         </div>
         
+        <div>
+          <label htmlFor="repeat" className="block mb-1 text-gray-800 font-medium">
+            {t("repeat")}
+          </label>
+          <select
+            id="repeat"
+            value={repeat}
+            onChange={(e) => setRepeat(e.target.value as "once" | RecurrenceType)}
+            className="border border-gray-300 rounded-md p-2 w-full focus:outline-none focus:ring-2 focus:ring-orange-400"
+          >
+            <option value="once">{t("once")}</option>
+            {RECURRENCE_TYPES.map((type) => (
+              <option key={type} value={type}>
+                {recurrenceLabels[type][locale]}
+              </option>
+            ))}
+          </select>
+        </div>
+
         <div>
         <label htmlFor="date" className="block mb-1 text-gray-800 font-medium">
-          {labels.date}
+          {isRecurring ? t("startDate") : t("date")}
         </label>
         <input
           type="date"
@@ -260,14 +434,73 @@ const SevaForm: React.FC<SevaFormProps> = ({ seva, showKannada }) => {
           max={maxDate} // Set the maximum date
           className="border border-gray-300 rounded-md p-2 w-full focus:outline-none focus:ring-2 focus:ring-orange-400"
         />
+        {datePanchanga && (
+          <p className="text-sm text-gray-600 mt-1">
+            {t("panchanga")} {describePanchanga(datePanchanga, locale)}
+            {dateFestivals.length > 0 && (
+              <span className="block font-semibold text-orange-600">
+                {dateFestivals.map((festival) => festival[locale]).join(", ")}
+              </span>
+            )}
+          </p>
+        )}
       </div>
 
+        {isRecurring && (
+          <div>
+            <label htmlFor="endDate" className="block mb-1 text-gray-800 font-medium">
+              {t("endDate")}
+            </label>
+            <input
+              type="date"
+              id="endDate"
+              value={endDate}
+              onChange={(e) => setEndDate(e.target.value)}
+              required
+              min={date || todayString}
+              max={maxEndDate}
+              className="border border-gray-300 rounded-md p-2 w-full focus:outline-none focus:ring-2 focus:ring-orange-400"
+            />
+          </div>
+        )}
+
+        {/* Preview of the dates the subscription will cover */}
+        {isRecurring && date && endDate && (
+          <div className="bg-orange-50 border border-orange-200 rounded-md p-3 text-gray-800">
+            {repeat === "nakshatra" && !nakshathra ? (
+              <p>{t("chooseNakshathra")}</p>
+            ) : occurrences.length === 0 ? (
+              <p>{t("noDates")}</p>
+            ) : (
+              <>
+                <p className="font-medium mb-1">{t("preview")}</p>
+                <ul className="list-disc list-inside">
+                  {occurrences.slice(0, PREVIEW_COUNT).map((day) => (
+                    <li key={day}>{formatDateKey(day)}</li>
+                  ))}
+                </ul>
+                {occurrences.length > PREVIEW_COUNT && (
+                  <p className="text-sm text-gray-600">
+                    {t("more", { count: occurrences.length - PREVIEW_COUNT })}
+                  </p>
+                )}
+                <p className="font-semibold text-orange-600 mt-2">
+                  {t("total", {
+                    count: occurrences.length,
+                    amount: seva.base_price * occurrences.length,
+                  })}
+                </p>
+              </>
+            )}
+          </div>
+        )}
+
         <button
           type="submit"
           className="bg-orange-600 text-white py-2 rounded-md shadow hover:bg-orange-700 transition w-full"
           disabled={loading}
         >
-          {loading ? 'Submitting...' : labels.submit}
+          {loading ? tCommon("submitting") : t("submit")}
         </button>
       </form>
 
@@ -279,13 +512,37 @@ const SevaForm: React.FC<SevaFormProps> = ({ seva, showKannada }) => {
           </div>
           {confirmation.type === 'success' && confirmation.bookingId && (
             <div className="mt-2 flex items-center space-x-2">
-              <span className="font-semibold">Booking ID:</span>
+              <span className="font-semibold">
+                {subscriptionTotal !== null ? t("subscriptionId") : t("bookingId")}
+              </span>
               <span>{confirmation.bookingId}</span>
-              <button onClick={handleCopyBookingId} className="text-blue-500 underline">Copy</button>
+              <button onClick={handleCopyBookingId} className="text-blue-500 underline">{t("copy")}</button>
+            </div>
+          )}
+          {confirmation.type === 'success' && confirmation.bookingId && paymentStatus && (
+            <div className="mt-2">
+              <p>
+                <span className="font-semibold">
+                  {tCommon("paymentStatus")}
+                </span>{" "}
+                <span className={paymentStatusLabels[paymentStatus].className}>
+                  {paymentStatusLabels[paymentStatus][locale]}
+                </span>
+              </p>
+              {paymentStatus !== "paid" && (
+                <PaymentButton
+                  purpose={subscriptionTotal !== null ? "subscription" : "seva"}
+                  referenceId={confirmation.bookingId}
+                  amount={subscriptionTotal ?? seva.base_price}
+                  onStatusChange={handlePaymentStatusChange}
+                />
+              )}
             </div>
           )}
         </div>
       )}
+
+      {receipt && <Receipt data={receipt} />}
     </div>
   );
 };
@@ -1,8 +1,8 @@
 "use client";
 
 import { useEffect, useState } from "react";
-import { useSelector } from "react-redux";
-import { RootState } from "../store"; // Adjust the import if needed
+import { useLocalized, useT } from "../i18n/useT";
+import { Translations } from "../i18n/content";
 import SevaForm from "./SevaForm"; // Ensure SevaForm is correctly imported
 import LoadingSpinner from "../components/LoadingSpinner"; // Import the LoadingSpinner component
 
@@ -13,15 +13,16 @@ interface Seva {
   base_price: number;
   name_kannada?: string; // Kannada name
   description_kannada?: string; // Kannada description
+  translations?: Translations | null; // Other languages
 }
 
 const SevasList = (): JSX.Element => {
-  const showKannada = useSelector(
-    (state: RootState) => state.locale.locale === "kn"
-  ); // Track language from Redux state
+  const localized = useLocalized();
+  const t = useT("sevas");
+  const tCommon = useT("common");
 
   const [sevas, setSevas] = useState<Seva[]>([]);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState(false);
   const [selectedSeva, setSelectedSeva] = useState<Seva | null>(null); // State to store selected seva
   const [loading, setLoading] = useState(false); // Loading state
 
@@ -32,28 +33,36 @@ const SevasList = (): JSX.Element => {
       if (!res.ok) throw new Error("Failed to load sevas");
       const { data } = await res.json();
 
-      const formattedData = data.map(
-        (seva: {
-          seva_id: number;
-          name: string;
-          description: string;
-          base_price: string;
-          name_kannada?: string;
-          description_kannada?: string;
-        }) => ({
-          id: seva.seva_id,
-          name: seva.name,
-          description: seva.description,
-          base_price: parseFloat(seva.base_price), // Convert to number
-          name_kannada: seva.name_kannada,
-          description_kannada: seva.description_kannada,
-        })
-      );
+      // Inactive and archived sevas stay visible to admins only
+      const formattedData = data
+        .filter(
+          (seva: { is_active?: boolean; archived_at?: string | null }) =>
+            seva.is_active !== false && !seva.archived_at
+        )
+        .map(
+          (seva: {
+            seva_id: number;
+            name: string;
+            description: string;
+            base_price: string;
+            name_kannada?: string;
+            description_kannada?: string;
+            translations?: Translations | null;
+          }) => ({
+            id: seva.seva_id,
+            name: seva.name,
+            description: seva.description,
+            base_price: parseFloat(seva.base_price), // Convert to number
+            name_kannada: seva.name_kannada,
+            description_kannada: seva.description_kannada,
+            translations: seva.translations,
+          })
+        );
 
       setSevas(formattedData);
     } catch (err) {
       console.error(err);
-      setError("Failed to load sevas. Please try again later.");
+      setError(true);
     } finally {
       setLoading(false); // Stop loading
     }
@@ -69,20 +78,18 @@ const SevasList = (): JSX.Element => {
   };
 
   if (selectedSeva) {
-    return <SevaForm seva={selectedSeva} showKannada={showKannada} />;
+    return <SevaForm seva={selectedSeva} />;
   }
 
   return (
     <div className="flex flex-col items-center min-h-screen p-6 bg-gradient-to-b from-white to-orange-100">
       <p className="text-center text-sm font-bold text-red-500 mb-4 animate-pulse shadow-lg">
-        {showKannada
-          ? "ದಯವಿಟ್ಟು ಸೇವೆಯನ್ನು ನಡೆಸುವ ದಿನಕ್ಕಿಂತ ಕನಿಷ್ಟ ಒಂದು ದಿನದ ಮುಂಚಿತವಾಗಿ ದೃಢೀಕರಣಕ್ಕಾಗಿ ದೇವಾಲಯದ ಕಚೇರಿಯನ್ನು ಸಂಪರ್ಕಿಸಿ."
-          : "Please contact the temple office for confirmation regarding the seva at least one day prior to the day of worship."}
+        {t("contactOffice")}
       </p>
-      {error && <p className="text-red-500 text-center">{error}</p>}
+      {error && <p className="text-red-500 text-center">{t("error")}</p>}
       {loading && <LoadingSpinner />} 
       {!loading && sevas.length === 0 && !error && (
-        <p className="text-center">No sevas available.</p>
+        <p className="text-center">{t("noSevas")}</p>
       )}
 
       <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-8 mt-10 max-w-5xl w-full">
@@ -93,13 +100,13 @@ const SevasList = (): JSX.Element => {
             onClick={() => handleSevaClick(seva)}
           >
             <h2 className="text-xl font-bold text-orange-600 mb-2">
-              {showKannada ? seva.name_kannada : seva.name}
+              {localized(seva, "name")}
             </h2>
             <p className="text-gray-700 mt-2">
-              {showKannada ? seva.description_kannada : seva.description}
+              {localized(seva, "description")}
             </p>
             <p className="mt-4 font-semibold text-lg text-gray-800">
-              Price: ₹{seva.base_price}
+              {tCommon("price", { price: seva.base_price })}
             </p>
           </div>
         ))}
@@ -0,0 +1,92 @@
+import { NAKSHATRAS, nameLabel } from "../panchanga/names";
+import { nakshatraDays } from "../panchanga/table";
+import { addDays, addMonths, parseDateKey } from "../panchanga/dates";
+
+// How a seva subscription repeats. "nakshatra" follows the devotee's birth
+// nakshatra through the bundled panchanga table, so it can only be booked
+// as far ahead as that table goes.
+export type RecurrenceType = "weekly" | "monthly" | "annual" | "nakshatra";
+
+export const RECURRENCE_TYPES: RecurrenceType[] = [
+  "weekly",
+  "monthly",
+  "annual",
+  "nakshatra",
+];
+
+export interface Recurrence {
+  type: RecurrenceType;
+  startDate: string; // YYYY-MM-DD, the first day that may be booked
+  endDate: string; // YYYY-MM-DD, included
+  nakshatra?: string; // NAKSHATRAS code, for "nakshatra"
+}
+
+// Subscriptions run for at most this long; devotees renew after that
+export const MAX_SUBSCRIPTION_YEARS = 3;
+
+export const recurrenceLabels: Record<
+  RecurrenceType,
+  { en: string; kn: string }
+> = {
+  weekly: { en: "Every week", kn: "ಪ್ರತಿ ವಾರ" },
+  monthly: { en: "Every month", kn: "ಪ್ರತಿ ತಿಂಗಳು" },
+  annual: { en: "Every year", kn: "ಪ್ರತಿ ವರ್ಷ" },
+  nakshatra: {
+    en: "Every month on the nakshathra",
+    kn: "ಪ್ರತಿ ತಿಂಗಳು ನಕ್ಷತ್ರದಂದು",
+  },
+};
+
+// Dates of a subscription between two days, both included
+export const occurrencesBetween = (
+  recurrence: Recurrence,
+  from: string,
+  to: string
+): string[] => {
+  const first = from > recurrence.startDate ? from : recurrence.startDate;
+  const last = to < recurrence.endDate ? to : recurrence.endDate;
+  if (first > last) return [];
+
+  if (recurrence.type === "nakshatra") {
+    return recurrence.nakshatra
+      ? nakshatraDays(recurrence.nakshatra, first, last)
+      : [];
+  }
+
+  // Count steps from the start date so month ends do not drift (31st → 28th → 28th)
+  const { day } = parseDateKey(recurrence.startDate);
+  const dateAt = (step: number) => {
+    switch (recurrence.type) {
+      case "weekly":
+        return addDays(recurrence.startDate, step * 7);
+      case "monthly":
+        return addMonths(recurrence.startDate, step, day);
+      default:
+        return addMonths(recurrence.startDate, step * 12, day);
+    }
+  };
+
+  const dates: string[] = [];
+  for (let step = 0; ; step++) {
+    const date = dateAt(step);
+    if (date > last) break;
+    if (date >= first) dates.push(date);
+  }
+  return dates;
+};
+
+export const upcomingOccurrences = (
+  recurrence: Recurrence,
+  from: string,
+  limit: number
+) => occurrencesBetween(recurrence, from, recurrence.endDate).slice(0, limit);
+
+export const describeRecurrence = (
+  recurrence: Pick<Recurrence, "type" | "nakshatra">,
+  locale: "en" | "kn"
+) => {
+  const label = recurrenceLabels[recurrence.type]?.[locale] || recurrence.type;
+  return recurrence.type === "nakshatra" && recurrence.nakshatra
+    ? `${label} (${nameLabel(NAKSHATRAS, recurrence.nakshatra, locale)})`
+    : label;
+};
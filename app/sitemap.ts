@@ -0,0 +1,144 @@
+import type { MetadataRoute } from "next";
+import { fetchBackendData } from "./api/backend";
+import { absoluteUrl, localeAlternates } from "./seo/site";
+import { LOCALES } from "./i18n";
+import { localizePath } from "./i18n/routing";
+import { LEGACY_ALBUM_ID } from "./gallery/albumData";
+
+type SitemapEntry = MetadataRoute.Sitemap[number];
+
+// The public pages under app/. Admin, login and booking lookup are left
+// out, as are routes with no page (payments, notifications)
+const STATIC_PAGES: {
+  path: string;
+  changeFrequency: SitemapEntry["changeFrequency"];
+  priority: number;
+}[] = [
+  { path: "/", changeFrequency: "daily", priority: 1.0 },
+  { path: "/temple", changeFrequency: "weekly", priority: 0.9 },
+  { path: "/sevas", changeFrequency: "weekly", priority: 0.8 },
+  { path: "/events", changeFrequency: "weekly", priority: 0.8 },
+  { path: "/newsupdates", changeFrequency: "daily", priority: 0.8 },
+  { path: "/calendar", changeFrequency: "monthly", priority: 0.7 },
+  { path: "/booking", changeFrequency: "weekly", priority: 0.7 },
+  { path: "/donations", changeFrequency: "monthly", priority: 0.7 },
+  { path: "/gallery", changeFrequency: "weekly", priority: 0.6 },
+  { path: "/history", changeFrequency: "yearly", priority: 0.6 },
+  { path: "/administration", changeFrequency: "yearly", priority: 0.5 },
+  { path: "/facilities", changeFrequency: "monthly", priority: 0.5 },
+  { path: "/nearby", changeFrequency: "yearly", priority: 0.5 },
+  { path: "/reach", changeFrequency: "yearly", priority: 0.5 },
+  { path: "/contact", changeFrequency: "yearly", priority: 0.5 },
+  { path: "/policy", changeFrequency: "yearly", priority: 0.3 },
+];
+
+// Only the fields the sitemap needs
+interface ApiNewsItem {
+  news_id: number;
+  created_at: string;
+  updated_at?: string;
+}
+
+interface ApiEventItem {
+  event_id: number;
+  created_at?: string;
+  updated_at?: string;
+}
+
+interface ApiAlbumItem {
+  album_id: number;
+  created_at?: string;
+  updated_at?: string;
+}
+
+// A page is listed once per locale, each listing the others as alternates
+const entries = (
+  path: string,
+  details: Omit<SitemapEntry, "url" | "alternates">
+): SitemapEntry[] =>
+  LOCALES.map((locale) => ({
+    url: absoluteUrl(localizePath(locale, path)),
+    alternates: { languages: localeAlternates(path) },
+    ...details,
+  }));
+
+// A sitemap without news, events or albums is still worth serving
+const fetchList = async <T>(path: string): Promise<T[]> => {
+  try {
+    return await fetchBackendData<T[]>(path);
+  } catch (error) {
+    console.error(`Error fetching ${path} for the sitemap:`, error);
+    return [];
+  }
+};
+
+const lastModified = (item: { created_at?: string; updated_at?: string }) => {
+  const value = item.updated_at || item.created_at;
+  return value ? new Date(value) : undefined;
+};
+
+const newest = (dates: (Date | undefined)[]) =>
+  dates.reduce<Date | undefined>(
+    (latest, date) => (date && (!latest || date > latest) ? date : latest),
+    undefined
+  );
+
+export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
+  const [news, events, albums, legacyPhotos] = await Promise.all([
+    fetchList<ApiNewsItem>("/news-updates"),
+    fetchList<ApiEventItem>("/events"),
+    fetchList<ApiAlbumItem>("/gallery/albums"),
+    fetchList<unknown>("/gallery"),
+  ]);
+
+  const newsEntries = news.flatMap((item) =>
+    entries(`/newsupdates/${item.news_id}`, {
+      lastModified: lastModified(item),
+      changeFrequency: "monthly",
+      priority: 0.6,
+    })
+  );
+  const eventEntries = events.flatMap((event) =>
+    entries(`/events/${event.event_id}`, {
+      lastModified: lastModified(event),
+      changeFrequency: "weekly",
+      priority: 0.7,
+    })
+  );
+  const albumEntries = albums.flatMap((album) =>
+    entries(`/gallery/${album.album_id}`, {
+      lastModified: lastModified(album),
+      changeFrequency: "monthly",
+      priority: 0.5,
+    })
+  );
+  if (legacyPhotos.length > 0) {
+    albumEntries.push(
+      ...entries(`/gallery/${LEGACY_ALBUM_ID}`, {
+        changeFrequency: "yearly",
+        priority: 0.4,
+      })
+    );
+  }
+
+  // Listing pages change whenever something is added to them
+  const sectionUpdated: Record<string, Date | undefined> = {
+    "/newsupdates": newest(news.map(lastModified)),
+    "/events": newest(events.map(lastModified)),
+    "/gallery": newest(albums.map(lastModified)),
+  };
+  sectionUpdated["/"] = newest(Object.values(sectionUpdated));
+
+  return [
+    ...STATIC_PAGES.flatMap(({ path, changeFrequency, priority }) =>
+      entries(path, {
+        lastModified: sectionUpdated[path],
+        changeFrequency,
+        priority,
+      })
+    ),
+    ...eventEntries,
+    ...newsEntries,
+    ...albumEntries,
+  ];
+}
@@ -0,0 +1,166 @@
+// store/availabilitySlice.ts
+import { createAsyncThunk, createSlice } from "@reduxjs/toolkit";
+import { SlotType } from "../booking/types";
+import {
+  BookingStatus,
+  effectiveStatus,
+  legacyStatus,
+} from "../booking/status";
+
+export interface AvailabilityEntry {
+  hallId: number;
+  date: string;
+  reason: string;
+  isBooked: boolean;
+  slot: SlotType;
+  status: BookingStatus | null; // null when the slot is simply available
+}
+
+interface APIResponse {
+  statusCode: number;
+  message: string;
+  data: {
+    date: string;
+    reason: string;
+    is_booked: boolean;
+    slot?: SlotType; // Older rows have no slot and block the whole day
+    status?: BookingStatus | null; // Older rows only have is_booked and reason
+    held_at?: string | null; // When the current request or hold started
+    hall: {
+      hall_id: number;
+      name: string;
+    };
+  }[];
+}
+
+interface MonthAvailability {
+  status: "loading" | "succeeded" | "failed";
+  entries: AvailabilityEntry[];
+}
+
+interface AvailabilityState {
+  // Keyed by YYYY-MM, each month holding every hall's entries, so the
+  // Calendars of all halls share one request per month
+  months: Record<string, MonthAvailability>;
+}
+
+interface MonthArgs {
+  year: number;
+  month: number; // 0-based, same as Date#getMonth()
+}
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+export const monthKey = ({ year, month }: MonthArgs): string => {
+  // Normalise overflowing months (e.g. month 12 -> January of next year)
+  const normalised = new Date(year, month, 1);
+  return `${normalised.getFullYear()}-${pad(normalised.getMonth() + 1)}`;
+};
+
+export const fetchMonthAvailability = createAsyncThunk<
+  AvailabilityEntry[],
+  MonthArgs,
+  { state: { availability: AvailabilityState } }
+>(
+  "availability/fetchMonth",
+  async ({ year, month }) => {
+    const first = new Date(year, month, 1);
+    const last = new Date(year, month + 1, 0);
+    const from = `${first.getFullYear()}-${pad(first.getMonth() + 1)}-01`;
+    const to = `${last.getFullYear()}-${pad(last.getMonth() + 1)}-${pad(
+      last.getDate()
+    )}`;
+
+    const response = await fetch(
+      `/api/halls/availability?from=${from}&to=${to}`
+    );
+    const result: APIResponse = await response.json();
+
+    if (result.statusCode !== 200) {
+      throw new Error(result.message || "Failed to fetch availability data");
+    }
+
+    return result.data.map((item) => {
+      const status =
+        item.status !== undefined
+          ? item.status
+          : legacyStatus(item.is_booked, item.reason);
+      return {
+        hallId: item.hall.hall_id,
+        date: item.date.split("T")[0],
+        reason: item.reason || "Available",
+        isBooked: item.is_booked,
+        slot: item.slot || "full",
+        status:
+          status &&
+          effectiveStatus(status, {
+            requestedAt: null,
+            heldAt: item.held_at ? new Date(item.held_at) : null,
+          }),
+      };
+    });
+  },
+  {
+    // Skip the request when the month is cached or already in flight
+    condition: (args, { getState }) => {
+      const cached = getState().availability.months[monthKey(args)];
+      return !cached || cached.status === "failed";
+    },
+  }
+);
+
+// A day's entries once its month has loaded, else null: a month that is
+// still loading or failed to load is unknown, not free
+export const entriesForDay = (
+  months: AvailabilityState["months"],
+  hallId: number,
+  date: string
+): AvailabilityEntry[] | null => {
+  const month = months[date.slice(0, 7)];
+  return month?.status === "succeeded"
+    ? month.entries.filter(
+        (entry) => entry.hallId === hallId && entry.date === date
+      )
+    : null;
+};
+
+const initialState: AvailabilityState = {
+  months: {},
+};
+
+const availabilitySlice = createSlice({
+  name: "availability",
+  initialState,
+  reducers: {
+    // Drop every cached month, e.g. after a new booking is added; months
+    // hold all halls, so none can be kept for the other halls
+    invalidateAvailability: (state) => {
+      state.months = {};
+    },
+  },
+  extraReducers: (builder) => {
+    builder
+      .addCase(fetchMonthAvailability.pending, (state, action) => {
+        state.months[monthKey(action.meta.arg)] = {
+          status: "loading",
+          entries: [],
+        };
+      })
+      .addCase(fetchMonthAvailability.fulfilled, (state, action) => {
+        state.months[monthKey(action.meta.arg)] = {
+          status: "succeeded",
+          entries: action.payload,
+        };
+      })
+      .addCase(fetchMonthAvailability.rejected, (state, action) => {
+        console.error("Error fetching availability:", action.error.message);
+        state.months[monthKey(action.meta.arg)] = {
+          status: "failed",
+          entries: [],
+        };
+      });
+  },
+});
+
+export const { invalidateAvailability } = availabilitySlice.actions;
+export default availabilitySlice.reducer;
@@ -1,14 +1,20 @@
 // store/index.ts
 import { configureStore } from "@reduxjs/toolkit";
 import localeReducer from "./localeSlice";
+import availabilityReducer from "./availabilitySlice";
+import { Locale } from "../i18n";
 
-const store = configureStore({
-  reducer: {
-    locale: localeReducer, // Register the locale slice here
-  },
-});
+// One store per request on the server, so visitors never share state; the
+// locale comes from the URL (see middleware.ts)
+export const makeStore = (locale: Locale) =>
+  configureStore({
+    reducer: {
+      locale: localeReducer, // Register the locale slice here
+      availability: availabilityReducer, // Hall availability cached per month
+    },
+    preloadedState: { locale: { locale } },
+  });
 
-export type RootState = ReturnType<typeof store.getState>;
-export type AppDispatch = typeof store.dispatch;
-
-export default store;
+export type AppStore = ReturnType<typeof makeStore>;
+export type RootState = ReturnType<AppStore["getState"]>;
+export type AppDispatch = AppStore["dispatch"];
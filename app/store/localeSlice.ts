@@ -1,52 +1,23 @@
 // store/localeSlice.ts
-import { createSlice, PayloadAction } from "@reduxjs/toolkit";
-
-const translations = {
-  en: {
-    welcome: "Welcome to our site!",
-    language: "Language",
-    greeting: "Hello, how can we assist you today?",
-    reserveAHall: "Reserve a Hall", // Added translation
-  },
-  kn: {
-    welcome: "ನಮ್ಮ ತಾಣಕ್ಕೆ ಸ್ವಾಗತ!",
-    language: "ಭಾಷೆ",
-    greeting: "ಹಲೋ, ಇಂದು ನಾವು ನಿಮಗೆ ಹೇಗೆ ಸಹಾಯ ಮಾಡಬಹುದು?",
-    reserveAHall: "ಹಾಲ್ ಕಾಯ್ದಿರಿಸಿ", // Added translation
-  },
-};
-
-const getInitialLocale = (): string => {
-  if (typeof window !== "undefined") {
-    return localStorage.getItem("locale") || "en"; // Default to English if not found
-  }
-  return "en"; // Fallback for server-side rendering
-};
+import { createSlice } from "@reduxjs/toolkit";
+import { DEFAULT_LOCALE } from "../i18n/routing";
+import { Locale } from "../i18n";
 
+// The locale of the current URL, set when the store is made (see
+// components/redux-provider.tsx). Changing language loads the other locale's
+// URL, so it never changes while the page is open.
 interface LocaleState {
-  locale: string;
-  messages: typeof translations.en;
+  locale: Locale;
 }
 
 const initialState: LocaleState = {
-  locale: getInitialLocale(), // Use the function to get the initial locale
-  messages: translations[getInitialLocale() as keyof typeof translations],
+  locale: DEFAULT_LOCALE,
 };
 
 const localeSlice = createSlice({
   name: "locale",
   initialState,
-  reducers: {
-    changeLocale: (state, action: PayloadAction<string>) => {
-      state.locale = action.payload;
-      state.messages =
-        translations[action.payload as keyof typeof translations];
-      if (typeof window !== "undefined") {
-        localStorage.setItem("locale", action.payload); // Store preference in localStorage
-      }
-    },
-  },
+  reducers: {},
 });
 
-export const { changeLocale } = localeSlice.actions;
 export default localeSlice.reducer;
@@ -0,0 +1,21 @@
+import { Metadata } from "next";
+import TempleJsonLd from "../components/TempleJsonLd";
+
+export const metadata: Metadata = {
+  title: "Temple Timings - Shrirama Temple, Chokkadi",
+  description:
+    "Darshan and pooja timings at Shrirama Temple, Chokkadi, including festivals and other special days.",
+};
+
+export default function TempleLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  return (
+    <>
+      <TempleJsonLd />
+      {children}
+    </>
+  );
+}
@@ -0,0 +1,25 @@
+import { fetchBackendData } from "../api/backend";
+import {
+  ApiTimingOverride,
+  ApiWeeklyTiming,
+  formatOverride,
+  formatWeekly,
+} from "./timings";
+
+// Timings for server code (calendar feed, structured data). Falls back to
+// the usual timings if the backend cannot be reached
+export const loadTimings = async () => {
+  try {
+    const [weekly, overrides] = await Promise.all([
+      fetchBackendData<ApiWeeklyTiming[]>("/templetimings"),
+      fetchBackendData<ApiTimingOverride[]>("/timingoverrides"),
+    ]);
+    return {
+      weekly: formatWeekly(weekly),
+      overrides: overrides.map(formatOverride),
+    };
+  } catch (error) {
+    console.error("Error fetching temple timings:", error);
+    return { weekly: formatWeekly([]), overrides: [] };
+  }
+};
@@ -1,68 +1,138 @@
 "use client";
 
 import { useEffect, useState } from "react";
-import { useSelector, useDispatch } from "react-redux";
-import { RootState, AppDispatch } from "../store";
-import { changeLocale } from "../store/localeSlice";
+import { useDataLocale, useT } from "../i18n/useT";
+import {
+  DaySchedule,
+  TimingOverride,
+  WEEKDAYS,
+  fetchTimingsData,
+  formatSession,
+  formatTime,
+  formatWeekly,
+} from "./timings";
+import { formatDateKey, todayInIndia } from "../panchanga/dates";
+import TodayTimings from "../components/TodayTimings";
+import CalendarSubscribe from "../components/CalendarSubscribe";
 
-// Define a type for the locales
-type LocaleType = "en" | "kn";
-
-// Define content for transport and pooja timings in both English and Kannada
-const content: Record<LocaleType, { title: string; details: { title: string; description: string }[] }> = {
-  en: {
-    title: "Temple Timings",
-    details: [
-      { title: "Pooja Timings of Shrirama Temple:", description: "7 am to 1 pm | 5 pm to 8 pm" },
-      { title: "Morning Pooja", description: "7:30AM" },
-      { title: "Maha Pooja", description: "12:30PM" },
-      { title: "Night Pooja", description: "7:30PM" },
-    ],
-  },
-  kn: {
-    title: "ದೇವಾಲಯದ ಸಮಯ",
-    details: [
-      { title: "ಶ್ರೀ ದೇವರ ಪೂಜಾ ಸಮಯ:", description: "ದರ್ಶನ ಸಮಯ:\nಬೆಳಗ್ಗೆ 7 ಗಂಟೆಯಿಂದ ಮಧ್ಯಾಹ್ನ 1 ಗಂಟೆಯ ತನಕ | ಸಂಜೆ 5 ಗಂಟೆಯಿಂದ ರಾತ್ರಿ 8 ಗಂಟೆಯ ತನಕ" },
-      { title: "ಬೆಳಗ್ಗೆಯ ಪೂಜೆ", description: "ಬೆಳಗ್ಗೆ 7:30ಕ್ಕೆ" },
-      { title: "ಮಹಾಪೂಜೆ", description: "ಮಧ್ಯಾಹ್ನ 12:30ಕ್ಕೆ" },
-      { title: "ರಾತ್ರಿಯ ಪೂಜೆ", description: "ರಾತ್ರಿ 7:30ಕ್ಕೆ" },
-    ],
-  },
+// Weekdays that share the same timings are shown together
+const groupWeekdays = (weekly: DaySchedule[]) => {
+  const groups: { weekdays: number[]; schedule: DaySchedule }[] = [];
+  weekly.forEach((schedule, weekday) => {
+    const same = groups.find(
+      (group) => JSON.stringify(group.schedule) === JSON.stringify(schedule)
+    );
+    if (same) same.weekdays.push(weekday);
+    else groups.push({ weekdays: [weekday], schedule });
+  });
+  return groups;
 };
 
 export default function About() {
-  const dispatch = useDispatch<AppDispatch>();
-  const currentLocale: LocaleType = useSelector(
-    (state: RootState) => state.locale.locale
-  ) as LocaleType;
-
-  const { title, details } = content[currentLocale];
-  const [isLocaleLoaded, setIsLocaleLoaded] = useState(false);
+  const currentLocale = useDataLocale();
+  const t = useT("timings");
+  // The usual timings until the saved ones arrive
+  const [timings, setTimings] = useState<{
+    weekly: DaySchedule[];
+    overrides: TimingOverride[];
+  }>({ weekly: formatWeekly([]), overrides: [] });
 
   useEffect(() => {
-    const savedLocale = (localStorage.getItem("locale") || "en") as LocaleType;
-    dispatch(changeLocale(savedLocale));
-    setIsLocaleLoaded(true);
-  }, [dispatch]);
+    fetchTimingsData()
+      .then(setTimings)
+      .catch((error) => console.error("Error loading timings:", error));
+  }, []);
+
+  const today = todayInIndia();
+  const groups = groupWeekdays(timings.weekly);
+  const upcoming = timings.overrides
+    .filter((override) => override.endDate >= today)
+    .sort((a, b) => a.date.localeCompare(b.date));
 
-  if (!isLocaleLoaded) return null; // Prevent rendering until locale is loaded
+  const renderSchedule = (schedule: DaySchedule) => (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mt-2">
+      <div>
+        <h3 className="font-semibold">{t("darshan")}</h3>
+        {schedule.darshan.length === 0 && <p>{t("closed")}</p>}
+        {schedule.darshan.map((session) => (
+          <p key={session.from} className="text-[var(--text)]">
+            {formatSession(session, currentLocale)}
+          </p>
+        ))}
+      </div>
+      <div>
+        <h3 className="font-semibold">{t("poojas")}</h3>
+        {schedule.poojas.map((pooja) => (
+          <p key={pooja.time} className="text-[var(--text)]">
+            {pooja.name[currentLocale]} –{" "}
+            {formatTime(pooja.time, currentLocale)}
+          </p>
+        ))}
+      </div>
+    </div>
+  );
 
   return (
     <main className="min-h-screen flex flex-col items-center p-6 bg-[var(--background)] font-serif">
-      <h1 className="text-3xl font-bold mb-6 text-[var(--foreground)] text-center">{title}</h1>
-      <div className="max-w-2xl mx-auto bg-[var(--card-background)] bg-opacity-90 p-8 rounded-lg shadow-lg">
-        {details.map(({ title, description }, index) => (
-          <div key={index} className="mb-6">
-            <h2 className="text-[var(--primary)] font-semibold text-lg">{title}</h2>
-            <p className="text-[var(--text)] leading-relaxed text-base mt-2 whitespace-pre-line">
-              {description}
+      <h1 className="text-3xl font-bold mb-6 text-[var(--foreground)] text-center">
+        {t("title")}
+      </h1>
+
+      <TodayTimings timings={timings} />
+
+      <div className="w-full max-w-2xl mx-auto bg-[var(--card-background)] bg-opacity-90 p-8 rounded-lg shadow-lg mt-6">
+        <h2 className="text-[var(--primary)] font-semibold text-xl mb-2">
+          {t("weekly")}
+        </h2>
+        {groups.map(({ weekdays, schedule }, index) => (
+          <div key={weekdays.join()} className="mb-4">
+            <p className="font-medium text-lg">
+              {groups.length === 1
+                ? t("everyDay")
+                : weekdays
+                    .map((weekday) => WEEKDAYS[weekday][currentLocale])
+                    .join(", ")}
             </p>
-            {index < details.length - 1 && (
+            {renderSchedule(schedule)}
+            {index < groups.length - 1 && (
               <hr className="border-t border-[var(--border)] my-4" />
             )}
           </div>
         ))}
       </div>
+
+      {upcoming.length > 0 && (
+        <div className="w-full max-w-2xl mx-auto bg-[var(--card-background)] bg-opacity-90 p-8 rounded-lg shadow-lg mt-6">
+          <h2 className="text-[var(--primary)] font-semibold text-xl mb-2">
+            {t("special")}
+          </h2>
+          {upcoming.map((override, index) => (
+            <div key={override.id} className="mb-4">
+              <p className="font-medium text-lg text-orange-700">
+                {formatDateKey(override.date)}
+                {override.endDate !== override.date &&
+                  ` – ${formatDateKey(override.endDate)}`}
+                : {override.title[currentLocale]}
+              </p>
+              {override.note[currentLocale] && (
+                <p className="text-[var(--text)] whitespace-pre-line">
+                  {override.note[currentLocale]}
+                </p>
+              )}
+              {override.closed ? (
+                <p className="mt-2">{t("closed")}</p>
+              ) : (
+                renderSchedule(override.schedule)
+              )}
+              {index < upcoming.length - 1 && (
+                <hr className="border-t border-[var(--border)] my-4" />
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <CalendarSubscribe feedPath="/api/calendar/poojas" />
     </main>
   );
 }
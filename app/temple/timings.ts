@@ -0,0 +1,196 @@
+import { addDays, weekdayOf } from "../panchanga/dates";
+import { DataLocale, Locale, translate } from "../i18n";
+
+// Temple timings: a schedule for each day of the week, plus dated overrides
+// for festivals, grahana and other special days. Times are temple time
+// (IST), 24-hour HH:MM.
+
+export interface DarshanSession {
+  from: string;
+  to: string;
+}
+
+export interface PoojaTime {
+  time: string;
+  name: { en: string; kn: string };
+}
+
+export interface DaySchedule {
+  darshan: DarshanSession[];
+  poojas: PoojaTime[];
+}
+
+export interface TimingOverride {
+  id: number;
+  date: string; // YYYY-MM-DD
+  endDate: string; // Same as date for a single day
+  title: { en: string; kn: string }; // e.g. "Chandra Grahana"
+  note: { en: string; kn: string };
+  closed: boolean; // No darshan or poojas at all
+  schedule: DaySchedule;
+}
+
+// Interfaces for API responses
+export interface ApiWeeklyTiming {
+  weekday: number; // 0 = Sunday
+  darshan: DarshanSession[];
+  poojas: PoojaTime[];
+}
+
+export interface ApiTimingOverride {
+  id: number;
+  date: string;
+  end_date?: string | null;
+  title: string;
+  title_kannada?: string;
+  note?: string;
+  note_kannada?: string;
+  is_closed?: boolean;
+  darshan?: DarshanSession[] | null;
+  poojas?: PoojaTime[] | null;
+}
+
+// The long-standing timings, used for any weekday not yet saved
+export const DEFAULT_DAY: DaySchedule = {
+  darshan: [
+    { from: "07:00", to: "13:00" },
+    { from: "17:00", to: "20:00" },
+  ],
+  poojas: [
+    { time: "07:30", name: { en: "Morning Pooja", kn: "ಬೆಳಗ್ಗೆಯ ಪೂಜೆ" } },
+    { time: "12:30", name: { en: "Maha Pooja", kn: "ಮಹಾಪೂಜೆ" } },
+    { time: "19:30", name: { en: "Night Pooja", kn: "ರಾತ್ರಿಯ ಪೂಜೆ" } },
+  ],
+};
+
+export const WEEKDAYS: { en: string; kn: string }[] = [
+  { en: "Sunday", kn: "ಭಾನುವಾರ" },
+  { en: "Monday", kn: "ಸೋಮವಾರ" },
+  { en: "Tuesday", kn: "ಮಂಗಳವಾರ" },
+  { en: "Wednesday", kn: "ಬುಧವಾರ" },
+  { en: "Thursday", kn: "ಗುರುವಾರ" },
+  { en: "Friday", kn: "ಶುಕ್ರವಾರ" },
+  { en: "Saturday", kn: "ಶನಿವಾರ" },
+];
+
+// Length given to each pooja in calendar apps
+export const POOJA_DURATION_MINUTES = 30;
+
+const toDay = (value: string) => value.slice(0, 10);
+
+const byTime = (a: PoojaTime, b: PoojaTime) => a.time.localeCompare(b.time);
+
+const bySession = (a: DarshanSession, b: DarshanSession) =>
+  a.from.localeCompare(b.from);
+
+// Seven schedules, Sunday first
+export const formatWeekly = (rows: ApiWeeklyTiming[]): DaySchedule[] =>
+  WEEKDAYS.map((_, weekday) => {
+    const row = rows.find((item) => item.weekday === weekday);
+    return row
+      ? {
+          darshan: [...row.darshan].sort(bySession),
+          poojas: [...row.poojas].sort(byTime),
+        }
+      : DEFAULT_DAY;
+  });
+
+export const formatOverride = (
+  override: ApiTimingOverride
+): TimingOverride => ({
+  id: override.id,
+  date: toDay(override.date),
+  endDate: toDay(override.end_date || override.date),
+  title: { en: override.title, kn: override.title_kannada || override.title },
+  note: {
+    en: override.note || "",
+    kn: override.note_kannada || override.note || "",
+  },
+  closed: override.is_closed === true,
+  schedule: {
+    darshan: [...(override.darshan || [])].sort(bySession),
+    poojas: [...(override.poojas || [])].sort(byTime),
+  },
+});
+
+export const overrideOn = (key: string, overrides: TimingOverride[]) =>
+  overrides.find(
+    (override) => override.date <= key && override.endDate >= key
+  ) || null;
+
+export const overrideDays = (override: TimingOverride) => {
+  const days: string[] = [];
+  for (
+    let key = override.date;
+    key <= override.endDate;
+    key = addDays(key, 1)
+  ) {
+    days.push(key);
+  }
+  return days;
+};
+
+// What is wrong with a schedule before it is saved, if anything
+export const scheduleProblem = (
+  schedule: DaySchedule,
+  locale: Locale
+): string | null => {
+  if (schedule.darshan.some(({ from, to }) => !from || !to || from >= to)) {
+    return translate(locale, "timings", "problems.darshanOrder");
+  }
+  if (schedule.poojas.some(({ time, name }) => !time || !name.en || !name.kn)) {
+    return translate(locale, "timings", "problems.poojaIncomplete");
+  }
+  return null;
+};
+
+// The timings that hold on a day, and the override behind them if any
+export const timingsFor = (
+  key: string,
+  weekly: DaySchedule[],
+  overrides: TimingOverride[]
+) => {
+  const override = overrideOn(key, overrides);
+  if (!override) return { schedule: weekly[weekdayOf(key)], override };
+  return {
+    schedule: override.closed ? { darshan: [], poojas: [] } : override.schedule,
+    override,
+  };
+};
+
+const kannadaPeriod = (hours: number) => {
+  if (hours < 12) return "ಬೆಳಗ್ಗೆ";
+  if (hours < 16) return "ಮಧ್ಯಾಹ್ನ";
+  if (hours < 19) return "ಸಂಜೆ";
+  return "ರಾತ್ರಿ";
+};
+
+// "19:30" → "7:30 PM" / "ರಾತ್ರಿ 7:30"
+export const formatTime = (time: string, locale: DataLocale) => {
+  const [hours, minutes] = time.split(":").map(Number);
+  const clock = `${hours % 12 || 12}:${String(minutes).padStart(2, "0")}`;
+  return locale === "kn"
+    ? `${kannadaPeriod(hours)} ${clock}`
+    : `${clock} ${hours < 12 ? "AM" : "PM"}`;
+};
+
+export const formatSession = (session: DarshanSession, locale: DataLocale) =>
+  `${formatTime(session.from, locale)} – ${formatTime(session.to, locale)}`;
+
+export const fetchTimingsData = async () => {
+  const [weeklyRes, overridesRes] = await Promise.all([
+    fetch(`/api/templetimings`),
+    fetch(`/api/timingoverrides`),
+  ]);
+  if (!weeklyRes.ok || !overridesRes.ok) {
+    throw new Error("Failed to load temple timings");
+  }
+
+  const { data: weekly }: { data: ApiWeeklyTiming[] } = await weeklyRes.json();
+  const { data: overrides }: { data: ApiTimingOverride[] } =
+    await overridesRes.json();
+  return {
+    weekly: formatWeekly(weekly),
+    overrides: overrides.map(formatOverride),
+  };
+};
@@ -0,0 +1,258 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { useDataLocale, useLocalized, useT } from "../i18n/useT";
+import { Translations } from "../i18n/content";
+import { BookingStatus, bookingStatusLabels } from "../booking/status";
+
+interface TrackedBooking {
+  id: number;
+  name: string;
+  reason: string;
+  date: string;
+  endDate?: string;
+  status: BookingStatus | "pending"; // "pending" comes from older records
+  statusReason?: string | null; // Given when the temple rejects or cancels
+  hall: {
+    name: string;
+    name_kannada?: string;
+    translations?: Translations | null;
+  };
+}
+
+const normaliseStatus = (status: TrackedBooking["status"]): BookingStatus =>
+  status === "pending" ? "requested" : status;
+
+// Accept both "DES123" and "123"
+const parseBookingId = (value: string): number | null => {
+  const digits = value.trim().replace(/^DES/i, "");
+  return /^\d+$/.test(digits) ? Number(digits) : null;
+};
+
+const TrackBookingPage: React.FC = () => {
+  const [bookingId, setBookingId] = useState<string>("");
+  const [mobileNumber, setMobileNumber] = useState<string>("");
+  const [otp, setOtp] = useState<string>("");
+  const [isOtpSent, setIsOtpSent] = useState<boolean>(false);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [message, setMessage] = useState<string>("");
+  const [booking, setBooking] = useState<TrackedBooking | null>(null);
+
+  const currentLocale = useDataLocale();
+  const localized = useLocalized();
+  const t = useT("trackBooking");
+  const tCommon = useT("common");
+
+  useEffect(() => {
+    // Prefill the ID when arriving from a confirmation link (?id=DES123)
+    const idFromUrl = new URLSearchParams(window.location.search).get("id");
+    if (idFromUrl) setBookingId(idFromUrl);
+  }, []);
+
+  const handleMobileNumberChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = e.target.value.replace(/\D/g, ""); // Remove non-numeric characters
+    if (value.length <= 10) {
+      setMobileNumber(value);
+    }
+  };
+
+  const sendOtp = async () => {
+    if (parseBookingId(bookingId) === null) {
+      setMessage(t("invalidId"));
+      return;
+    }
+    if (mobileNumber.length !== 10) {
+      setMessage(tCommon("invalidMobile"));
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const response = await fetch("/api/otp/send", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ mobileNumber: "+91" + mobileNumber }),
+      });
+
+      const data = await response.json();
+      if (response.ok) {
+        setMessage("");
+        setIsOtpSent(true);
+      } else {
+        setMessage(tCommon("error", { message: data.message || tCommon("sendOtpFailed") }));
+      }
+    } catch (error) {
+      console.error("Error sending OTP:", error);
+      setMessage(tCommon("error", { message: tCommon("sendOtpFailed") }));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // The track route checks the OTP before looking the booking up for that
+  // mobile number
+  const verifyAndTrack = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const id = parseBookingId(bookingId);
+    if (id === null) {
+      setMessage(t("invalidId"));
+      return;
+    }
+
+    setLoading(true);
+    setBooking(null);
+    try {
+      const response = await fetch("/api/hallforms/track", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          bookingId: id,
+          mobileNumber: "+91" + mobileNumber,
+          otp,
+        }),
+      });
+
+      if (response.status === 404) {
+        throw new Error(t("notFound"));
+      }
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || t("fetchFailed"));
+      }
+
+      setBooking(data.data);
+      setMessage("");
+      setOtp("");
+      setIsOtpSent(false);
+    } catch (error) {
+      setMessage(
+        error instanceof Error ? error.message : tCommon("unexpectedError")
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const formatDate = (date: string) =>
+    new Date(date).toLocaleDateString("en-GB");
+
+  return (
+    <main className="min-h-screen flex flex-col items-center p-6 bg-[var(--background)] font-serif">
+      <h1 className="text-3xl font-bold mb-4 text-[var(--foreground)] text-center">
+        {t("title")}
+      </h1>
+      <p className="max-w-lg text-center text-gray-700 mb-6">{t("intro")}</p>
+
+      <form
+        onSubmit={verifyAndTrack}
+        className="space-y-4 max-w-lg w-full bg-white shadow rounded-lg p-6"
+      >
+        <div>
+          <label className="block text-sm font-medium">{t("bookingId")}</label>
+          <input
+            type="text"
+            value={bookingId}
+            onChange={(e) => setBookingId(e.target.value.toUpperCase())}
+            className="mt-1 p-2 border rounded w-full"
+            placeholder="DES123"
+            required
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium">{t("mobileNumber")}</label>
+          <div className="flex items-center mt-1 space-x-2">
+            <div className="flex items-center bg-gray-100 border border-gray-300 rounded px-3 py-2">
+              <span role="img" aria-label="India flag">
+                🇮🇳
+              </span>
+              <span className="ml-2 text-gray-700 font-medium">+91</span>
+            </div>
+            <input
+              type="text"
+              value={mobileNumber}
+              onChange={handleMobileNumberChange}
+              className="flex-1 p-2 border border-gray-300 rounded w-full"
+              maxLength={10}
+              disabled={isOtpSent}
+              required
+            />
+          </div>
+          {!isOtpSent && (
+            <button
+              type="button"
+              onClick={sendOtp}
+              disabled={loading}
+              className="mt-2 px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:bg-gray-400"
+            >
+              {tCommon("sendOtp")}
+            </button>
+          )}
+        </div>
+
+        {isOtpSent && (
+          <div>
+            <label className="block text-sm font-medium">{tCommon("otp")}</label>
+            <input
+              type="text"
+              value={otp}
+              onChange={(e) => setOtp(e.target.value)}
+              className="mt-1 p-2 border rounded w-full"
+              required
+            />
+            <button
+              type="submit"
+              disabled={loading}
+              className="mt-2 px-4 py-2 bg-green-500 text-white rounded hover:bg-green-600 disabled:bg-gray-400"
+            >
+              {loading ? t("checking") : tCommon("verifyOtp")}
+            </button>
+          </div>
+        )}
+
+        {message && <p className="text-red-500 text-sm">{message}</p>}
+      </form>
+
+      {booking && (
+        <div className="max-w-lg w-full mt-6 bg-white shadow rounded-lg p-6 border-l-4 border-orange-500">
+          <div className="flex justify-between items-center mb-4">
+            <h2 className="text-xl font-semibold text-orange-600">
+              DES{booking.id}
+            </h2>
+            <span
+              className={`px-3 py-1 rounded-full text-sm font-medium ${
+                bookingStatusLabels[normaliseStatus(booking.status)].badgeClassName
+              }`}
+            >
+              {bookingStatusLabels[normaliseStatus(booking.status)][currentLocale]}
+            </span>
+          </div>
+          <p className="text-gray-700 mb-2">
+            {t("name")}: {booking.name}
+          </p>
+          <p className="text-gray-700 mb-2">
+            {t("hall")}:{" "}
+            {localized(booking.hall, "name")}
+          </p>
+          <p className="text-gray-700 mb-2">
+            {t("date")}: {formatDate(booking.date)}
+            {booking.endDate &&
+              booking.endDate !== booking.date &&
+              ` – ${formatDate(booking.endDate)}`}
+          </p>
+          <p className="text-gray-700">
+            {t("purpose")}: {booking.reason}
+          </p>
+          {booking.statusReason && (
+            <p className="text-red-600 mt-2">
+              {t("statusReason")}: {booking.statusReason}
+            </p>
+          )}
+        </div>
+      )}
+    </main>
+  );
+};
+
+export default TrackBookingPage;
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isLocale } from "./app/i18n";
+import {
+  DEFAULT_LOCALE,
+  LOCALE_COOKIE,
+  LOCALE_HEADER,
+  localizePath,
+  negotiateLocale,
+  splitLocale,
+} from "./app/i18n/routing";
+
+const ONE_YEAR = 60 * 60 * 24 * 365;
+
+// Staff pages are in English only and keep their URLs
+const UNPREFIXED = ["/admin", "/login"];
+
+const isUnprefixed = (pathname: string) =>
+  UNPREFIXED.some(
+    (page) => pathname === page || pathname.startsWith(`${page}/`)
+  );
+
+// /kn/events is served by app/events with the locale passed on in a header;
+// a path without a prefix is redirected to the visitor's language, taken from
+// ?lang (links made before the prefixes), the cookie or Accept-Language
+export function middleware(request: NextRequest) {
+  if (isUnprefixed(request.nextUrl.pathname)) return NextResponse.next();
+
+  const { locale, path } = splitLocale(request.nextUrl.pathname);
+
+  if (locale) {
+    const url = request.nextUrl.clone();
+    url.pathname = path;
+    const headers = new Headers(request.headers);
+    headers.set(LOCALE_HEADER, locale);
+    const response = NextResponse.rewrite(url, { request: { headers } });
+    response.cookies.set(LOCALE_COOKIE, locale, {
+      path: "/",
+      maxAge: ONE_YEAR,
+      sameSite: "lax",
+    });
+    return response;
+  }
+
+  const url = request.nextUrl.clone();
+  const fromQuery = url.searchParams.get("lang");
+  url.searchParams.delete("lang");
+  const preferred =
+    [fromQuery, request.cookies.get(LOCALE_COOKIE)?.value].find(isLocale) ??
+    negotiateLocale(request.headers.get("accept-language")) ??
+    DEFAULT_LOCALE;
+  url.pathname = localizePath(preferred, path);
+  return NextResponse.redirect(url);
+}
+
+// The API, Next.js assets and files such as sitemap.xml are never prefixed
+export const config = {
+  matcher: ["/((?!api/|_next/|.*\\..*).*)"],
+};
@@ -0,0 +1,287 @@
+// Builds the bundled panchanga tables in app/panchanga/data/<year>.json.
+//
+//   node scripts/generate-panchanga.mjs 2026 2028
+//
+// Each day is reckoned at sunrise at Chokkadi, as the temple does. Positions
+// use the low-precision series from Meeus, "Astronomical Algorithms" (ch. 25
+// for the Sun, ch. 47 for the Moon), which is good to about a minute for the
+// nakshatra and tithi changes, with the Lahiri ayanamsa. Months are amanta
+// (new moon to new moon), as followed in coastal Karnataka. Tithis are also
+// recorded at midday, in the afternoon and at midnight for festivals that
+// are kept by the tithi at those times rather than at sunrise.
+
+import { mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+
+const appDir = join(dirname(fileURLToPath(import.meta.url)), "../app");
+
+// Shrirama Temple, Chokkadi: the same point the site's structured data gives
+const { latitude: LATITUDE, longitude: LONGITUDE } = JSON.parse(
+  readFileSync(join(appDir, "seo/location.json"), "utf8")
+);
+const IST_OFFSET_MINUTES = 330;
+const DELTA_T_SECONDS = 69; // TT − UT, close enough for these years
+
+const outputDir = join(appDir, "panchanga/data");
+
+const rad = (deg) => (deg * Math.PI) / 180;
+const deg = (r) => (r * 180) / Math.PI;
+const norm = (angle) => ((angle % 360) + 360) % 360;
+
+const julianDay = (date) => date.getTime() / 86400000 + 2440587.5;
+const centuries = (jd) => (jd - 2451545) / 36525;
+
+// Apparent tropical longitude, declination and equation of time of the Sun
+const sunPosition = (jd) => {
+  const T = centuries(jd);
+  const L0 = norm(280.46646 + 36000.76983 * T + 0.0003032 * T * T);
+  const M = rad(357.52911 + 35999.05029 * T - 0.0001537 * T * T);
+  const e = 0.016708634 - 0.000042037 * T;
+  const C =
+    (1.914602 - 0.004817 * T - 0.000014 * T * T) * Math.sin(M) +
+    (0.019993 - 0.000101 * T) * Math.sin(2 * M) +
+    0.000289 * Math.sin(3 * M);
+  const omega = rad(125.04 - 1934.136 * T);
+  const longitude = norm(L0 + C - 0.00569 - 0.00478 * Math.sin(omega));
+  const epsilon = rad(23.439291 - 0.0130042 * T + 0.00256 * Math.cos(omega));
+  const declination = Math.asin(Math.sin(epsilon) * Math.sin(rad(longitude)));
+
+  const y = Math.tan(epsilon / 2) ** 2;
+  const l0 = rad(L0);
+  const equationOfTime =
+    4 *
+    deg(
+      y * Math.sin(2 * l0) -
+        2 * e * Math.sin(M) +
+        4 * e * y * Math.sin(M) * Math.cos(2 * l0) -
+        0.5 * y * y * Math.sin(4 * l0) -
+        1.25 * e * e * Math.sin(2 * M)
+    );
+
+  return { longitude, declination, equationOfTime };
+};
+
+// Main periodic terms of the Moon's longitude: [D, M, M', F, coefficient × 1e-6°]
+const MOON_TERMS = [
+  [0, 0, 1, 0, 6288774],
+  [2, 0, -1, 0, 1274027],
+  [2, 0, 0, 0, 658314],
+  [0, 0, 2, 0, 213618],
+  [0, 1, 0, 0, -185116],
+  [0, 0, 0, 2, -114332],
+  [2, 0, -2, 0, 58793],
+  [2, -1, -1, 0, 57066],
+  [2, 0, 1, 0, 53322],
+  [2, -1, 0, 0, 45758],
+  [0, 1, -1, 0, -40923],
+  [1, 0, 0, 0, -34720],
+  [0, 1, 1, 0, -30383],
+  [2, 0, 0, -2, 15327],
+  [0, 0, 1, 2, -12528],
+  [0, 0, 1, -2, 10980],
+  [4, 0, -1, 0, 10675],
+  [0, 0, 3, 0, 10034],
+  [4, 0, -2, 0, 8548],
+  [2, 1, -1, 0, -7888],
+  [2, 1, 0, 0, -6766],
+  [1, 0, -1, 0, -5163],
+  [1, 1, 0, 0, 4987],
+  [2, -1, 1, 0, 4036],
+  [2, 0, 2, 0, 3994],
+  [4, 0, 0, 0, 3861],
+  [2, 0, -3, 0, 3665],
+  [0, 1, -2, 0, -2689],
+  [2, 0, -1, 2, -2602],
+  [2, -1, -2, 0, 2390],
+  [1, 0, 1, 0, -2348],
+  [2, -2, 0, 0, 2236],
+  [0, 1, 2, 0, -2120],
+  [0, 2, 0, 0, -2069],
+  [2, -2, -1, 0, 2048],
+  [2, 0, 1, -2, -1773],
+  [2, 0, 0, 2, -1595],
+  [4, -1, -1, 0, 1215],
+  [0, 0, 2, 2, -1110],
+  [3, 0, -1, 0, -892],
+  [2, 1, 1, 0, -810],
+  [4, -1, -2, 0, 759],
+  [0, 2, -1, 0, -713],
+  [2, 2, -1, 0, -700],
+  [2, 1, -2, 0, 691],
+  [2, -1, 0, -2, 596],
+  [4, 0, 1, 0, 549],
+  [0, 0, 4, 0, 537],
+  [4, -1, 0, 0, 520],
+  [1, 0, -2, 0, -487],
+];
+
+// Tropical longitude of the Moon
+const moonLongitude = (jd) => {
+  const T = centuries(jd);
+  const Lp = 218.3164477 + 481267.88123421 * T - 0.0015786 * T * T;
+  const D = 297.8501921 + 445267.1114034 * T - 0.0018819 * T * T;
+  const M = 357.5291092 + 35999.0502909 * T - 0.0001536 * T * T;
+  const Mp = 134.9633964 + 477198.8675055 * T + 0.0087414 * T * T;
+  const F = 93.272095 + 483202.0175233 * T - 0.0036539 * T * T;
+  const E = 1 - 0.002516 * T - 0.0000074 * T * T;
+
+  let sum = 0;
+  for (const [d, m, mp, f, coefficient] of MOON_TERMS) {
+    const eccentricity = Math.abs(m) === 2 ? E * E : Math.abs(m) === 1 ? E : 1;
+    sum +=
+      coefficient *
+      eccentricity *
+      Math.sin(rad(d * D + m * M + mp * Mp + f * F));
+  }
+  const A1 = 119.75 + 131.849 * T;
+  const A2 = 53.09 + 479264.29 * T;
+  sum +=
+    3958 * Math.sin(rad(A1)) +
+    1962 * Math.sin(rad(Lp - F)) +
+    318 * Math.sin(rad(A2));
+
+  return norm(Lp + sum / 1e6);
+};
+
+// Lahiri (Chitrapaksha) ayanamsa
+const ayanamsa = (jd) => 23.857092 + 1.396971 * centuries(jd);
+
+// Sunrise or sunset (upper limb, with refraction) in UT for the given IST
+// calendar day
+const sunEvent = (year, month, day, event) => {
+  const midnightUT = Date.UTC(year, month - 1, day);
+  const sign = event === "rise" ? 1 : -1;
+  let minutes = 720 - sign * 360 - IST_OFFSET_MINUTES; // First guess: 6 am/pm IST
+  for (let i = 0; i < 3; i++) {
+    const { declination, equationOfTime } = sunPosition(
+      julianDay(new Date(midnightUT + minutes * 60000))
+    );
+    const latitude = rad(LATITUDE);
+    const hourAngle = deg(
+      Math.acos(
+        Math.cos(rad(90.833)) / (Math.cos(latitude) * Math.cos(declination)) -
+          Math.tan(latitude) * Math.tan(declination)
+      )
+    );
+    minutes = 720 - 4 * (LONGITUDE + sign * hourAngle) - equationOfTime;
+  }
+  return new Date(midnightUT + minutes * 60000);
+};
+
+const sunrise = (year, month, day) => sunEvent(year, month, day, "rise");
+const sunset = (year, month, day) => sunEvent(year, month, day, "set");
+
+const siderealSun = (jd) => norm(sunPosition(jd).longitude - ayanamsa(jd));
+
+// Moon ahead of the Sun; 0° at new moon, 180° at full moon
+const elongation = (jd) => norm(moonLongitude(jd) - sunPosition(jd).longitude);
+
+// New moons (as JDE) between two dates, found by bisecting the 360° → 0° wrap
+const newMoonsBetween = (fromJd, toJd) => {
+  const moons = [];
+  for (let jd = fromJd; jd < toJd; jd += 1) {
+    if (elongation(jd) > 300 && elongation(jd + 1) < 60) {
+      let low = jd;
+      let high = jd + 1;
+      while (high - low > 1 / 1440) {
+        const mid = (low + high) / 2;
+        if (elongation(mid) > 180) low = mid;
+        else high = mid;
+      }
+      moons.push(high);
+    }
+  }
+  return moons;
+};
+
+const daysInYear = (year) =>
+  (Date.UTC(year + 1, 0, 1) - Date.UTC(year, 0, 1)) / 86400000;
+
+// Column per value, one entry per day of the year:
+//   nakshatra  0–26, Ashwini to Revati
+//   tithi      0–29, Shukla Pratipada to Amavasya (paksha follows from it)
+//   tithiMadhyahna, tithiAparahna, tithiNishita
+//              the tithi at midday, in the afternoon (the middle of the
+//              fourth fifth of daylight) and at midnight (halfway from
+//              sunset to the next sunrise)
+//   masa       0–11, Chaitra to Phalguna; adhikaDays lists the days that
+//              fall in an adhika (extra) month
+//   sunRashi   0–11, Mesha to Meena; a change marks a sankramana
+const buildYear = (year) => {
+  const nakshatra = [];
+  const tithi = [];
+  const tithiMadhyahna = [];
+  const tithiAparahna = [];
+  const tithiNishita = [];
+  const masa = [];
+  const adhikaDays = [];
+  const sunRashi = [];
+
+  const firstJd = julianDay(new Date(Date.UTC(year, 0, 1)));
+  const newMoons = newMoonsBetween(
+    firstJd - 40,
+    firstJd + daysInYear(year) + 40
+  );
+  const rashiAt = (jd) => Math.floor(siderealSun(jd) / 30);
+
+  for (let dayOfYear = 0; dayOfYear < daysInYear(year); dayOfYear++) {
+    const date = new Date(Date.UTC(year, 0, 1 + dayOfYear));
+    const rise = sunrise(year, date.getUTCMonth() + 1, date.getUTCDate());
+    const set = sunset(year, date.getUTCMonth() + 1, date.getUTCDate());
+    const nextDate = new Date(date.getTime() + 86400000);
+    const nextRise = sunrise(
+      nextDate.getUTCFullYear(),
+      nextDate.getUTCMonth() + 1,
+      nextDate.getUTCDate()
+    );
+    const jde = julianDay(rise) + DELTA_T_SECONDS / 86400;
+    const day = julianDay(set) - julianDay(rise);
+    const tithiAt = (jd) => Math.floor(elongation(jd) / 12);
+
+    const sidereal = norm(moonLongitude(jde) - ayanamsa(jde));
+    nakshatra.push(Math.floor(sidereal / (360 / 27)));
+    tithi.push(tithiAt(jde));
+    tithiMadhyahna.push(tithiAt(jde + day / 2));
+    tithiAparahna.push(tithiAt(jde + day * 0.7));
+    tithiNishita.push(
+      tithiAt(jde + (day + julianDay(nextRise) - julianDay(rise)) / 2)
+    );
+    sunRashi.push(rashiAt(jde));
+
+    // A month is named after the rashi the Sun is in when it begins
+    // (Sun in Meena → Chaitra); if the Sun is still in that rashi when the
+    // month ends, no sankramana fell in it and it is an adhika month
+    const next = newMoons.findIndex((moon) => moon > jde);
+    const startRashi = rashiAt(newMoons[next - 1]);
+    masa.push((startRashi + 1) % 12);
+    if (rashiAt(newMoons[next]) === startRashi) adhikaDays.push(dayOfYear);
+  }
+
+  return {
+    year,
+    nakshatra,
+    tithi,
+    tithiMadhyahna,
+    tithiAparahna,
+    tithiNishita,
+    masa,
+    adhikaDays,
+    sunRashi,
+  };
+};
+
+const [from, to = from] = process.argv.slice(2).map(Number);
+if (!from) {
+  console.error(
+    "Usage: node scripts/generate-panchanga.mjs <from-year> [to-year]"
+  );
+  process.exit(1);
+}
+
+mkdirSync(outputDir, { recursive: true });
+for (let year = from; year <= to; year++) {
+  const file = join(outputDir, `${year}.json`);
+  writeFileSync(file, JSON.stringify(buildYear(year)) + "\n");
+  console.log(`Wrote ${file}`);
+}